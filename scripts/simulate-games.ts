@@ -0,0 +1,208 @@
+/**
+ * 无头对局模拟脚本
+ * 批量运行全 AI 观战对局，输出每局结果并汇总阵营 / 角色 / 模型胜率，用于大规模评估 Prompt 改动
+ *
+ * 使用方法:
+ * 1. 在 .env.local 中配置 LLM_BASE_URL 与 LLM_API_KEY（OpenAI 兼容的 chat/completions 接口）
+ *    可选 LLM_MODEL：所有座位统一使用该模型，否则按座位模型请求；使用 --mock 时无需配置
+ * 2. 运行: npx tsx scripts/simulate-games.ts --games 20 --players 10 --seed prompt-v2
+ *
+ * 参数:
+ *   --games <n>        对局数（默认 10）
+ *   --players <n>      人数，使用该人数的标准板子（默认 10）
+ *   --seed <s>         基础种子，第 i 局使用 "<s>-<i>"，便于复现
+ *   --max-days <n>     单局天数上限（默认 12）
+ *   --difficulty <d>   easy | normal | hard
+ *   --models <a,b,c>   按座位轮流分配的模型列表
+ *   --out <dir>        输出目录（默认 sim-results/<时间戳>）
+ *   --mock             使用本地模拟模型，无需网络和 API Key
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { DifficultyLevel, ModelRef } from "../src/types/game";
+import { setLLMBackend, type ChatCompletionResponse, type LLMBackend } from "../src/lib/llm";
+import { mockLLMBackend } from "../src/lib/mock-llm";
+import { aggregateResults, runHeadlessGame, type HeadlessGameResult, type WinRateEntry } from "../src/game/headless";
+
+// 手动加载 .env.local 环境变量
+function loadEnvFile(filePath: string): void {
+  if (!fs.existsSync(filePath)) {
+    console.warn(`Warning: ${filePath} not found`);
+    return;
+  }
+  const content = fs.readFileSync(filePath, "utf8");
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const eqIndex = trimmed.indexOf("=");
+    if (eqIndex === -1) continue;
+    const key = trimmed.slice(0, eqIndex).trim();
+    let value = trimmed.slice(eqIndex + 1).trim();
+    // 移除引号
+    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+      value = value.slice(1, -1);
+    }
+    if (!process.env[key]) {
+      process.env[key] = value;
+    }
+  }
+}
+
+loadEnvFile(path.join(process.cwd(), ".env.local"));
+
+interface CliOptions {
+  games: number;
+  players: number;
+  seed: string;
+  maxDays: number;
+  difficulty: DifficultyLevel;
+  models: string[];
+  outDir: string;
+  mock: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i];
+    if (!key.startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith("--")) {
+      args.set(key.slice(2), "true");
+    } else {
+      args.set(key.slice(2), next);
+      i++;
+    }
+  }
+
+  const toInt = (value: string | undefined, fallback: number) => {
+    const n = Number.parseInt(value ?? "", 10);
+    return Number.isFinite(n) && n > 0 ? n : fallback;
+  };
+  const difficulty = args.get("difficulty");
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+
+  return {
+    games: toInt(args.get("games"), 10),
+    players: toInt(args.get("players"), 10),
+    seed: args.get("seed") || `sim-${Date.now().toString(36)}`,
+    maxDays: toInt(args.get("max-days"), 12),
+    difficulty: difficulty === "easy" || difficulty === "hard" ? difficulty : "normal",
+    models: (args.get("models") ?? "")
+      .split(",")
+      .map((m) => m.trim())
+      .filter(Boolean),
+    outDir: args.get("out") || path.join(process.cwd(), "sim-results", timestamp),
+    mock: args.get("mock") === "true",
+  };
+}
+
+/** OpenAI 兼容接口的后端，脚本运行在 Node 中无法读取浏览器里的 API 配置 */
+function createHttpBackend(): LLMBackend {
+  const baseUrl = process.env.LLM_BASE_URL;
+  const apiKey = process.env.LLM_API_KEY;
+  const modelOverride = process.env.LLM_MODEL;
+
+  if (!baseUrl || !apiKey) {
+    throw new Error("Missing LLM_BASE_URL or LLM_API_KEY in environment variables");
+  }
+
+  return {
+    async complete(options) {
+      const response = await fetch(baseUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: modelOverride || options.model,
+          messages: options.messages,
+          temperature: options.temperature ?? 0.7,
+          max_tokens: options.max_tokens,
+          ...(options.reasoning ? { reasoning: options.reasoning } : {}),
+          ...(options.response_format ? { response_format: options.response_format } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} - ${await response.text()}`);
+      }
+
+      const raw = (await response.json()) as ChatCompletionResponse;
+      const message = raw.choices?.[0]?.message;
+      if (!message) {
+        throw new Error(`No response from model. Raw response: ${JSON.stringify(raw).slice(0, 500)}`);
+      }
+      return { content: message.content, reasoning_details: message.reasoning_details, raw };
+    },
+  };
+}
+
+const formatRate = (entry: WinRateEntry) =>
+  `${(entry.winRate * 100).toFixed(1).padStart(5)}%  (${entry.wins}/${entry.games})`;
+
+function printTable(title: string, table: Record<string, WinRateEntry | undefined>): void {
+  console.log(`\n${title}`);
+  for (const [key, entry] of Object.entries(table)) {
+    if (entry) console.log(`  ${key.padEnd(36)} ${formatRate(entry)}`);
+  }
+}
+
+async function simulateGames(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  setLLMBackend(options.mock ? mockLLMBackend : createHttpBackend());
+  fs.mkdirSync(options.outDir, { recursive: true });
+
+  const modelRefs: ModelRef[] | undefined =
+    options.models.length > 0
+      ? Array.from({ length: options.players }, (_, i) => ({
+          provider: "zenmux" as const,
+          model: options.models[i % options.models.length],
+        }))
+      : undefined;
+
+  console.log(`\nSimulating ${options.games} games (${options.players} players, seed "${options.seed}")...\n`);
+
+  // gameRng 为全局单例，对局必须串行执行
+  const results: HeadlessGameResult[] = [];
+  for (let i = 0; i < options.games; i++) {
+    const seed = `${options.seed}-${i}`;
+    const result = await runHeadlessGame({
+      playerCount: options.players,
+      seed,
+      difficulty: options.difficulty,
+      modelRefs,
+      maxDays: options.maxDays,
+    });
+    results.push(result);
+
+    const fileName = `game-${String(i + 1).padStart(3, "0")}.json`;
+    fs.writeFileSync(path.join(options.outDir, fileName), JSON.stringify(result, null, 2));
+
+    const outcome = result.error ? `FAIL ${result.error}` : result.winner ? `${result.winner} wins` : "unfinished";
+    console.log(
+      `[${i + 1}/${options.games}] ${seed}: ${outcome} (day ${result.days}, ${(result.durationMs / 1000).toFixed(1)}s)`
+    );
+  }
+
+  const summary = aggregateResults(results);
+  fs.writeFileSync(path.join(options.outDir, "summary.json"), JSON.stringify(summary, null, 2));
+
+  console.log(`\n========================================`);
+  console.log(`Simulation complete!`);
+  console.log(
+    `Finished: ${summary.finishedGames}/${summary.totalGames}, Failed: ${summary.failedGames}, Avg days: ${summary.averageDays.toFixed(1)}`
+  );
+  printTable("Win rate by alignment:", summary.byAlignment);
+  printTable("Win rate by role:", summary.byRole);
+  printTable("Win rate by model:", summary.byModel);
+  console.log(`\nOutput directory: ${options.outDir}`);
+  console.log(`========================================\n`);
+}
+
+simulateGames().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,16 @@
+import { authenticateToken, isAuthConfigured } from "@/lib/server/auth";
+import { consumeCredit } from "@/lib/server/credits";
+import { getServerDataStore } from "@/lib/server/data-store";
+import { getBearerToken, jsonError } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  if (!isAuthConfigured()) return jsonError(req, "serverConfigError", 503);
+
+  const user = await authenticateToken(getBearerToken(req));
+  if (!user) return jsonError(req, "unauthorized", 401);
+
+  const result = await consumeCredit(await getServerDataStore(), user.id);
+  return result.ok ? Response.json(result.data) : jsonError(req, result.error, result.status);
+}
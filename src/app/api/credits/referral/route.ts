@@ -0,0 +1,17 @@
+import { authenticateToken, isAuthConfigured } from "@/lib/server/auth";
+import { applyReferral } from "@/lib/server/credits";
+import { getServerDataStore } from "@/lib/server/data-store";
+import { getBearerToken, jsonError, readJsonBody } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  if (!isAuthConfigured()) return jsonError(req, "serverConfigError", 503);
+
+  const user = await authenticateToken(getBearerToken(req));
+  if (!user) return jsonError(req, "unauthorized", 401);
+
+  const body = await readJsonBody<{ referralCode?: unknown }>(req);
+  const result = await applyReferral(await getServerDataStore(), user.id, body?.referralCode);
+  return result.ok ? Response.json({ success: true, ...result.data }) : jsonError(req, result.error, result.status);
+}
@@ -0,0 +1,29 @@
+import { authenticateToken, isAuthConfigured } from "@/lib/server/auth";
+import { getServerDataStore } from "@/lib/server/data-store";
+import { createGameSession, updateGameSession, type GameSessionRequestBody } from "@/lib/server/game-sessions";
+import { getBearerToken, jsonError, readJsonBody } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  if (!isAuthConfigured()) return jsonError(req, "serverConfigError", 503);
+
+  const body = await readJsonBody<GameSessionRequestBody>(req);
+  if (!body) return jsonError(req, "invalidPayload", 400);
+
+  const token = getBearerToken(req) ?? (typeof body.accessToken === "string" ? body.accessToken : null);
+  const user = await authenticateToken(token);
+  if (!user) return jsonError(req, "unauthorized", 401);
+
+  const store = await getServerDataStore();
+  if (body.action === "create") {
+    const region = req.headers.get("x-vercel-ip-country") ?? req.headers.get("cf-ipcountry");
+    const result = await createGameSession(store, user, body, region);
+    return result.ok ? Response.json(result.data) : jsonError(req, result.error, result.status);
+  }
+  if (body.action === "update") {
+    const result = await updateGameSession(store, user, body);
+    return result.ok ? Response.json(result.data) : jsonError(req, result.error, result.status);
+  }
+  return jsonError(req, "invalidPayload", 400);
+}
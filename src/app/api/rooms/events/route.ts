@@ -0,0 +1,138 @@
+import { jsonError } from "@/lib/server/http";
+import { isLocalStorageEnabled, readObject, resolveObjectPath } from "@/lib/server/object-store";
+import { publishRoomHint, publishRoomState, subscribeRoomEvents, type RoomEvent } from "@/lib/server/room-events";
+import type { RoomState } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+const MAX_PARAM_LENGTH = 256;
+// 代理与负载均衡会断开长时间没有数据的连接
+const KEEP_ALIVE_MS = 15000;
+const MAX_HINT_BYTES = 256;
+
+function getParam(req: Request, name: string): string | null {
+  const value = new URL(req.url).searchParams.get(name);
+  return value && value.length <= MAX_PARAM_LENGTH ? value : null;
+}
+
+function eventData(event: RoomEvent): unknown {
+  switch (event.type) {
+    case "snapshot":
+      return event.room;
+    case "delta":
+      return event.delta;
+    case "hint":
+      return { version: event.version };
+  }
+}
+
+const formatEvent = (event: RoomEvent) => `event: ${event.type}\ndata: ${JSON.stringify(eventData(event))}\n\n`;
+
+/** 订阅房间频道（Server-Sent Events） */
+export async function GET(req: Request) {
+  const channel = getParam(req, "channel");
+  const playerId = getParam(req, "player");
+  if (!channel || !playerId) return jsonError(req, "invalidPayload", 400);
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup?.();
+        }
+      };
+
+      const unsubscribe = subscribeRoomEvents(channel, playerId, (event) => write(formatEvent(event)));
+      const keepAlive = setInterval(() => write(": keep-alive\n\n"), KEEP_ALIVE_MS);
+      cleanup = () => {
+        cleanup = null;
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+
+      req.signal.addEventListener("abort", () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // 已关闭
+        }
+      });
+      write("retry: 3000\n\n");
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+/** 解析 `${provider}:${bucket}/${roomId}` 格式的频道 */
+function parseChannel(channel: string): { provider: string; bucket: string; roomId: string } | null {
+  const match = /^([a-z]+):(.+)\/([^/]+)$/.exec(channel);
+  return match ? { provider: match[1], bucket: match[2], roomId: match[3] } : null;
+}
+
+/** 本服务器托管的 local 存储中的房间；不存在或无法读取时返回 null */
+async function readStoredRoom(bucket: string, roomId: string): Promise<RoomState | null> {
+  const filePath = resolveObjectPath(bucket, ["rooms", `${roomId}.json`]);
+  if (!filePath) return null;
+  try {
+    const body = await readObject(filePath);
+    return body === null ? null : (JSON.parse(body) as RoomState);
+  } catch (error) {
+    console.error("[room-events] Failed to read stored room:", error);
+    return null;
+  }
+}
+
+/**
+ * 通知频道房间已写入存储，请求体只有 { version }，不接受房间内容：
+ * local 存储由本服务器读取存储中的房间，校验房主与版本后推送增量；
+ * 云存储读不到存储中的房间，只推送"房间已更新到某版本"的提示，由客户端自行从存储读取
+ */
+export async function POST(req: Request) {
+  const channel = getParam(req, "channel");
+  const playerId = getParam(req, "player");
+  const target = channel ? parseChannel(channel) : null;
+  if (!channel || !playerId || !target) return jsonError(req, "invalidPayload", 400);
+
+  const body = await req.text();
+  if (Buffer.byteLength(body) > MAX_HINT_BYTES) return jsonError(req, "invalidPayload", 413);
+
+  let version: unknown;
+  try {
+    version = (JSON.parse(body) as { version?: unknown } | null)?.version;
+  } catch {
+    return jsonError(req, "invalidPayload", 400);
+  }
+  if (typeof version !== "number" || !Number.isSafeInteger(version) || version < 1) {
+    return jsonError(req, "invalidPayload", 400);
+  }
+
+  if (target.provider === "local") {
+    if (!isLocalStorageEnabled()) return new Response(null, { status: 404 });
+    const stored = await readStoredRoom(target.bucket, target.roomId);
+    if (!stored) return new Response(null, { status: 404 });
+    if (stored.hostId !== playerId) return jsonError(req, "unauthorized", 403);
+    if (version > stored.version) return new Response(null, { status: 409 });
+    publishRoomState(channel, stored);
+    return new Response(null, { status: 204 });
+  }
+
+  publishRoomHint(channel, version);
+  return new Response(null, { status: 204 });
+}
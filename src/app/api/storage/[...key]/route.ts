@@ -0,0 +1,93 @@
+import { jsonError } from "@/lib/server/http";
+import {
+  MAX_OBJECT_BYTES,
+  STORAGE_SECRET_HEADER,
+  computeETag,
+  deleteObject,
+  hasBucketCapacity,
+  isLocalStorageEnabled,
+  isStorageSecretValid,
+  readObject,
+  resolveObjectPath,
+  writeObjectIfMatch,
+} from "@/lib/server/object-store";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ key: string[] }>;
+}
+
+async function getObjectPath(req: Request, context: RouteContext): Promise<string | null> {
+  const { key } = await context.params;
+  return resolveObjectPath(getBucket(req), key);
+}
+
+const getBucket = (req: Request) => new URL(req.url).searchParams.get("bucket") ?? "";
+
+// 未开启本地存储时整个路由不存在
+const notFound = () => new Response(null, { status: 404 });
+
+const hasWriteSecret = (req: Request) => isStorageSecretValid(req.headers.get(STORAGE_SECRET_HEADER));
+
+export async function GET(req: Request, context: RouteContext) {
+  if (!isLocalStorageEnabled()) return notFound();
+  const filePath = await getObjectPath(req, context);
+  if (!filePath) return jsonError(req, "invalidPayload", 400);
+
+  try {
+    const body = await readObject(filePath);
+    if (body === null) return new Response(null, { status: 404 });
+    return new Response(body, {
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-store", ETag: computeETag(body) },
+    });
+  } catch (error) {
+    console.error("[storage] Failed to read object:", error);
+    return jsonError(req, "internalServerError", 500);
+  }
+}
+
+export async function PUT(req: Request, context: RouteContext) {
+  if (!isLocalStorageEnabled()) return notFound();
+  if (!hasWriteSecret(req)) return jsonError(req, "unauthorized", 403);
+  const filePath = await getObjectPath(req, context);
+  if (!filePath) return jsonError(req, "invalidPayload", 400);
+
+  const body = await req.text();
+  if (Buffer.byteLength(body) > MAX_OBJECT_BYTES) return jsonError(req, "invalidPayload", 413);
+  try {
+    JSON.parse(body);
+  } catch {
+    return jsonError(req, "invalidPayload", 400);
+  }
+
+  try {
+    if (!(await hasBucketCapacity(getBucket(req), filePath, Buffer.byteLength(body)))) {
+      return jsonError(req, "invalidPayload", 507);
+    }
+    const written = await writeObjectIfMatch(filePath, body, {
+      ifMatch: req.headers.get("if-match"),
+      ifNoneMatch: req.headers.get("if-none-match"),
+    });
+    if (!written) return new Response(null, { status: 412 });
+    return new Response(null, { status: 204, headers: { ETag: computeETag(body) } });
+  } catch (error) {
+    console.error("[storage] Failed to write object:", error);
+    return jsonError(req, "internalServerError", 500);
+  }
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  if (!isLocalStorageEnabled()) return notFound();
+  if (!hasWriteSecret(req)) return jsonError(req, "unauthorized", 403);
+  const filePath = await getObjectPath(req, context);
+  if (!filePath) return jsonError(req, "invalidPayload", 400);
+
+  try {
+    await deleteObject(filePath);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("[storage] Failed to delete object:", error);
+    return jsonError(req, "internalServerError", 500);
+  }
+}
@@ -0,0 +1,25 @@
+import { getSttProvider } from "@/lib/server/stt";
+import { jsonError, readJsonBody } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+// 约 25MB 音频的 base64 长度，与 Whisper 接口的文件上限一致
+const MAX_AUDIO_BASE64_LENGTH = 34_000_000;
+
+export async function POST(req: Request) {
+  const body = await readJsonBody<{ audio?: unknown; format?: unknown }>(req);
+  const audio = typeof body?.audio === "string" ? body.audio : "";
+  const format = typeof body?.format === "string" && /^[a-z0-9]+$/i.test(body.format) ? body.format.toLowerCase() : "wav";
+  if (!audio || audio.length > MAX_AUDIO_BASE64_LENGTH) return jsonError(req, "invalidPayload", 400);
+
+  const provider = getSttProvider();
+  if (!provider.isConfigured()) return jsonError(req, "sttUnavailable", 503);
+
+  try {
+    const text = await provider.transcribe(new Uint8Array(Buffer.from(audio, "base64")), format);
+    return Response.json({ text });
+  } catch (error) {
+    console.error("[stt] Transcription failed:", error);
+    return jsonError(req, "sttUnavailable", 502);
+  }
+}
@@ -0,0 +1,34 @@
+import { getTtsProvider } from "@/lib/server/tts";
+import { jsonError, readJsonBody } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+const MAX_TEXT_LENGTH = 2000;
+
+export async function POST(req: Request) {
+  const body = await readJsonBody<{ text?: unknown; voiceId?: unknown }>(req);
+  const text = typeof body?.text === "string" ? body.text.trim() : "";
+  const voiceId = typeof body?.voiceId === "string" ? body.voiceId.trim() : "";
+  if (!text || !voiceId) return jsonError(req, "missingTextOrVoice", 400);
+
+  const provider = getTtsProvider();
+  const credentials = {
+    apiKey: req.headers.get("x-minimax-api-key")?.trim() || undefined,
+    groupId: req.headers.get("x-minimax-group-id")?.trim() || undefined,
+  };
+  if (!provider.isConfigured(credentials)) return jsonError(req, "serverConfigError", 503);
+
+  try {
+    const result = await provider.synthesize({ text: text.slice(0, MAX_TEXT_LENGTH), voiceId }, credentials);
+    if (!result) return jsonError(req, "ttsNotSupported", 502);
+    return new Response(result.audio as Uint8Array<ArrayBuffer>, {
+      headers: {
+        "Content-Type": result.contentType,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error(`[tts] ${provider.id} synthesis failed:`, error);
+    return jsonError(req, "internalServerError", 502, { details: String(error) });
+  }
+}
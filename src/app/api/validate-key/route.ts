@@ -0,0 +1,11 @@
+import { validateUserKeys } from "@/lib/server/key-validation";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  const result = await validateUserKeys({
+    zenmux: req.headers.get("x-zenmux-api-key"),
+    dashscope: req.headers.get("x-dashscope-api-key"),
+  });
+  return Response.json(result, { status: result.valid || result.errorCode !== "no_key" ? 200 : 400 });
+}
@@ -13,6 +13,7 @@ import {
   Drop,
   Crosshair,
   GearSix,
+  ClockCounterClockwise,
 } from "@phosphor-icons/react";
 import {
   WerewolfIcon,
@@ -29,7 +30,8 @@ import {
 import { useTypewriter } from "@/hooks/useTypewriter";
 import { useGameLogic } from "@/hooks/useGameLogic";
 import type { Player, Role } from "@/types/game";
-import { PHASE_CONFIGS } from "@/store/game-machine";
+import { useAtom } from "jotai";
+import { PHASE_CONFIGS, turnTimerConfigAtom } from "@/store/game-machine";
 
 // Components
 import { WelcomeScreen } from "@/components/game/WelcomeScreen";
@@ -44,13 +46,18 @@ import { NightActionOverlay, type NightActionOverlayType } from "@/components/ga
 import { TutorialOverlay, type TutorialPayload } from "@/components/game/TutorialOverlay";
 import { DevConsole, DevModeButton } from "@/components/DevTools";
 import { SettingsModal } from "@/components/game/SettingsModal";
+import { ReplayViewer } from "@/components/game/ReplayViewer";
 
 import { buildSimpleAvatarUrl } from "@/lib/avatar-config";
 import { audioManager, makeAudioTaskId } from "@/lib/audio-manager";
 import { resolveVoiceId } from "@/lib/voice-constants";
 import { useSettings } from "@/hooks/useSettings";
 import { useTutorial } from "@/hooks/useTutorial";
+import { useTurnTimer } from "@/hooks/useTurnTimer";
+import { normalizeTurnTimerConfig } from "@/lib/turn-timer";
 import { getI18n } from "@/i18n/translator";
+import { serializeReplay, type GameReplay } from "@/lib/replay";
+import type { GameCheckpoint } from "@/lib/game-checkpoints";
 
 const RITUAL_CUE_DURATION_SECONDS = 2.2;
 const NIGHTFALL_CUE_REGEX = /^第\s*\d+\s*夜，天黑请闭眼$/;
@@ -72,6 +79,7 @@ const getRoleLabel = (role?: Role | null) => {
     case "Witch": return "女巫";
     case "Hunter": return "猎人";
     case "Guard": return "守卫";
+    case "Idiot": return "白痴";
     case "Villager": return "村民";
     default: return "?";
   }
@@ -120,14 +128,19 @@ export default function Home() {
     humanPlayer,
     isNight,
     startGame,
+    getReplay,
     continueAfterRoleReveal,
     restartGame,
+    resumeGame,
+    rewindToLastNight,
     handleHumanSpeech,
     handleFinishSpeaking,
     handleBadgeSignup,
     handleHumanVote,
     handleNightAction,
+    handleWolfChat,
     handleHumanBadgeTransfer,
+    handleTurnTimeout,
     handleNextRound,
     waitingForNextRound,
     scrollToBottom,
@@ -136,6 +149,8 @@ export default function Home() {
   const { settings, setBgmVolume, setSoundEnabled, setAiVoiceEnabled, setGenshinMode } = useSettings();
   const { bgmVolume, isSoundEnabled, isAiVoiceEnabled, isGenshinMode } = settings;
   const shouldUseAiVoice = isSoundEnabled && isAiVoiceEnabled && bgmVolume > 0;
+  const [storedTurnTimers, setTurnTimers] = useAtom(turnTimerConfigAtom);
+  const turnTimers = useMemo(() => normalizeTurnTimerConfig(storedTurnTimers), [storedTurnTimers]);
   const {
     state: tutorialState,
     isLoaded: isTutorialLoaded,
@@ -465,6 +480,7 @@ export default function Home() {
   const [isNotebookOpen, setIsNotebookOpen] = useState(false);
   const [isDevConsoleOpen, setIsDevConsoleOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [activeReplay, setActiveReplay] = useState<GameReplay | null>(null);
   const [detailPlayer, setDetailPlayer] = useState<Player | null>(null);
   const [isRoleRevealOpen, setIsRoleRevealOpen] = useState(false);
   const [hasShownRoleReveal, setHasShownRoleReveal] = useState(false);
@@ -828,6 +844,15 @@ export default function Home() {
     setIsTutorialOpen(false);
   }, [showTable]);
 
+  const handleResumeGame = useCallback(
+    (checkpoint: GameCheckpoint) => {
+      // 天亮 / 投票存档不会经过入夜的身份揭示，直接亮出身份
+      if (checkpoint.phase !== "NIGHT_START") setHasShownRoleReveal(true);
+      resumeGame(checkpoint);
+    },
+    [resumeGame]
+  );
+
   const triggerNightOverlay = useCallback((type: NightActionOverlayType, targetSeat?: number) => {
     if (!showTable) return;
     if (isRoleRevealOpen) return;
@@ -1006,6 +1031,14 @@ export default function Home() {
 
   const showWaitingIndicator = isWaitingForAI && !needsHumanAction;
 
+  const turnDeadline = useTurnTimer({
+    gameState,
+    humanPlayer,
+    config: turnTimers,
+    blocked: isRoleRevealOpen || isTutorialOpen || waitingForNextRound,
+    onTimeout: handleTurnTimeout,
+  });
+
   const hasSelectableTargets = useMemo(() => {
     return allPlayers.some((player) => canClickSeat(player));
   }, [allPlayers, canClickSeat]);
@@ -1047,6 +1080,38 @@ export default function Home() {
   // 欢迎阶段：未开始游戏时显示欢迎屏
   const isWelcomeStage = !gameStarted;
 
+  const handleWatchReplay = () => {
+    const replay = getReplay();
+    if (!replay) {
+      toast("暂无可回放的对局");
+      return;
+    }
+    setActiveReplay(replay);
+  };
+
+  const handleRewindToLastNight = async () => {
+    if (!(await rewindToLastNight())) {
+      toast("没有可以回到的夜晚");
+      return;
+    }
+    toast("已回到上一晚");
+  };
+
+  const handleExportReplay = () => {
+    const replay = getReplay();
+    if (!replay) {
+      toast("暂无可导出的对局");
+      return;
+    }
+    const blob = new Blob([serializeReplay(replay)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `wolfcha-replay-${replay.gameId.slice(0, 8)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="h-screen flex flex-col overflow-hidden bg-transparent">
       <GameBackground isNight={visualIsNight} isBlinking={!!dayNightBlinkPhase} />
@@ -1086,7 +1151,18 @@ export default function Home() {
       />
 
       <AnimatePresence mode="wait" initial={false}>
-        {isWelcomeStage ? (
+        {activeReplay ? (
+          <motion.div
+            key="replay-stage"
+            initial={{ opacity: 0, y: 10, filter: "blur(10px)" }}
+            animate={{ opacity: 1, y: 0, filter: "blur(0px)" }}
+            exit={{ opacity: 0, y: -10, filter: "blur(10px)" }}
+            transition={{ duration: 0.45, ease: "easeOut" }}
+            className="h-full w-full"
+          >
+            <ReplayViewer replay={activeReplay} onClose={() => setActiveReplay(null)} />
+          </motion.div>
+        ) : isWelcomeStage ? (
           <motion.div
             key="welcome-stage"
             initial={{ opacity: 0, y: 10, filter: "blur(10px)" }}
@@ -1109,6 +1185,8 @@ export default function Home() {
               onBgmVolumeChange={setBgmVolume}
               onSoundEnabledChange={setSoundEnabled}
               onAiVoiceEnabledChange={setAiVoiceEnabled}
+              onOpenReplay={setActiveReplay}
+              onResume={handleResumeGame}
             />
           </motion.div>
         ) : (
@@ -1272,6 +1350,18 @@ export default function Home() {
                       {canShowRole ? getRoleLabel(humanPlayer?.role) : "待揭晓"}
                     </span>
                   </div>
+                  {gameState.isPracticeMode && (
+                    <button
+                      type="button"
+                      onClick={() => void handleRewindToLastNight()}
+                      title="回到上一晚"
+                      aria-label="回到上一晚"
+                      className="inline-flex items-center gap-2 rounded-md border-2 border-[var(--border-color)] bg-[var(--bg-card)] px-2 py-1.5 sm:px-2.5 sm:py-1 text-xs text-[var(--text-primary)] transition-colors hover:border-[var(--color-accent)] hover:bg-[var(--color-accent-bg)]"
+                    >
+                      <ClockCounterClockwise size={16} className="shrink-0" />
+                      <span className="hidden sm:inline">回到上一晚</span>
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={() => setIsSettingsOpen(true)}
@@ -1363,8 +1453,12 @@ export default function Home() {
                       onConfirmAction={confirmSelectedSeat}
                       onCancelSelection={() => setSelectedSeat(null)}
                       onNightAction={handleNightActionConfirm}
+                      onWolfChat={handleWolfChat}
                       onBadgeSignup={handleBadgeSignup}
                       onRestart={restartGame}
+                      turnDeadline={turnDeadline}
+                      onWatchReplay={handleWatchReplay}
+                      onExportReplay={handleExportReplay}
                     />
 
                     {/* 移动端玩家条 */}
@@ -1497,6 +1591,8 @@ export default function Home() {
         onBgmVolumeChange={setBgmVolume}
         onSoundEnabledChange={setSoundEnabled}
         onAiVoiceEnabledChange={setAiVoiceEnabled}
+        turnTimers={turnTimers}
+        onTurnTimersChange={setTurnTimers}
       />
 
       {/* 开发者模式 - 只在游戏开始后显示 */}
@@ -5,7 +5,7 @@ import { useAtom } from "jotai";
 import { motion, AnimatePresence } from "framer-motion";
 import { gameStateAtom } from "@/store/game-machine";
 import type { GameState, Phase, Role, Player } from "@/types/game";
-import { X, Wrench, Play, Pause, SkipForward, Eye, Users, Crosshair, Code, ChatDots, Warning, ArrowRight, ArrowLeft, Lightning, SpeakerHigh } from "@phosphor-icons/react";
+import { X, Wrench, Play, Pause, SkipForward, Eye, Users, Crosshair, Code, ChatDots, Warning, ArrowRight, ArrowLeft, Lightning, SpeakerHigh, Flask } from "@phosphor-icons/react";
 import {
   applySmartJump,
   applySmartJumpWithFilledData,
@@ -16,6 +16,15 @@ import {
   type SmartJumpResult,
 } from "@/lib/SmartJumpManager";
 import { PhaseManager } from "@/game/core/PhaseManager";
+import {
+  applyFixture,
+  checkFixtureExpectations,
+  GAME_FIXTURES,
+  parseFixture,
+  runFixture,
+  type FixtureRunResult,
+  type GameFixture,
+} from "@/game/fixtures";
 import { DEFAULT_VOICE_ID, resolveVoiceId, VOICE_PRESETS } from "@/lib/voice-constants";
 import { aiLogger } from "@/lib/ai-logger";
 
@@ -97,11 +106,12 @@ const ROLE_NAMES: Record<Role, string> = {
   Witch: "女巫",
   Hunter: "猎人",
   Guard: "守卫",
+  Idiot: "白痴",
 };
 
 const formatPlayerLabel = (p: Player) => `${p.seat + 1}号 ${p.displayName}${p.alive ? "" : "（死）"}`;
 
-type TabType = "global" | "players" | "actions" | "inspector" | "tts";
+type TabType = "global" | "players" | "actions" | "fixtures" | "inspector" | "tts";
 
 interface DevConsoleProps {
   isOpen: boolean;
@@ -789,10 +799,20 @@ export function DevConsole({ isOpen, onClose }: DevConsoleProps) {
     }));
   };
 
+  // 载入场景：套用局面后跳转到场景的起始阶段
+  const loadFixture = (fixture: GameFixture) => {
+    setGameState((prev) => ({
+      ...applyFixture(prev, fixture),
+      devMutationId: bumpDevMutation(prev),
+      devPhaseJump: { to: fixture.phase, ts: Date.now() },
+    }));
+  };
+
   const tabs: { id: TabType; label: string; icon: React.ReactNode }[] = [
     { id: "global", label: "全局", icon: <Wrench size={16} /> },
     { id: "players", label: "玩家", icon: <Users size={16} /> },
     { id: "actions", label: "动作", icon: <Crosshair size={16} /> },
+    { id: "fixtures", label: "场景", icon: <Flask size={16} /> },
     { id: "tts", label: "TTS", icon: <SpeakerHigh size={16} /> },
     { id: "inspector", label: "状态", icon: <Code size={16} /> },
   ];
@@ -867,6 +887,7 @@ export function DevConsole({ isOpen, onClose }: DevConsoleProps) {
                 setSheriff={setSheriff}
               />
             )}
+            {activeTab === "fixtures" && <FixturesTab gameState={gameState} loadFixture={loadFixture} />}
             {activeTab === "tts" && <TTSTab />}
             {activeTab === "inspector" && <InspectorTab gameState={gameState} />}
           </div>
@@ -1868,6 +1889,172 @@ function InspectorTab({ gameState }: { gameState: GameState }) {
   );
 }
 
+function FixturesTab({
+  gameState,
+  loadFixture,
+}: {
+  gameState: GameState;
+  loadFixture: (fixture: GameFixture) => void;
+}) {
+  const [selectedId, setSelectedId] = useState<string>(Object.keys(GAME_FIXTURES)[0]);
+  const [customJson, setCustomJson] = useState("");
+  const [results, setResults] = useState<FixtureRunResult[]>([]);
+  const [checkFailures, setCheckFailures] = useState<string[] | null>(null);
+  const [error, setError] = useState("");
+  const [isRunning, setIsRunning] = useState(false);
+
+  const builtins = Object.values(GAME_FIXTURES);
+
+  const resolveFixture = (): GameFixture | null => {
+    if (selectedId !== "custom") return builtins.find((f) => f.id === selectedId) ?? null;
+    const fixture = parseFixture(customJson);
+    setError(fixture ? "" : "JSON 无效：需要 id、name、合法的 roles 与可开始的 phase");
+    return fixture;
+  };
+
+  const runAll = async (fixtures: GameFixture[]) => {
+    setIsRunning(true);
+    setCheckFailures(null);
+    try {
+      const next: FixtureRunResult[] = [];
+      for (const fixture of fixtures) {
+        next.push(await runFixture(fixture));
+      }
+      setResults(next);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const selected = selectedId === "custom" ? null : GAME_FIXTURES[selectedId as keyof typeof GAME_FIXTURES];
+
+  return (
+    <div className="space-y-4">
+      <Section title="选择场景">
+        <select
+          value={selectedId}
+          onChange={(e) => {
+            setSelectedId(e.target.value);
+            setError("");
+          }}
+          className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1.5 text-white text-xs"
+        >
+          {builtins.map((fixture) => (
+            <option key={fixture.id} value={fixture.id}>
+              {fixture.name}
+            </option>
+          ))}
+          <option value="custom">自定义（JSON）</option>
+        </select>
+        {selected && (
+          <div className="mt-2 text-xs text-gray-400">
+            {`${selected.description}（${selected.roles.length}人局，从 ${selected.phase} 开始）`}
+          </div>
+        )}
+        {selectedId === "custom" && (
+          <textarea
+            value={customJson}
+            onChange={(e) => setCustomJson(e.target.value)}
+            placeholder="粘贴 GameFixture JSON，可先复制内置场景作为模板"
+            className="mt-2 w-full h-40 bg-gray-800 border border-gray-600 rounded p-2 text-green-400 text-xs font-mono"
+          />
+        )}
+        {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+      </Section>
+
+      <Section title="操作">
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => {
+              const fixture = resolveFixture();
+              if (!fixture) return;
+              setError(
+                fixture.roles.length === gameState.players.length
+                  ? ""
+                  : `当前对局为 ${gameState.players.length} 人，场景为 ${fixture.roles.length} 人，仅覆盖对应座位`
+              );
+              loadFixture(fixture);
+            }}
+            className="px-3 py-1.5 bg-yellow-600 hover:bg-yellow-500 rounded text-white text-xs"
+          >
+            载入到当前对局
+          </button>
+          <button
+            disabled={isRunning}
+            onClick={() => {
+              const fixture = resolveFixture();
+              if (fixture) void runAll([fixture]);
+            }}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded text-white text-xs"
+          >
+            无头运行
+          </button>
+          <button
+            onClick={() => {
+              const fixture = resolveFixture();
+              if (fixture) setCheckFailures(checkFixtureExpectations(fixture.expect, gameState));
+            }}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs"
+          >
+            用当前状态检查断言
+          </button>
+          <button
+            disabled={isRunning}
+            onClick={() => void runAll(builtins)}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded text-white text-xs"
+          >
+            运行全部内置场景
+          </button>
+        </div>
+        {selected && (
+          <button
+            onClick={() => {
+              navigator.clipboard.writeText(JSON.stringify(selected, null, 2));
+            }}
+            className="mt-2 w-full px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs"
+          >
+            复制场景 JSON 到剪贴板
+          </button>
+        )}
+      </Section>
+
+      {checkFailures && (
+        <Section title="当前状态断言">
+          {checkFailures.length === 0 ? (
+            <div className="text-xs text-green-400">全部通过</div>
+          ) : (
+            <ul className="space-y-1 text-xs text-red-400">
+              {checkFailures.map((failure) => (
+                <li key={failure}>{failure}</li>
+              ))}
+            </ul>
+          )}
+        </Section>
+      )}
+
+      {(isRunning || results.length > 0) && (
+        <Section title="无头运行结果">
+          {isRunning && <div className="text-xs text-gray-400">运行中…</div>}
+          <div className="space-y-2">
+            {results.map((result) => (
+              <div key={result.fixture.id} className="bg-gray-800 rounded p-2 text-xs">
+                <div className={result.passed ? "text-green-400" : "text-red-400"}>
+                  {`${result.passed ? "通过" : "失败"} · ${result.fixture.name}（结束于第 ${result.state.day} 天 ${result.state.phase}）`}
+                </div>
+                {result.failures.map((failure) => (
+                  <div key={failure} className="mt-1 text-red-300">
+                    {failure}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </Section>
+      )}
+    </div>
+  );
+}
+
 // ============ 通用组件 ============
 function Section({ title, children }: { title: string; children: React.ReactNode }) {
   return (
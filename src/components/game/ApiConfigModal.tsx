@@ -4,10 +4,25 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { useEffect, useState } from "react";
-import { getApiConfig, saveApiConfig, API_PROVIDERS, MODEL_PRESETS, type ApiConfig } from "@/lib/api-config";
-import { ExternalLink, Eye, EyeOff } from "lucide-react";
+import {
+  getApiConfig,
+  saveApiConfig,
+  API_PROVIDERS,
+  DEFAULT_PROVIDER_CONCURRENCY,
+  isMockProvider,
+  MOCK_PROVIDER_ID,
+  MODEL_PRESETS,
+  type ApiConfig,
+  type ProviderEndpoint,
+} from "@/lib/api-config";
+import type { ModelProvider } from "@/types/game";
+import { ChevronDown, ChevronRight, ExternalLink, Eye, EyeOff } from "lucide-react";
 import { toast } from "sonner";
 
+const ROUTABLE_PROVIDERS = API_PROVIDERS.filter(p => p.id !== MOCK_PROVIDER_ID);
+
+const EMPTY_ENDPOINT: ProviderEndpoint = { baseUrl: '', apiKey: '', models: [] };
+
 interface ApiConfigModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -18,6 +33,7 @@ export function ApiConfigModal({ open, onOpenChange }: ApiConfigModalProps) {
   const [showLlmKey, setShowLlmKey] = useState(false);
   const [showTtsKey, setShowTtsKey] = useState(false);
   const [saved, setSaved] = useState(false);
+  const [showRouting, setShowRouting] = useState(false);
 
   useEffect(() => {
     if (open) {
@@ -52,7 +68,18 @@ export function ApiConfigModal({ open, onOpenChange }: ApiConfigModalProps) {
     }
   };
 
+  const handleEndpointChange = (provider: ModelProvider, patch: Partial<ProviderEndpoint>) => {
+    setConfig(prev => ({
+      ...prev,
+      providerEndpoints: {
+        ...prev.providerEndpoints,
+        [provider]: { ...EMPTY_ENDPOINT, ...prev.providerEndpoints[provider], ...patch },
+      },
+    }));
+  };
+
   const currentProvider = API_PROVIDERS.find(p => p.id === config.llmProvider) || API_PROVIDERS[0];
+  const isMock = isMockProvider(config);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -68,27 +95,29 @@ export function ApiConfigModal({ open, onOpenChange }: ApiConfigModalProps) {
 
         <div className="space-y-4">
           {/* API Key 提示 - 未配置时显示警告样式 */}
-          <div className="rounded-lg p-3 bg-amber-500/10 border-2 border-amber-500/30">
-            <div className="flex items-center justify-between">
-              <div>
-                <div className="text-sm font-medium text-amber-600">
-                  {!config.llmApiKey ? '⚠️ 请先配置 API Key' : '🎁 没有 API Key?'}
-                </div>
-                <div className="text-xs mt-0.5 text-amber-600/80">
-                  点击一键申请，复制 Key 填入下方即可
+          {!isMock && (
+            <div className="rounded-lg p-3 bg-amber-500/10 border-2 border-amber-500/30">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-amber-600">
+                    {!config.llmApiKey ? '⚠️ 请先配置 API Key' : '🎁 没有 API Key?'}
+                  </div>
+                  <div className="text-xs mt-0.5 text-amber-600/80">
+                    点击一键申请，复制 Key 填入下方即可
+                  </div>
                 </div>
+                <Button
+                  type="button"
+                  variant="default"
+                  size="sm"
+                  onClick={() => window.open(currentProvider.applyUrl || 'https://www.v1api.cc/', '_blank')}
+                  className="shrink-0 bg-amber-500 hover:bg-amber-600"
+                >
+                  一键申请
+                </Button>
               </div>
-              <Button
-                type="button"
-                variant="default"
-                size="sm"
-                onClick={() => window.open(currentProvider.applyUrl || 'https://www.v1api.cc/', '_blank')}
-                className="shrink-0 bg-amber-500 hover:bg-amber-600"
-              >
-                一键申请
-              </Button>
             </div>
-          </div>
+          )}
 
           {/* LLM API */}
           <div className="rounded-lg border-2 border-[var(--border-color)] bg-[var(--bg-secondary)] p-3 space-y-3">
@@ -118,22 +147,26 @@ export function ApiConfigModal({ open, onOpenChange }: ApiConfigModalProps) {
                 />
               )}
 
-              <div className="relative">
-                <input
-                  type={showLlmKey ? 'text' : 'password'}
-                  value={config.llmApiKey}
-                  onChange={(e) => handleChange('llmApiKey', e.target.value)}
-                  placeholder="API Key"
-                  className="w-full px-3 py-2 pr-10 text-sm bg-[var(--bg-card)] border-2 border-[var(--border-color)] rounded-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowLlmKey(!showLlmKey)}
-                  className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
-                >
-                  {showLlmKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                </button>
-              </div>
+              {isMock ? (
+                <div className="text-xs text-[var(--text-muted)]">使用本地规则 AI，无需网络和 API Key</div>
+              ) : (
+                <div className="relative">
+                  <input
+                    type={showLlmKey ? 'text' : 'password'}
+                    value={config.llmApiKey}
+                    onChange={(e) => handleChange('llmApiKey', e.target.value)}
+                    placeholder="API Key"
+                    className="w-full px-3 py-2 pr-10 text-sm bg-[var(--bg-card)] border-2 border-[var(--border-color)] rounded-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowLlmKey(!showLlmKey)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+                  >
+                    {showLlmKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              )}
 
               <div>
                 <label className="text-xs text-[var(--text-muted)] mb-1 block">模型</label>
@@ -167,6 +200,76 @@ export function ApiConfigModal({ open, onOpenChange }: ApiConfigModalProps) {
             </div>
           </div>
 
+          {/* 按服务商路由 */}
+          {!isMock && (
+            <div className="rounded-lg border-2 border-[var(--border-color)] bg-[var(--bg-secondary)] p-3 space-y-3">
+              <button
+                type="button"
+                onClick={() => setShowRouting(v => !v)}
+                className="w-full flex items-center justify-between text-left"
+              >
+                <div>
+                  <div className="text-sm font-medium text-[var(--text-primary)]">多服务商路由</div>
+                  <div className="text-xs text-[var(--text-muted)]">为不同服务商单独填写 Key，AI 座位将混用这些模型</div>
+                </div>
+                {showRouting ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </button>
+
+              {showRouting && (
+                <div className="space-y-3">
+                  {ROUTABLE_PROVIDERS.map(p => {
+                    const provider = p.id as ModelProvider;
+                    const endpoint = config.providerEndpoints[provider] ?? EMPTY_ENDPOINT;
+                    return (
+                      <div key={p.id} className="space-y-2 pt-2 border-t border-[var(--border-color)]">
+                        <div className="text-xs font-medium text-[var(--text-primary)]">{p.name}</div>
+                        <input
+                          type="password"
+                          value={endpoint.apiKey}
+                          onChange={(e) => handleEndpointChange(provider, { apiKey: e.target.value })}
+                          placeholder="API Key（留空则使用上方默认接口）"
+                          className="w-full px-3 py-2 text-sm bg-[var(--bg-card)] border-2 border-[var(--border-color)] rounded-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+                        />
+                        {(endpoint.apiKey || !p.baseUrl) && (
+                          <>
+                            <input
+                              type="url"
+                              value={endpoint.baseUrl}
+                              onChange={(e) => handleEndpointChange(provider, { baseUrl: e.target.value })}
+                              placeholder={p.baseUrl || 'API Base URL'}
+                              className="w-full px-3 py-2 text-sm bg-[var(--bg-card)] border-2 border-[var(--border-color)] rounded-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+                            />
+                            <div className="flex gap-2">
+                              <input
+                                type="text"
+                                value={endpoint.models.join(', ')}
+                                onChange={(e) => handleEndpointChange(provider, { models: e.target.value.split(',').map(m => m.trim()) })}
+                                placeholder={`模型，逗号分隔（如 ${p.defaultModel || 'model-name'}）`}
+                                className="flex-1 min-w-0 px-3 py-2 text-sm bg-[var(--bg-card)] border-2 border-[var(--border-color)] rounded-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+                              />
+                              <input
+                                type="number"
+                                min={1}
+                                value={endpoint.maxConcurrency ?? ''}
+                                onChange={(e) => {
+                                  const n = Number.parseInt(e.target.value, 10);
+                                  handleEndpointChange(provider, { maxConcurrency: Number.isFinite(n) && n > 0 ? n : undefined });
+                                }}
+                                placeholder={`并发 ${p.maxConcurrency ?? DEFAULT_PROVIDER_CONCURRENCY}`}
+                                title="最大并发请求数"
+                                className="w-24 px-3 py-2 text-sm bg-[var(--bg-card)] border-2 border-[var(--border-color)] rounded-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+                              />
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* TTS API (MiniMax) */}
           <div className="rounded-lg border-2 border-[var(--border-color)] bg-[var(--bg-secondary)] p-3 space-y-3">
             <div className="flex items-center justify-between">
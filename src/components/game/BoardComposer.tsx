@@ -0,0 +1,226 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Minus, Plus } from "@phosphor-icons/react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Role } from "@/types/game";
+import { roleRegistry } from "@/game/core/RoleRegistry";
+import {
+  cloneBoard,
+  countBoardRoles,
+  getPresetsForPlayerCount,
+  isSupportedPlayerCount,
+  loadSavedBoards,
+  parseBoard,
+  saveBoard,
+  serializeBoard,
+  validateBoard,
+  type BoardConfig,
+  type BoardIssue,
+} from "@/lib/board-config";
+
+interface BoardComposerProps {
+  board: BoardConfig;
+  onBoardChange: (board: BoardConfig) => void;
+}
+
+const CUSTOM_VALUE = "__custom__";
+
+function describeIssue(issue: BoardIssue, board: BoardConfig): string {
+  const roleName = issue.role ? roleRegistry.get(issue.role).getName() : "";
+  switch (issue.code) {
+    case "PLAYER_COUNT_OUT_OF_RANGE":
+      return "人数需在 6-16 人之间";
+    case "ROLE_COUNT_MISMATCH":
+      return `角色总数 ${countBoardRoles(board)} 与人数 ${board.playerCount} 不一致`;
+    case "UNKNOWN_ROLE":
+      return `未知角色：${issue.role}`;
+    case "DUPLICATE_UNIQUE_ROLE":
+      return `${roleName}每局最多一名`;
+    case "NO_WOLVES":
+      return "至少需要一名狼人";
+    case "WOLVES_WIN_AT_START":
+      return "狼人数量不少于好人，开局即狼人胜利";
+    case "TOO_MANY_WOLVES":
+      return "狼人占比过高，好人阵营很难获胜";
+    case "TOO_FEW_WOLVES":
+      return "狼人占比过低，狼人阵营很难获胜";
+    case "NO_GOD_ROLES":
+      return "没有神职，好人缺少信息来源";
+  }
+}
+
+export function BoardComposer({ board, onBoardChange }: BoardComposerProps) {
+  // 组件只在设置弹窗打开后挂载，可直接读取 localStorage
+  const [savedBoards, setSavedBoards] = useState<BoardConfig[]>(() => loadSavedBoards());
+  const [importText, setImportText] = useState("");
+
+  const presets = useMemo(() => getPresetsForPlayerCount(board.playerCount), [board.playerCount]);
+  const saved = useMemo(
+    () => savedBoards.filter((b) => b.playerCount === board.playerCount),
+    [savedBoards, board.playerCount]
+  );
+  const issues = useMemo(() => validateBoard(board), [board]);
+  const assigned = countBoardRoles(board);
+
+  const selectedValue = useMemo(() => {
+    const same = (b: BoardConfig) => serializeBoard(b) === serializeBoard(board);
+    const preset = presets.find((p) => same(p.board));
+    if (preset) return `preset:${preset.id}`;
+    const savedMatch = saved.find(same);
+    if (savedMatch) return `saved:${savedMatch.name}`;
+    return CUSTOM_VALUE;
+  }, [board, presets, saved]);
+
+  const handleSelect = (value: string) => {
+    if (value.startsWith("preset:")) {
+      const preset = presets.find((p) => `preset:${p.id}` === value);
+      if (preset) onBoardChange(cloneBoard(preset.board));
+    } else if (value.startsWith("saved:")) {
+      const match = saved.find((b) => `saved:${b.name}` === value);
+      if (match) onBoardChange(cloneBoard(match));
+    }
+  };
+
+  const adjustRole = (role: Role, delta: number) => {
+    const current = board.roles[role] ?? 0;
+    const nextCount = Math.max(0, current + delta);
+    const roles = { ...board.roles };
+    if (nextCount > 0) roles[role] = nextCount;
+    else delete roles[role];
+    onBoardChange({ ...board, name: "", roles });
+  };
+
+  const handleSave = () => {
+    const name = board.name.trim() || `自定义 ${board.playerCount}人`;
+    setSavedBoards(saveBoard({ ...board, name }));
+    onBoardChange({ ...board, name });
+    toast("板子已保存");
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeBoard(board));
+      toast("板子 JSON 已复制");
+    } catch {
+      toast("复制失败", { description: "当前环境不支持剪贴板或权限被拒绝" });
+    }
+  };
+
+  const handleImport = () => {
+    const parsed = parseBoard(importText);
+    if (!parsed || !isSupportedPlayerCount(parsed.playerCount)) {
+      toast("导入失败", { description: "JSON 格式不正确或人数不在 6-16 人之间" });
+      return;
+    }
+    onBoardChange(parsed);
+    setImportText("");
+    toast("板子已导入");
+  };
+
+  return (
+    <div className="space-y-3">
+      <Select value={selectedValue} onValueChange={handleSelect}>
+        <SelectTrigger>
+          <SelectValue placeholder="选择板子" />
+        </SelectTrigger>
+        <SelectContent>
+          {presets.map((preset) => (
+            <SelectItem
+              key={preset.id}
+              value={`preset:${preset.id}`}
+              label={preset.board.name}
+              description={preset.description}
+            />
+          ))}
+          {saved.map((b) => (
+            <SelectItem key={b.name} value={`saved:${b.name}`} label={b.name} description="已保存" />
+          ))}
+          {selectedValue === CUSTOM_VALUE && <SelectItem value={CUSTOM_VALUE} label="自定义" />}
+        </SelectContent>
+      </Select>
+
+      <div className="grid grid-cols-2 gap-2">
+        {roleRegistry.getAll().map((def) => (
+          <div
+            key={def.id}
+            className="flex items-center justify-between rounded-md border border-[var(--border-color)] px-2 py-1"
+          >
+            <span className="text-sm text-[var(--text-primary)]">{def.getName()}</span>
+            <div className="flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => adjustRole(def.id, -1)}
+                disabled={!board.roles[def.id]}
+              >
+                <Minus />
+              </Button>
+              <span className="w-5 text-center text-sm tabular-nums">{board.roles[def.id] ?? 0}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => adjustRole(def.id, 1)}
+                disabled={assigned >= board.playerCount}
+              >
+                <Plus />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-[var(--text-muted)]">
+        已分配 {assigned}/{board.playerCount}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {issues.map((issue) => (
+            <li
+              key={`${issue.code}-${issue.role ?? ""}`}
+              className={issue.level === "error" ? "text-[var(--color-danger)]" : "text-[var(--color-warning)]"}
+            >
+              {issue.level === "error" ? "无法开局：" : "平衡提示："}
+              {describeIssue(issue, board)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleSave}>
+          保存板子
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => void handleCopy()}>
+          复制 JSON
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <textarea
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+          placeholder="粘贴分享的板子 JSON"
+          rows={3}
+          className="w-full rounded-md border border-[var(--border-color)] bg-[var(--bg-card)] px-2 py-1 text-xs font-mono text-[var(--text-primary)]"
+        />
+        <Button type="button" variant="secondary" size="sm" onClick={handleImport} disabled={!importText.trim()}>
+          导入板子
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import React, { useRef, useEffect, useMemo, useState, useCallback } from "react"
 import { motion, AnimatePresence } from "framer-motion";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { ChatCircleDots, PaperPlaneTilt, CheckCircle, MoonStars, Eye, Drop, Crosshair, Skull, X, ArrowClockwise, CaretRight, UserCircle, Prohibit } from "@phosphor-icons/react";
+import { ChatCircleDots, PaperPlaneTilt, CheckCircle, MoonStars, Eye, Drop, Crosshair, Skull, X, ArrowClockwise, CaretRight, Play, UserCircle, Prohibit } from "@phosphor-icons/react";
 import { WerewolfIcon, VillagerIcon, VoteIcon } from "@/components/icons/FlatIcons";
 import { VotingProgress } from "./VotingProgress";
 import { WolfPlanningPanel } from "./WolfPlanningPanel";
@@ -13,9 +13,11 @@ import { TalkingAvatar } from "./TalkingAvatar";
 import { VoiceRecorder, type VoiceRecorderHandle } from "./VoiceRecorder";
 import { buildSimpleAvatarUrl, getModelLogoUrl } from "@/lib/avatar-config";
 import { VoteResultCard } from "./VoteResultCard";
+import { TurnCountdown } from "./TurnCountdown";
 import LoadingMiniGame from "./MiniGame/LoadingMiniGame";
 import type { GameState, Player, ChatMessage, Phase } from "@/types/game";
 import { cn } from "@/lib/utils";
+import { canWitchSave } from "@/lib/game-rules";
 import { audioManager, makeAudioTaskId } from "@/lib/audio-manager";
 import { resolveVoiceId } from "@/lib/voice-constants";
 
@@ -168,8 +170,13 @@ interface DialogAreaProps {
   onConfirmAction?: () => void;
   onCancelSelection?: () => void;
   onNightAction?: (seat: number, actionType?: WitchActionType) => void;
+  onWolfChat?: (text: string) => void;
   onBadgeSignup?: (wants: boolean) => void;
   onRestart?: () => void;
+  turnDeadline?: number | null; // 当前回合限时截止时间
+  // 回放相关（仅游戏结束时显示）
+  onWatchReplay?: () => void;
+  onExportReplay?: () => void;
 }
 
 // 等待状态动画组件已移除，与当前简洁风格不符
@@ -275,11 +282,18 @@ export function DialogArea({
   onConfirmAction,
   onCancelSelection,
   onNightAction,
+  onWolfChat,
   onBadgeSignup,
   onRestart,
+  turnDeadline = null,
+  onWatchReplay,
+  onExportReplay,
 }: DialogAreaProps) {
   const isGenshinMode = !!gameState.isGenshinMode;
   const phase = gameState.phase;
+  // 联机时截止时间由房主写入 gameState.turnDeadlines
+  const activeTurnDeadline =
+    turnDeadline ?? (humanPlayer ? gameState.turnDeadlines?.[humanPlayer.playerId] : undefined) ?? null;
   const scrollRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const historyRef = useRef<HTMLDivElement>(null);
@@ -847,7 +861,19 @@ export function DialogArea({
         {/* 狼人协作面板 */}
         {gameState.phase === "NIGHT_WOLF_ACTION" && humanPlayer?.role === "Werewolf" && (
           <div className="mb-3">
-            <WolfPlanningPanel gameState={gameState} humanPlayer={humanPlayer} />
+            <WolfPlanningPanel
+              gameState={gameState}
+              humanPlayer={humanPlayer}
+              onSendChat={humanPlayer.alive ? onWolfChat : undefined}
+              isChatBusy={isWaitingForAI}
+            />
+          </div>
+        )}
+
+        {/* 回合倒计时 */}
+        {activeTurnDeadline != null && (
+          <div className="mb-2 flex justify-end">
+            <TurnCountdown deadline={activeTurnDeadline} isNight={isNight} />
           </div>
         )}
 
@@ -898,14 +924,35 @@ export function DialogArea({
                   </div>
                   <div className={`flex items-center justify-between mt-4 pt-3 border-t ${isNight ? "border-white/10" : "border-black/5"}`}>
                     <span className="text-xs text-[var(--text-muted)]">下次还来玩啊</span>
-                    <button
-                      onClick={onRestart}
-                      className="wc-action-btn wc-action-btn--primary text-sm h-9 px-4"
-                      type="button"
-                    >
-                      <ArrowClockwise size={14} weight="bold" />
-                      再来一局
-                    </button>
+                    <div className="flex items-center gap-2">
+                      {onExportReplay && (
+                        <button
+                          onClick={onExportReplay}
+                          className="wc-action-btn text-sm h-9 px-4"
+                          type="button"
+                        >
+                          导出回放
+                        </button>
+                      )}
+                      {onWatchReplay && (
+                        <button
+                          onClick={onWatchReplay}
+                          className="wc-action-btn text-sm h-9 px-4"
+                          type="button"
+                        >
+                          <Play size={14} weight="fill" />
+                          观看回放
+                        </button>
+                      )}
+                      <button
+                        onClick={onRestart}
+                        className="wc-action-btn wc-action-btn--primary text-sm h-9 px-4"
+                        type="button"
+                      >
+                        <ArrowClockwise size={14} weight="bold" />
+                        再来一局
+                      </button>
+                    </div>
                   </div>
                 </motion.div>
               )}
@@ -1138,6 +1185,7 @@ export function DialogArea({
                       const targetName = targetPlayer ? `${wolfTarget! + 1}号 ${targetPlayer.displayName}` : wolfTarget !== undefined ? `${wolfTarget + 1}号` : null;
                       const healUsed = gameState.roleAbilities.witchHealUsed;
                       const poisonUsed = gameState.roleAbilities.witchPoisonUsed;
+                      const selfSaveBlocked = !!humanPlayer && !healUsed && !canWitchSave(gameState, humanPlayer, wolfTarget);
 
                       return (
                         <>
@@ -1147,6 +1195,8 @@ export function DialogArea({
                                 今晚 <span className="text-[var(--color-danger)] font-semibold">{targetName}</span> 被狼人袭击。
                                 {healUsed ? (
                                   <span className="text-[var(--text-muted)]">（解药已用尽）</span>
+                                ) : selfSaveBlocked ? (
+                                  <span className="text-[var(--text-muted)]">（本局房规不能自救）</span>
                                 ) : (
                                   <>
                                     <span className="mr-2">你可以</span>
@@ -0,0 +1,118 @@
+"use client";
+
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  SHERIFF_MODE_LABELS,
+  SHERIFF_VOTE_WEIGHTS,
+  WIN_CONDITION_LABELS,
+  WITCH_SELF_SAVE_LABELS,
+} from "@/lib/game-rules";
+import type { GameRules, SheriffMode, WinConditionRule, WitchSelfSaveRule } from "@/types/game";
+
+interface GameRulesSettingsProps {
+  rules: GameRules;
+  onChange: (rules: GameRules) => void;
+  disabled?: boolean;
+}
+
+export function GameRulesSettings({ rules, onChange, disabled = false }: GameRulesSettingsProps) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="text-sm font-medium text-[var(--text-primary)]">房规</div>
+        <div className="text-xs text-[var(--text-muted)]">开局后不可修改，AI 会按本局房规推理</div>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+        <span className="w-20 shrink-0">胜负判定</span>
+        <Select
+          value={rules.winCondition}
+          onValueChange={(value) => onChange({ ...rules, winCondition: value as WinConditionRule })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(WIN_CONDITION_LABELS) as WinConditionRule[]).map((rule) => (
+              <SelectItem key={rule} value={rule} label={WIN_CONDITION_LABELS[rule]} />
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+        <span className="w-20 shrink-0">警长</span>
+        <Select
+          value={rules.sheriffMode}
+          onValueChange={(value) => onChange({ ...rules, sheriffMode: value as SheriffMode })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SHERIFF_MODE_LABELS) as SheriffMode[]).map((mode) => (
+              <SelectItem key={mode} value={mode} label={SHERIFF_MODE_LABELS[mode]} />
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+        <span className="w-20 shrink-0">警长票数</span>
+        <Select
+          value={String(rules.sheriffVoteWeight)}
+          onValueChange={(value) => onChange({ ...rules, sheriffVoteWeight: Number(value) })}
+          disabled={disabled || rules.sheriffMode === "none"}
+        >
+          <SelectTrigger className="h-8 flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHERIFF_VOTE_WEIGHTS.map((weight) => (
+              <SelectItem key={weight} value={String(weight)} label={`${weight} 票`} />
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+        <span className="w-20 shrink-0">女巫自救</span>
+        <Select
+          value={rules.witchSelfSave}
+          onValueChange={(value) => onChange({ ...rules, witchSelfSave: value as WitchSelfSaveRule })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(WITCH_SELF_SAVE_LABELS) as WitchSelfSaveRule[]).map((rule) => (
+              <SelectItem key={rule} value={rule} label={WITCH_SELF_SAVE_LABELS[rule]} />
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="text-sm text-[var(--text-primary)]">同守同救死亡</div>
+          <div className="text-xs text-[var(--text-muted)]">守卫与女巫同时保护被刀玩家时，该玩家仍然出局（奶穿）</div>
+        </div>
+        <Switch
+          checked={rules.guardWitchSameTargetDies}
+          onCheckedChange={(guardWitchSameTargetDies) => onChange({ ...rules, guardWitchSameTargetDies })}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
@@ -9,8 +9,17 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import type { DifficultyLevel } from "@/types/game";
+import { Input } from "@/components/ui/input";
+import type { DifficultyLevel, GameRules } from "@/types/game";
 import { SoundSettingsSection } from "@/components/game/SettingsModal";
+import { BoardComposer } from "@/components/game/BoardComposer";
+import { GameRulesSettings } from "@/components/game/GameRulesSettings";
+import {
+  getPresetsForPlayerCount,
+  MAX_PLAYER_COUNT,
+  MIN_PLAYER_COUNT,
+  type BoardConfig,
+} from "@/lib/board-config";
 
 interface GameSetupModalProps {
   open: boolean;
@@ -19,6 +28,14 @@ interface GameSetupModalProps {
   onDifficultyChange: (value: DifficultyLevel) => void;
   playerCount: number;
   onPlayerCountChange: (value: number) => void;
+  board: BoardConfig;
+  onBoardChange: (board: BoardConfig) => void;
+  seed: string;
+  onSeedChange: (value: string) => void;
+  rules: GameRules;
+  onRulesChange: (rules: GameRules) => void;
+  isPracticeMode: boolean;
+  onPracticeModeChange: (value: boolean) => void;
   isGenshinMode: boolean;
   onGenshinModeChange: (value: boolean) => void;
   bgmVolume: number;
@@ -35,13 +52,17 @@ const DIFFICULTY_OPTIONS: Array<{ value: DifficultyLevel; label: string; descrip
   { value: "hard", label: "高阶局", description: "深度对抗，推理更复杂" },
 ];
 
-const PLAYER_COUNT_OPTIONS: Array<{ value: number; label: string; description: string; roles: string }> = [
-  { value: 8, label: "8人局", description: "3狼 3神 2民", roles: "神职：预言家、女巫、猎人" },
-  { value: 9, label: "9人局", description: "3狼 3神 3民", roles: "神职：预言家、女巫、猎人" },
-  { value: 10, label: "10人局", description: "3狼 4神 3民", roles: "神职：预言家、女巫、猎人、守卫" },
-  { value: 11, label: "11人局", description: "4狼 4神 3民", roles: "神职：预言家、女巫、猎人、守卫" },
-  { value: 12, label: "12人局", description: "4狼 4神 4民", roles: "神职：预言家、女巫、猎人、守卫" },
-];
+const PLAYER_COUNT_OPTIONS: Array<{ value: number; label: string; description: string }> = Array.from(
+  { length: MAX_PLAYER_COUNT - MIN_PLAYER_COUNT + 1 },
+  (_, i) => MIN_PLAYER_COUNT + i
+).map((count) => {
+  const preset = getPresetsForPlayerCount(count).find((p) => p.isDefault);
+  return {
+    value: count,
+    label: `${count}人局`,
+    description: preset ? `${preset.description}｜${preset.board.name}` : "",
+  };
+});
 
 export function GameSetupModal({
   open,
@@ -50,6 +71,14 @@ export function GameSetupModal({
   onDifficultyChange,
   playerCount,
   onPlayerCountChange,
+  board,
+  onBoardChange,
+  seed,
+  onSeedChange,
+  rules,
+  onRulesChange,
+  isPracticeMode,
+  onPracticeModeChange,
   isGenshinMode,
   onGenshinModeChange,
   bgmVolume,
@@ -61,11 +90,11 @@ export function GameSetupModal({
 }: GameSetupModalProps) {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="w-[92vw] max-w-md">
+      <DialogContent className="w-[92vw] max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="font-serif text-[var(--text-primary)]">游戏设置</DialogTitle>
           <DialogDescription className="text-[var(--text-muted)]">
-            在开局前调整难度与人数
+            在开局前调整难度、人数、板子与房规
           </DialogDescription>
         </DialogHeader>
 
@@ -107,13 +136,42 @@ export function GameSetupModal({
                     key={option.value}
                     value={String(option.value)}
                     label={option.label}
-                    description={`${option.description}｜${option.roles}`}
+                    description={option.description}
                   />
                 ))}
               </SelectContent>
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-[var(--text-primary)]">板子</div>
+            <BoardComposer board={board} onBoardChange={onBoardChange} />
+          </div>
+
+          <GameRulesSettings rules={rules} onChange={onRulesChange} />
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-[var(--text-primary)]">随机种子</div>
+            <Input
+              value={seed}
+              onChange={(e) => onSeedChange(e.target.value)}
+              placeholder="留空则随机生成"
+            />
+            <div className="text-xs text-[var(--text-muted)]">
+              相同种子下座位、身份分配与平票结果一致，可用于复现对局
+            </div>
+          </div>
+
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-[var(--text-primary)]">练习模式</div>
+              <div className="text-xs text-[var(--text-muted)]">
+                对局中可以回到上一晚重新来过，对局结束后也可以回退复盘
+              </div>
+            </div>
+            <Switch className="shrink-0 mt-1" checked={isPracticeMode} onCheckedChange={onPracticeModeChange} />
+          </div>
+
           <div className="flex items-start justify-between gap-4">
             <div className="flex-1 min-w-0">
             <div className="text-sm font-medium text-[var(--text-primary)]">大模型原神模式</div>
@@ -19,6 +19,8 @@ interface PlayerCardCompactProps {
   animationDelay?: number;
   showWolfBadge?: boolean;
   showRoleBadge?: boolean;
+  /** 回放「显示隐藏信息」时对所有玩家展示身份 */
+  revealRole?: boolean;
   showModel?: boolean;
   selectionTone?: "wolf" | "seer" | "guard" | "witch" | "hunter" | "badge" | "vote";
   seerCheckResult?: "wolf" | "good" | null;
@@ -35,6 +37,7 @@ const getRoleLabel = (role: Role) => {
     case "Witch": return "女巫";
     case "Hunter": return "猎人";
     case "Guard": return "守卫";
+    case "Idiot": return "白痴";
     default: return "村民";
   }
 };
@@ -53,6 +56,7 @@ export function PlayerCardCompact({
   animationDelay = 0,
   showWolfBadge = false,
   showRoleBadge = true,
+  revealRole = false,
   showModel = false,
   selectionTone,
   seerCheckResult = null,
@@ -275,7 +279,7 @@ export function PlayerCardCompact({
       )}
 
       {/* 自己的身份图标 */}
-      {isMe && !isDead && isReady && showRoleBadge && (
+      {((isMe && !isDead && showRoleBadge) || revealRole) && isReady && (
         <div className="absolute bottom-0 right-0 px-1.5 py-0.5 rounded-sm flex items-center justify-center z-10 bg-[var(--color-gold)] shadow-sm translate-x-1 translate-y-1 text-[10px] font-bold text-[var(--bg-dark)]">
           {getRoleLabel(player.role)}
         </div>
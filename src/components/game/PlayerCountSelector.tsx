@@ -1,7 +1,10 @@
 "use client";
 
+import { useMemo } from "react";
 import { CheckCircle } from "@phosphor-icons/react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { roleRegistry } from "@/game/core/RoleRegistry";
+import { BOARD_PRESETS, expandBoardRoles } from "@/lib/board-config";
 
 interface PlayerCountSelectorProps {
   open: boolean;
@@ -10,49 +13,25 @@ interface PlayerCountSelectorProps {
   onChange: (value: number) => void;
 }
 
-const PLAYER_COUNT_OPTIONS: Array<{
+type PlayerCountOption = {
   count: number;
   title: string;
   subtitle: string;
   description: string;
   roles: string;
-}> = [
-  {
-    count: 8,
-    title: "8人局",
-    subtitle: "紧凑对局",
-    description: "3狼 3神 2民",
-    roles: "神职：预言家、女巫、猎人",
-  },
-  {
-    count: 9,
-    title: "9人局",
-    subtitle: "经典入门",
-    description: "3狼 3神 3民",
-    roles: "神职：预言家、女巫、猎人",
-  },
-  {
-    count: 10,
-    title: "10人局",
-    subtitle: "标准配置",
-    description: "3狼 4神 3民",
-    roles: "神职：预言家、女巫、猎人、守卫",
-  },
-  {
-    count: 11,
-    title: "11人局",
-    subtitle: "加速博弈",
-    description: "4狼 4神 3民",
-    roles: "神职：预言家、女巫、猎人、守卫",
-  },
-  {
-    count: 12,
-    title: "12人局",
-    subtitle: "经典满配",
-    description: "4狼 4神 4民",
-    roles: "神职：预言家、女巫、猎人、守卫",
-  },
-];
+};
+
+// 角色名依赖当前语言，在渲染时生成
+const buildPlayerCountOptions = (): PlayerCountOption[] => BOARD_PRESETS.filter((preset) => preset.isDefault).map((preset) => ({
+  count: preset.board.playerCount,
+  title: `${preset.board.playerCount}人局`,
+  subtitle: preset.board.name,
+  description: preset.description,
+  roles: `神职：${expandBoardRoles(preset.board)
+    .filter((role) => roleRegistry.get(role).category === "god")
+    .map((role) => roleRegistry.get(role).getName())
+    .join("、")}`,
+}));
 
 export function PlayerCountSelector({
   open,
@@ -60,6 +39,8 @@ export function PlayerCountSelector({
   value,
   onChange,
 }: PlayerCountSelectorProps) {
+  const options = useMemo(() => buildPlayerCountOptions(), []);
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="wc-difficulty-dialog">
@@ -71,7 +52,7 @@ export function PlayerCountSelector({
         </DialogHeader>
 
         <div className="wc-difficulty-grid">
-          {PLAYER_COUNT_OPTIONS.map((option) => {
+          {options.map((option) => {
             const active = option.count === value;
             return (
               <button
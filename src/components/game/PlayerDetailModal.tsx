@@ -78,6 +78,7 @@ export function PlayerDetailModal({ player, isOpen, onClose, humanPlayer, isGens
     Witch: t("roles.witch"),
     Hunter: t("roles.hunter"),
     Guard: t("roles.guard"),
+    Idiot: t("roles.idiot"),
     Villager: t("roles.villager"),
   }), [t]);
   const strategyLabels = useMemo<Record<string, string>>(() => ({
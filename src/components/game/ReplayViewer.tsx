@@ -0,0 +1,274 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Pause, Play, SkipBack, SkipForward, X } from "@phosphor-icons/react";
+import type { GameState, Player } from "@/types/game";
+import { PHASE_CONFIGS } from "@/store/game-machine";
+import { getI18n } from "@/i18n/translator";
+import { roleRegistry } from "@/game/core/RoleRegistry";
+import { buildReplayStates, createReplayInitialState, type GameReplay, type ReplayFrame } from "@/lib/replay";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { DialogArea } from "./DialogArea";
+import { PlayerCardCompact } from "./PlayerCardCompact";
+import { VoteResultCard } from "./VoteResultCard";
+
+interface ReplayViewerProps {
+  replay: GameReplay;
+  onClose: () => void;
+}
+
+const PLAYBACK_SPEEDS = [1, 2, 4, 8];
+// 帧间隔按真实耗时缩放，但过长的 AI 思考时间会被截断
+const MIN_FRAME_DELAY_MS = 120;
+const MAX_FRAME_DELAY_MS = 2500;
+
+const NIGHT_ACTION_LABELS: Record<Extract<ReplayFrame, { type: "night_action" }>["action"], string> = {
+  guard: "守护",
+  wolf: "狼刀",
+  witch_save: "解药",
+  witch_poison: "毒药",
+  seer: "查验",
+  hunter_shot: "开枪",
+};
+
+const formatClock = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+function buildVoteResults(votes: Record<string, number>, players: Player[]) {
+  const bySeat = new Map<number, number[]>();
+  for (const [voterId, targetSeat] of Object.entries(votes)) {
+    const voter = players.find((p) => p.playerId === voterId);
+    if (!voter) continue;
+    bySeat.set(targetSeat, [...(bySeat.get(targetSeat) ?? []), voter.seat]);
+  }
+  return Array.from(bySeat.entries())
+    .map(([targetSeat, voterSeats]) => ({
+      targetSeat,
+      targetName: players.find((p) => p.seat === targetSeat)?.displayName ?? "",
+      voterSeats,
+      voteCount: voterSeats.length,
+    }))
+    .sort((a, b) => b.voteCount - a.voteCount);
+}
+
+export function ReplayViewer({ replay, onClose }: ReplayViewerProps) {
+  const states = useMemo(() => buildReplayStates(replay), [replay]);
+  const initialState = useMemo(() => createReplayInitialState(replay), [replay]);
+  const lastIndex = states.length - 1;
+
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(PLAYBACK_SPEEDS[1]);
+  const [showHiddenInfo, setShowHiddenInfo] = useState(false);
+
+  const gameState: GameState = states[frameIndex] ?? initialState;
+  const currentFrame = replay.frames[frameIndex];
+  const isNight = gameState.phase.startsWith("NIGHT_");
+  const isGenshinMode = !!replay.isGenshinMode;
+  const revealRoles = showHiddenInfo || gameState.phase === "GAME_END";
+
+  useEffect(() => {
+    if (!isPlaying || frameIndex >= lastIndex) return;
+    const gap = (replay.frames[frameIndex + 1]?.t ?? 0) - (currentFrame?.t ?? 0);
+    const delay = Math.min(MAX_FRAME_DELAY_MS, Math.max(MIN_FRAME_DELAY_MS, gap / speed));
+    const timer = window.setTimeout(() => {
+      setFrameIndex((i) => Math.min(lastIndex, i + 1));
+      if (frameIndex + 1 >= lastIndex) setIsPlaying(false);
+    }, delay);
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, frameIndex, lastIndex, speed, replay.frames, currentFrame]);
+
+  const phaseLabel = useMemo(() => {
+    const { t } = getI18n();
+    return t(PHASE_CONFIGS[gameState.phase].description as Parameters<typeof t>[0]);
+  }, [gameState.phase]);
+
+  // 当前这一天（含前一晚）已发生的夜间行动
+  const nightActions = useMemo(() => {
+    return replay.frames
+      .slice(0, frameIndex + 1)
+      .filter((f): f is Extract<ReplayFrame, { type: "night_action" }> => f.type === "night_action")
+      .filter((f) => f.day === gameState.day);
+  }, [replay.frames, frameIndex, gameState.day]);
+
+  const voteCard = useMemo(() => {
+    if (gameState.phase === "DAY_BADGE_ELECTION") {
+      return { title: "警长投票", results: buildVoteResults(gameState.badge.votes, gameState.players) };
+    }
+    if (gameState.phase === "DAY_VOTE") {
+      return { title: "放逐投票", results: buildVoteResults(gameState.votes, gameState.players) };
+    }
+    return null;
+  }, [gameState.phase, gameState.badge.votes, gameState.votes, gameState.players]);
+
+  const seatLabel = (seat?: number) => {
+    if (typeof seat !== "number") return "—";
+    const player = gameState.players.find((p) => p.seat === seat);
+    return `${seat + 1}号 ${player?.displayName ?? ""}`.trim();
+  };
+
+  const handleTogglePlay = () => {
+    if (frameIndex >= lastIndex) setFrameIndex(0);
+    setIsPlaying((v) => !v);
+  };
+
+  return (
+    <div className="h-full w-full flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-[var(--border-color)]">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="font-serif text-lg font-bold text-[var(--text-primary)]">对局回放</span>
+          <span className="text-sm text-[var(--text-secondary)] truncate">
+            {gameState.day > 0 ? `第 ${gameState.day} 天 · ` : ""}
+            {phaseLabel}
+          </span>
+          {replay.seed && (
+            <span className="hidden sm:inline text-xs text-[var(--text-muted)] font-mono">seed {replay.seed}</span>
+          )}
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          <X size={16} />
+          退出回放
+        </Button>
+      </div>
+
+      <div className="flex flex-1 gap-4 px-4 py-4 overflow-hidden min-h-0">
+        <div className="hidden md:flex w-[240px] flex-col gap-3 shrink-0 overflow-y-auto scrollbar-hide">
+          {gameState.players.map((player) => (
+            <PlayerCardCompact
+              key={player.playerId}
+              player={player}
+              isSpeaking={gameState.currentSpeakerSeat === player.seat}
+              canClick={false}
+              isSelected={false}
+              onClick={() => {}}
+              isNight={isNight}
+              isGenshinMode={isGenshinMode}
+              humanPlayer={null}
+              isBadgeHolder={gameState.badge.holderSeat === player.seat}
+              revealRole={revealRoles}
+              showModel={revealRoles}
+            />
+          ))}
+        </div>
+
+        <div className="flex-1 flex flex-col min-w-0 min-h-0">
+          <DialogArea
+            gameState={gameState}
+            humanPlayer={null}
+            isNight={isNight}
+            currentDialogue={null}
+            displayedText=""
+            isTyping={false}
+            onRestart={onClose}
+          />
+        </div>
+
+        {(showHiddenInfo || voteCard) && (
+          <div className="hidden lg:flex w-[280px] flex-col gap-3 shrink-0 overflow-y-auto">
+            {voteCard && voteCard.results.length > 0 && (
+              <VoteResultCard
+                title={voteCard.title}
+                results={voteCard.results}
+                players={gameState.players}
+                isNight={isNight}
+                isGenshinMode={isGenshinMode}
+              />
+            )}
+            {showHiddenInfo && (
+              <div className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-secondary)] p-4">
+                <div className="text-sm font-semibold text-[var(--text-primary)] mb-2">
+                  第 {gameState.day} 夜行动
+                </div>
+                {nightActions.length === 0 ? (
+                  <div className="text-xs text-[var(--text-muted)]">暂无</div>
+                ) : (
+                  <ul className="space-y-1 text-xs text-[var(--text-secondary)]">
+                    {nightActions.map((action, index) => (
+                      <li key={`${action.action}-${index}`}>
+                        <span className="font-semibold text-[var(--text-primary)]">{NIGHT_ACTION_LABELS[action.action]}</span>
+                        {typeof action.actorSeat === "number" && ` · ${seatLabel(action.actorSeat)}`}
+                        {" → "}
+                        {seatLabel(action.targetSeat)}
+                        {action.action === "seer" && (action.isWolf ? "（狼人）" : "（好人）")}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="mt-3 pt-2 border-t border-[var(--border-color)] text-xs text-[var(--text-muted)] space-y-0.5">
+                  {replay.players.map((p) => (
+                    <div key={p.playerId}>
+                      {p.seat + 1}号 {p.displayName} · {roleRegistry.get(p.role).getName()}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-t border-[var(--border-color)]">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => setFrameIndex((i) => Math.max(0, i - 1))}
+          disabled={frameIndex <= 0}
+          aria-label="上一帧"
+        >
+          <SkipBack size={16} />
+        </Button>
+        <Button type="button" variant="outline" size="icon" onClick={handleTogglePlay} aria-label={isPlaying ? "暂停" : "播放"}>
+          {isPlaying ? <Pause size={16} weight="fill" /> : <Play size={16} weight="fill" />}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => setFrameIndex((i) => Math.min(lastIndex, i + 1))}
+          disabled={frameIndex >= lastIndex}
+          aria-label="下一帧"
+        >
+          <SkipForward size={16} />
+        </Button>
+        <Slider
+          className="flex-1 min-w-[160px]"
+          min={0}
+          max={Math.max(0, lastIndex)}
+          value={frameIndex}
+          onValueChange={(value) => {
+            setIsPlaying(false);
+            setFrameIndex(value);
+          }}
+        />
+        <span className="text-xs tabular-nums text-[var(--text-muted)]">
+          {formatClock(currentFrame?.t ?? 0)} / {formatClock(replay.frames[lastIndex]?.t ?? 0)}
+        </span>
+        <div className="flex items-center gap-1">
+          {PLAYBACK_SPEEDS.map((value) => (
+            <Button
+              key={value}
+              type="button"
+              variant={speed === value ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setSpeed(value)}
+            >
+              {value}x
+            </Button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+          <Switch checked={showHiddenInfo} onCheckedChange={setShowHiddenInfo} />
+          显示隐藏信息
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -88,6 +88,16 @@ function getRoleMeta(role: Player["role"]): RoleMeta {
         abilities: ["夜晚守护一名玩家，使其免于当夜袭击", "通常不能连续两晚守护同一人"],
         tips: ["守住关键时刻", "别暴露守护对象"],
       };
+    case "Idiot":
+      return {
+        title: "白痴",
+        subtitle: "被投出去也能翻牌留场。",
+        color: "var(--color-villager)",
+        bg: "var(--color-villager-bg)",
+        Icon: VillagerIcon,
+        abilities: ["第一次被放逐时翻牌，免于出局", "翻牌后失去投票权"],
+        tips: ["白天可以大胆发言", "翻牌后容易成为狼人目标"],
+      };
     default:
       return {
         title: "村民",
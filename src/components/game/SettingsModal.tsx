@@ -5,7 +5,11 @@ import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import type { GameState } from "@/types/game";
-import { getApiConfig, saveApiConfig, API_PROVIDERS, type ApiConfig } from "@/lib/api-config";
+import type { TurnTimerConfig } from "@/lib/turn-timer";
+import { TurnTimerSettings } from "./TurnTimerSettings";
+import { GameRulesSettings } from "./GameRulesSettings";
+import { getGameRules } from "@/lib/game-rules";
+import { getApiConfig, saveApiConfig, API_PROVIDERS, isMockProvider, type ApiConfig } from "@/lib/api-config";
 import { ExternalLink, Eye, EyeOff } from "lucide-react";
 
 interface SoundSettingsSectionProps {
@@ -24,9 +28,11 @@ interface SettingsModalProps {
   isSoundEnabled: boolean;
   isAiVoiceEnabled: boolean;
   gameState: GameState;
+  turnTimers: TurnTimerConfig;
   onBgmVolumeChange: (value: number) => void;
   onSoundEnabledChange: (value: boolean) => void;
   onAiVoiceEnabledChange: (value: boolean) => void;
+  onTurnTimersChange: (config: TurnTimerConfig) => void;
 }
 
 export function SoundSettingsSection({
@@ -113,11 +119,12 @@ function ApiSettingsSection() {
   };
 
   const currentProvider = API_PROVIDERS.find(p => p.id === config.llmProvider) || API_PROVIDERS[0];
+  const isMock = isMockProvider(config);
 
   return (
     <div className="space-y-4">
       {/* 没有 API Key 提示 */}
-      {!config.llmApiKey && (
+      {!config.llmApiKey && !isMock && (
         <div className="rounded-lg bg-amber-500/10 border-2 border-amber-500/30 p-3 flex items-center justify-between">
           <div>
             <div className="text-sm font-medium text-amber-600">⚠️ 请先配置 API Key</div>
@@ -166,22 +173,26 @@ function ApiSettingsSection() {
             />
           )}
 
-          <div className="relative">
-            <input
-              type={showLlmKey ? 'text' : 'password'}
-              value={config.llmApiKey}
-              onChange={(e) => handleChange('llmApiKey', e.target.value)}
-              placeholder="API Key"
-              className="w-full px-3 py-2 pr-10 text-sm bg-[var(--bg-card)] border-2 border-[var(--border-color)] rounded-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
-            />
-            <button
-              type="button"
-              onClick={() => setShowLlmKey(!showLlmKey)}
-              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
-            >
-              {showLlmKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-            </button>
-          </div>
+          {isMock ? (
+            <div className="text-xs text-[var(--text-muted)]">使用本地规则 AI，无需网络和 API Key</div>
+          ) : (
+            <div className="relative">
+              <input
+                type={showLlmKey ? 'text' : 'password'}
+                value={config.llmApiKey}
+                onChange={(e) => handleChange('llmApiKey', e.target.value)}
+                placeholder="API Key"
+                className="w-full px-3 py-2 pr-10 text-sm bg-[var(--bg-card)] border-2 border-[var(--border-color)] rounded-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+              />
+              <button
+                type="button"
+                onClick={() => setShowLlmKey(!showLlmKey)}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+              >
+                {showLlmKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </button>
+            </div>
+          )}
 
           <input
             type="text"
@@ -261,9 +272,11 @@ export function SettingsModal({
   isSoundEnabled,
   isAiVoiceEnabled,
   gameState,
+  turnTimers,
   onBgmVolumeChange,
   onSoundEnabledChange,
   onAiVoiceEnabledChange,
+  onTurnTimersChange,
 }: SettingsModalProps) {
   const [view, setView] = useState<"settings" | "about" | "api">("settings");
   const [groupImgOk, setGroupImgOk] = useState<boolean | null>(null);
@@ -306,6 +319,16 @@ export function SettingsModal({
     }
   }, [logJsonText]);
 
+  const handleCopySeed = useCallback(async () => {
+    if (!gameState.seed) return;
+    try {
+      await navigator.clipboard.writeText(gameState.seed);
+      toast("已复制对局种子", { description: "开局时填入同一种子即可复现本局的洗牌与随机结果" });
+    } catch {
+      toast("复制失败", { description: "当前环境不支持剪贴板或权限被拒绝" });
+    }
+  }, [gameState.seed]);
+
   const handleDownloadLog = useCallback(() => {
     try {
       const blob = new Blob([logJsonText], { type: "application/json;charset=utf-8" });
@@ -404,11 +427,28 @@ export function SettingsModal({
               onAiVoiceEnabledChange={onAiVoiceEnabledChange}
             />
 
+            <TurnTimerSettings config={turnTimers} onChange={onTurnTimersChange} />
+
+            {/* 对局中只展示本局房规 */}
+            {gameState.phase !== "LOBBY" && gameState.phase !== "SETUP" && (
+              <GameRulesSettings rules={getGameRules(gameState)} onChange={() => {}} disabled />
+            )}
+
             <div className="rounded-lg border-2 border-[var(--border-color)] bg-[var(--bg-secondary)] p-3 space-y-3">
               <div>
                 <div className="text-sm font-medium text-[var(--text-primary)]">日志</div>
                 <div className="text-xs text-[var(--text-muted)]">遇到问题时，可导出 JSON 日志便于定位</div>
               </div>
+              {gameState.seed && (
+                <div className="flex items-center justify-between gap-2 text-xs text-[var(--text-muted)]">
+                  <span className="truncate">
+                    对局种子 <span className="font-mono text-[var(--text-primary)]">{gameState.seed}</span>
+                  </span>
+                  <Button type="button" variant="outline" size="sm" onClick={() => { void handleCopySeed(); }}>
+                    复制
+                  </Button>
+                </div>
+              )}
               <div className="flex gap-2">
                 <Button type="button" variant="outline" onClick={() => { void handleCopyLog(); }} className="flex-1">
                   复制 JSON
@@ -0,0 +1,134 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Eye, MonitorPlay, SignOut } from "@phosphor-icons/react";
+import type { GameState, Player } from "@/types/game";
+import { PHASE_CONFIGS } from "@/store/game-machine";
+import { getI18n } from "@/i18n/translator";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { DialogArea } from "./DialogArea";
+import { PlayerCardCompact } from "./PlayerCardCompact";
+
+interface SpectatorStageProps {
+  gameState: GameState;
+  /** 上帝视角：对观战者展示全部身份 */
+  godView?: boolean;
+  /** 观战画面延迟（秒），仅用于提示 */
+  delaySeconds?: number;
+  /** 初始是否为直播叠加模式 */
+  defaultOverlay?: boolean;
+  onLeave?: () => void;
+}
+
+/**
+ * 观战 / 直播画面
+ * 玩家卡片分列对话区两侧；直播叠加模式去掉背景与标题栏，可直接作为 OBS 等软件的浏览器源
+ */
+export function SpectatorStage({
+  gameState,
+  godView = false,
+  delaySeconds = 0,
+  defaultOverlay = false,
+  onLeave,
+}: SpectatorStageProps) {
+  const [overlay, setOverlay] = useState(defaultOverlay);
+
+  const isNight = gameState.phase.startsWith("NIGHT_");
+  const isGenshinMode = !!gameState.isGenshinMode;
+  const revealRoles = godView || gameState.phase === "GAME_END";
+  const half = Math.ceil(gameState.players.length / 2);
+  const leftPlayers = gameState.players.slice(0, half);
+  const rightPlayers = gameState.players.slice(half);
+
+  const phaseLabel = useMemo(() => {
+    const { t } = getI18n();
+    return t(PHASE_CONFIGS[gameState.phase].description as Parameters<typeof t>[0]);
+  }, [gameState.phase]);
+
+  const renderColumn = (players: Player[]) => (
+    <div className="flex w-[200px] lg:w-[240px] flex-col gap-3 shrink-0 overflow-y-auto scrollbar-hide py-2 px-1">
+      {players.map((player, index) => (
+        <PlayerCardCompact
+          key={player.playerId}
+          player={player}
+          isSpeaking={gameState.currentSpeakerSeat === player.seat}
+          canClick={false}
+          isSelected={false}
+          onClick={() => {}}
+          animationDelay={index * 0.05}
+          isNight={isNight}
+          isGenshinMode={isGenshinMode}
+          humanPlayer={null}
+          isBadgeHolder={gameState.badge.holderSeat === player.seat}
+          isBadgeCandidate={
+            (gameState.phase === "DAY_BADGE_ELECTION" || gameState.phase === "DAY_BADGE_SPEECH") &&
+            (gameState.badge.candidates || []).includes(player.seat)
+          }
+          revealRole={revealRoles}
+          showModel={revealRoles}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className={cn("relative h-full w-full flex flex-col overflow-hidden", overlay && "bg-transparent")}>
+      {overlay ? (
+        // 直播时界面按钮默认隐藏，鼠标移入才显示
+        <button
+          type="button"
+          onClick={() => setOverlay(false)}
+          className="absolute top-2 right-2 z-10 opacity-0 hover:opacity-100 transition-opacity text-xs px-2 py-1 rounded bg-black/60 text-white"
+        >
+          退出直播模式
+        </button>
+      ) : (
+        <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-[var(--border-color)]">
+          <div className="flex items-center gap-3 min-w-0">
+            <span className="inline-flex items-center gap-1.5 font-serif text-lg font-bold text-[var(--text-primary)]">
+              <Eye size={18} />
+              观战
+            </span>
+            <span className="text-sm text-[var(--text-secondary)] truncate">
+              {gameState.day > 0 ? `第 ${gameState.day} 天 · ` : ""}
+              {phaseLabel}
+            </span>
+            {delaySeconds > 0 && (
+              <span className="text-xs text-[var(--text-muted)]">延迟 {delaySeconds} 秒</span>
+            )}
+            {godView && <span className="text-xs text-[var(--color-wolf)]">上帝视角</span>}
+          </div>
+          <div className="flex items-center gap-1">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setOverlay(true)}>
+              <MonitorPlay size={16} />
+              直播模式
+            </Button>
+            {onLeave && (
+              <Button type="button" variant="ghost" size="sm" onClick={onLeave}>
+                <SignOut size={16} />
+                离开
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-1 gap-4 px-4 py-4 overflow-hidden min-h-0">
+        {renderColumn(leftPlayers)}
+        <div className="flex-1 flex flex-col min-w-0 min-h-0">
+          <DialogArea
+            gameState={gameState}
+            humanPlayer={null}
+            isNight={isNight}
+            isSoundEnabled={false}
+            currentDialogue={null}
+            displayedText=""
+            isTyping={false}
+          />
+        </div>
+        {renderColumn(rightPlayers)}
+      </div>
+    </div>
+  );
+}
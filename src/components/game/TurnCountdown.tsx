@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { TimerIcon } from "@/components/icons/FlatIcons";
+import { cn } from "@/lib/utils";
+
+interface TurnCountdownProps {
+  /** 回合截止时间（毫秒时间戳） */
+  deadline: number;
+  isNight?: boolean;
+  className?: string;
+}
+
+// 最后几秒高亮提醒
+const WARNING_SECONDS = 10;
+
+export function TurnCountdown({ deadline, isNight = false, className }: TurnCountdownProps) {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    const first = window.setTimeout(tick, 0);
+    const interval = window.setInterval(tick, 250);
+    return () => {
+      window.clearTimeout(first);
+      window.clearInterval(interval);
+    };
+  }, []);
+
+  if (now === null) return null;
+  const seconds = Math.max(0, Math.ceil((deadline - now) / 1000));
+  const isWarning = seconds <= WARNING_SECONDS;
+
+  return (
+    <div
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold tabular-nums border",
+        isWarning
+          ? "text-[var(--color-danger)] border-[var(--color-danger)] animate-pulse"
+          : isNight
+            ? "text-white/80 border-white/15 bg-white/10"
+            : "text-[var(--text-secondary)] border-[var(--border-color)] bg-[var(--bg-card)]",
+        className
+      )}
+    >
+      <TimerIcon size={14} />
+      剩余 {seconds} 秒
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MAX_TURN_SECONDS,
+  TURN_FALLBACK_LABELS,
+  TURN_FALLBACK_OPTIONS,
+  TURN_KIND_LABELS,
+  TURN_KINDS,
+  type TurnFallback,
+  type TurnKind,
+  type TurnTimerConfig,
+} from "@/lib/turn-timer";
+
+interface TurnTimerSettingsProps {
+  config: TurnTimerConfig;
+  onChange: (config: TurnTimerConfig) => void;
+  disabled?: boolean;
+}
+
+export function TurnTimerSettings({ config, onChange, disabled = false }: TurnTimerSettingsProps) {
+  const setDuration = (kind: TurnKind, raw: string) => {
+    const seconds = Math.min(MAX_TURN_SECONDS, Math.max(0, Math.round(Number(raw) || 0)));
+    onChange({ ...config, durations: { ...config.durations, [kind]: seconds } });
+  };
+
+  const setFallback = (kind: TurnKind, fallback: TurnFallback) => {
+    onChange({ ...config, fallbacks: { ...config.fallbacks, [kind]: fallback } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="text-sm font-medium text-[var(--text-primary)]">回合限时</div>
+          <div className="text-xs text-[var(--text-muted)]">超时后按设置弃权、跳过或交给 AI 代为决策</div>
+        </div>
+        <Switch
+          checked={config.enabled}
+          onCheckedChange={(enabled) => onChange({ ...config, enabled })}
+          disabled={disabled}
+        />
+      </div>
+
+      {config.enabled && (
+        <div className="space-y-2">
+          {TURN_KINDS.map((kind) => (
+            <div key={kind} className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+              <span className="w-20 shrink-0">{TURN_KIND_LABELS[kind]}</span>
+              <Input
+                type="number"
+                min={0}
+                max={MAX_TURN_SECONDS}
+                value={config.durations[kind]}
+                onChange={(e) => setDuration(kind, e.target.value)}
+                disabled={disabled}
+                className="h-8 w-20"
+              />
+              <span className="text-xs text-[var(--text-muted)]">秒</span>
+              <Select
+                value={config.fallbacks[kind]}
+                onValueChange={(value) => setFallback(kind, value as TurnFallback)}
+                disabled={disabled || config.durations[kind] === 0}
+              >
+                <SelectTrigger className="h-8 flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TURN_FALLBACK_OPTIONS[kind].map((fallback) => (
+                    <SelectItem key={fallback} value={fallback} label={TURN_FALLBACK_LABELS[fallback]} />
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <div className="text-xs text-[var(--text-muted)]">限时为 0 表示该类回合不限时</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -107,6 +107,19 @@ const ROLE_CONFIG: Record<Role, {
     bg: "var(--color-guard-bg)",
     Icon: GuardIcon,
   },
+  Idiot: {
+    title: "白痴",
+    desc: "你被放逐时可以翻牌免死",
+    points: [
+      "被投票放逐时翻牌，留在场上",
+      "翻牌后失去投票权",
+    ],
+    action: "夜晚无行动，白天用发言带队",
+    tips: ["可以大胆表达判断，不怕被投", "翻牌后尽早交代信息"],
+    accent: "var(--color-villager)",
+    bg: "var(--color-villager-bg)",
+    Icon: VillagerIcon,
+  },
   Villager: {
     title: "村民",
     desc: "你没有特殊能力，但判断同样重要",
@@ -3,6 +3,7 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { CheckCircle, HourglassSimple } from "@phosphor-icons/react";
 import type { GameState, Player } from "@/types/game";
+import { getGameRules } from "@/lib/game-rules";
 
 interface VotingProgressProps {
   gameState: GameState;
@@ -26,13 +27,14 @@ export function VotingProgress({ gameState, humanPlayer }: VotingProgressProps)
     return votes[voter.playerId] !== undefined ? count + 1 : count;
   }, 0);
   
-  // 获取警长信息（用于计算1.5票）
+  // 获取警长信息（用于计算警长票权重）
   const sheriffSeat = gameState.badge.holderSeat;
   const sheriffPlayer = sheriffSeat !== null 
     ? gameState.players.find(p => p.seat === sheriffSeat && p.alive)
     : null;
 
-  // 统计每个目标的票数（考虑警长1.5票权重，仅在非警长选举阶段）
+  // 统计每个目标的票数（考虑警长票权重，仅在非警长选举阶段）
+  const { sheriffVoteWeight } = getGameRules(gameState);
   const voteTargets: Record<number, { voters: Player[], target: Player | undefined, voteCount: number }> = {};
   
   Object.entries(votes).forEach(([voterId, targetSeat]) => {
@@ -42,8 +44,8 @@ export function VotingProgress({ gameState, humanPlayer }: VotingProgressProps)
     const target = gameState.players.find(p => p.seat === targetSeat);
     if (!voter || !target) return;
     
-    // 警长的票在非警长选举阶段计算为1.5票
-    const voteWeight = (!isBadgeElection && sheriffPlayer && voterId === sheriffPlayer.playerId) ? 1.5 : 1;
+    // 警长的票在非警长选举阶段按房规加权
+    const voteWeight = (!isBadgeElection && sheriffPlayer && voterId === sheriffPlayer.playerId) ? sheriffVoteWeight : 1;
     
     if (!voteTargets[targetSeat]) {
       voteTargets[targetSeat] = { voters: [], target, voteCount: 0 };
@@ -1,13 +1,14 @@
 "use client";
 
 import { motion, AnimatePresence } from "framer-motion";
-import { FingerprintSimple, PawPrint, Sparkle, Wrench, GearSix, UserCircle, GithubLogo, DotsThreeOutlineVertical, Users, Key } from "@phosphor-icons/react";
+import { FingerprintSimple, PawPrint, Sparkle, Wrench, GearSix, UserCircle, GithubLogo, DotsThreeOutlineVertical, Users, Key, FilmStrip, ClockCounterClockwise } from "@phosphor-icons/react";
 import { WerewolfIcon } from "@/components/icons/FlatIcons";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useEffect, useMemo, useRef, useState } from "react";
+import { useAtom } from "jotai";
 import { toast } from "sonner";
-import type { DevPreset, DifficultyLevel, Role, StartGameOptions } from "@/types/game";
+import type { DevPreset, DifficultyLevel, Phase, Role, StartGameOptions } from "@/types/game";
 import { DevModeButton } from "@/components/DevTools";
 import { GameSetupModal } from "@/components/game/GameSetupModal";
 import { AuthModal } from "@/components/game/AuthModal";
@@ -19,67 +20,35 @@ import { useCredits } from "@/hooks/useCredits";
 import { ApiConfigModal } from "@/components/game/ApiConfigModal";
 import { AboutModal } from "@/components/game/AboutModal";
 import { isApiConfigured } from "@/lib/api-config";
+import {
+  boardToFixedRoles,
+  expandBoardRoles,
+  getDefaultBoard,
+  hasBoardErrors,
+  type BoardConfig,
+} from "@/lib/board-config";
+import { createSeededRandom, generateGameSeed } from "@/lib/game-rng";
+import { parseReplay, type GameReplay } from "@/lib/replay";
+import { normalizeGameRules } from "@/lib/game-rules";
+import { gameRulesAtom } from "@/store/game-machine";
+import { GAME_FIXTURES } from "@/game/fixtures";
+import { getLatestCheckpoint, type GameCheckpoint } from "@/lib/game-checkpoints";
+
+const CHECKPOINT_PHASE_LABELS: Partial<Record<Phase, string>> = {
+  NIGHT_START: "入夜",
+  DAY_START: "天亮",
+  DAY_VOTE: "投票",
+};
+
+function formatCheckpointTime(savedAt: number): string {
+  const date = new Date(savedAt);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getMonth() + 1}/${date.getDate()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
 
 function buildDefaultRoles(playerCount: number): Role[] {
-  switch (playerCount) {
-    case 8:
-      return ["Werewolf", "Werewolf", "Werewolf", "Seer", "Witch", "Hunter", "Villager", "Villager"];
-    case 9:
-      return [
-        "Werewolf",
-        "Werewolf",
-        "Werewolf",
-        "Seer",
-        "Witch",
-        "Hunter",
-        "Villager",
-        "Villager",
-        "Villager",
-      ];
-    case 11:
-      return [
-        "Werewolf",
-        "Werewolf",
-        "Werewolf",
-        "Werewolf",
-        "Seer",
-        "Witch",
-        "Hunter",
-        "Guard",
-        "Villager",
-        "Villager",
-        "Villager",
-      ];
-    case 12:
-      return [
-        "Werewolf",
-        "Werewolf",
-        "Werewolf",
-        "Werewolf",
-        "Seer",
-        "Witch",
-        "Hunter",
-        "Guard",
-        "Villager",
-        "Villager",
-        "Villager",
-        "Villager",
-      ];
-    case 10:
-    default:
-      return [
-        "Werewolf",
-        "Werewolf",
-        "Werewolf",
-        "Seer",
-        "Witch",
-        "Hunter",
-        "Guard",
-        "Villager",
-        "Villager",
-        "Villager",
-      ];
-  }
+  const board = getDefaultBoard(playerCount) ?? getDefaultBoard(10)!;
+  return expandBoardRoles(board);
 }
 
 function getRoleCountConfig(playerCount: number) {
@@ -114,6 +83,8 @@ interface WelcomeScreenProps {
   onBgmVolumeChange: (value: number) => void;
   onSoundEnabledChange: (value: boolean) => void;
   onAiVoiceEnabledChange: (value: boolean) => void;
+  onOpenReplay?: (replay: GameReplay) => void;
+  onResume?: (checkpoint: GameCheckpoint) => void;
 }
 
 export function WelcomeScreen({
@@ -130,6 +101,8 @@ export function WelcomeScreen({
   onBgmVolumeChange,
   onSoundEnabledChange,
   onAiVoiceEnabledChange,
+  onOpenReplay,
+  onResume,
 }: WelcomeScreenProps) {
   const {
     user,
@@ -157,6 +130,13 @@ export function WelcomeScreen({
   const [isAboutOpen, setIsAboutOpen] = useState(false);
   const [difficulty, setDifficulty] = useState<DifficultyLevel>("normal");
   const [playerCount, setPlayerCount] = useState(10);
+  const [board, setBoard] = useState<BoardConfig>(() => getDefaultBoard(10)!);
+  const [seed, setSeed] = useState("");
+  const [isPracticeMode, setIsPracticeMode] = useState(false);
+  const [resumeCheckpoint, setResumeCheckpoint] = useState<GameCheckpoint | null>(null);
+  const [storedRules, setRules] = useAtom(gameRulesAtom);
+  const rules = useMemo(() => normalizeGameRules(storedRules), [storedRules]);
+  const replayInputRef = useRef<HTMLInputElement | null>(null);
 
   // 调试面板状态
   const [isDevModeEnabled, setIsDevModeEnabled] = useState(false);
@@ -174,14 +154,43 @@ export function WelcomeScreen({
     Witch: "女巫",
     Hunter: "猎人",
     Guard: "守卫",
+    Idiot: "白痴",
   };
 
   const [fixedRoles, setFixedRoles] = useState<(Role | "")[]>(() => buildDefaultRoles(10));
 
+  const handlePlayerCountChange = (count: number) => {
+    setPlayerCount(count);
+    const nextBoard = getDefaultBoard(count);
+    if (nextBoard) setBoard(nextBoard);
+  };
+
+  // 导入或选择的板子人数可能与当前不同，人数跟随板子
+  const handleBoardChange = (next: BoardConfig) => {
+    setBoard(next);
+    if (next.playerCount !== playerCount) setPlayerCount(next.playerCount);
+  };
+
+  const boardValid = useMemo(() => !hasBoardErrors(board), [board]);
+
   useEffect(() => {
     setFixedRoles(buildDefaultRoles(playerCount));
   }, [playerCount]);
 
+  // 读取最近一局未结束的存档，用于"继续上局"
+  useEffect(() => {
+    if (!onResume) return;
+    let cancelled = false;
+    getLatestCheckpoint()
+      .then((checkpoint) => {
+        if (!cancelled) setResumeCheckpoint(checkpoint);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [onResume]);
+
 
   const roleConfigValid = useMemo(() => {
     if (fixedRoles.length !== playerCount) return false;
@@ -194,6 +203,7 @@ export function WelcomeScreen({
       Witch: 0,
       Hunter: 0,
       Guard: 0,
+      Idiot: 0,
     };
     for (const r of fixedRoles) {
       counts[r as Role] += 1;
@@ -332,6 +342,13 @@ export function WelcomeScreen({
     //   return;
     // }
 
+    const useDevRoles = devTab === "roles" && roleConfigValid;
+    if (!boardValid && !useDevRoles) {
+      setIsSetupOpen(true);
+      toast("板子配置无法开局", { description: "请在游戏设置中调整角色配置" });
+      return;
+    }
+
     isStartingRef.current = true;
 
     const seal = sealButtonRef.current;
@@ -341,13 +358,36 @@ export function WelcomeScreen({
 
     window.setTimeout(() => {
       // 传递开发模式配置
-      const roles = devTab === "roles" && roleConfigValid ? (fixedRoles as Role[]) : undefined;
-      const preset = devTab === "preset" && devPreset ? (devPreset as DevPreset) : undefined;
-      void onStart({ fixedRoles: roles, devPreset: preset, difficulty, playerCount });
+      const gameSeed = seed.trim() || generateGameSeed();
+      const roles = useDevRoles
+        ? (fixedRoles as Role[])
+        : boardToFixedRoles(board, createSeededRandom(`${gameSeed}:board`));
+      const preset = devTab === "preset" && devPreset ? devPreset : undefined;
+      // 预设场景自带身份与人数
+      const fixture = preset ? GAME_FIXTURES[preset] : undefined;
+      void onStart({
+        fixedRoles: fixture ? fixture.roles : roles,
+        devPreset: preset,
+        difficulty,
+        playerCount: fixture ? fixture.roles.length : playerCount,
+        seed: gameSeed,
+        rules,
+        isPracticeMode,
+      });
       isStartingRef.current = false;
     }, 800);
   };
 
+  const handleReplayFile = async (file: File | undefined) => {
+    if (!file || !onOpenReplay) return;
+    const replay = parseReplay(await file.text());
+    if (!replay) {
+      toast("回放导入失败", { description: "文件格式不正确或版本过新" });
+      return;
+    }
+    onOpenReplay(replay);
+  };
+
   return (
     <>
     <div className="wc-contract-screen selection:bg-[var(--color-accent)] selection:text-white">
@@ -360,7 +400,15 @@ export function WelcomeScreen({
         difficulty={difficulty}
         onDifficultyChange={setDifficulty}
         playerCount={playerCount}
-        onPlayerCountChange={setPlayerCount}
+        onPlayerCountChange={handlePlayerCountChange}
+        board={board}
+        onBoardChange={handleBoardChange}
+        seed={seed}
+        onSeedChange={setSeed}
+        rules={rules}
+        onRulesChange={setRules}
+        isPracticeMode={isPracticeMode}
+        onPracticeModeChange={setIsPracticeMode}
         isGenshinMode={isGenshinMode}
         onGenshinModeChange={onGenshinModeChange}
         bgmVolume={bgmVolume}
@@ -459,6 +507,20 @@ export function WelcomeScreen({
                 账号信息
               </Button>
             ) : null}
+            {onOpenReplay && (
+              <Button
+                type="button"
+                variant="outline"
+                className="justify-start"
+                onClick={() => {
+                  setIsMobileMenuOpen(false);
+                  replayInputRef.current?.click();
+                }}
+              >
+                <FilmStrip size={16} />
+                导入回放
+              </Button>
+            )}
             <Button
               type="button"
               variant="outline"
@@ -474,6 +536,17 @@ export function WelcomeScreen({
         </DialogContent>
       </Dialog>
 
+      <input
+        ref={replayInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          void handleReplayFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+      />
+
       <div className="wc-welcome-actions absolute top-5 right-5 z-20 flex items-center gap-2">
         <div className="hidden sm:flex items-center gap-2">
           {/* [已移除] GitHub 链接
@@ -545,6 +618,17 @@ export function WelcomeScreen({
             </Button>
           )}
 
+          {onOpenReplay && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => replayInputRef.current?.click()}
+              className="h-8 text-xs gap-2"
+            >
+              <FilmStrip size={16} />
+              回放
+            </Button>
+          )}
           <Button
             type="button"
             variant="outline"
@@ -654,6 +738,19 @@ export function WelcomeScreen({
             >
               <FingerprintSimple weight="fill" size={44} className="wc-wax-seal-icon" />
             </button>
+            {onResume && resumeCheckpoint && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onResume(resumeCheckpoint)}
+                disabled={isLoading || isTransitioning}
+                className="h-8 text-xs gap-2"
+              >
+                <ClockCounterClockwise size={16} />
+                继续上局 · 第 {resumeCheckpoint.day} 天{CHECKPOINT_PHASE_LABELS[resumeCheckpoint.phase] ?? ""}
+                <span className="opacity-60">{formatCheckpointTime(resumeCheckpoint.savedAt)}</span>
+              </Button>
+            )}
           </div>
 
           <div className="wc-corner-mark" aria-hidden="true">
@@ -772,9 +869,17 @@ export function WelcomeScreen({
                   className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white text-sm focus:outline-none focus:border-yellow-400"
                 >
                   <option value="">无</option>
-                  <option value="MILK_POISON_TEST">毒奶测试</option>
-                  <option value="LAST_WORDS_TEST">遗言测试</option>
+                  {Object.values(GAME_FIXTURES).map((fixture) => (
+                    <option key={fixture.id} value={fixture.id}>
+                      {fixture.name}
+                    </option>
+                  ))}
                 </select>
+                {devPreset && (
+                  <div className="text-xs text-gray-400">
+                    {`${GAME_FIXTURES[devPreset].description}（${GAME_FIXTURES[devPreset].roles.length}人局，使用场景身份）`}
+                  </div>
+                )}
               </div>
             )}
 
@@ -1,17 +1,27 @@
 "use client";
 
+import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Skull, HourglassSimple, CheckCircle, Target } from "@phosphor-icons/react";
+import { Skull, HourglassSimple, CheckCircle, Target, PaperPlaneRight } from "@phosphor-icons/react";
 import { WerewolfIcon } from "@/components/icons/FlatIcons";
+import { getWolfChatMessages } from "@/lib/prompt-utils";
+import { WOLF_CHAT_MAX_LENGTH } from "@/lib/game-master";
 import type { GameState, Player } from "@/types/game";
 
 interface WolfPlanningPanelProps {
   gameState: GameState;
   humanPlayer: Player | null;
+  /** 狼队夜聊发言，不传则只显示聊天记录 */
+  onSendChat?: (text: string) => void;
+  /** AI 队友发言中，暂不能发送 */
+  isChatBusy?: boolean;
 }
 
-export function WolfPlanningPanel({ gameState, humanPlayer }: WolfPlanningPanelProps) {
+export function WolfPlanningPanel({ gameState, humanPlayer, onSendChat, isChatBusy = false }: WolfPlanningPanelProps) {
+  const [chatInput, setChatInput] = useState("");
   const wolves = gameState.players.filter(p => p.role === "Werewolf" && p.alive);
+  const chatMessages = getWolfChatMessages(gameState).filter(m => m.day === gameState.day);
+  const canChat = !!onSendChat && wolves.length > 1 && gameState.nightActions.wolfTarget === undefined;
   const wolfVotes = gameState.nightActions.wolfVotes || {};
   const votedCount = Object.keys(wolfVotes).length;
 
@@ -37,6 +47,13 @@ export function WolfPlanningPanel({ gameState, humanPlayer }: WolfPlanningPanelP
   // 判断是否达成一致
   const isConsensus = sortedTargets.length === 1 && votedCount === wolves.length;
 
+  const handleSendChat = () => {
+    const text = chatInput.trim();
+    if (!text || isChatBusy || !onSendChat) return;
+    onSendChat(text);
+    setChatInput("");
+  };
+
   return (
     <div className="wc-wolf-panel bg-[#1a1512] border border-[#3e2723] rounded-lg p-4 text-[#f0e6d2]">
       {/* 标题 */}
@@ -93,6 +110,53 @@ export function WolfPlanningPanel({ gameState, humanPlayer }: WolfPlanningPanelP
         </div>
       </div>
 
+      {/* 狼队夜聊 */}
+      {(chatMessages.length > 0 || canChat) && (
+        <div className="mb-4">
+          <div className="text-xs text-[#a09080] mb-2">狼队夜聊:</div>
+          {chatMessages.length > 0 && (
+            <div className="max-h-32 overflow-y-auto space-y-1 mb-2 pr-1">
+              {chatMessages.map((message, index) => {
+                const speaker = gameState.players.find(p => p.playerId === message.playerId);
+                const isSelf = message.playerId === humanPlayer?.playerId;
+                return (
+                  <div key={index} className="text-xs leading-relaxed">
+                    <span className="font-bold text-[var(--color-wolf)]">
+                      {message.seat + 1}号 {isSelf ? "你" : speaker?.displayName}：
+                    </span>
+                    <span>{message.content}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {canChat && (
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={chatInput}
+                maxLength={WOLF_CHAT_MAX_LENGTH}
+                onChange={(e) => setChatInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.nativeEvent.isComposing) handleSendChat();
+                }}
+                placeholder={isChatBusy ? "队友正在发言..." : "和狼队友商量刀口与明天的打法"}
+                className="flex-1 min-w-0 px-2 py-1.5 text-xs rounded bg-[#2a201a] border border-[#3e2723] text-[#f0e6d2] placeholder:text-[#a09080] outline-none focus:border-[var(--color-wolf)]"
+              />
+              <button
+                type="button"
+                onClick={handleSendChat}
+                disabled={isChatBusy || !chatInput.trim()}
+                className="shrink-0 p-1.5 rounded bg-[var(--color-wolf)] text-white disabled:opacity-50"
+                aria-label="发送"
+              >
+                <PaperPlaneRight size={14} weight="fill" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* 目标汇总 */}
       {sortedTargets.length > 0 && (
         <div className="border-t border-[#3e2723] pt-3">
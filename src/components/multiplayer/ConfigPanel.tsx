@@ -5,8 +5,8 @@
  */
 
 import { useState } from 'react'
-import type { StorageConfig } from '@/lib/storage'
-import { PROVIDER_PRESETS } from '@/lib/storage'
+import type { StorageConfig, StorageProvider } from '@/lib/storage'
+import { PROVIDER_PRESETS, requiresCredentials } from '@/lib/storage'
 
 interface ConfigPanelProps {
   config: StorageConfig
@@ -15,8 +15,8 @@ interface ConfigPanelProps {
   disabled?: boolean
 }
 
-// 预设配置模板（用户需自行填写密钥）
-const TEST_PRESETS = {
+// 预设配置模板（云存储需自行填写密钥）
+const TEST_PRESETS: Record<StorageProvider, Omit<StorageConfig, 'provider'>> = {
   qiniu: {
     endpoint: 's3.cn-east-1.qiniucs.com',
     accessKey: '',
@@ -31,13 +31,28 @@ const TEST_PRESETS = {
     bucket: '',
     region: 'ap-shanghai',
   },
+  local: {
+    endpoint: '',
+    accessKey: '',
+    secretKey: '',
+    bucket: 'lobby',
+    region: '',
+  },
+  memory: {
+    endpoint: '',
+    accessKey: '',
+    secretKey: '',
+    bucket: 'lobby',
+    region: '',
+  },
 }
 
 export function ConfigPanel({ config, onChange, onTest, disabled }: ConfigPanelProps) {
   const [testing, setTesting] = useState(false)
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null)
+  const needsCredentials = requiresCredentials(config.provider)
 
-  const handleProviderChange = (provider: 'qiniu' | 'tencent') => {
+  const handleProviderChange = (provider: StorageProvider) => {
     const preset = TEST_PRESETS[provider]
     onChange({
       ...config,
@@ -72,8 +87,8 @@ export function ConfigPanel({ config, onChange, onTest, disabled }: ConfigPanelP
       <h2 className="text-xl font-semibold">存储配置</h2>
 
       {/* 服务商选择 */}
-      <div className="flex gap-2">
-        {(Object.keys(PROVIDER_PRESETS) as Array<'qiniu' | 'tencent'>).map((p) => (
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(PROVIDER_PRESETS) as StorageProvider[]).map((p) => (
           <button
             key={p}
             onClick={() => handleProviderChange(p)}
@@ -90,6 +105,47 @@ export function ConfigPanel({ config, onChange, onTest, disabled }: ConfigPanelP
       </div>
 
       {/* 配置表单 */}
+      {!needsCredentials && (
+        <div className="grid grid-cols-2 gap-4">
+          {config.provider === 'local' && (
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">服务器地址</label>
+              <input
+                type="text"
+                value={config.endpoint}
+                placeholder="留空使用当前站点，如 192.168.1.5:3000"
+                onChange={(e) => onChange({ ...config, endpoint: e.target.value })}
+                disabled={disabled}
+                className="w-full px-3 py-2 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none disabled:opacity-50"
+              />
+            </div>
+          )}
+          {config.provider === 'local' && (
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">存储口令</label>
+              <input
+                type="password"
+                value={config.secretKey}
+                placeholder="服务器的 WOLFCHA_LOCAL_STORAGE_SECRET"
+                onChange={(e) => onChange({ ...config, secretKey: e.target.value })}
+                disabled={disabled}
+                className="w-full px-3 py-2 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none disabled:opacity-50"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">大厅名</label>
+            <input
+              type="text"
+              value={config.bucket}
+              onChange={(e) => onChange({ ...config, bucket: e.target.value })}
+              disabled={disabled}
+              className="w-full px-3 py-2 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none disabled:opacity-50"
+            />
+          </div>
+        </div>
+      )}
+      {needsCredentials && (
       <div className="grid grid-cols-2 gap-4">
         <div>
           <label className="block text-sm text-gray-400 mb-1">Endpoint</label>
@@ -131,13 +187,25 @@ export function ConfigPanel({ config, onChange, onTest, disabled }: ConfigPanelP
             className="w-full px-3 py-2 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none disabled:opacity-50"
           />
         </div>
+        <div className="col-span-2">
+          <label className="block text-sm text-gray-400 mb-1">实时推送服务器（可选）</label>
+          <input
+            type="text"
+            value={config.realtimeEndpoint ?? ''}
+            placeholder="填写 wolfcha 服务器地址启用推送，留空只轮询云存储"
+            onChange={(e) => onChange({ ...config, realtimeEndpoint: e.target.value })}
+            disabled={disabled}
+            className="w-full px-3 py-2 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none disabled:opacity-50"
+          />
+        </div>
       </div>
+      )}
 
       {/* 测试按钮 */}
       <div className="flex items-center gap-4">
         <button
           onClick={handleTest}
-          disabled={disabled || testing || !config.bucket || !config.accessKey || !config.secretKey}
+          disabled={disabled || testing || !config.bucket || (needsCredentials && (!config.accessKey || !config.secretKey))}
           className="px-6 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 rounded font-medium transition-colors"
         >
           {testing ? '测试中...' : '测试连接'}
@@ -153,6 +221,11 @@ export function ConfigPanel({ config, onChange, onTest, disabled }: ConfigPanelP
       <p className="text-sm text-gray-500">
         提示：所有玩家填写相同的配置，即可进入同一房间
       </p>
+      {needsCredentials && (
+        <p className="text-sm text-gray-500">
+          存储桶需配置 CORS：允许当前站点的 GET / PUT / DELETE 请求与全部请求头（AllowedHeaders: *），并暴露 ETag 响应头（ExposeHeaders: ETag），否则无法安全写入房间
+        </p>
+      )}
     </div>
   )
 }
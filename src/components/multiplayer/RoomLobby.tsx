@@ -4,58 +4,102 @@
  * 房间大厅组件
  */
 
-import { useState } from 'react'
-import type { RoomState } from '@/lib/storage'
+import { useCallback, useEffect, useState } from 'react'
+import type { RoomListing, RoomSeatConfig, RoomSpectatorConfig, RoomState } from '@/lib/storage'
+import type { CreateRoomOptions } from '@/lib/multiplayer'
+import type { CustomCharacter } from '@/types/custom-character'
 import { PlayerList } from './PlayerList'
+import { SeatConfigPanel } from './SeatConfigPanel'
+import { SpectatorPanel } from './SpectatorPanel'
 
 interface RoomLobbyProps {
   room: RoomState | null
-  roomId: string | null
   playerId: string | null
   isHost: boolean
+  /** 以观战者身份进入房间 */
+  isSpectator: boolean
   isConnected: boolean
   error: string | null
-  onCreateRoom: (playerName: string) => Promise<boolean>
-  onJoinRoom: (playerName: string) => Promise<boolean>
+  onListRooms: () => Promise<RoomListing[]>
+  onCreateRoom: (playerName: string, options?: CreateRoomOptions) => Promise<boolean>
+  onJoinRoom: (roomCode: string, playerName: string, password?: string) => Promise<boolean>
+  onWatchRoom: (roomCode: string, spectatorName: string, password?: string) => Promise<boolean>
   onLeaveRoom: () => Promise<void>
   onSetReady: (ready: boolean) => Promise<void>
   onStartGame: () => Promise<boolean>
+  onUpdateSeatConfig: (seatConfig: RoomSeatConfig) => Promise<boolean>
+  onUpdateSpectatorConfig: (spectatorConfig: RoomSpectatorConfig) => Promise<boolean>
+  /** 房主的自定义角色，可指定给 AI 座位 */
+  customCharacters?: CustomCharacter[]
 }
 
 export function RoomLobby({
   room,
-  roomId,
   playerId,
   isHost,
+  isSpectator,
   isConnected,
   error,
+  onListRooms,
   onCreateRoom,
   onJoinRoom,
+  onWatchRoom,
   onLeaveRoom,
   onSetReady,
   onStartGame,
+  onUpdateSeatConfig,
+  onUpdateSpectatorConfig,
+  customCharacters,
 }: RoomLobbyProps) {
   const [playerName, setPlayerName] = useState('')
+  const [roomName, setRoomName] = useState('')
+  const [roomPassword, setRoomPassword] = useState('')
+  const [joinCode, setJoinCode] = useState('')
+  const [joinPassword, setJoinPassword] = useState('')
+  const [rooms, setRooms] = useState<RoomListing[]>([])
   const [loading, setLoading] = useState(false)
 
   const currentPlayer = room?.players.find(p => p.id === playerId)
   const allReady = room?.players.every(p => p.isReady) ?? false
-  const canStart = isHost && allReady && (room?.players.length ?? 0) >= 1 // 临时允许单人测试
+  const seatsLocked = room?.seatConfig?.locked ?? false
+  const canStart = isHost && allReady && seatsLocked && (room?.players.length ?? 0) >= 1 // 临时允许单人测试
+
+  const refreshRooms = useCallback(async () => {
+    setRooms(await onListRooms())
+  }, [onListRooms])
+
+  // 连接后加载房间列表
+  useEffect(() => {
+    if (!isConnected || room) return
+    void onListRooms().then(setRooms)
+  }, [isConnected, room, onListRooms])
 
   const handleJoin = async () => {
-    if (!playerName.trim()) return
+    if (!playerName.trim() || !joinCode.trim()) return
+    setLoading(true)
+    await onJoinRoom(joinCode.trim(), playerName.trim(), joinPassword || undefined)
+    setLoading(false)
+  }
+
+  const handleWatch = async () => {
+    if (!playerName.trim() || !joinCode.trim()) return
     setLoading(true)
-    await onJoinRoom(playerName.trim())
+    await onWatchRoom(joinCode.trim(), playerName.trim(), joinPassword || undefined)
     setLoading(false)
   }
 
   const handleCreate = async () => {
     if (!playerName.trim()) return
     setLoading(true)
-    await onCreateRoom(playerName.trim())
+    await onCreateRoom(playerName.trim(), { name: roomName, password: roomPassword })
     setLoading(false)
   }
 
+  const handlePickRoom = (listing: RoomListing) => {
+    setJoinCode(listing.id)
+    setJoinPassword('')
+  }
+
   const handleToggleReady = async () => {
     if (!currentPlayer) return
     setLoading(true)
@@ -98,28 +142,111 @@ export function RoomLobby({
                 />
               </div>
 
-              {roomId && (
-                <p className="text-sm text-gray-400">
-                  房间 ID: <span className="text-blue-400 font-mono">{roomId}</span>
-                </p>
-              )}
-
-              <div className="flex gap-2">
-                <button
-                  onClick={handleJoin}
-                  disabled={loading || !playerName.trim()}
-                  className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded font-medium transition-colors"
-                >
-                  {loading ? '加入中...' : '加入房间'}
-                </button>
+              {/* 创建房间 */}
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={roomName}
+                    onChange={(e) => setRoomName(e.target.value)}
+                    placeholder="房间名（可选）"
+                    className="flex-1 px-3 py-2 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none"
+                    maxLength={20}
+                  />
+                  <input
+                    type="password"
+                    value={roomPassword}
+                    onChange={(e) => setRoomPassword(e.target.value)}
+                    placeholder="密码（可选）"
+                    className="w-32 px-3 py-2 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none"
+                    maxLength={32}
+                  />
+                </div>
                 <button
                   onClick={handleCreate}
                   disabled={loading || !playerName.trim()}
-                  className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 rounded font-medium transition-colors"
+                  className="w-full px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 rounded font-medium transition-colors"
                 >
                   {loading ? '创建中...' : '创建房间'}
                 </button>
               </div>
+
+              {/* 通过加入码加入 */}
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={joinCode}
+                    onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                    placeholder="加入码"
+                    className="flex-1 px-3 py-2 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none font-mono tracking-widest"
+                    maxLength={8}
+                  />
+                  <input
+                    type="password"
+                    value={joinPassword}
+                    onChange={(e) => setJoinPassword(e.target.value)}
+                    placeholder="房间密码"
+                    className="w-32 px-3 py-2 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none"
+                    maxLength={32}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleJoin}
+                    disabled={loading || !playerName.trim() || !joinCode.trim()}
+                    className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded font-medium transition-colors"
+                  >
+                    {loading ? '加入中...' : '加入房间'}
+                  </button>
+                  <button
+                    onClick={handleWatch}
+                    disabled={loading || !playerName.trim() || !joinCode.trim()}
+                    className="px-4 py-2 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-600 rounded font-medium transition-colors"
+                    title="只读观看，不占座位，进行中的对局也可以观战"
+                  >
+                    观战
+                  </button>
+                </div>
+              </div>
+
+              {/* 房间列表 */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm text-gray-400">等待中的房间</h3>
+                  <button
+                    onClick={refreshRooms}
+                    className="text-sm text-blue-400 hover:text-blue-300"
+                  >
+                    刷新
+                  </button>
+                </div>
+                {rooms.length === 0 ? (
+                  <p className="text-sm text-gray-500">暂无房间</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {rooms.map((listing) => (
+                      <li key={listing.id}>
+                        <button
+                          onClick={() => handlePickRoom(listing)}
+                          className={`w-full flex items-center justify-between px-3 py-2 rounded text-left transition-colors ${
+                            joinCode === listing.id ? 'bg-blue-900' : 'bg-gray-700 hover:bg-gray-600'
+                          }`}
+                        >
+                          <span className="truncate">
+                            {listing.hasPassword && '🔒 '}
+                            {listing.name}
+                            <span className="text-gray-400 text-sm ml-2">{listing.hostName}</span>
+                          </span>
+                          <span className="text-sm text-gray-400 shrink-0 ml-2">
+                            <span className="font-mono">{listing.id}</span> · {listing.playerCount}人
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
             </div>
 
             {error && (
@@ -136,7 +263,9 @@ export function RoomLobby({
     <div className="bg-gray-800 rounded-lg p-6 space-y-4">
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-semibold">
-          房间 <span className="text-blue-400 font-mono">{room.id}</span>
+          {room.name || '房间'}{' '}
+          <span className="text-sm text-gray-400">加入码</span>{' '}
+          <span className="text-blue-400 font-mono">{room.id}</span>
         </h2>
         <span className={`px-2 py-1 rounded text-sm ${
           room.status === 'waiting' ? 'bg-yellow-600' :
@@ -159,8 +288,32 @@ export function RoomLobby({
         />
       </div>
 
-      {/* 操作按钮 */}
-      {room.status === 'waiting' && (
+      {/* 观战 */}
+      <SpectatorPanel
+        spectators={room.spectators ?? []}
+        spectatorConfig={room.spectatorConfig}
+        currentPlayerId={playerId}
+        isHost={isHost}
+        onChange={(spectatorConfig) => void onUpdateSpectatorConfig(spectatorConfig)}
+      />
+
+      {/* 座位与板子 */}
+      {room.status === 'waiting' && room.seatConfig && (
+        <SeatConfigPanel
+          seatConfig={room.seatConfig}
+          players={room.players}
+          isHost={isHost}
+          customCharacters={customCharacters}
+          onChange={(seatConfig) => void onUpdateSeatConfig(seatConfig)}
+        />
+      )}
+
+      {isSpectator && (
+        <p className="text-sm text-gray-400">👁 你正在观战，不占座位也不能操作</p>
+      )}
+
+      {/* 操作按钮（观战者随时可以离开） */}
+      {(room.status === 'waiting' || isSpectator) && (
         <div className="flex gap-2 pt-2">
           {!isHost && currentPlayer && (
             <button
@@ -181,7 +334,7 @@ export function RoomLobby({
               onClick={handleStart}
               disabled={loading || !canStart}
               className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 rounded font-medium transition-colors"
-              title={!canStart ? '需要至少2人且全员准备' : ''}
+              title={!canStart ? '需要全员准备并锁定座位与板子' : ''}
             >
               {loading ? '开始中...' : '开始游戏'}
             </button>
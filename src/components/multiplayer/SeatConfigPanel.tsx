@@ -0,0 +1,228 @@
+'use client'
+
+/**
+ * 座位配置面板
+ * 房主选择板子与房规、指定真人座位、保留 AI 座位并选择模型与角色；其他玩家只读
+ */
+
+import { useMemo } from 'react'
+import type { Player, RoomSeat, RoomSeatConfig } from '@/lib/storage'
+import type { CustomCharacter } from '@/types/custom-character'
+import type { DifficultyLevel, ModelRef } from '@/types/game'
+import { customCharacterToGenerated, withBoard, withSeat } from '@/lib/multiplayer/seating'
+import { getPlayerModelPool } from '@/lib/character-generator'
+import { getDefaultBoard, MAX_PLAYER_COUNT, MIN_PLAYER_COUNT } from '@/lib/board-config'
+import { normalizeTurnTimerConfig } from '@/lib/turn-timer'
+import { normalizeGameRules } from '@/lib/game-rules'
+import { BoardComposer } from '@/components/game/BoardComposer'
+import { TurnTimerSettings } from '@/components/game/TurnTimerSettings'
+import { GameRulesSettings } from '@/components/game/GameRulesSettings'
+
+interface SeatConfigPanelProps {
+  seatConfig: RoomSeatConfig
+  players: Player[]
+  isHost: boolean
+  customCharacters?: CustomCharacter[]
+  onChange: (seatConfig: RoomSeatConfig) => void
+}
+
+const OPEN_VALUE = 'open'
+const AI_VALUE = 'ai'
+const RANDOM_VALUE = ''
+
+const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  easy: '简单',
+  normal: '普通',
+  hard: '困难',
+}
+
+const modelKey = (ref: ModelRef) => `${ref.provider}/${ref.model}`
+
+const selectClass =
+  'px-2 py-1 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none disabled:opacity-60'
+
+export function SeatConfigPanel({ seatConfig, players, isHost, customCharacters = [], onChange }: SeatConfigPanelProps) {
+  const modelPool = useMemo(() => getPlayerModelPool(), [])
+  const editable = isHost && !seatConfig.locked
+  const playerCounts = Array.from(
+    { length: MAX_PLAYER_COUNT - MIN_PLAYER_COUNT + 1 },
+    (_, i) => MIN_PLAYER_COUNT + i
+  )
+
+  const handlePlayerCount = (count: number) => {
+    const board = getDefaultBoard(count)
+    if (board) onChange(withBoard(seatConfig, board))
+  }
+
+  const handleSeatKind = (index: number, value: string) => {
+    let seat: RoomSeat
+    if (value === OPEN_VALUE) seat = { kind: 'open' }
+    else if (value === AI_VALUE) seat = { kind: 'ai' }
+    else seat = { kind: 'human', playerId: value }
+    onChange(withSeat(seatConfig, index, seat))
+  }
+
+  const handleSeatModel = (index: number, seat: Extract<RoomSeat, { kind: 'ai' }>, value: string) => {
+    const modelRef = modelPool.find(ref => modelKey(ref) === value)
+    onChange(withSeat(seatConfig, index, { ...seat, modelRef }))
+  }
+
+  const handleSeatCharacter = (index: number, seat: Extract<RoomSeat, { kind: 'ai' }>, value: string) => {
+    const custom = customCharacters.find(c => c.id === value)
+    onChange(withSeat(seatConfig, index, { ...seat, character: custom ? customCharacterToGenerated(custom) : undefined }))
+  }
+
+  const seatLabel = (seat: RoomSeat) => {
+    if (seat.kind === 'open') return '开放'
+    if (seat.kind === 'human') return players.find(p => p.id === seat.playerId)?.name ?? '已离开（开放）'
+    const model = seat.modelRef ? seat.modelRef.model : '随机模型'
+    return `AI · ${model}${seat.character ? ` · ${seat.character.displayName}` : ''}`
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">座位与板子</h3>
+        {isHost ? (
+          <button
+            onClick={() => onChange({ ...seatConfig, locked: !seatConfig.locked })}
+            className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+              seatConfig.locked ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {seatConfig.locked ? '解锁' : '锁定'}
+          </button>
+        ) : (
+          seatConfig.locked && <span className="text-sm text-yellow-400">🔒 已锁定</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        <label className="flex items-center gap-1">
+          人数
+          <select
+            value={seatConfig.board.playerCount}
+            onChange={(e) => handlePlayerCount(Number(e.target.value))}
+            disabled={!editable}
+            className={selectClass}
+          >
+            {playerCounts.map(count => (
+              <option key={count} value={count}>{count}人</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          难度
+          <select
+            value={seatConfig.difficulty}
+            onChange={(e) => onChange({ ...seatConfig, difficulty: e.target.value as DifficultyLevel })}
+            disabled={!editable}
+            className={selectClass}
+          >
+            {(Object.keys(DIFFICULTY_LABELS) as DifficultyLevel[]).map(level => (
+              <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          AI 角色
+          <select
+            value={seatConfig.aiCharacters}
+            onChange={(e) => onChange({ ...seatConfig, aiCharacters: e.target.value as RoomSeatConfig['aiCharacters'] })}
+            disabled={!editable}
+            className={selectClass}
+          >
+            <option value="genshin">模型名</option>
+            <option value="generated">按剧本生成</option>
+          </select>
+        </label>
+      </div>
+
+      {editable ? (
+        <BoardComposer board={seatConfig.board} onBoardChange={(board) => onChange(withBoard(seatConfig, board))} />
+      ) : (
+        <p className="text-sm text-gray-400">板子：{seatConfig.board.name || `自定义 ${seatConfig.board.playerCount}人`}</p>
+      )}
+
+      <ul className="space-y-1">
+        {seatConfig.seats.map((seat, index) => (
+          <li key={index} className="flex flex-wrap items-center gap-2 px-3 py-2 bg-gray-700 rounded text-sm">
+            <span className="w-10 text-gray-400">{index + 1}号</span>
+            {editable ? (
+              <>
+                <select
+                  value={seat.kind === 'human' ? seat.playerId : seat.kind}
+                  onChange={(e) => handleSeatKind(index, e.target.value)}
+                  className={selectClass}
+                >
+                  <option value={OPEN_VALUE}>开放</option>
+                  {players.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                  <option value={AI_VALUE}>AI</option>
+                </select>
+                {seat.kind === 'ai' && (
+                  <>
+                    <select
+                      value={seat.modelRef ? modelKey(seat.modelRef) : RANDOM_VALUE}
+                      onChange={(e) => handleSeatModel(index, seat, e.target.value)}
+                      className={selectClass}
+                    >
+                      <option value={RANDOM_VALUE}>随机模型</option>
+                      {modelPool.map(ref => (
+                        <option key={modelKey(ref)} value={modelKey(ref)}>{ref.model}</option>
+                      ))}
+                    </select>
+                    {customCharacters.length > 0 && (
+                      <select
+                        value={customCharacters.find(c => c.display_name === seat.character?.displayName)?.id ?? RANDOM_VALUE}
+                        onChange={(e) => handleSeatCharacter(index, seat, e.target.value)}
+                        className={selectClass}
+                      >
+                        <option value={RANDOM_VALUE}>随机角色</option>
+                        {customCharacters.map(c => (
+                          <option key={c.id} value={c.id}>{c.display_name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </>
+                )}
+              </>
+            ) : (
+              <span>{seatLabel(seat)}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <TurnTimerSettings
+        config={normalizeTurnTimerConfig(seatConfig.turnTimers)}
+        onChange={(turnTimers) => onChange({ ...seatConfig, turnTimers })}
+        disabled={!editable}
+      />
+
+      <GameRulesSettings
+        rules={normalizeGameRules(seatConfig.rules)}
+        onChange={(rules) => onChange({ ...seatConfig, rules })}
+        disabled={!editable}
+      />
+
+      <div className="space-y-1 text-sm">
+        <label className="flex items-center gap-1" title="房主掉线时由一名在线玩家接管对局">
+          <input
+            type="checkbox"
+            checked={seatConfig.hostMigration === true}
+            onChange={(e) => onChange({ ...seatConfig, hostMigration: e.target.checked })}
+            disabled={!editable}
+          />
+          房主掉线时由其他玩家接管
+        </label>
+        <p className={`text-xs ${seatConfig.hostMigration ? 'text-yellow-400' : 'text-gray-400'}`}>
+          {seatConfig.hostMigration
+            ? '接班人是在座玩家，能解密全部身份与夜间行动；只建议在互相信任的熟人局中开启'
+            : '未开启时房主掉线会暂停对局，等待房主重新上线'}
+        </p>
+      </div>
+    </div>
+  )
+}
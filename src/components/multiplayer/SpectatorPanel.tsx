@@ -0,0 +1,84 @@
+'use client'
+
+/**
+ * 观战面板
+ * 显示观战者列表；房主可以开关观战、设置延迟与上帝视角，对局中也能修改
+ */
+
+import type { RoomSpectatorConfig, Spectator } from '@/lib/storage'
+import { MAX_SPECTATOR_DELAY_SECONDS, normalizeSpectatorConfig } from '@/lib/multiplayer/spectator'
+
+interface SpectatorPanelProps {
+  spectators: Spectator[]
+  spectatorConfig?: RoomSpectatorConfig
+  currentPlayerId?: string | null
+  isHost: boolean
+  onChange: (spectatorConfig: RoomSpectatorConfig) => void
+}
+
+const inputClass =
+  'px-2 py-1 bg-gray-700 rounded border border-gray-600 focus:border-blue-500 outline-none disabled:opacity-60'
+
+export function SpectatorPanel({ spectators, spectatorConfig, currentPlayerId, isHost, onChange }: SpectatorPanelProps) {
+  const config = normalizeSpectatorConfig(spectatorConfig)
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-medium">观战 ({spectators.length})</h3>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+            disabled={!isHost}
+          />
+          允许观战
+        </label>
+        <label className="flex items-center gap-1">
+          延迟
+          <input
+            type="number"
+            min={0}
+            max={MAX_SPECTATOR_DELAY_SECONDS}
+            value={config.delaySeconds}
+            onChange={(e) => onChange({ ...config, delaySeconds: Number(e.target.value) || 0 })}
+            disabled={!isHost || !config.enabled}
+            className={`${inputClass} w-20`}
+          />
+          秒
+        </label>
+        <label className="flex items-center gap-1" title="只向观战者公开全部身份与夜间行动">
+          <input
+            type="checkbox"
+            checked={config.godView}
+            onChange={(e) => onChange({ ...config, godView: e.target.checked })}
+            disabled={!isHost || !config.enabled}
+          />
+          上帝视角
+        </label>
+      </div>
+
+      {config.godView && config.delaySeconds === 0 && (
+        <p className="text-xs text-yellow-400">上帝视角建议设置延迟，避免观战者向玩家透露身份</p>
+      )}
+
+      {spectators.length > 0 && (
+        <ul className="flex flex-wrap gap-2 text-sm">
+          {spectators.map(spectator => (
+            <li
+              key={spectator.id}
+              className={`px-2 py-1 rounded ${
+                spectator.id === currentPlayerId ? 'bg-blue-900/50 border border-blue-500' : 'bg-gray-700'
+              }`}
+            >
+              👁 {spectator.name}
+              {spectator.id === currentPlayerId && <span className="text-blue-400 ml-1">(你)</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
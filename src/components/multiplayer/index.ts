@@ -5,3 +5,5 @@
 export { ConfigPanel } from './ConfigPanel'
 export { PlayerList } from './PlayerList'
 export { RoomLobby } from './RoomLobby'
+export { SeatConfigPanel } from './SeatConfigPanel'
+export { SpectatorPanel } from './SpectatorPanel'
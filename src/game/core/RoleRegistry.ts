@@ -0,0 +1,94 @@
+import type { Alignment, GameState, Phase, Player, Role } from "@/types/game";
+import type { DeathCause, NightActionStep, RoleDefinition } from "./types";
+import { BUILTIN_ROLES } from "../roles";
+
+export interface ResolvedNightStep extends NightActionStep {
+  role: Role;
+}
+
+/**
+ * 角色注册表
+ * 每个角色以独立模块声明阵营、夜间行动顺序、Prompt 文案与死亡钩子，各阶段统一从这里读取
+ */
+export class RoleRegistry {
+  private readonly roles = new Map<Role, RoleDefinition>();
+
+  constructor(definitions: RoleDefinition[] = BUILTIN_ROLES) {
+    definitions.forEach((def) => this.register(def));
+  }
+
+  register(definition: RoleDefinition): void {
+    if (definition.night && this.getNightSteps().some((s) => s.phase === definition.night!.phase)) {
+      throw new Error(`[wolfcha] Night phase ${definition.night.phase} is already claimed by another role`);
+    }
+    this.roles.set(definition.id, definition);
+  }
+
+  has(role: Role): boolean {
+    return this.roles.has(role);
+  }
+
+  get(role: Role): RoleDefinition {
+    const def = this.roles.get(role);
+    if (!def) {
+      // 未注册角色按普通村民处理，避免旧存档崩溃
+      return this.roles.get("Villager")!;
+    }
+    return def;
+  }
+
+  getAll(): RoleDefinition[] {
+    return Array.from(this.roles.values());
+  }
+
+  getAlignment(role: Role): Alignment {
+    return this.get(role).alignment;
+  }
+
+  /** 按 order 排序的夜间行动步骤 */
+  getNightSteps(): ResolvedNightStep[] {
+    return this.getAll()
+      .filter((def) => !!def.night)
+      .map((def) => ({ ...def.night!, role: def.id }))
+      .sort((a, b) => a.order - b.order);
+  }
+
+  getNightStep(phase: Phase): ResolvedNightStep | null {
+    return this.getNightSteps().find((s) => s.phase === phase) ?? null;
+  }
+
+  /** 某个夜间步骤的存活行动者 */
+  getNightActors(state: GameState, step: ResolvedNightStep): Player[] {
+    const isActor = step.isActor ?? ((p: Player) => p.role === step.role);
+    return state.players.filter((p) => p.alive && isActor(p));
+  }
+
+  /** 该步骤本晚是否真正需要行动 */
+  isNightStepActive(state: GameState, step: ResolvedNightStep): boolean {
+    if (this.getNightActors(state, step).length === 0) return false;
+    return step.canAct ? step.canAct(state) : true;
+  }
+
+  applyDeath(state: GameState, player: Player, cause: DeathCause): GameState {
+    const onDeath = this.get(player.role).hooks?.onDeath;
+    return onDeath ? onDeath({ state, player, cause }) : state;
+  }
+
+  /** 返回非 null 表示放逐被角色能力抵消 */
+  applyBeforeExecution(state: GameState, player: Player): GameState | null {
+    const hook = this.get(player.role).hooks?.onBeforeExecution;
+    return hook ? hook({ state, player, cause: "vote" }) : null;
+  }
+
+  hasDeathSkill(state: GameState, player: Player, cause: DeathCause): boolean {
+    const hook = this.get(player.role).hooks?.hasDeathSkill;
+    return hook ? hook({ state, player, cause }) : false;
+  }
+
+  canVote(state: GameState, player: Player): boolean {
+    const hook = this.get(player.role).hooks?.canVote;
+    return hook ? hook(state, player) : true;
+  }
+}
+
+export const roleRegistry = new RoleRegistry();
@@ -1,4 +1,4 @@
-import type { GameState, Player, Phase } from "@/types/game";
+import type { Alignment, GameState, Player, Phase, Role } from "@/types/game";
 
 export type SystemPromptPart = {
   text: string;
@@ -30,3 +30,55 @@ export interface GameContext {
   actor?: Player;
   extras?: Record<string, unknown>;
 }
+
+export type RoleCategory = "wolf" | "god" | "villager";
+
+export type DeathCause = "wolf" | "poison" | "milk" | "vote" | "hunter";
+
+export interface RoleDeathContext {
+  state: GameState;
+  player: Player;
+  cause: DeathCause;
+}
+
+/**
+ * 夜晚行动步骤
+ * order 越小越先行动；NightPhase 按 order 依次执行
+ */
+export interface NightActionStep {
+  phase: Phase;
+  order: number;
+  /** 角色不在场或无法行动时，仍播放一段假等待，避免泄露身份信息 */
+  concealWhenInactive?: boolean;
+  /** 是否由该玩家参与此步骤（默认按 role 匹配） */
+  isActor?: (player: Player) => boolean;
+  /** 存活的行动者本晚是否还有可用行动（默认 true） */
+  canAct?: (state: GameState) => boolean;
+}
+
+export interface RoleHooks {
+  /** 角色死亡后修改状态（例如猎人被毒失去开枪权） */
+  onDeath?: (context: RoleDeathContext) => GameState;
+  /** 放逐结算前调用；返回新状态表示本次放逐不生效 */
+  onBeforeExecution?: (context: RoleDeathContext) => GameState | null;
+  /** 死亡后是否触发技能（如猎人开枪） */
+  hasDeathSkill?: (context: RoleDeathContext) => boolean;
+  /** 是否拥有白天投票权 */
+  canVote?: (state: GameState, player: Player) => boolean;
+}
+
+export interface RoleDefinition {
+  id: Role;
+  alignment: Alignment;
+  category: RoleCategory;
+  /** 角色名（UI 展示） */
+  getName: () => string;
+  /** 角色简介（Prompt 中的身份描述） */
+  getPromptText: () => string;
+  /** 胜利条件与核心目标 */
+  getWinCondition: () => string;
+  /** 角色策略提示 */
+  getKnowHow: () => string;
+  night?: NightActionStep;
+  hooks?: RoleHooks;
+}
@@ -0,0 +1,38 @@
+import type { Player } from "@/types/game";
+import { BADGE_TRANSFER_TORN, BADGE_VOTE_ABSTAIN, VOTE_ABSTAIN } from "@/lib/game-master";
+import type { GameDecisions } from "../headless";
+import type { FixtureScript } from "./types";
+
+/**
+ * 按脚本决策，不调用模型；同一天平票 PK 后的重投读取 votes 的第二轮
+ */
+export function createScriptedDecisions(script: FixtureScript = {}): GameDecisions {
+  return {
+    guard: async (state) => script.guard?.[state.day] ?? null,
+    wolfChat: async () => "",
+    wolfPack: async (state, wolves: Player[]) => {
+      const target = script.wolfTarget?.[state.day];
+      if (target === undefined || target === null) return null;
+      const wolfVotes = Object.fromEntries(wolves.map((wolf) => [wolf.playerId, target]));
+      return { wolfVotes, wolfTarget: target };
+    },
+    witch: async (state) => script.witch?.[state.day] ?? { type: "pass" },
+    seer: async (state) => script.seer?.[state.day] ?? null,
+    badgeSignup: async (state, players) => {
+      const seats = script.badgeSignup?.[state.day] ?? [];
+      return Object.fromEntries(players.map((p) => [p.playerId, seats.includes(p.seat)]));
+    },
+    badgeVote: async (state, voter) => script.badgeVotes?.[state.day]?.[voter.seat] ?? BADGE_VOTE_ABSTAIN,
+    speech: async () => [],
+    vote: async (state, voter) => {
+      const round = state.pkSource === "vote" ? 1 : 0;
+      const seat = script.votes?.[state.day]?.[round]?.[voter.seat];
+      return { seat: seat ?? VOTE_ABSTAIN, reason: "" };
+    },
+    hunterShoot: async (state) => script.hunterShoot?.[state.day] ?? null,
+    badgeTransfer: async (state) => {
+      const seat = script.badgeTransfer?.[state.day];
+      return seat !== undefined && state.players.some((p) => p.seat === seat) ? seat : BADGE_TRANSFER_TORN;
+    },
+  };
+}
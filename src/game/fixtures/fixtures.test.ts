@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { GAME_FIXTURES, parseFixture, runFixture, type GameFixture } from "@/game/fixtures";
+
+describe("内置场景回归", () => {
+  it.each(Object.values(GAME_FIXTURES))("$name", async (fixture) => {
+    const result = await runFixture(fixture);
+    expect(result.failures).toEqual([]);
+    expect(result.passed).toBe(true);
+  });
+
+  it("断言不满足时列出全部失败项", async () => {
+    const fixture: GameFixture = {
+      ...GAME_FIXTURES.SHERIFF_DEATH,
+      expect: { badgeHolderSeat: 2, executed: { 2: 5 } },
+    };
+    const result = await runFixture(fixture);
+    expect(result.passed).toBe(false);
+    expect(result.failures).toHaveLength(2);
+  });
+
+  it("不支持的起始阶段直接失败", async () => {
+    const result = await runFixture({ ...GAME_FIXTURES.LAST_WORDS_TEST, phase: "DAY_SPEECH" });
+    expect(result.passed).toBe(false);
+    expect(result.failures).toHaveLength(1);
+  });
+});
+
+describe("parseFixture", () => {
+  it("能解析导出的内置场景", () => {
+    const fixture = parseFixture(JSON.stringify(GAME_FIXTURES.DOUBLE_PK_TIE));
+    expect(fixture).toEqual(GAME_FIXTURES.DOUBLE_PK_TIE);
+  });
+
+  it.each([
+    ["非 JSON", "{"],
+    ["缺少 id", JSON.stringify({ name: "x", roles: ["Villager"], phase: "DAY_VOTE" })],
+    ["未知身份", JSON.stringify({ id: "x", name: "x", roles: ["Wizard"], phase: "DAY_VOTE" })],
+    ["不支持的阶段", JSON.stringify({ id: "x", name: "x", roles: ["Villager"], phase: "DAY_SPEECH" })],
+  ])("拒绝%s", (_, raw) => {
+    expect(parseFixture(raw)).toBeNull();
+  });
+});
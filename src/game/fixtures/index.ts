@@ -0,0 +1,9 @@
+/**
+ * 测试场景模块导出
+ */
+
+export * from "./types";
+export * from "./state";
+export * from "./decisions";
+export * from "./runner";
+export * from "./presets";
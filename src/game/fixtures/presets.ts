@@ -0,0 +1,117 @@
+import type { DevPreset, Role } from "@/types/game";
+import type { GameFixture } from "./types";
+
+/** 预设场景与测试共用的 10 人标准板子（座位 0-9） */
+export const STANDARD_ROLES: Role[] = [
+  "Guard",
+  "Witch",
+  "Werewolf",
+  "Villager",
+  "Seer",
+  "Hunter",
+  "Werewolf",
+  "Werewolf",
+  "Villager",
+  "Villager",
+];
+
+const ALL_SEATS = STANDARD_ROLES.map((_, seat) => seat);
+const without = (...seats: number[]) => ALL_SEATS.filter((seat) => !seats.includes(seat));
+
+/** 多个座位投给同一目标（投票者座位 -> 目标座位） */
+const votesFrom = (voters: number[], target: number): Record<number, number> =>
+  Object.fromEntries(voters.map((seat) => [seat, target]));
+
+/**
+ * 内置场景：开发者控制台与开局调试面板可直接载入，也作为回归用例交给无头引擎跑
+ */
+export const GAME_FIXTURES: Record<DevPreset, GameFixture> = {
+  MILK_POISON_TEST: {
+    id: "MILK_POISON_TEST",
+    name: "毒奶测试",
+    description: "守卫与狼人同时选择 4 号，女巫使用解药：默认房规下同守同救，4 号仍然出局",
+    roles: STANDARD_ROLES,
+    phase: "NIGHT_WITCH_ACTION",
+    nightActions: { guardTarget: 3, wolfTarget: 3 },
+    script: { witch: { 1: { type: "save" } } },
+    expect: {
+      dead: [3],
+      executed: { 1: null },
+      roleAbilities: { witchHealUsed: true, witchPoisonUsed: false },
+      day: 2,
+    },
+  },
+  LAST_WORDS_TEST: {
+    id: "LAST_WORDS_TEST",
+    name: "遗言测试",
+    description: "第 1 天放逐投票，全员投给 1 号，1 号被放逐后发表遗言",
+    roles: STANDARD_ROLES,
+    phase: "DAY_VOTE",
+    votes: votesFrom(without(0), 0),
+    script: { votes: { 1: [{ ...votesFrom(without(0), 0), 0: 3 }] } },
+    expect: {
+      dead: [0],
+      executed: { 1: 0 },
+      day: 2,
+    },
+  },
+  HUNTER_POISONED: {
+    id: "HUNTER_POISONED",
+    name: "猎人被毒",
+    description: "狼人刀 4 号，女巫毒死 6 号猎人：猎人失去开枪能力，脚本中的开枪不生效",
+    roles: STANDARD_ROLES,
+    phase: "NIGHT_WITCH_ACTION",
+    nightActions: { wolfTarget: 3 },
+    script: {
+      witch: { 1: { type: "poison", target: 5 } },
+      hunterShoot: { 1: 2 },
+    },
+    expect: {
+      dead: [3, 5],
+      roleAbilities: { hunterCanShoot: false, witchHealUsed: false, witchPoisonUsed: true },
+      day: 2,
+    },
+  },
+  SHERIFF_DEATH: {
+    id: "SHERIFF_DEATH",
+    name: "警长夜间死亡",
+    description: "第 2 夜狼人刀死 5 号预言家警长，警徽移交给 2 号女巫",
+    roles: STANDARD_ROLES,
+    deadSeats: [3],
+    day: 2,
+    phase: "NIGHT_START",
+    badgeHolderSeat: 4,
+    nightHistory: { 1: { wolfTarget: 3 } },
+    script: {
+      wolfTarget: { 2: 4 },
+      badgeTransfer: { 2: 1 },
+    },
+    expect: {
+      dead: [3, 4],
+      badgeHolderSeat: 1,
+      executed: { 2: null },
+      day: 3,
+    },
+  },
+  DOUBLE_PK_TIE: {
+    id: "DOUBLE_PK_TIE",
+    name: "两次平票",
+    description: "3 号与 7 号首轮平票进入 PK，PK 后再次平票，当天无人出局",
+    roles: STANDARD_ROLES,
+    phase: "DAY_VOTE",
+    script: {
+      votes: {
+        1: [
+          { ...votesFrom([0, 1, 3, 4, 6], 2), ...votesFrom([2, 5, 7, 8, 9], 6) },
+          // PK 台上的 3 号与 7 号不能投票
+          { ...votesFrom([0, 1, 3, 4], 2), ...votesFrom([5, 7, 8, 9], 6) },
+        ],
+      },
+    },
+    expect: {
+      dead: [],
+      executed: { 1: null },
+      day: 2,
+    },
+  },
+};
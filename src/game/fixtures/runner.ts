@@ -0,0 +1,60 @@
+import type { GameState, Role } from "@/types/game";
+import { HeadlessGameRunner } from "../headless";
+import { roleRegistry } from "../core/RoleRegistry";
+import { createScriptedDecisions } from "./decisions";
+import { buildFixtureState, checkFixtureExpectations, FIXTURE_START_PHASES } from "./state";
+import type { GameFixture } from "./types";
+
+export interface FixtureRunResult {
+  fixture: GameFixture;
+  /** 运行结束时的状态 */
+  state: GameState;
+  passed: boolean;
+  /** 不满足的断言或运行错误 */
+  failures: string[];
+}
+
+/**
+ * 用无头引擎按脚本跑完场景并检查断言
+ * 默认跑到场景当天结束（进入下一夜）为止，不生成每日总结，全程不调用模型
+ */
+export async function runFixture(fixture: GameFixture): Promise<FixtureRunResult> {
+  let state = buildFixtureState(fixture, `fixture:${fixture.id}`);
+  if (!FIXTURE_START_PHASES.includes(fixture.phase)) {
+    return { fixture, state, passed: false, failures: [`不支持从 ${fixture.phase} 开始运行`] };
+  }
+
+  const runner = new HeadlessGameRunner({
+    initialState: state,
+    decisions: createScriptedDecisions(fixture.script),
+    maxDays: fixture.maxDays ?? fixture.day ?? 1,
+    dailySummary: false,
+    onStateChange: (next) => {
+      state = next;
+    },
+  });
+  const result = await runner.run();
+  const failures = result.error ? [`运行出错：${result.error}`] : checkFixtureExpectations(fixture.expect, state);
+  return { fixture, state, passed: failures.length === 0, failures };
+}
+
+/**
+ * 解析 JSON 场景（开发者控制台粘贴导入）；格式不正确时返回 null
+ */
+export function parseFixture(raw: string): GameFixture | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object") return null;
+
+  const obj = data as Record<string, unknown>;
+  if (typeof obj.id !== "string" || typeof obj.name !== "string") return null;
+  if (!Array.isArray(obj.roles) || obj.roles.length === 0) return null;
+  if (obj.roles.some((role) => typeof role !== "string" || !roleRegistry.has(role as Role))) return null;
+  if (!FIXTURE_START_PHASES.includes(obj.phase as GameFixture["phase"])) return null;
+
+  return { description: "", ...obj } as GameFixture;
+}
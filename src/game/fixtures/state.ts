@@ -0,0 +1,114 @@
+import type { GameState, Phase, Player } from "@/types/game";
+import { createInitialGameState } from "@/lib/game-master";
+import { normalizeGameRules } from "@/lib/game-rules";
+import { roleRegistry } from "../core/RoleRegistry";
+import type { FixtureExpectation, GameFixture } from "./types";
+
+/** 场景可以开始的阶段：开发者控制台与无头引擎都能从这些阶段接着运行 */
+export const FIXTURE_START_PHASES: Phase[] = [
+  "NIGHT_START",
+  "NIGHT_GUARD_ACTION",
+  "NIGHT_WOLF_ACTION",
+  "NIGHT_WITCH_ACTION",
+  "NIGHT_SEER_ACTION",
+  "DAY_START",
+  "DAY_VOTE",
+];
+
+/**
+ * 把场景局面套到已有对局上：按座位覆盖身份与存活，替换夜晚行动、记录、警长与技能状态。
+ * 座位数多于场景时，多出的座位保持原样。
+ */
+export function applyFixture(base: GameState, fixture: GameFixture): GameState {
+  const deadSeats = new Set(fixture.deadSeats ?? []);
+  const players: Player[] = base.players.map((p) => {
+    const role = fixture.roles[p.seat];
+    if (!role) return p;
+    return { ...p, role, alignment: roleRegistry.getAlignment(role), alive: !deadSeats.has(p.seat) };
+  });
+
+  const votes: Record<string, number> = {};
+  for (const [voterSeat, targetSeat] of Object.entries(fixture.votes ?? {})) {
+    const voter = players.find((p) => p.seat === Number(voterSeat));
+    if (voter) votes[voter.playerId] = targetSeat;
+  }
+
+  const initial = createInitialGameState();
+  return {
+    ...base,
+    players,
+    phase: fixture.phase,
+    day: fixture.day ?? 1,
+    rules: normalizeGameRules({ ...base.rules, ...fixture.rules }),
+    badge: { ...initial.badge, holderSeat: fixture.badgeHolderSeat ?? null },
+    nightActions: { ...fixture.nightActions },
+    nightHistory: fixture.nightHistory ?? {},
+    dayHistory: {},
+    roleAbilities: { ...initial.roleAbilities, ...fixture.roleAbilities },
+    votes,
+    pkTargets: undefined,
+    pkSource: undefined,
+    winner: null,
+  };
+}
+
+/** 无头运行用的开局状态，全部座位为 AI，以座位号命名 */
+export function buildFixtureState(fixture: GameFixture, seed?: string): GameState {
+  const players: Player[] = fixture.roles.map((role, seat) => ({
+    playerId: `fixture-${seat}`,
+    seat,
+    displayName: `${seat + 1}号`,
+    alive: true,
+    role,
+    alignment: roleRegistry.getAlignment(role),
+    isHuman: false,
+  }));
+  return applyFixture({ ...createInitialGameState(), seed, isGenshinMode: true, isSpectatorMode: true, players }, fixture);
+}
+
+const formatSeats = (seats: number[]) => (seats.length > 0 ? seats.map((s) => `${s + 1}号`).join("、") : "无");
+
+const sameSeats = (a: number[], b: number[]) =>
+  a.length === b.length && [...a].sort((x, y) => x - y).every((seat, i) => seat === [...b].sort((x, y) => x - y)[i]);
+
+/**
+ * 检查断言，返回全部不满足的项；空数组表示通过
+ */
+export function checkFixtureExpectations(expect: FixtureExpectation | undefined, state: GameState): string[] {
+  if (!expect) return [];
+  const failures: string[] = [];
+  const alive = state.players.filter((p) => p.alive).map((p) => p.seat);
+  const dead = state.players.filter((p) => !p.alive).map((p) => p.seat);
+
+  if (expect.winner !== undefined && state.winner !== expect.winner) {
+    failures.push(`胜者应为 ${expect.winner ?? "未分胜负"}，实际为 ${state.winner ?? "未分胜负"}`);
+  }
+  if (expect.alive && !sameSeats(expect.alive, alive)) {
+    failures.push(`存活应为 ${formatSeats(expect.alive)}，实际为 ${formatSeats(alive)}`);
+  }
+  if (expect.dead && !sameSeats(expect.dead, dead)) {
+    failures.push(`出局应为 ${formatSeats(expect.dead)}，实际为 ${formatSeats(dead)}`);
+  }
+  if (expect.badgeHolderSeat !== undefined && state.badge.holderSeat !== expect.badgeHolderSeat) {
+    failures.push(
+      `警长应为 ${formatSeats(expect.badgeHolderSeat === null ? [] : [expect.badgeHolderSeat])}，` +
+        `实际为 ${formatSeats(state.badge.holderSeat === null ? [] : [state.badge.holderSeat])}`
+    );
+  }
+  if (expect.day !== undefined && state.day !== expect.day) {
+    failures.push(`天数应为 ${expect.day}，实际为 ${state.day}`);
+  }
+  for (const [key, value] of Object.entries(expect.roleAbilities ?? {})) {
+    const actual = state.roleAbilities[key as keyof GameState["roleAbilities"]];
+    if (actual !== value) failures.push(`roleAbilities.${key} 应为 ${value}，实际为 ${actual}`);
+  }
+  for (const [day, seat] of Object.entries(expect.executed ?? {})) {
+    const actual = state.dayHistory?.[Number(day)]?.executed?.seat ?? null;
+    if (actual !== seat) {
+      failures.push(
+        `第 ${day} 天放逐应为 ${formatSeats(seat === null ? [] : [seat])}，实际为 ${formatSeats(actual === null ? [] : [actual])}`
+      );
+    }
+  }
+  return failures;
+}
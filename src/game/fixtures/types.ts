@@ -0,0 +1,71 @@
+import type { Alignment, GameRules, GameState, Phase, Role } from "@/types/game";
+import type { WitchAction } from "@/lib/game-master";
+
+/**
+ * 脚本化决策，座位号均从 0 开始；未写入脚本的决策按“不行动”处理：
+ * 空守、空刀、不用药、不查验、不上警、弃票、不开枪、撕毁警徽
+ */
+export interface FixtureScript {
+  /** 天数 -> 守护座位，null 为空守 */
+  guard?: Record<number, number | null>;
+  /** 天数 -> 狼刀座位，null 为空刀 */
+  wolfTarget?: Record<number, number | null>;
+  /** 天数 -> 女巫用药 */
+  witch?: Record<number, WitchAction>;
+  /** 天数 -> 查验座位 */
+  seer?: Record<number, number | null>;
+  /** 天数 -> 报名竞选警长的座位 */
+  badgeSignup?: Record<number, number[]>;
+  /** 天数 -> 警长竞选投票（投票者座位 -> 候选人座位） */
+  badgeVotes?: Record<number, Record<number, number>>;
+  /** 天数 -> 每轮放逐投票（投票者座位 -> 目标座位）；第二项为平票 PK 后的重投 */
+  votes?: Record<number, Array<Record<number, number>>>;
+  /** 天数 -> 猎人开枪座位，null 为不开枪 */
+  hunterShoot?: Record<number, number | null>;
+  /** 天数 -> 警徽移交座位，缺省为撕毁警徽 */
+  badgeTransfer?: Record<number, number>;
+}
+
+/** 对结果 GameState 的断言，未填写的项不检查 */
+export interface FixtureExpectation {
+  winner?: Alignment | null;
+  /** 存活的座位（完整列表） */
+  alive?: number[];
+  /** 已出局的座位（完整列表） */
+  dead?: number[];
+  badgeHolderSeat?: number | null;
+  /** 结束时的天数 */
+  day?: number;
+  roleAbilities?: Partial<GameState["roleAbilities"]>;
+  /** 天数 -> 被放逐的座位，null 为无人出局 */
+  executed?: Record<number, number | null>;
+}
+
+/**
+ * 声明式测试场景
+ * 指定身份、存活、夜晚记录、警长等局面后从目标阶段开始，可在开发者控制台载入，也可交给无头引擎按脚本跑完并断言
+ */
+export interface GameFixture {
+  id: string;
+  name: string;
+  description: string;
+  /** 按座位的身份，长度即人数 */
+  roles: Role[];
+  /** 开局时已出局的座位 */
+  deadSeats?: number[];
+  /** 默认第 1 天 */
+  day?: number;
+  /** 从该阶段开始，见 FIXTURE_START_PHASES */
+  phase: Phase;
+  badgeHolderSeat?: number | null;
+  rules?: Partial<GameRules>;
+  nightActions?: Partial<GameState["nightActions"]>;
+  nightHistory?: GameState["nightHistory"];
+  roleAbilities?: Partial<GameState["roleAbilities"]>;
+  /** 预置的放逐投票（投票者座位 -> 目标座位） */
+  votes?: Record<number, number>;
+  script?: FixtureScript;
+  /** 无头运行到该天结束为止，默认与 day 相同 */
+  maxDays?: number;
+  expect?: FixtureExpectation;
+}
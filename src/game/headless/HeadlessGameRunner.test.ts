@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { GameState, Phase } from "@/types/game";
+import { BADGE_VOTE_ABSTAIN } from "@/lib/game-master";
+import { buildFixtureState, createScriptedDecisions, STANDARD_ROLES, type FixtureScript } from "@/game/fixtures";
+import { HeadlessGameRunner, type GameDecisions } from "@/game/headless";
+
+/** 从第 1 夜开始按脚本跑到当天结束，记录经过的阶段与发言者 */
+async function runFirstDay(script: FixtureScript, overrides: Partial<GameDecisions> = {}, deadSeats: number[] = []) {
+  let state: GameState = buildFixtureState({ id: "test", name: "test", description: "", roles: STANDARD_ROLES, deadSeats, phase: "NIGHT_START" });
+  const phases: Phase[] = [];
+  const lastWords: number[] = [];
+  const scripted = createScriptedDecisions(script);
+  const runner = new HeadlessGameRunner({
+    initialState: state,
+    decisions: {
+      ...scripted,
+      speech: async (s, speaker) => {
+        if (s.phase === "DAY_LAST_WORDS") lastWords.push(speaker.seat);
+        return [];
+      },
+      ...overrides,
+    },
+    maxDays: 1,
+    dailySummary: false,
+    onStateChange: (next) => {
+      if (next.phase !== phases[phases.length - 1]) phases.push(next.phase);
+      state = next;
+    },
+  });
+  const result = await runner.run();
+  expect(result.error).toBeUndefined();
+  return { state, phases, lastWords };
+}
+
+describe("警长竞选", () => {
+  const signup: FixtureScript = { badgeSignup: { 1: [0, 4] } };
+
+  it("平票进入 PK 发言后重投，PK 台上的候选人不投票", async () => {
+    const pkVoters: number[] = [];
+    const { state, phases } = await runFirstDay(signup, {
+      badgeVote: async (s, voter) => {
+        if (s.pkSource !== "badge") return voter.seat < 6 ? 0 : 4;
+        pkVoters.push(voter.seat);
+        return 4;
+      },
+    });
+    expect(phases).toContain("DAY_PK_SPEECH");
+    expect(pkVoters).not.toContain(0);
+    expect(pkVoters).not.toContain(4);
+    expect(state.badge.holderSeat).toBe(4);
+    expect(state.pkSource).not.toBe("badge");
+  });
+
+  it("PK 后仍平票撕毁警徽", async () => {
+    const { state } = await runFirstDay(signup, {
+      badgeVote: async (_, voter) => (voter.seat < 6 ? 0 : 4),
+    });
+    expect(state.badge.holderSeat).toBeNull();
+    expect(state.badge.revoteCount).toBe(2);
+  });
+
+  it("无人投票时同样进入 PK", async () => {
+    const { phases, state } = await runFirstDay(signup, { badgeVote: async () => BADGE_VOTE_ABSTAIN });
+    expect(phases).toContain("DAY_PK_SPEECH");
+    expect(state.badge.holderSeat).toBeNull();
+  });
+});
+
+describe("首夜遗言", () => {
+  it("首夜出局的玩家发表遗言", async () => {
+    const { state, lastWords } = await runFirstDay({ wolfTarget: { 1: 3 } });
+    expect(state.players[3].alive).toBe(false);
+    expect(lastWords).toEqual([3]);
+  });
+});
+
+describe("夜晚流程", () => {
+  it("预言家已出局时仍进入查验阶段，避免暴露身份", async () => {
+    const { phases } = await runFirstDay({}, {}, [4]);
+    expect(phases).toContain("NIGHT_SEER_ACTION");
+  });
+
+  it("没有隐藏需求的角色不在场时跳过该阶段", async () => {
+    const { phases } = await runFirstDay({}, {}, [0]);
+    expect(phases).not.toContain("NIGHT_GUARD_ACTION");
+  });
+});
@@ -0,0 +1,791 @@
+import type { Alignment, DifficultyLevel, GameRules, GameState, ModelRef, Phase, Player, Role } from "@/types/game";
+import {
+  addPlayerMessage,
+  addSystemMessage,
+  addWolfChatMessage,
+  BADGE_VOTE_ABSTAIN,
+  buildFallbackVote,
+  checkWinCondition,
+  createInitialGameState,
+  generateDailySummary,
+  getSpeakingOrder,
+  killPlayer,
+  resolveSpeechStartSeat,
+  setupPlayers,
+  tallyVotes,
+  transitionPhase,
+  VOTE_ABSTAIN,
+} from "@/lib/game-master";
+import { getSystemMessages } from "@/lib/game-texts";
+import {
+  canTransferBadge,
+  canWitchSave,
+  getGameRules,
+  normalizeGameRules,
+  resolveWolfVictim,
+  shouldHoldBadgeElection,
+} from "@/lib/game-rules";
+import { gameRng, generateGameSeed } from "@/lib/game-rng";
+import { GAME_CONFIG } from "@/lib/game-constants";
+import { randomDelay, runConcurrent } from "@/lib/game-flow-controller";
+import { boardToFixedRoles, getDefaultBoard, hasBoardErrors, type BoardConfig } from "@/lib/board-config";
+import { generateGenshinModeCharacters, sampleModelRefs } from "@/lib/character-generator";
+import { ReplayRecorder, type GameReplay } from "@/lib/replay";
+import { getI18n } from "@/i18n/translator";
+import { roleRegistry, type ResolvedNightStep } from "../core/RoleRegistry";
+import type { DeathCause } from "../core/types";
+import { aiDecisions, type GameDecisions } from "./decisions";
+
+export interface HeadlessGameOptions {
+  playerCount?: number;
+  /** 指定板子；默认使用该人数的标准板子 */
+  board?: BoardConfig;
+  seed?: string;
+  difficulty?: DifficultyLevel;
+  /** 房规；默认使用 DEFAULT_GAME_RULES */
+  rules?: GameRules;
+  /** 按座位指定模型；不足时从模型池抽样 */
+  modelRefs?: ModelRef[];
+  /** 超过该天数仍未分出胜负则判为未完成 */
+  maxDays?: number;
+  /** 天黑时是否生成每日总结（需要调用模型），默认生成 */
+  dailySummary?: boolean;
+  /**
+   * 隐藏身份的夜间步骤（预言家、女巫）无人行动时是否假装等待 3-6 秒，与单机 NightPhase 一致。
+   * 联机时开启，避免从夜间阶段的时长推断角色是否存活；无头对局默认关闭以便快速跑完。
+   */
+  fakeActionDelay?: boolean;
+  /**
+   * 已分配好座位与角色的开局状态；传入时跳过抽样模型与生成角色。
+   * 处于对局中的状态（来自 onCheckpoint）会从该检查点继续。
+   */
+  initialState?: GameState;
+  /** 决策来源，默认全部由 AI 决策 */
+  decisions?: GameDecisions;
+  /** 每次状态变更后回调 */
+  onStateChange?: (state: GameState) => void;
+  /** 到达可恢复的检查点时回调：每个夜晚行动前、天亮、投票开始 */
+  onCheckpoint?: (state: GameState) => void;
+}
+
+export interface HeadlessPlayerResult {
+  seat: number;
+  displayName: string;
+  role: Role;
+  alignment: Alignment;
+  provider: ModelRef["provider"] | null;
+  model: string | null;
+  alive: boolean;
+}
+
+export interface HeadlessGameResult {
+  gameId: string;
+  seed: string;
+  winner: Alignment | null;
+  days: number;
+  durationMs: number;
+  players: HeadlessPlayerResult[];
+  error?: string;
+  replay: GameReplay | null;
+}
+
+const DEFAULT_PLAYER_COUNT = 10;
+const DEFAULT_MAX_DAYS = 12;
+
+/**
+ * 无头对局引擎
+ * 不依赖 React 与浏览器，按 GameDecisions 获取决策并结算规则，默认跑完一局全 AI 的观战对局；
+ * 联机房主用它作为权威引擎，真人座位的决策来自房间操作队列。
+ * 流程与 useGameLogic / 各 Phase 保持一致（警长竞选平票 PK、首夜出局遗言），但去掉了所有演出等待；
+ * 隐藏身份的夜间步骤无人行动时仍进入该阶段，是否假装等待由 fakeActionDelay 决定。
+ * gameRng 为全局单例，多局需串行运行；从检查点恢复时不还原随机数状态。
+ */
+export class HeadlessGameRunner {
+  private state: GameState = createInitialGameState();
+  private readonly recorder = new ReplayRecorder();
+  private readonly decisions: GameDecisions;
+  private stopped = false;
+
+  constructor(private readonly options: HeadlessGameOptions = {}) {
+    this.decisions = options.decisions ?? aiDecisions;
+  }
+
+  async run(): Promise<HeadlessGameResult> {
+    const startedAt = Date.now();
+    const seed = this.options.initialState?.seed || this.options.seed || generateGameSeed();
+    let error: string | undefined;
+
+    try {
+      if (this.options.initialState) {
+        this.adopt(this.options.initialState, seed);
+      } else {
+        await this.setup(seed);
+      }
+      await this.playUntilEnd();
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      if (!this.stopped) console.error("[wolfcha] Headless game failed:", err);
+    }
+
+    return {
+      gameId: this.state.gameId,
+      seed,
+      winner: this.state.winner,
+      days: this.state.day,
+      durationMs: Date.now() - startedAt,
+      players: this.state.players.map((p) => ({
+        seat: p.seat,
+        displayName: p.displayName,
+        role: p.role,
+        alignment: p.alignment,
+        provider: p.agentProfile?.modelRef.provider ?? null,
+        model: p.agentProfile?.modelRef.model ?? null,
+        alive: p.alive,
+      })),
+      error,
+      replay: this.recorder.isRecording(this.state.gameId) ? this.recorder.toReplay() : null,
+    };
+  }
+
+  /** 中止对局；正在等待的决策返回后不再提交任何状态 */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private commit(next: GameState): GameState {
+    if (this.stopped) throw new Error("Headless game stopped");
+    this.state = next;
+    this.recorder.observe(next);
+    this.options.onStateChange?.(next);
+    return next;
+  }
+
+  private adopt(initial: GameState, seed: string): void {
+    let state: GameState = { ...initial, seed };
+    if (initial.phase === "LOBBY" || initial.phase === "SETUP") {
+      state = addSystemMessage({ ...state, phase: "NIGHT_START", day: 1 }, getSystemMessages().nightFall(1));
+    }
+    this.state = state;
+    this.recorder.start(state);
+    this.options.onStateChange?.(state);
+  }
+
+  private async setup(seed: string): Promise<void> {
+    gameRng.setSeed(seed);
+
+    const playerCount = this.options.board?.playerCount ?? this.options.playerCount ?? DEFAULT_PLAYER_COUNT;
+    const board = this.options.board ?? getDefaultBoard(playerCount);
+    if (!board || hasBoardErrors(board)) {
+      throw new Error(`Invalid board for ${playerCount} players`);
+    }
+
+    const sampled = sampleModelRefs(playerCount);
+    const modelRefs = Array.from({ length: playerCount }, (_, i) => this.options.modelRefs?.[i] ?? sampled[i]);
+    const characters = await generateGenshinModeCharacters(playerCount, modelRefs);
+    const players = setupPlayers(
+      characters,
+      -1,
+      "",
+      playerCount,
+      boardToFixedRoles(board),
+      undefined,
+      modelRefs,
+      Array.from({ length: playerCount }, (_, seat) => seat)
+    );
+
+    let state: GameState = {
+      ...createInitialGameState(),
+      phase: "NIGHT_START",
+      day: 1,
+      seed,
+      difficulty: this.options.difficulty ?? "normal",
+      rules: normalizeGameRules(this.options.rules),
+      isGenshinMode: true,
+      isSpectatorMode: true,
+      players,
+    };
+    state = addSystemMessage(state, getSystemMessages().nightFall(1));
+    this.state = state;
+    this.recorder.start(state);
+  }
+
+  private async playUntilEnd(): Promise<void> {
+    const maxDays = this.options.maxDays ?? DEFAULT_MAX_DAYS;
+    // 从检查点恢复时跳过该阶段之前的流程
+    let resumePhase: Phase = this.state.phase;
+    while (!this.stopped && !this.state.winner && this.state.day <= maxDays) {
+      if (resumePhase === "DAY_VOTE") {
+        if (await this.runVote()) return;
+      } else {
+        if (resumePhase !== "DAY_START") await this.runNight(resumePhase);
+        if (await this.runDay()) return;
+      }
+      resumePhase = "NIGHT_START";
+      await this.proceedToNight();
+    }
+  }
+
+  private checkpoint(): void {
+    this.options.onCheckpoint?.(this.state);
+  }
+
+  // ============ 夜晚 ============
+
+  private async runNight(fromPhase: Phase = "NIGHT_START"): Promise<void> {
+    const steps = roleRegistry.getNightSteps();
+    const startIndex = Math.max(0, steps.findIndex((s) => s.phase === fromPhase));
+    for (const step of steps.slice(startIndex)) {
+      const hasActors = roleRegistry.getNightActors(this.state, step).length > 0;
+      if (!hasActors && !step.concealWhenInactive) continue;
+      this.commit(transitionPhase(this.state, step.phase));
+      this.checkpoint();
+      if (roleRegistry.isNightStepActive(this.state, step)) {
+        await this.runNightStep(step);
+      } else if (this.options.fakeActionDelay) {
+        // 与 NightPhase 一致：角色已出局或无法行动时假装行动，不暴露身份信息
+        await randomDelay(3000, 6000);
+      }
+    }
+    this.resolveNight();
+  }
+
+  private async runNightStep(step: ResolvedNightStep): Promise<void> {
+    const actors = roleRegistry.getNightActors(this.state, step);
+    const actor = actors[0];
+    const state = this.state;
+
+    switch (step.phase) {
+      case "NIGHT_GUARD_ACTION": {
+        const guardTarget = await this.decisions.guard(state, actor);
+        if (guardTarget === null) return;
+        this.commit({ ...state, nightActions: { ...state.nightActions, guardTarget } });
+        return;
+      }
+      case "NIGHT_WOLF_ACTION": {
+        // 与 NightPhase 一致：出刀前狼队先夜聊，再并行独立出刀，多数票决定目标
+        if (actors.length > 1) {
+          for (const wolf of actors) {
+            const content = await this.decisions.wolfChat(this.state, wolf);
+            if (content) this.commit(addWolfChatMessage(this.state, wolf.playerId, content));
+          }
+        }
+        const pack = await this.decisions.wolfPack(this.state, actors);
+        if (!pack) return;
+        this.commit({ ...this.state, nightActions: { ...this.state.nightActions, wolfVotes: pack.wolfVotes, wolfTarget: pack.wolfTarget } });
+        return;
+      }
+      case "NIGHT_WITCH_ACTION": {
+        const action = await this.decisions.witch(state, actor, state.nightActions.wolfTarget);
+        if (action.type === "save" && canWitchSave(state, actor, state.nightActions.wolfTarget)) {
+          this.commit({
+            ...state,
+            nightActions: { ...state.nightActions, witchSave: true },
+            roleAbilities: { ...state.roleAbilities, witchHealUsed: true },
+          });
+        } else if (action.type === "poison" && !state.roleAbilities.witchPoisonUsed) {
+          this.commit({
+            ...state,
+            nightActions: { ...state.nightActions, witchPoison: action.target },
+            roleAbilities: { ...state.roleAbilities, witchPoisonUsed: true },
+          });
+        }
+        return;
+      }
+      case "NIGHT_SEER_ACTION": {
+        const targetSeat = await this.decisions.seer(state, actor);
+        if (targetSeat === null) return;
+        const isWolf = state.players.find((p) => p.seat === targetSeat)?.role === "Werewolf";
+        this.commit({
+          ...state,
+          nightActions: {
+            ...state.nightActions,
+            seerTarget: targetSeat,
+            seerResult: { targetSeat, isWolf },
+            seerHistory: [...(state.nightActions.seerHistory || []), { targetSeat, isWolf, day: state.day }],
+          },
+        });
+        return;
+      }
+      default:
+        console.warn(`[wolfcha] Headless runner has no handler for ${step.phase}, skipped`);
+    }
+  }
+
+  private resolveNight(): void {
+    let state = transitionPhase(this.state, "NIGHT_RESOLVE");
+    const { wolfTarget, guardTarget, witchSave, witchPoison } = state.nightActions;
+
+    // 同守同救（奶穿）是否死亡由房规决定
+    const wolfVictim = resolveWolfVictim(getGameRules(state), { wolfTarget, guardTarget, witchSave });
+
+    state = {
+      ...state,
+      nightActions: {
+        ...state.nightActions,
+        lastGuardTarget: guardTarget,
+        pendingWolfVictim: wolfVictim,
+        pendingPoisonVictim: witchPoison,
+      },
+      nightHistory: {
+        ...(state.nightHistory || {}),
+        [state.day]: {
+          guardTarget,
+          wolfTarget,
+          witchSave,
+          witchPoison,
+          seerTarget: state.nightActions.seerTarget,
+          seerResult: state.nightActions.seerResult,
+        },
+      },
+    };
+
+    state = transitionPhase(state, "DAY_START");
+    state = addSystemMessage(state, getSystemMessages().dayBreak);
+    this.commit(state);
+    this.checkpoint();
+  }
+
+  // ============ 白天 ============
+
+  /** 返回 true 表示对局已结束 */
+  private async runDay(): Promise<boolean> {
+    if (shouldHoldBadgeElection(this.state)) {
+      await this.runBadgeElection();
+    }
+
+    const deadSeats = await this.announceNightDeaths();
+    if (this.endIfDecided()) return true;
+
+    await this.runSpeechRound("DAY_SPEECH", deadSeats[0]);
+    return this.runVote();
+  }
+
+  private async announceNightDeaths(): Promise<number[]> {
+    const systemMessages = getSystemMessages();
+    const { pendingWolfVictim, pendingPoisonVictim } = this.state.nightActions;
+    const deaths: Array<{ seat: number; cause: DeathCause }> = [];
+    if (pendingWolfVictim !== undefined) deaths.push({ seat: pendingWolfVictim, cause: "wolf" });
+    if (pendingPoisonVictim !== undefined && pendingPoisonVictim !== pendingWolfVictim) {
+      deaths.push({ seat: pendingPoisonVictim, cause: "poison" });
+    }
+
+    let state: GameState = {
+      ...this.state,
+      nightActions: { ...this.state.nightActions, pendingWolfVictim: undefined, pendingPoisonVictim: undefined },
+    };
+
+    if (deaths.length === 0) {
+      this.commit(addSystemMessage(state, systemMessages.peacefulNight));
+      return [];
+    }
+
+    for (const { seat, cause } of deaths) {
+      const player = state.players.find((p) => p.seat === seat);
+      if (!player) continue;
+      state = killPlayer(state, seat);
+      state = roleRegistry.applyDeath(state, player, cause);
+      state = addSystemMessage(state, systemMessages.playerKilled(seat + 1, player.displayName));
+    }
+    this.commit(state);
+
+    for (const { seat, cause } of deaths) {
+      // 首夜出局的玩家有遗言，之后的夜晚出局没有遗言
+      if (this.state.day === 1 && !checkWinCondition(this.state)) {
+        await this.runLastWords(seat);
+      }
+      await this.handleDeathAftermath(seat, cause, true);
+    }
+    return deaths.map((d) => d.seat);
+  }
+
+  /** 警徽移交与猎人开枪（顺序与 DaySpeechPhase 一致） */
+  private async handleDeathAftermath(seat: number, cause: DeathCause, diedAtNight: boolean): Promise<void> {
+    const player = this.state.players.find((p) => p.seat === seat);
+    if (!player) return;
+
+    if (this.state.badge.holderSeat === seat) {
+      await this.runBadgeTransfer(player);
+    }
+    if (roleRegistry.hasDeathSkill(this.state, player, cause)) {
+      await this.runHunterShot(player, diedAtNight);
+    }
+  }
+
+  private async runHunterShot(hunter: Player, diedAtNight: boolean): Promise<void> {
+    let state = transitionPhase(this.state, "HUNTER_SHOOT");
+    this.commit(state);
+
+    const targetSeat = await this.decisions.hunterShoot(state, hunter);
+    const target = state.players.find((p) => p.seat === targetSeat && p.alive);
+    if (targetSeat === null || !target) return;
+
+    state = killPlayer(state, targetSeat);
+    state = roleRegistry.applyDeath(state, target, "hunter");
+    state = addSystemMessage(
+      state,
+      getSystemMessages().hunterShoot(hunter.seat + 1, targetSeat + 1, target.displayName)
+    );
+    const shot = { hunterSeat: hunter.seat, targetSeat };
+    if (diedAtNight) {
+      const prevNightRecord = (state.nightHistory || {})[state.day] || {};
+      state = { ...state, nightHistory: { ...(state.nightHistory || {}), [state.day]: { ...prevNightRecord, hunterShot: shot } } };
+    } else {
+      const prevDayRecord = (state.dayHistory || {})[state.day] || {};
+      state = { ...state, dayHistory: { ...(state.dayHistory || {}), [state.day]: { ...prevDayRecord, hunterShot: shot } } };
+    }
+    this.commit(state);
+
+    // 被带走的警长同样需要移交警徽
+    if (state.badge.holderSeat === targetSeat) {
+      await this.runBadgeTransfer(target);
+    }
+  }
+
+  private async runBadgeTransfer(sheriff: Player): Promise<void> {
+    const systemMessages = getSystemMessages();
+    if (!canTransferBadge(this.state)) {
+      const lost: GameState = { ...this.state, badge: { ...this.state.badge, holderSeat: null } };
+      this.commit(addSystemMessage(lost, systemMessages.badgeLost(sheriff.seat + 1, sheriff.displayName)));
+      return;
+    }
+    let state = transitionPhase(this.state, "BADGE_TRANSFER");
+    this.commit(state);
+
+    const targetSeat = await this.decisions.badgeTransfer(state, sheriff);
+    const target = state.players.find((p) => p.seat === targetSeat && p.alive);
+    if (target) {
+      state = { ...state, badge: { ...state.badge, holderSeat: target.seat } };
+      state = addSystemMessage(state, systemMessages.badgeTransferred(sheriff.seat + 1, target.seat + 1, target.displayName));
+    } else {
+      state = { ...state, badge: { ...state.badge, holderSeat: null } };
+      state = addSystemMessage(state, systemMessages.badgeTorn(sheriff.seat + 1, sheriff.displayName));
+    }
+    this.commit(state);
+  }
+
+  private async runBadgeElection(): Promise<void> {
+    const { t } = getI18n();
+    const systemMessages = getSystemMessages();
+    const alive = this.state.players.filter((p) => p.alive);
+
+    let state = this.commit(transitionPhase(this.state, "DAY_BADGE_SIGNUP"));
+    const signup = await this.decisions.badgeSignup(state, alive);
+    const candidates = alive.filter((p) => signup[p.playerId]).map((p) => p.seat);
+    state = { ...state, badge: { ...state.badge, signup, candidates, votes: {}, revoteCount: 0 } };
+    this.commit(state);
+    if (candidates.length === 0) return;
+
+    if (candidates.length > 1) {
+      this.commit(addSystemMessage(transitionPhase(this.state, "DAY_BADGE_SPEECH"), systemMessages.badgeSpeechStart));
+      for (const seat of candidates) {
+        await this.runSpeech(seat);
+      }
+    }
+
+    let winnerSeat: number | null = candidates[0];
+    let votes: Record<string, number> = {};
+    let electionCandidates = candidates;
+    let revoteCount = 0;
+    while (electionCandidates.length > 1) {
+      // PK 台上的候选人不参与投票
+      const voters = this.state.players.filter((p) => p.alive && !electionCandidates.includes(p.seat));
+      state = addSystemMessage(
+        transitionPhase({ ...this.state, badge: { ...this.state.badge, candidates: electionCandidates, votes: {} } }, "DAY_BADGE_ELECTION"),
+        systemMessages.badgeElectionStart
+      );
+      this.commit(state);
+      votes = {};
+      const voteState = this.state;
+      const allowed = electionCandidates;
+      await runConcurrent(voters, (voter) => this.decisions.badgeVote(voteState, voter), {
+        fallback: () => BADGE_VOTE_ABSTAIN,
+        onResult: (voter, seat) => {
+          if (seat === BADGE_VOTE_ABSTAIN || !allowed.includes(seat)) return;
+          votes = { ...votes, [voter.playerId]: seat };
+          this.commit({ ...this.state, badge: { ...this.state.badge, votes } });
+        },
+      });
+      const detail = buildVoteResultMessage(t("badgePhase.voteDetailTitle"), votes, this.state.players, () => 1);
+      this.commit(addSystemMessage(this.state, detail));
+
+      const topSeats = topVotedSeats(votes, () => 1);
+      if (topSeats.length === 1) {
+        winnerSeat = topSeats[0];
+        break;
+      }
+
+      // 与 useBadgePhase 一致：平票进入 PK 发言后重投，第二轮仍平票撕毁警徽
+      revoteCount += 1;
+      if (revoteCount >= GAME_CONFIG.MAX_BADGE_REVOTE_COUNT) {
+        winnerSeat = null;
+        this.commit(addSystemMessage(
+          { ...this.state, badge: { ...this.state.badge, candidates: [], revoteCount } },
+          t("badgePhase.tieTear")
+        ));
+        break;
+      }
+      // 无人投票时所有候选人一起进入 PK
+      electionCandidates = topSeats.length > 1 ? topSeats : electionCandidates;
+      this.commit(addSystemMessage(
+        {
+          ...this.state,
+          pkTargets: electionCandidates,
+          pkSource: "badge",
+          badge: { ...this.state.badge, candidates: electionCandidates, votes: {}, revoteCount },
+        },
+        t("badgePhase.tiePk")
+      ));
+      await this.runSpeechRound("DAY_PK_SPEECH");
+    }
+
+    state = {
+      ...this.state,
+      pkTargets: undefined,
+      pkSource: undefined,
+      badge: {
+        ...this.state.badge,
+        holderSeat: winnerSeat,
+        history: { ...this.state.badge.history, [this.state.day]: votes },
+      },
+    };
+    const winner = state.players.find((p) => p.seat === winnerSeat);
+    if (winner) {
+      const count = Object.values(votes).filter((s) => s === winner.seat).length;
+      state = addSystemMessage(state, systemMessages.badgeElected(winner.seat + 1, winner.displayName, count));
+    }
+    this.commit(state);
+  }
+
+  private async runSpeechRound(phase: "DAY_SPEECH" | "DAY_PK_SPEECH", deadSeat?: number): Promise<void> {
+    let state = transitionPhase(this.state, phase);
+    if (phase === "DAY_SPEECH") {
+      state = addSystemMessage(state, getSystemMessages().dayDiscussion);
+    }
+    const startSeat = resolveSpeechStartSeat(state, { deadSeat });
+    state = { ...state, daySpeechStartSeat: startSeat };
+    this.commit(state);
+
+    const order =
+      phase === "DAY_PK_SPEECH"
+        ? state.pkTargets ?? []
+        : startSeat === null
+          ? []
+          : getSpeakingOrder(state, startSeat);
+    for (const seat of order) {
+      await this.runSpeech(seat);
+    }
+  }
+
+  private async runSpeech(seat: number, options?: { isLastWords?: boolean }): Promise<void> {
+    const player = this.state.players.find((p) => p.seat === seat);
+    if (!player) return;
+
+    this.commit({ ...this.state, currentSpeakerSeat: seat });
+    const segments = await this.decisions.speech(this.state, player);
+    let state = this.state;
+    for (const segment of segments) {
+      state = addPlayerMessage(state, player.playerId, segment, options);
+    }
+    this.commit({ ...state, currentSpeakerSeat: null });
+  }
+
+  /** 与 useDayPhase.startLastWordsPhase 一致：进入遗言阶段并提示，再由出局者发言 */
+  private async runLastWords(seat: number): Promise<void> {
+    const player = this.state.players.find((p) => p.seat === seat);
+    if (!player) return;
+    const { t } = getI18n();
+    const state = transitionPhase(this.state, "DAY_LAST_WORDS");
+    this.commit(addSystemMessage(state, t("dayPhase.lastWordsSystem", { seat: seat + 1, name: player.displayName })));
+    await this.runSpeech(seat, { isLastWords: true });
+  }
+
+  /** 返回 true 表示对局已结束 */
+  private async runVote(): Promise<boolean> {
+    const { t } = getI18n();
+    const systemMessages = getSystemMessages();
+
+    let state = transitionPhase(this.state, "DAY_VOTE");
+    state = addSystemMessage({ ...state, votes: {}, voteReasons: {} }, systemMessages.voteStart);
+    this.commit(state);
+    this.checkpoint();
+
+    const pkTargets = state.pkSource === "vote" ? state.pkTargets ?? [] : [];
+    const voters = state.players.filter(
+      (p) => p.alive && !pkTargets.includes(p.seat) && roleRegistry.canVote(state, p)
+    );
+    const voteState = this.state;
+    await runConcurrent(voters, (voter) => this.decisions.vote(voteState, voter), {
+      fallback: (voter) => buildFallbackVote(voteState, voter),
+      onResult: (voter, { seat, reason }) => {
+        if (seat === VOTE_ABSTAIN) return;
+        this.commit({
+          ...this.state,
+          votes: { ...this.state.votes, [voter.playerId]: seat },
+          voteReasons: { ...(this.state.voteReasons || {}), [voter.playerId]: reason },
+        });
+      },
+    });
+
+    state = transitionPhase(this.state, "DAY_RESOLVE");
+    state = { ...state, voteHistory: { ...state.voteHistory, [state.day]: { ...state.votes } } };
+    const sheriffId = state.players.find((p) => p.seat === state.badge.holderSeat && p.alive)?.playerId;
+    const { sheriffVoteWeight } = getGameRules(state);
+    const weightOf = (voterId: string) => (voterId === sheriffId ? sheriffVoteWeight : 1);
+    state = addSystemMessage(
+      state,
+      buildVoteResultMessage(t("votePhase.voteDetailTitle"), state.votes, state.players, weightOf)
+    );
+
+    const result = tallyVotes(state);
+    const prevDayRecord = (state.dayHistory || {})[state.day] || {};
+
+    if (!result) {
+      // 首次平票进入 PK，PK 后仍平票则无人出局
+      const voteCounts = countVotes(state.votes, weightOf);
+      const maxVotes = Math.max(0, ...voteCounts.values());
+      const topSeats = Array.from(voteCounts.entries())
+        .filter(([, c]) => c === maxVotes)
+        .map(([s]) => s);
+      if (topSeats.length > 1 && state.pkSource !== "vote") {
+        state = addSystemMessage({ ...state, pkTargets: topSeats, pkSource: "vote" }, t("votePhase.tiePk"));
+        this.commit(state);
+        await this.runSpeechRound("DAY_PK_SPEECH");
+        return this.runVote();
+      }
+      state = {
+        ...state,
+        pkTargets: undefined,
+        pkSource: undefined,
+        dayHistory: { ...(state.dayHistory || {}), [state.day]: { ...prevDayRecord, executed: undefined, voteTie: true } },
+      };
+      this.commit(addSystemMessage(state, systemMessages.voteTie));
+      return false;
+    }
+
+    state = { ...state, pkTargets: undefined, pkSource: undefined };
+    const executed = state.players.find((p) => p.seat === result.seat)!;
+
+    // 角色能力可抵消放逐（如白痴翻牌）
+    const spared = roleRegistry.applyBeforeExecution(state, executed);
+    if (spared) {
+      state = {
+        ...spared,
+        dayHistory: { ...(spared.dayHistory || {}), [spared.day]: { ...prevDayRecord, executed: undefined, voteTie: false } },
+      };
+      this.commit(addSystemMessage(state, systemMessages.idiotRevealed(executed.seat + 1, executed.displayName)));
+      return false;
+    }
+
+    state = {
+      ...state,
+      dayHistory: {
+        ...(state.dayHistory || {}),
+        [state.day]: { ...prevDayRecord, executed: { seat: result.seat, votes: result.count }, voteTie: false },
+      },
+    };
+    state = addSystemMessage(state, systemMessages.playerExecuted(result.seat + 1, executed.displayName, result.count));
+    state = killPlayer(state, result.seat);
+    state = roleRegistry.applyDeath(state, executed, "vote");
+    this.commit(state);
+
+    if (!checkWinCondition(this.state)) {
+      await this.runLastWords(result.seat);
+    }
+    await this.handleDeathAftermath(result.seat, "vote", false);
+    return this.endIfDecided();
+  }
+
+  private endIfDecided(): boolean {
+    const winner = checkWinCondition(this.state);
+    if (!winner) return false;
+    const systemMessages = getSystemMessages();
+    let state = transitionPhase(this.state, "GAME_END");
+    state = addSystemMessage({ ...state, winner }, winner === "village" ? systemMessages.villageWin : systemMessages.wolfWin);
+    this.commit(state);
+    return true;
+  }
+
+  private async proceedToNight(): Promise<void> {
+    const summarySource = this.state;
+    const lastGuardTarget = summarySource.nightActions.guardTarget ?? summarySource.nightActions.lastGuardTarget;
+    const seerHistory = summarySource.nightActions.seerHistory;
+
+    let state: GameState = {
+      ...summarySource,
+      day: summarySource.day + 1,
+      nightActions: {
+        ...(lastGuardTarget !== undefined ? { lastGuardTarget } : {}),
+        ...(seerHistory ? { seerHistory } : {}),
+      },
+    };
+    state = transitionPhase(state, "NIGHT_START");
+    state = addSystemMessage(state, getSystemMessages().nightFall(state.day));
+
+    if (this.options.dailySummary === false) {
+      this.commit(state);
+      return;
+    }
+    try {
+      const summary = await generateDailySummary(summarySource);
+      if (summary.bullets.length > 0) {
+        state = {
+          ...state,
+          dailySummaries: { ...state.dailySummaries, [summarySource.day]: summary.bullets },
+          dailySummaryFacts: { ...state.dailySummaryFacts, [summarySource.day]: summary.facts },
+          dailySummaryVoteData: {
+            ...(state.dailySummaryVoteData ?? {}),
+            ...(summary.voteData ? { [summarySource.day]: summary.voteData } : {}),
+          },
+        };
+      }
+    } catch (error) {
+      console.warn("[wolfcha] Daily summary failed:", error);
+    }
+    this.commit(state);
+  }
+}
+
+function countVotes(votes: Record<string, number>, weightOf: (voterId: string) => number): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const [voterId, seat] of Object.entries(votes)) {
+    counts.set(seat, (counts.get(seat) ?? 0) + weightOf(voterId));
+  }
+  return counts;
+}
+
+/** 得票最多的座位（平票时有多个，无人投票时为空） */
+function topVotedSeats(votes: Record<string, number>, weightOf: (voterId: string) => number): number[] {
+  const entries = Array.from(countVotes(votes, weightOf).entries());
+  const max = Math.max(0, ...entries.map(([, c]) => c));
+  return entries.filter(([, c]) => c === max).map(([seat]) => seat);
+}
+
+/** 与 VotePhase / useBadgePhase 相同的 [VOTE_RESULT] 格式，供每日总结提取投票数据 */
+function buildVoteResultMessage(
+  title: string,
+  votes: Record<string, number>,
+  players: Player[],
+  weightOf: (voterId: string) => number
+): string {
+  const groups = new Map<number, { voterSeats: number[]; voteCount: number }>();
+  for (const [voterId, targetSeat] of Object.entries(votes)) {
+    const voter = players.find((p) => p.playerId === voterId);
+    if (!voter) continue;
+    const group = groups.get(targetSeat) ?? { voterSeats: [], voteCount: 0 };
+    group.voterSeats.push(voter.seat);
+    group.voteCount += weightOf(voterId);
+    groups.set(targetSeat, group);
+  }
+  const results = Array.from(groups.entries())
+    .map(([targetSeat, group]) => ({
+      targetSeat,
+      targetName: players.find((p) => p.seat === targetSeat)?.displayName ?? "",
+      ...group,
+    }))
+    .sort((a, b) => b.voteCount - a.voteCount);
+  return `[VOTE_RESULT]${JSON.stringify({ title, results })}`;
+}
+
+export function runHeadlessGame(options?: HeadlessGameOptions): Promise<HeadlessGameResult> {
+  return new HeadlessGameRunner(options).run();
+}
@@ -0,0 +1,60 @@
+import type { GameState, Player } from "@/types/game";
+import {
+  generateAIBadgeSignupBatch,
+  generateAIBadgeVote,
+  generateAISpeechSegments,
+  generateAIVote,
+  generateBadgeTransfer,
+  generateGuardAction,
+  generateHunterShoot,
+  generateSeerAction,
+  generateWitchAction,
+  generateWolfChatMessage,
+  generateWolfPackAction,
+  type WitchAction,
+} from "@/lib/game-master";
+
+/**
+ * 对局中需要玩家做出的全部决策
+ * 引擎只负责结算规则，决策来源可以是 AI，也可以是联机中的真人玩家。
+ */
+export interface GameDecisions {
+  /** 返回 null 表示空守 */
+  guard(state: GameState, guard: Player): Promise<number | null>;
+  /** 狼队夜聊中的一次发言，返回空字符串表示不发言 */
+  wolfChat(state: GameState, wolf: Player): Promise<string>;
+  /** 返回 null 表示流程被中断或空刀 */
+  wolfPack(state: GameState, wolves: Player[]): Promise<{ wolfVotes: Record<string, number>; wolfTarget: number } | null>;
+  witch(state: GameState, witch: Player, wolfTarget: number | undefined): Promise<WitchAction>;
+  /** 返回 null 表示不查验 */
+  seer(state: GameState, seer: Player): Promise<number | null>;
+  badgeSignup(state: GameState, players: Player[]): Promise<Record<string, boolean>>;
+  /** 弃票返回 BADGE_VOTE_ABSTAIN */
+  badgeVote(state: GameState, voter: Player): Promise<number>;
+  speech(state: GameState, speaker: Player): Promise<string[]>;
+  /** 弃票返回 seat 为 VOTE_ABSTAIN */
+  vote(state: GameState, voter: Player): Promise<{ seat: number; reason: string }>;
+  /** 返回 null 表示不开枪 */
+  hunterShoot(state: GameState, hunter: Player): Promise<number | null>;
+  /** 返回 BADGE_TRANSFER_TORN 表示撕毁警徽 */
+  badgeTransfer(state: GameState, sheriff: Player): Promise<number>;
+}
+
+/** 全部由 AI 决策 */
+export const aiDecisions: GameDecisions = {
+  guard: generateGuardAction,
+  wolfChat: (state, wolf) =>
+    generateWolfChatMessage(state, wolf).catch((error) => {
+      console.error("[wolfcha] AI wolf chat failed:", error);
+      return "";
+    }),
+  wolfPack: (state, wolves) => generateWolfPackAction(state, wolves),
+  witch: generateWitchAction,
+  seer: generateSeerAction,
+  badgeSignup: generateAIBadgeSignupBatch,
+  badgeVote: generateAIBadgeVote,
+  speech: generateAISpeechSegments,
+  vote: generateAIVote,
+  hunterShoot: generateHunterShoot,
+  badgeTransfer: generateBadgeTransfer,
+};
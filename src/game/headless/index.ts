@@ -0,0 +1,7 @@
+/**
+ * 无头对局模块导出
+ */
+
+export * from "./HeadlessGameRunner";
+export * from "./decisions";
+export * from "./stats";
@@ -0,0 +1,56 @@
+import type { Alignment, Role } from "@/types/game";
+import type { HeadlessGameResult } from "./HeadlessGameRunner";
+
+export interface WinRateEntry {
+  games: number;
+  wins: number;
+  winRate: number;
+}
+
+export interface HeadlessSimulationSummary {
+  totalGames: number;
+  /** 已分出胜负的对局数（出错或超过天数上限的不计入胜率） */
+  finishedGames: number;
+  failedGames: number;
+  averageDays: number;
+  byAlignment: Record<Alignment, WinRateEntry>;
+  byRole: Partial<Record<Role, WinRateEntry>>;
+  byModel: Record<string, WinRateEntry>;
+}
+
+const emptyEntry = (): WinRateEntry => ({ games: 0, wins: 0, winRate: 0 });
+
+function tally<K extends string>(table: Partial<Record<K, WinRateEntry>>, key: K, won: boolean): void {
+  const entry = table[key] ?? emptyEntry();
+  entry.games += 1;
+  if (won) entry.wins += 1;
+  entry.winRate = entry.wins / entry.games;
+  table[key] = entry;
+}
+
+/** 按阵营、角色、模型汇总胜率；座位阵营与获胜阵营相同即计为胜利 */
+export function aggregateResults(results: HeadlessGameResult[]): HeadlessSimulationSummary {
+  const finished = results.filter((r) => r.winner !== null && !r.error);
+  const summary: HeadlessSimulationSummary = {
+    totalGames: results.length,
+    finishedGames: finished.length,
+    failedGames: results.filter((r) => !!r.error).length,
+    averageDays: finished.length > 0 ? finished.reduce((sum, r) => sum + r.days, 0) / finished.length : 0,
+    byAlignment: { village: emptyEntry(), wolf: emptyEntry() },
+    byRole: {},
+    byModel: {},
+  };
+
+  for (const result of finished) {
+    for (const alignment of ["village", "wolf"] as const) {
+      tally(summary.byAlignment, alignment, result.winner === alignment);
+    }
+    for (const player of result.players) {
+      const won = player.alignment === result.winner;
+      tally(summary.byRole, player.role, won);
+      tally(summary.byModel, player.model ?? "unknown", won);
+    }
+  }
+
+  return summary;
+}
@@ -11,6 +11,8 @@ import {
   buildSystemTextFromParts,
 } from "@/lib/prompt-utils";
 import { getI18n } from "@/i18n/translator";
+import { gameRng } from "@/lib/game-rng";
+import { getGameRules } from "@/lib/game-rules";
 
 export class BadgePhase extends GamePhase {
   async onEnter(_context: GameContext): Promise<void> {
@@ -63,6 +65,7 @@ export class BadgePhase extends GamePhase {
       difficultyHint,
     });
     const dynamicContent = t("prompts.badge.election.task", {
+      sheriffVoteWeight: getGameRules(state).sheriffVoteWeight,
       options: alivePlayers
         .map((p) => t("prompts.badge.option", { seat: p.seat + 1, name: p.displayName }))
         .join(t("promptUtils.gameContext.listSeparator")),
@@ -114,16 +117,16 @@ export class BadgePhase extends GamePhase {
       if (aliveWolves.length > 0) {
         // Randomly decide whether to apply a "designated jumper" tactic this game.
         // Keep the probability below 1 to avoid the same meta every game.
-        const enableDesignatedJump = Math.random() < 0.65;
+        const enableDesignatedJump = gameRng.stream("tactics").next() < 0.65;
         if (enableDesignatedJump) {
-          const selectedWolf = aliveWolves[Math.floor(Math.random() * aliveWolves.length)];
+          const selectedWolf = gameRng.stream("tactics").pick(aliveWolves);
 
           if (selectedWolf && selectedWolf.playerId === player.playerId) {
             wolfTacticHint = t("prompts.badge.signup.wolfTacticJump");
           } else {
             const jumpWolfSeat = selectedWolf ? selectedWolf.seat + 1 : null;
             // Sometimes provide a lighter "observe" hint to keep behavior diverse.
-            const preferSupport = Math.random() < 0.7;
+            const preferSupport = gameRng.stream("tactics").next() < 0.7;
             wolfTacticHint = jumpWolfSeat && preferSupport
               ? t("prompts.badge.signup.wolfTacticSupport", { seat: jumpWolfSeat })
               : t("prompts.badge.signup.wolfTacticObserve");
@@ -140,7 +143,9 @@ export class BadgePhase extends GamePhase {
       persona,
       difficultyHint,
     });
-    const dynamicContent = t("prompts.badge.signup.task");
+    const dynamicContent = t("prompts.badge.signup.task", {
+      sheriffVoteWeight: getGameRules(state).sheriffVoteWeight,
+    });
     const systemParts: SystemPromptPart[] = [
       { text: cacheableContent, cacheable: true, ttl: "1h" },
       { text: dynamicContent },
@@ -25,10 +25,12 @@ import {
 } from "@/lib/game-master";
 import { getSystemMessages, getUiText } from "@/lib/game-texts";
 import { getI18n } from "@/i18n/translator";
+import { getGameRules } from "@/lib/game-rules";
 import { DELAY_CONFIG } from "@/lib/game-constants";
 import { delay } from "@/lib/game-flow-controller";
 import { playNarrator } from "@/lib/narrator-audio-player";
 import { getPlayerDiedKey } from "@/lib/narrator-voice";
+import { roleRegistry } from "../core/RoleRegistry";
 
 type DaySpeechRuntime = {
   token: FlowToken;
@@ -164,7 +166,7 @@ export class DaySpeechPhase extends GamePhase {
       .map((p) => t("ui.seatNumber", { seat: p.seat + 1 }))
       .join(t("common.listSeparator"));
     const campaignRequirements = isBadgeSpeech
-      ? t("prompts.daySpeech.campaign.badge") + "\n" + (hasCandidateList
+      ? t("prompts.daySpeech.campaign.badge", { sheriffVoteWeight: getGameRules(state).sheriffVoteWeight }) + "\n" + (hasCandidateList
         ? t("prompts.daySpeech.campaign.candidateNote", { list: nonCandidateList })
         : t("prompts.daySpeech.campaign.emptyCandidateNote"))
       : isPkSpeech
@@ -277,6 +279,7 @@ export class DaySpeechPhase extends GamePhase {
         hasDeaths = true;
         currentState = killPlayer(currentState, pendingWolfVictim);
         wolfVictim = currentState.players.find((p) => p.seat === pendingWolfVictim);
+        if (wolfVictim) currentState = roleRegistry.applyDeath(currentState, wolfVictim, "wolf");
         if (wolfVictim) {
           currentState = addSystemMessage(
             currentState,
@@ -302,12 +305,7 @@ export class DaySpeechPhase extends GamePhase {
         currentState = killPlayer(currentState, pendingPoisonVictim);
         poisonVictim = currentState.players.find((p) => p.seat === pendingPoisonVictim);
         if (poisonVictim) {
-          if (poisonVictim.role === "Hunter") {
-            currentState = {
-              ...currentState,
-              roleAbilities: { ...currentState.roleAbilities, hunterCanShoot: false },
-            };
-          }
+          currentState = roleRegistry.applyDeath(currentState, poisonVictim, "poison");
           currentState = addSystemMessage(
             currentState,
             systemMessages.playerKilled(poisonVictim.seat + 1, poisonVictim.displayName)
@@ -356,7 +354,7 @@ export class DaySpeechPhase extends GamePhase {
 
     if (deadSheriff) {
       await runtime.onBadgeTransfer(currentState, deadSheriff, async (afterTransferState) => {
-        if (wolfVictim?.role === "Hunter" && afterTransferState.roleAbilities.hunterCanShoot) {
+        if (wolfVictim && roleRegistry.hasDeathSkill(afterTransferState, wolfVictim, "wolf")) {
           await runtime.onHunterDeath(afterTransferState, wolfVictim, true);
           return;
         }
@@ -413,7 +411,7 @@ export class DaySpeechPhase extends GamePhase {
       return;
     }
 
-    if (wolfVictim?.role === "Hunter" && currentState.roleAbilities.hunterCanShoot) {
+    if (wolfVictim && roleRegistry.hasDeathSkill(currentState, wolfVictim, "wolf")) {
       await runtime.onHunterDeath(currentState, wolfVictim, true);
       return;
     }
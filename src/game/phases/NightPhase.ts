@@ -13,7 +13,9 @@ import {
   generateGuardAction,
   generateSeerAction,
   generateWitchAction,
-  generateWolfAction,
+  generateWolfChatMessage,
+  generateWolfPackAction,
+  addWolfChatMessage,
   transitionPhase as rawTransitionPhase,
 } from "@/lib/game-master";
 import { getSystemMessages, getUiText } from "@/lib/game-texts";
@@ -26,9 +28,12 @@ import {
 } from "@/lib/game-flow-controller";
 import { playNarrator } from "@/lib/narrator-audio-player";
 import { getI18n } from "@/i18n/translator";
+import { gameRng } from "@/lib/game-rng";
+import { canWitchSave, getGameRules } from "@/lib/game-rules";
+import { roleRegistry, type ResolvedNightStep } from "../core/RoleRegistry";
 
 function randomFakeActionDelay(): number {
-  return Math.floor(Math.random() * 3000) + 3000;
+  return gameRng.stream("timing").int(3000) + 3000;
 }
 
 type NightPhaseRuntime = {
@@ -41,6 +46,17 @@ type NightPhaseRuntime = {
   onNightComplete: (state: GameState) => Promise<void>;
 };
 
+type NightStepRunner = {
+  run: (state: GameState, runtime: NightPhaseRuntime) => Promise<GameState>;
+  isAwaitingHuman: (state: GameState, actors: Player[], active: boolean) => boolean;
+};
+
+const CONTINUE_AFTER_PHASE: Partial<Record<GameAction["type"], Phase>> = {
+  CONTINUE_NIGHT_AFTER_GUARD: "NIGHT_GUARD_ACTION",
+  CONTINUE_NIGHT_AFTER_WOLF: "NIGHT_WOLF_ACTION",
+  CONTINUE_NIGHT_AFTER_WITCH: "NIGHT_WITCH_ACTION",
+};
+
 export class NightPhase extends GamePhase {
   async onEnter(_context: GameContext): Promise<void> {
     return;
@@ -54,6 +70,7 @@ export class NightPhase extends GamePhase {
       case "NIGHT_GUARD_ACTION":
         return this.buildGuardPrompt(state, player);
       case "NIGHT_WOLF_ACTION":
+        if (extras.wolfChat) return this.buildWolfChatPrompt(state, player);
         return this.buildWolfPrompt(
           state,
           player,
@@ -80,16 +97,10 @@ export class NightPhase extends GamePhase {
       await this.runNightPhase(_context.state, runtime);
       return;
     }
-    if (_action.type === "CONTINUE_NIGHT_AFTER_GUARD") {
-      await this.continueNightAfterGuard(_context.state, runtime);
-      return;
-    }
-    if (_action.type === "CONTINUE_NIGHT_AFTER_WOLF") {
-      await this.continueNightAfterWolf(_context.state, runtime);
-      return;
-    }
-    if (_action.type === "CONTINUE_NIGHT_AFTER_WITCH") {
-      await this.continueNightAfterWitch(_context.state, runtime);
+    // 人类玩家完成某一步后，从该步骤之后继续
+    const resumeAfter = CONTINUE_AFTER_PHASE[_action.type];
+    if (resumeAfter) {
+      await this.runNightStepsAfter(resumeAfter, _context.state, runtime);
       return;
     }
   }
@@ -173,41 +184,30 @@ export class NightPhase extends GamePhase {
 
       await playNarrator("wolfWake");
 
+      // 出刀前狼队先在夜聊中商量，有真人狼人时由 AI 队友开场，之后等待真人发言或出刀
+      if (wolves.length > 1) {
+        if (humanWolf) runtime.setIsWaitingForAI(true);
+        const chatted = await this.runWolfChat(currentState, wolves.filter((w) => !w.isHuman), runtime);
+        if (!chatted) return currentState;
+        currentState = chatted;
+        if (humanWolf) runtime.setIsWaitingForAI(false);
+      }
+
       if (humanWolf) {
         return currentState;
       }
 
-      let wolfVotes: Record<string, number> = {};
-      try {
-        // 简化逻辑：第一个狼人决定目标，其他狼人自动达成共识
-        const firstWolf = wolves[0];
-        const targetSeat = await generateWolfAction(currentState, firstWolf, {});
-        
-        await runtime.waitForUnpause();
-        if (!runtime.isTokenValid(runtime.token)) return currentState;
-        
-        // 所有狼人投票给同一个目标
-        for (const wolf of wolves) {
-          wolfVotes[wolf.playerId] = targetSeat;
-        }
-
-        currentState = {
-          ...currentState,
-          nightActions: { ...currentState.nightActions, wolfVotes, wolfTarget: targetSeat },
-        };
-        runtime.setGameState(currentState);
-      } catch (error) {
-        console.error("[wolfcha] AI wolf vote failed:", error);
-        const villagers = currentState.players.filter((p) => p.alive && p.alignment === "village");
-        const fallbackSeat = villagers.length > 0
-          ? villagers[Math.floor(Math.random() * villagers.length)].seat
-          : 0;
-        currentState = {
-          ...currentState,
-          nightActions: { ...currentState.nightActions, wolfVotes, wolfTarget: fallbackSeat },
-        };
-        runtime.setGameState(currentState);
-      }
+      // 每个狼人并行独立出刀，多数票决定目标
+      const pack = await generateWolfPackAction(currentState, wolves, runtime.token);
+
+      await runtime.waitForUnpause();
+      if (!pack || !runtime.isTokenValid(runtime.token)) return currentState;
+
+      currentState = {
+        ...currentState,
+        nightActions: { ...currentState.nightActions, wolfVotes: pack.wolfVotes, wolfTarget: pack.wolfTarget },
+      };
+      runtime.setGameState(currentState);
 
       runtime.setIsWaitingForAI(false);
 
@@ -217,6 +217,32 @@ export class NightPhase extends GamePhase {
     return currentState;
   }
 
+  /**
+   * 狼队夜聊：AI 狼人按座位顺序各说一句，后发言的能看到前面队友说的话
+   * 单个狼人请求失败时跳过；流程被中断时返回 null
+   */
+  private async runWolfChat(
+    state: GameState,
+    speakers: Player[],
+    runtime: NightPhaseRuntime
+  ): Promise<GameState | null> {
+    let currentState = state;
+    for (const wolf of speakers) {
+      let content = "";
+      try {
+        content = await generateWolfChatMessage(currentState, wolf);
+      } catch (error) {
+        console.error("[wolfcha] AI wolf chat failed:", error);
+      }
+      await runtime.waitForUnpause();
+      if (!runtime.isTokenValid(runtime.token)) return null;
+      if (!content) continue;
+      currentState = addWolfChatMessage(currentState, wolf.playerId, content);
+      runtime.setGameState(currentState);
+    }
+    return currentState;
+  }
+
   private async runWitchAction(state: GameState, runtime: NightPhaseRuntime): Promise<GameState> {
     const { t } = getI18n();
     const speakerSystem = t("speakers.system");
@@ -326,16 +352,75 @@ export class NightPhase extends GamePhase {
     return currentState;
   }
 
+  private getStepRunner(phase: Phase): NightStepRunner | null {
+    switch (phase) {
+      case "NIGHT_GUARD_ACTION":
+        return {
+          run: (state, runtime) => this.runGuardAction(state, runtime),
+          isAwaitingHuman: (state, actors) =>
+            actors.some((p) => p.isHuman) && state.nightActions.guardTarget === undefined,
+        };
+      case "NIGHT_WOLF_ACTION":
+        return {
+          run: (state, runtime) => this.runWolfAction(state, runtime),
+          isAwaitingHuman: (state, actors) =>
+            actors.some((p) => p.isHuman) && state.nightActions.wolfTarget === undefined,
+        };
+      case "NIGHT_WITCH_ACTION":
+        return {
+          run: (state, runtime) => this.runWitchAction(state, runtime),
+          isAwaitingHuman: (state, actors, active) =>
+            active &&
+            actors.some((p) => p.isHuman) &&
+            state.nightActions.witchSave === undefined &&
+            state.nightActions.witchPoison === undefined,
+        };
+      case "NIGHT_SEER_ACTION":
+        return {
+          run: (state, runtime) => this.runSeerAction(state, runtime),
+          isAwaitingHuman: (state, actors) =>
+            actors.some((p) => p.isHuman) && state.nightActions.seerTarget === undefined,
+        };
+      default:
+        return null;
+    }
+  }
+
   private async runNightPhase(state: GameState, runtime: NightPhaseRuntime): Promise<void> {
+    await this.runNightSteps(roleRegistry.getNightSteps(), state, runtime);
+  }
+
+  private async runNightStepsAfter(phase: Phase, state: GameState, runtime: NightPhaseRuntime): Promise<void> {
+    const steps = roleRegistry.getNightSteps();
+    const index = steps.findIndex((s) => s.phase === phase);
+    await this.runNightSteps(steps.slice(index + 1), state, runtime);
+  }
+
+  /**
+   * 按注册表顺序依次执行夜间步骤
+   * 遇到需要人类操作的步骤时中断，等待对应的 CONTINUE_NIGHT_AFTER_* 动作恢复
+   */
+  private async runNightSteps(
+    steps: ResolvedNightStep[],
+    state: GameState,
+    runtime: NightPhaseRuntime
+  ): Promise<void> {
     let currentState = state;
 
-    const hasAliveGuard = currentState.players.some((p) => p.role === "Guard" && p.alive);
-    if (hasAliveGuard) {
-      currentState = await this.runGuardAction(currentState, runtime);
+    for (const step of steps) {
+      const runner = this.getStepRunner(step.phase);
+      if (!runner) continue;
+
+      // 角色不在场时，隐藏身份的步骤仍走一遍流程以免暴露
+      const hasActors = roleRegistry.getNightActors(currentState, step).length > 0;
+      if (!hasActors && !step.concealWhenInactive) continue;
+
+      currentState = await runner.run(currentState, runtime);
       if (!runtime.isTokenValid(runtime.token)) return;
 
-      const guard = currentState.players.find((p) => p.role === "Guard" && p.alive);
-      if (guard?.isHuman && currentState.nightActions.guardTarget === undefined) {
+      const actors = roleRegistry.getNightActors(currentState, step);
+      const active = roleRegistry.isNightStepActive(currentState, step);
+      if (runner.isAwaitingHuman(currentState, actors, active)) {
         return;
       }
 
@@ -344,42 +429,6 @@ export class NightPhase extends GamePhase {
       if (!runtime.isTokenValid(runtime.token)) return;
     }
 
-    currentState = await this.runWolfAction(currentState, runtime);
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    const humanWolf = currentState.players.find((p) => p.role === "Werewolf" && p.alive && p.isHuman);
-    if (humanWolf && currentState.nightActions.wolfTarget === undefined) {
-      return;
-    }
-
-    await delay(2000);
-    await runtime.waitForUnpause();
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    currentState = await this.runWitchAction(currentState, runtime);
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    const witch = currentState.players.find((p) => p.role === "Witch" && p.alive);
-    const canWitchAct = witch && (!currentState.roleAbilities.witchHealUsed || !currentState.roleAbilities.witchPoisonUsed);
-    if (witch?.isHuman && canWitchAct) {
-      const decided =
-        currentState.nightActions.witchSave !== undefined ||
-        currentState.nightActions.witchPoison !== undefined;
-      if (!decided) return;
-    }
-
-    await delay(2000);
-    await runtime.waitForUnpause();
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    currentState = await this.runSeerAction(currentState, runtime);
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    const seer = currentState.players.find((p) => p.role === "Seer" && p.alive);
-    if (seer?.isHuman && currentState.nightActions.seerTarget === undefined) {
-      return;
-    }
-
     await delay(DELAY_CONFIG.DIALOGUE);
     await runtime.waitForUnpause();
     if (!runtime.isTokenValid(runtime.token)) return;
@@ -387,58 +436,6 @@ export class NightPhase extends GamePhase {
     await runtime.onNightComplete(currentState);
   }
 
-  private async continueNightAfterGuard(state: GameState, runtime: NightPhaseRuntime): Promise<void> {
-    let currentState = await this.runWolfAction(state, runtime);
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    const humanWolf = currentState.players.find((p) => p.role === "Werewolf" && p.alive && p.isHuman);
-    if (humanWolf && currentState.nightActions.wolfTarget === undefined) {
-      return;
-    }
-
-    await delay(2000);
-    await runtime.waitForUnpause();
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    await this.continueNightAfterWolf(currentState, runtime);
-  }
-
-  private async continueNightAfterWolf(state: GameState, runtime: NightPhaseRuntime): Promise<void> {
-    let currentState = await this.runWitchAction(state, runtime);
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    const witch = currentState.players.find((p) => p.role === "Witch" && p.alive);
-    const canWitchAct = witch && (!currentState.roleAbilities.witchHealUsed || !currentState.roleAbilities.witchPoisonUsed);
-    if (witch?.isHuman && canWitchAct) {
-      const decided =
-        currentState.nightActions.witchSave !== undefined ||
-        currentState.nightActions.witchPoison !== undefined;
-      if (!decided) return;
-    }
-
-    await delay(2000);
-    await runtime.waitForUnpause();
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    await this.continueNightAfterWitch(currentState, runtime);
-  }
-
-  private async continueNightAfterWitch(state: GameState, runtime: NightPhaseRuntime): Promise<void> {
-    let currentState = await this.runSeerAction(state, runtime);
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    const seer = currentState.players.find((p) => p.role === "Seer" && p.alive);
-    if (seer?.isHuman && currentState.nightActions.seerTarget === undefined) {
-      return;
-    }
-
-    await delay(2000);
-    await runtime.waitForUnpause();
-    if (!runtime.isTokenValid(runtime.token)) return;
-
-    await runtime.onNightComplete(currentState);
-  }
-
   private buildSeerPrompt(state: GameContext["state"], player: Player): PromptResult {
     const { t } = getI18n();
     const context = buildGameContext(state, player);
@@ -554,6 +551,46 @@ export class NightPhase extends GamePhase {
     return { system, user, systemParts };
   }
 
+  private buildWolfChatPrompt(state: GameContext["state"], player: Player): PromptResult {
+    const { t } = getI18n();
+    const context = buildGameContext(state, player);
+    const difficultyHint = buildDifficultyDecisionHint(state.difficulty, player.role);
+    const teammates = state.players.filter(
+      (p) => p.role === "Werewolf" && p.playerId !== player.playerId && p.alive
+    );
+
+    const identitySection = t("prompts.night.wolf.base", {
+      seat: player.seat + 1,
+      name: player.displayName,
+      role: getRoleText("Werewolf"),
+    });
+    const teammateLine = teammates.length > 0
+      ? t("prompts.night.wolf.teammates", {
+        list: teammates
+          .map((teammate) =>
+            t("promptUtils.gameContext.seatName", { seat: teammate.seat + 1, name: teammate.displayName })
+          )
+          .join(t("promptUtils.gameContext.listSeparator")),
+      })
+      : t("prompts.night.wolf.solo");
+    const cacheableRules = t("prompts.night.wolf.rules", {
+      winCondition: getWinCondition("Werewolf"),
+      difficultyHint,
+    });
+
+    const systemParts: SystemPromptPart[] = [
+      { text: identitySection, cacheable: true, ttl: "1h" },
+      { text: teammateLine },
+      { text: cacheableRules, cacheable: true, ttl: "1h" },
+      { text: t("prompts.night.wolf.chatTask") },
+    ];
+    const system = buildSystemTextFromParts(systemParts);
+
+    const user = t("prompts.night.wolf.chatUser", { context });
+
+    return { system, user, systemParts };
+  }
+
   private buildGuardPrompt(state: GameContext["state"], player: Player): PromptResult {
     const { t } = getI18n();
     const context = buildGameContext(state, player);
@@ -577,6 +614,7 @@ export class NightPhase extends GamePhase {
     const dynamicContent = t("prompts.night.guard.task", {
       options,
       lastTargetLine,
+      sameTargetRule: this.describeSameTargetRule(state),
     });
     const systemParts: SystemPromptPart[] = [
       { text: cacheableContent, cacheable: true, ttl: "1h" },
@@ -589,6 +627,14 @@ export class NightPhase extends GamePhase {
     return { system, user, systemParts };
   }
 
+  /** 同守同救的房规说明 */
+  private describeSameTargetRule(state: GameState): string {
+    const { t } = getI18n();
+    return getGameRules(state).guardWitchSameTargetDies
+      ? t("prompts.night.sameTargetDies")
+      : t("prompts.night.sameTargetSurvives");
+  }
+
   private buildWitchPrompt(
     state: GameContext["state"],
     player: Player,
@@ -601,9 +647,7 @@ export class NightPhase extends GamePhase {
       (p) => p.alive && p.playerId !== player.playerId
     );
 
-    const canSave =
-      !state.roleAbilities.witchHealUsed &&
-      wolfTarget !== undefined;
+    const canSave = canWitchSave(state, player, wolfTarget);
     const canPoison = !state.roleAbilities.witchPoisonUsed;
 
     const victimInfo =
@@ -631,7 +675,16 @@ export class NightPhase extends GamePhase {
         : t("prompts.night.witch.noAttack");
     const saveLine = canSave
       ? t("prompts.night.witch.saveOption", { seat: wolfTarget! + 1 })
-      : t("prompts.night.witch.noSave");
+      : victimInfo && wolfTarget === player.seat
+        ? t("prompts.night.witch.selfSaveBlocked")
+        : t("prompts.night.witch.noSave");
+    const { witchSelfSave } = getGameRules(state);
+    const selfSaveNote =
+      witchSelfSave === "always"
+        ? t("prompts.night.witch.selfSaveAlways")
+        : witchSelfSave === "first_night"
+          ? t("prompts.night.witch.selfSaveFirstNight")
+          : t("prompts.night.witch.selfSaveNever");
     const poisonLine = canPoison ? t("prompts.night.witch.poisonOption") : t("prompts.night.witch.noPoison");
     const poisonTargets = alivePlayers
       .map((p) => t("promptUtils.gameContext.seatLabel", { seat: p.seat + 1 }))
@@ -643,6 +696,8 @@ export class NightPhase extends GamePhase {
       saveLine,
       poisonLine,
       poisonTargets,
+      selfSaveNote,
+      sameTargetRule: this.describeSameTargetRule(state),
     });
     const systemParts: SystemPromptPart[] = [
       { text: cacheableContent, cacheable: true, ttl: "1h" },
@@ -14,6 +14,7 @@ import {
 import { getI18n } from "@/i18n/translator";
 import {
   addSystemMessage,
+  buildFallbackVote,
   checkWinCondition,
   generateAIVote,
   killPlayer,
@@ -21,10 +22,12 @@ import {
   transitionPhase,
 } from "@/lib/game-master";
 import { getSystemMessages, getUiText } from "@/lib/game-texts";
+import { getGameRules } from "@/lib/game-rules";
 import { DELAY_CONFIG } from "@/lib/game-constants";
-import { delay, type FlowToken } from "@/lib/game-flow-controller";
+import { delay, runConcurrent, type FlowToken } from "@/lib/game-flow-controller";
 import { playNarrator } from "@/lib/narrator-audio-player";
 import { getPlayerDiedKey } from "@/lib/narrator-voice";
+import { roleRegistry } from "../core/RoleRegistry";
 
 type VotePhaseRuntime = {
   token: FlowToken;
@@ -77,36 +80,34 @@ export class VotePhase extends GamePhase {
 
     // PK投票时，参与PK的人不能投票
     const pkTargets = currentState.pkSource === "vote" && Array.isArray(currentState.pkTargets) ? currentState.pkTargets : [];
-    const aiPlayers = currentState.players.filter((p) => p.alive && !p.isHuman && !pkTargets.includes(p.seat));
-    let tokenInvalidated = false;
+    const aiPlayers = currentState.players.filter(
+      (p) => p.alive && !p.isHuman && !pkTargets.includes(p.seat) && roleRegistry.canVote(currentState, p)
+    );
+    // 各 AI 独立决策，并行请求；结果按完成顺序逐个展示
+    const voteState = currentState;
+    let votes: Awaited<ReturnType<typeof generateAIVote>>[] | null;
     setIsWaitingForAI(true);
     try {
-      for (const aiPlayer of aiPlayers) {
-        if (!isTokenValid(token)) {
-          tokenInvalidated = true;
-          break;
-        }
-        const vote = await generateAIVote(currentState, aiPlayer);
-        if (!isTokenValid(token)) {
-          tokenInvalidated = true;
-          break;
-        }
-
-        setGameState((prevState) => ({
-          ...prevState,
-          votes: { ...prevState.votes, [aiPlayer.playerId]: vote.seat },
-          voteReasons: { ...(prevState.voteReasons || {}), [aiPlayer.playerId]: vote.reason },
-        }));
-        currentState = {
-          ...currentState,
-          votes: { ...currentState.votes, [aiPlayer.playerId]: vote.seat },
-          voteReasons: { ...(currentState.voteReasons || {}), [aiPlayer.playerId]: vote.reason },
-        };
-      }
+      votes = await runConcurrent(aiPlayers, (aiPlayer) => generateAIVote(voteState, aiPlayer), {
+        token,
+        fallback: (aiPlayer) => buildFallbackVote(voteState, aiPlayer),
+        onResult: (aiPlayer, vote) => {
+          setGameState((prevState) => ({
+            ...prevState,
+            votes: { ...prevState.votes, [aiPlayer.playerId]: vote.seat },
+            voteReasons: { ...(prevState.voteReasons || {}), [aiPlayer.playerId]: vote.reason },
+          }));
+          currentState = {
+            ...currentState,
+            votes: { ...currentState.votes, [aiPlayer.playerId]: vote.seat },
+            voteReasons: { ...(currentState.voteReasons || {}), [aiPlayer.playerId]: vote.reason },
+          };
+        },
+      });
     } finally {
       setIsWaitingForAI(false);
     }
-    if (tokenInvalidated) return;
+    if (!votes || !isTokenValid(token)) return;
 
     if (!humanPlayer?.alive) {
       await this.resolveVotes(currentState, runtime);
@@ -186,13 +187,14 @@ export class VotePhase extends GamePhase {
     const sheriffPlayer =
       sheriffSeat !== null ? state.players.find((p) => p.seat === sheriffSeat && p.alive) : null;
     const sheriffPlayerId = sheriffPlayer?.playerId;
+    const { sheriffVoteWeight } = getGameRules(state);
     const aliveById = new Set(state.players.filter((p) => p.alive).map((p) => p.playerId));
     const aliveBySeat = new Set(state.players.filter((p) => p.alive).map((p) => p.seat));
 
     for (const [voterId, targetSeat] of Object.entries(state.votes)) {
       if (!aliveById.has(voterId)) continue;
       if (!aliveBySeat.has(targetSeat)) continue;
-      const weight = voterId === sheriffPlayerId ? 1.5 : 1;
+      const weight = voterId === sheriffPlayerId ? sheriffVoteWeight : 1;
       counts[targetSeat] = (counts[targetSeat] || 0) + weight;
     }
     return counts;
@@ -202,7 +204,8 @@ export class VotePhase extends GamePhase {
     votes: Record<string, number>,
     players: Player[],
     title: string,
-    sheriffSeat: number | null
+    sheriffSeat: number | null,
+    sheriffVoteWeight: number
   ): string {
     const { t } = getI18n();
     const sheriffPlayer =
@@ -229,7 +232,7 @@ export class VotePhase extends GamePhase {
         voterSeats.forEach((voterSeat) => {
           const voter = players.find((p) => p.seat === voterSeat);
           if (voter) {
-            voteCount += voter.playerId === sheriffPlayerId ? 1.5 : 1;
+            voteCount += voter.playerId === sheriffPlayerId ? sheriffVoteWeight : 1;
           }
         });
         return {
@@ -287,10 +290,34 @@ export class VotePhase extends GamePhase {
       currentVotes,
       currentState.players,
       t("votePhase.voteDetailTitle"),
-      currentState.badge.holderSeat
+      currentState.badge.holderSeat,
+      getGameRules(currentState).sheriffVoteWeight
     );
     currentState = addSystemMessage(currentState, voteDetailMessage);
 
+    const executionTarget = result ? currentState.players.find((p) => p.seat === result.seat) : null;
+    // 角色能力可抵消放逐（如白痴翻牌），此时无人出局，直接进入夜晚
+    const sparedState = executionTarget ? roleRegistry.applyBeforeExecution(currentState, executionTarget) : null;
+    if (sparedState && executionTarget) {
+      const revealText = systemMessages.idiotRevealed(executionTarget.seat + 1, executionTarget.displayName);
+      currentState = addSystemMessage(
+        {
+          ...sparedState,
+          pkTargets: undefined,
+          pkSource: undefined,
+          dayHistory: {
+            ...(sparedState.dayHistory || {}),
+            [sparedState.day]: { ...prevDayRecord, executed: undefined, voteTie: false },
+          },
+        },
+        revealText
+      );
+      runtime.setDialogue(speakerHost, revealText, false);
+      runtime.setGameState(currentState);
+      await runtime.onVoteComplete(currentState, null);
+      return;
+    }
+
     if (result) {
       const executed = currentState.players.find((p) => p.seat === result.seat);
       currentState = addSystemMessage(
@@ -360,7 +387,7 @@ export class VotePhase extends GamePhase {
 
     const executed =
       result ? currentState.players.find((p) => p.seat === result.seat) : null;
-    if (result && executed?.role === "Hunter" && currentState.roleAbilities.hunterCanShoot) {
+    if (result && executed && roleRegistry.hasDeathSkill(currentState, executed, "vote")) {
       // Defer win check until after hunter shoot resolves.
       await runtime.onVoteComplete(currentState, result);
       return;
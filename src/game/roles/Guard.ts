@@ -0,0 +1,16 @@
+import type { RoleDefinition } from "../core/types";
+import { getI18n } from "@/i18n/translator";
+
+export const GuardRole: RoleDefinition = {
+  id: "Guard",
+  alignment: "village",
+  category: "god",
+  getName: () => getI18n().t("roles.guard"),
+  getPromptText: () => getI18n().t("promptUtils.roleText.guard"),
+  getWinCondition: () => getI18n().t("promptUtils.winCondition.guard"),
+  getKnowHow: () => getI18n().t.raw("promptUtils.roleKnowHow.guard"),
+  night: {
+    phase: "NIGHT_GUARD_ACTION",
+    order: 10,
+  },
+};
@@ -0,0 +1,20 @@
+import type { RoleDefinition } from "../core/types";
+import { getI18n } from "@/i18n/translator";
+
+export const HunterRole: RoleDefinition = {
+  id: "Hunter",
+  alignment: "village",
+  category: "god",
+  getName: () => getI18n().t("roles.hunter"),
+  getPromptText: () => getI18n().t("promptUtils.roleText.hunter"),
+  getWinCondition: () => getI18n().t("promptUtils.winCondition.hunter"),
+  getKnowHow: () => getI18n().t.raw("promptUtils.roleKnowHow.hunter"),
+  hooks: {
+    // 被毒死不能开枪
+    onDeath: ({ state, cause }) =>
+      cause === "poison"
+        ? { ...state, roleAbilities: { ...state.roleAbilities, hunterCanShoot: false } }
+        : state,
+    hasDeathSkill: ({ state, cause }) => cause !== "poison" && state.roleAbilities.hunterCanShoot,
+  },
+};
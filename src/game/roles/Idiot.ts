@@ -0,0 +1,22 @@
+import type { RoleDefinition } from "../core/types";
+import { getI18n } from "@/i18n/translator";
+
+/**
+ * 白痴：被放逐时翻牌免死，但之后失去投票权；被狼刀或被毒正常出局
+ */
+export const IdiotRole: RoleDefinition = {
+  id: "Idiot",
+  alignment: "village",
+  category: "god",
+  getName: () => getI18n().t("roles.idiot"),
+  getPromptText: () => getI18n().t("promptUtils.roleText.idiot"),
+  getWinCondition: () => getI18n().t("promptUtils.winCondition.idiot"),
+  getKnowHow: () => getI18n().t.raw("promptUtils.roleKnowHow.idiot"),
+  hooks: {
+    onBeforeExecution: ({ state }) => {
+      if (state.roleAbilities.idiotRevealed) return null;
+      return { ...state, roleAbilities: { ...state.roleAbilities, idiotRevealed: true } };
+    },
+    canVote: (state) => !state.roleAbilities.idiotRevealed,
+  },
+};
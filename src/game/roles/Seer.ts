@@ -0,0 +1,17 @@
+import type { RoleDefinition } from "../core/types";
+import { getI18n } from "@/i18n/translator";
+
+export const SeerRole: RoleDefinition = {
+  id: "Seer",
+  alignment: "village",
+  category: "god",
+  getName: () => getI18n().t("roles.seer"),
+  getPromptText: () => getI18n().t("promptUtils.roleText.seer"),
+  getWinCondition: () => getI18n().t("promptUtils.winCondition.seer"),
+  getKnowHow: () => getI18n().t.raw("promptUtils.roleKnowHow.seer"),
+  night: {
+    phase: "NIGHT_SEER_ACTION",
+    order: 40,
+    concealWhenInactive: true,
+  },
+};
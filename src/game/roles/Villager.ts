@@ -0,0 +1,12 @@
+import type { RoleDefinition } from "../core/types";
+import { getI18n } from "@/i18n/translator";
+
+export const VillagerRole: RoleDefinition = {
+  id: "Villager",
+  alignment: "village",
+  category: "villager",
+  getName: () => getI18n().t("roles.villager"),
+  getPromptText: () => getI18n().t("promptUtils.roleText.villager"),
+  getWinCondition: () => getI18n().t("promptUtils.winCondition.villager"),
+  getKnowHow: () => getI18n().t.raw("promptUtils.roleKnowHow.villager"),
+};
@@ -0,0 +1,18 @@
+import type { RoleDefinition } from "../core/types";
+import { getI18n } from "@/i18n/translator";
+
+export const WerewolfRole: RoleDefinition = {
+  id: "Werewolf",
+  alignment: "wolf",
+  category: "wolf",
+  getName: () => getI18n().t("roles.werewolf"),
+  getPromptText: () => getI18n().t("promptUtils.roleText.werewolf"),
+  getWinCondition: () => getI18n().t("promptUtils.winCondition.werewolf"),
+  getKnowHow: () => getI18n().t.raw("promptUtils.roleKnowHow.werewolf"),
+  night: {
+    phase: "NIGHT_WOLF_ACTION",
+    order: 20,
+    // 所有狼阵营角色共同参与夜间出刀
+    isActor: (player) => player.alignment === "wolf",
+  },
+};
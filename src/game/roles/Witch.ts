@@ -0,0 +1,19 @@
+import type { RoleDefinition } from "../core/types";
+import { getI18n } from "@/i18n/translator";
+
+export const WitchRole: RoleDefinition = {
+  id: "Witch",
+  alignment: "village",
+  category: "god",
+  getName: () => getI18n().t("roles.witch"),
+  getPromptText: () => getI18n().t("promptUtils.roleText.witch"),
+  getWinCondition: () => getI18n().t("promptUtils.winCondition.witch"),
+  getKnowHow: () => getI18n().t.raw("promptUtils.roleKnowHow.witch"),
+  night: {
+    phase: "NIGHT_WITCH_ACTION",
+    order: 30,
+    concealWhenInactive: true,
+    // 两瓶药都用完则无需行动
+    canAct: (state) => !state.roleAbilities.witchHealUsed || !state.roleAbilities.witchPoisonUsed,
+  },
+};
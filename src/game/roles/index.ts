@@ -0,0 +1,18 @@
+import type { RoleDefinition } from "../core/types";
+import { VillagerRole } from "./Villager";
+import { WerewolfRole } from "./Werewolf";
+import { SeerRole } from "./Seer";
+import { WitchRole } from "./Witch";
+import { HunterRole } from "./Hunter";
+import { GuardRole } from "./Guard";
+import { IdiotRole } from "./Idiot";
+
+export const BUILTIN_ROLES: RoleDefinition[] = [
+  VillagerRole,
+  WerewolfRole,
+  SeerRole,
+  WitchRole,
+  HunterRole,
+  GuardRole,
+  IdiotRole,
+];
@@ -15,8 +15,10 @@ import {
   BADGE_TRANSFER_TORN,
 } from "@/lib/game-master";
 import { getSystemMessages, getUiText } from "@/lib/game-texts";
+import { canTransferBadge } from "@/lib/game-rules";
 import { DELAY_CONFIG, GAME_CONFIG } from "@/lib/game-constants";
-import { delay, type FlowToken } from "@/lib/game-flow-controller";
+import { delay, runConcurrent, type FlowToken } from "@/lib/game-flow-controller";
+import { gameRng } from "@/lib/game-rng";
 import { playNarrator } from "@/lib/narrator-audio-player";
 
 export interface BadgePhaseCallbacks {
@@ -25,6 +27,7 @@ export interface BadgePhaseCallbacks {
   setIsWaitingForAI: (waiting: boolean) => void;
   waitForUnpause: () => Promise<void>;
   isTokenValid: (token: FlowToken) => boolean;
+  getToken: () => FlowToken;
   onBadgeElectionComplete: (state: GameState) => Promise<void>;
   onBadgeTransferComplete: (state: GameState) => Promise<void>;
   runAISpeech: (state: GameState, player: Player) => Promise<void>;
@@ -66,6 +69,7 @@ export function useBadgePhase(
     setIsWaitingForAI,
     waitForUnpause,
     isTokenValid,
+    getToken,
     onBadgeElectionComplete,
     onBadgeTransferComplete,
     runAISpeech,
@@ -345,6 +349,8 @@ export function useBadgePhase(
         ...currentState.badge,
         signup: {},
         candidates: [],
+        votes: {},
+        revoteCount: 0,
       },
     };
 
@@ -421,7 +427,7 @@ export function useBadgePhase(
     const candidates = currentState.badge.candidates || [];
     const candidatePlayers = currentState.players.filter((p) => p.alive && candidates.includes(p.seat));
     const startSeat = candidatePlayers.length > 0
-      ? candidatePlayers[Math.floor(Math.random() * candidatePlayers.length)].seat
+      ? gameRng.stream("order").pick(candidatePlayers).seat
       : null;
     const firstSpeaker = startSeat !== null
       ? candidatePlayers.find((p) => p.seat === startSeat) || null
@@ -504,40 +510,45 @@ export function useBadgePhase(
     }
     setGameState(currentState);
     const aiPlayers = currentState.players.filter((p) => p.alive && !p.isHuman && !candidates.includes(p.seat));
+    const token = getToken();
+    const voteState = currentState;
+    let completed: number[] | null;
+    setIsWaitingForAI(true);
     try {
-      for (const aiPlayer of aiPlayers) {
-        setIsWaitingForAI(true);
-        let targetSeat: number;
-        try {
-          targetSeat = await generateAIBadgeVote(currentState, aiPlayer);
-        } catch (e) {
+      // 各 AI 独立投票，并行请求；失败的座位按弃票处理
+      completed = await runConcurrent(aiPlayers, (aiPlayer) => generateAIBadgeVote(voteState, aiPlayer), {
+        token,
+        fallback: (_aiPlayer, e) => {
           console.warn("[wolfcha] AI badge vote threw, treating as abstain", e);
-          targetSeat = BADGE_VOTE_ABSTAIN;
-        }
-
-        // Abstain (-1) is recorded as-is; only correct non-abstain to a valid candidate
-        if (targetSeat !== BADGE_VOTE_ABSTAIN && candidates.length > 0 && !candidates.includes(targetSeat)) {
-          targetSeat = candidates[Math.floor(Math.random() * candidates.length)];
-        }
-
-        // 从最新状态获取投票，避免覆盖人类玩家的投票
-        const latestState = gameStateRef.current;
-        currentState = {
-          ...currentState,
-          badge: {
-            ...currentState.badge,
-            votes: { ...latestState.badge.votes, [aiPlayer.playerId]: targetSeat },
-          },
-        };
-        setGameState(currentState);
-      }
+          return BADGE_VOTE_ABSTAIN;
+        },
+        onResult: (aiPlayer, seat) => {
+          let targetSeat = seat;
+          // Abstain (-1) is recorded as-is; only correct non-abstain to a valid candidate
+          if (targetSeat !== BADGE_VOTE_ABSTAIN && candidates.length > 0 && !candidates.includes(targetSeat)) {
+            targetSeat = gameRng.stream("fallback").pick(candidates);
+          }
+
+          // 从最新状态获取投票，避免覆盖人类玩家的投票
+          const latestState = gameStateRef.current;
+          currentState = {
+            ...currentState,
+            badge: {
+              ...currentState.badge,
+              votes: { ...latestState.badge.votes, [aiPlayer.playerId]: targetSeat },
+            },
+          };
+          setGameState(currentState);
+        },
+      });
     } finally {
       setIsWaitingForAI(false);
     }
+    if (!completed || !isTokenValid(token)) return;
 
     // AI投票结束后统一结算一次
     await maybeResolveBadgeElection(currentState);
-  }, [setGameState, setDialogue, setIsWaitingForAI, maybeResolveBadgeElection]);
+  }, [setGameState, setDialogue, setIsWaitingForAI, getToken, isTokenValid, maybeResolveBadgeElection]);
 
   // 更新 ref 以打破循环依赖
   startBadgeSpeechPhaseRef.current = startBadgeSpeechPhase;
@@ -550,6 +561,20 @@ export function useBadgePhase(
     afterTransfer: (s: GameState) => Promise<void>
   ) => {
     const texts = getTexts();
+
+    // 重新竞选模式：警徽流失，次日重新竞选
+    if (!canTransferBadge(state)) {
+      const lostMessage = texts.systemMessages.badgeLost(sheriff.seat + 1, sheriff.displayName);
+      let lostState: GameState = { ...state, badge: { ...state.badge, holderSeat: null } };
+      lostState = addSystemMessage(lostState, lostMessage);
+      setDialogue(texts.speakerHost, lostMessage, false);
+      setGameState(lostState);
+      await delay(DELAY_CONFIG.LONG);
+      await waitForUnpause();
+      await afterTransfer(lostState);
+      return;
+    }
+
     let currentState = transitionPhase(state, "BADGE_TRANSFER");
     currentState = addSystemMessage(currentState, texts.systemMessages.badgeTransferStart(sheriff.seat + 1, sheriff.displayName));
     setGameState(currentState);
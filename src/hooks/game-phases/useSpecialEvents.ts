@@ -12,6 +12,7 @@ import {
   generateHunterShoot,
 } from "@/lib/game-master";
 import { getSystemMessages } from "@/lib/game-texts";
+import { getGameRules, resolveWolfVictim } from "@/lib/game-rules";
 import { getI18n } from "@/i18n/translator";
 import { DELAY_CONFIG, getRoleName } from "@/lib/game-constants";
 import { delay, type FlowToken } from "@/lib/game-flow-controller";
@@ -182,21 +183,11 @@ export function useSpecialEvents(
     setGameState(currentState);
 
     const { wolfTarget, guardTarget, witchSave, witchPoison } = currentState.nightActions;
-    let wolfKillSuccessful = false;
-    let wolfVictimSeat: number | undefined;
     let poisonVictimSeat: number | undefined;
 
-    // 狼人击杀判定
-    if (wolfTarget !== undefined) {
-      const isProtected = guardTarget === wolfTarget;
-      const isSaved = witchSave === true;
-
-      // If both guard and witch save are applied, the victim still dies (milk/guard overlap).
-      if ((isProtected && isSaved) || (!isProtected && !isSaved)) {
-        wolfKillSuccessful = true;
-        wolfVictimSeat = wolfTarget;
-      }
-    }
+    // 狼人击杀判定（同守同救是否死亡由房规决定）
+    const wolfVictimSeat = resolveWolfVictim(getGameRules(currentState), { wolfTarget, guardTarget, witchSave });
+    const wolfKillSuccessful = wolfVictimSeat !== undefined;
 
     // 女巫毒杀判定
     if (witchPoison !== undefined) {
@@ -20,7 +20,7 @@ import { useLocalStorageState } from "ahooks";
 import { toast } from "sonner";
 import { getI18n } from "@/i18n/translator";
 
-import { PLAYER_MODELS, type GameState, type Player, type Phase, type Role, type DevPreset, type ModelRef, type StartGameOptions } from "@/types/game";
+import { PLAYER_MODELS, type AgentProfile, type GameState, type Player, type Phase, type Role, type DevPreset, type ModelRef, type StartGameOptions } from "@/types/game";
 import { gameStateAtom, isValidTransition } from "@/store/game-machine";
 import { getGeneratorModel } from "@/lib/api-keys";
 import {
@@ -28,17 +28,37 @@ import {
   setupPlayers,
   addSystemMessage,
   addPlayerMessage,
+  addWolfChatMessage,
+  generateWolfChatMessage,
   transitionPhase as rawTransitionPhase,
   checkWinCondition,
   killPlayer,
   generateDailySummary,
   getNextAliveSeat,
+  BADGE_TRANSFER_TORN,
+  BADGE_VOTE_ABSTAIN,
+  VOTE_ABSTAIN,
 } from "@/lib/game-master";
-import { buildGenshinModelRefs, generateCharacters, generateGenshinModeCharacters, sampleModelRefs, type GeneratedCharacter } from "@/lib/character-generator";
+import { buildGenshinModelRefs, createStandInProfile, generateCharacters, generateGenshinModeCharacters, sampleModelRefs, type GeneratedCharacter } from "@/lib/character-generator";
+import type { TurnFallback } from "@/lib/turn-timer";
 import { getSystemMessages } from "@/lib/game-texts";
+import { canWitchSave, getGameRules, normalizeGameRules, shouldHoldBadgeElection } from "@/lib/game-rules";
 import { getRandomScenario } from "@/lib/scenarios";
 import { DELAY_CONFIG, getRoleName } from "@/lib/game-constants";
 import { generateUUID } from "@/lib/utils";
+import { gameRng, generateGameSeed } from "@/lib/game-rng";
+import { ReplayRecorder, type GameReplay } from "@/lib/replay";
+import {
+  clearCheckpoints,
+  discardCheckpointsAfter,
+  findRewindCheckpoint,
+  getCheckpointId,
+  isCheckpointPhase,
+  listCheckpoints,
+  markCheckpointsFinished,
+  saveCheckpoint,
+  type GameCheckpoint,
+} from "@/lib/game-checkpoints";
 import {
   AsyncFlowController,
   delay,
@@ -47,6 +67,9 @@ import {
 } from "@/lib/game-flow-controller";
 import { playNarrator } from "@/lib/narrator-audio-player";
 import { PhaseManager } from "@/game/core/PhaseManager";
+import { roleRegistry } from "@/game/core/RoleRegistry";
+import { aiDecisions } from "@/game/headless";
+import { applyFixture, GAME_FIXTURES } from "@/game/fixtures";
 import { supabase } from "@/lib/supabase";
 import { gameStatsTracker } from "@/hooks/useGameStats";
 import { gameSessionTracker } from "@/lib/game-session-tracker";
@@ -67,8 +90,7 @@ function getRandomModelRef(): ModelRef {
     // Fallback to GENERATOR_MODEL if no models available
     return { provider: "zenmux" as const, model: getGeneratorModel() };
   }
-  const randomIndex = Math.floor(Math.random() * PLAYER_MODELS.length);
-  return PLAYER_MODELS[randomIndex];
+  return gameRng.stream("models").pick(PLAYER_MODELS);
 }
 
 // Re-export for backward compatibility
@@ -90,6 +112,8 @@ export function useGameLogic() {
   const [inputText, setInputText] = useState("");
   const [showTable, setShowTable] = useState(false);
   const logRef = useRef<HTMLDivElement>(null);
+  const replayRecorderRef = useRef(new ReplayRecorder());
+  const savedCheckpointIdsRef = useRef(new Set<string>());
 
   useEffect(() => {
     if (process.env.NODE_ENV !== "production") return;
@@ -129,6 +153,8 @@ export function useGameLogic() {
   // 回调 refs（用于人类操作后继续流程）
   const afterLastWordsRef = useRef<((state: GameState) => Promise<void>) | null>(null);
   const nightContinueRef = useRef<((state: GameState) => Promise<void>) | null>(null);
+  // 回合超时代为决策的 AI，同一局沿用同一个
+  const standInProfileRef = useRef<{ gameId: string; profile: Promise<AgentProfile> } | null>(null);
   const afterBadgeTransferRef = useRef<((state: GameState) => Promise<void>) | null>(null);
   const badgeSpeechEndRef = useRef<((state: GameState) => Promise<void>) | null>(null);
 
@@ -171,7 +197,7 @@ export function useGameLogic() {
   // 工具函数
   // ============================================
   const transitionPhase = useCallback((state: GameState, newPhase: Phase): GameState => {
-    if (!isValidTransition(state.phase, newPhase)) {
+    if (!isValidTransition(state.phase, newPhase, getGameRules(state))) {
       console.warn(`[wolfcha] Invalid phase transition: ${state.phase} -> ${newPhase}`);
     }
     return rawTransitionPhase(state, newPhase);
@@ -575,6 +601,7 @@ export function useGameLogic() {
     setIsWaitingForAI,
     waitForUnpause,
     isTokenValid,
+    getToken,
     onBadgeElectionComplete: async (state) => {
       const token = getToken();
       await runDaySpeechAction(state, token, "START_DAY_SPEECH_AFTER_BADGE");
@@ -626,12 +653,12 @@ export function useGameLogic() {
     token: ReturnType<typeof getToken>,
     options?: { skipAnnouncements?: boolean }
   ) => {
-    // 第一天：先进行警徽评选
-    if (state.day === 1 && state.badge.holderSeat === null) {
+    // 按房规进行警徽评选（默认只在第一天）
+    if (shouldHoldBadgeElection(state)) {
       await badgePhase.startBadgeSignupPhase(state);
       return;
     }
-    // 非第一天：直接进入讨论
+    // 无需竞选：直接进入讨论
     await runDaySpeechAction(state, token, "START_DAY_SPEECH_AFTER_BADGE", options);
   }, [badgePhase, runDaySpeechAction]);
   startDayPhaseInternalRef.current = startDayPhaseInternal;
@@ -714,7 +741,7 @@ export function useGameLogic() {
         // 警长死亡，先移交警徽
         if (isSheriff && executedPlayer) {
           afterBadgeTransferRef.current = async (afterTransferState) => {
-            if (executedPlayer?.role === "Hunter" && afterTransferState.roleAbilities.hunterCanShoot) {
+            if (executedPlayer && roleRegistry.hasDeathSkill(afterTransferState, executedPlayer, "vote")) {
               await specialEvents.handleHunterDeath(afterTransferState, executedPlayer, false, token, async (afterHunterState) => {
                 await proceedToNight(afterHunterState, token);
               });
@@ -738,7 +765,7 @@ export function useGameLogic() {
         }
 
         // 猎人开枪
-        if (executedPlayer?.role === "Hunter" && s.roleAbilities.hunterCanShoot) {
+        if (executedPlayer && roleRegistry.hasDeathSkill(s, executedPlayer, "vote")) {
           await specialEvents.handleHunterDeath(s, executedPlayer, false, token, async (afterHunterState) => {
             await proceedToNight(afterHunterState, token);
           });
@@ -785,6 +812,40 @@ export function useGameLogic() {
     }
   }, [gameState.phase, gameState.votes, gameState.players, getToken, resolveVotesSafely, isWaitingForAI]);
 
+  // ============================================
+  // 对局录制
+  // ============================================
+  useEffect(() => {
+    if (!gameStarted || gameState.players.length === 0) return;
+    const recorder = replayRecorderRef.current;
+    if (recorder.isRecording(gameState.gameId)) {
+      recorder.observe(gameState);
+    } else {
+      recorder.start(gameState);
+    }
+  }, [gameStarted, gameState]);
+
+  // ============================================
+  // 自动存档
+  // ============================================
+  useEffect(() => {
+    if (!gameStarted || gameState.players.length === 0) return;
+    if (gameState.phase !== "GAME_END" && !isCheckpointPhase(gameState.phase)) return;
+    // 同一阶段只在进入时处理一次（PK 重投等再次进入投票阶段时不覆盖）
+    const id = getCheckpointId(gameState);
+    if (savedCheckpointIdsRef.current.has(id)) return;
+    savedCheckpointIdsRef.current.add(id);
+
+    if (gameState.phase === "GAME_END") {
+      // 练习模式结束后仍可回到上一晚
+      const gameId = gameState.gameId;
+      const task = gameState.isPracticeMode ? markCheckpointsFinished(gameId) : clearCheckpoints(gameId);
+      task.catch((error) => console.warn("[wolfcha] checkpoint cleanup failed:", error));
+      return;
+    }
+    saveCheckpoint(gameState).catch((error) => console.warn("[wolfcha] checkpoint save failed:", error));
+  }, [gameStarted, gameState]);
+
   // ============================================
   // 同步 gameStateRef
   // ============================================
@@ -957,10 +1018,17 @@ export function useGameLogic() {
       playerCount = 10,
       isGenshinMode = false,
       isSpectatorMode = false,
+      isPracticeMode = false,
       customCharacters = [],
+      seed,
+      rules,
     } = options ?? {};
+    const gameRules = normalizeGameRules(rules);
 
     const totalPlayers = playerCount;
+    // 所有开局随机（座位、模型抽样、平票等）都从本局种子派生
+    const gameSeed = seed?.trim() || generateGameSeed();
+    gameRng.setSeed(gameSeed);
 
     resetDialogueState();
     setInputText("");
@@ -1008,14 +1076,7 @@ export function useGameLogic() {
       const aiSeats = Array.from({ length: totalPlayers }, (_, seat) => seat).filter(
         (seat) => seat !== humanSeat
       );
-      const aiSeatOrder = (() => {
-        const shuffled = [...aiSeats];
-        for (let i = shuffled.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
-          [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-        }
-        return shuffled;
-      })();
+      const aiSeatOrder = gameRng.stream("setup").shuffle(aiSeats);
 
       const aiModelRefs = sampleModelRefs(isSpectatorMode ? totalPlayers : totalPlayers - 1);
       const initialPlayers: Player[] = Array.from({ length: totalPlayers }).map((_, seat) => {
@@ -1044,6 +1105,9 @@ export function useGameLogic() {
         difficulty,
         isGenshinMode,
         isSpectatorMode,
+        isPracticeMode,
+        seed: gameSeed,
+        rules: gameRules,
       });
 
       setGameStarted(true);
@@ -1223,52 +1287,20 @@ export function useGameLogic() {
         difficulty,
         isGenshinMode,
         isSpectatorMode,
+        seed: gameSeed,
+        rules: gameRules,
       };
 
       newState = addSystemMessage(newState, systemMessages.gameStart);
       newState = addSystemMessage(newState, systemMessages.nightFall(1));
 
-      // Dev 预设处理
-      if (devPreset === "MILK_POISON_TEST") {
-        const newPlayers = newState.players.map((p, i) => {
-          if (i === 0) return { ...p, role: "Guard" as Role, alignment: "village" as const, alive: true };
-          if (i === 1) return { ...p, role: "Witch" as Role, alignment: "village" as const, alive: true };
-          if (i === 2) return { ...p, role: "Werewolf" as Role, alignment: "wolf" as const, alive: true };
-          if (i === 3) return { ...p, role: "Villager" as Role, alignment: "village" as const, alive: true };
-          return { ...p, alive: true };
-        });
+      // Dev 预设场景：套用局面后跳转到场景的起始阶段
+      if (devPreset) {
+        const fixture = GAME_FIXTURES[devPreset];
         newState = {
-          ...newState,
-          players: newPlayers,
-          phase: "NIGHT_WITCH_ACTION",
-          day: 1,
+          ...applyFixture(newState, fixture),
           devMutationId: (newState.devMutationId ?? 0) + 1,
-          devPhaseJump: { to: "NIGHT_WITCH_ACTION", ts: Date.now() },
-          nightActions: {
-            ...newState.nightActions,
-            guardTarget: 3,
-            wolfTarget: 3,
-          },
-          roleAbilities: {
-            ...newState.roleAbilities,
-            witchHealUsed: false,
-            witchPoisonUsed: false,
-            hunterCanShoot: true,
-          },
-        };
-      } else if (devPreset === "LAST_WORDS_TEST") {
-        const alivePlayers = newState.players.filter((p) => p.alive);
-        const votes: Record<string, number> = {};
-        alivePlayers.forEach((p) => {
-          votes[p.playerId] = 0;
-        });
-        newState = {
-          ...newState,
-          phase: "DAY_VOTE",
-          day: 1,
-          devMutationId: (newState.devMutationId ?? 0) + 1,
-          devPhaseJump: { to: "DAY_VOTE", ts: Date.now() },
-          votes,
+          devPhaseJump: { to: fixture.phase, ts: Date.now() },
         };
       }
 
@@ -1353,8 +1385,52 @@ export function useGameLogic() {
       window.clearTimeout(showTableTimeoutRef.current);
       showTableTimeoutRef.current = null;
     }
+    replayRecorderRef.current.reset();
   }, [setGameState, resetDialogueState]);
 
+  /** 从存档恢复对局（继续上局 / 回到上一晚）：套用存档状态后按存档阶段跳转继续 */
+  const resumeGame = useCallback((checkpoint: GameCheckpoint) => {
+    resetDialogueState();
+    setInputText("");
+    pendingStartStateRef.current = null;
+    hasContinuedAfterRevealRef.current = false;
+    isAwaitingRoleRevealRef.current = false;
+    badgeSpeechEndRef.current = null;
+    if (showTableTimeoutRef.current !== null) {
+      window.clearTimeout(showTableTimeoutRef.current);
+      showTableTimeoutRef.current = null;
+    }
+    savedCheckpointIdsRef.current.clear();
+    replayRecorderRef.current.reset();
+    if (checkpoint.state.seed) gameRng.setSeed(checkpoint.state.seed);
+
+    setGameState((prev) => ({
+      ...checkpoint.state,
+      isPaused: false,
+      devMutationId: (prev.devMutationId ?? 0) + 1,
+      devPhaseJump: { to: checkpoint.phase, ts: Date.now() },
+    }));
+    setGameStarted(true);
+    setShowTable(true);
+  }, [resetDialogueState, setGameStarted, setGameState, setInputText, setShowTable]);
+
+  /** 练习模式：回到上一晚重来，丢弃之后的存档；没有可回退的存档时返回 false */
+  const rewindToLastNight = useCallback(async (): Promise<boolean> => {
+    const state = gameStateRef.current;
+    if (!state.isPracticeMode) return false;
+    const target = findRewindCheckpoint(await listCheckpoints(state.gameId), state);
+    if (!target) return false;
+    // 先丢弃之后的存档，避免读档后重新写入的天黑存档被一并删除
+    await discardCheckpointsAfter(target);
+    resumeGame(target);
+    return true;
+  }, [resumeGame]);
+
+  /** 导出本局回放（未开局时返回 null） */
+  const getReplay = useCallback((): GameReplay | null => {
+    return replayRecorderRef.current.toReplay();
+  }, []);
+
   /** 人类发言 */
   const handleHumanSpeech = useCallback(async () => {
     if (!inputText.trim() || !humanPlayer) return;
@@ -1370,6 +1446,41 @@ export function useGameLogic() {
     setGameState(currentState);
   }, [inputText, humanPlayer, setGameState]);
 
+  /** 狼队夜聊：真人狼人发言后，存活的 AI 狼队友依次回应 */
+  const handleWolfChat = useCallback(async (text: string) => {
+    const content = text.trim();
+    if (!content || !humanPlayer || humanPlayer.role !== "Werewolf" || !humanPlayer.alive) return;
+
+    const isChatOpen = (s: GameState) => s.phase === "NIGHT_WOLF_ACTION" && s.nightActions.wolfTarget === undefined;
+    if (!isChatOpen(gameStateRef.current)) return;
+
+    const token = getToken();
+    let currentState = addWolfChatMessage(gameStateRef.current, humanPlayer.playerId, content);
+    gameStateRef.current = currentState;
+    setGameState(currentState);
+
+    const teammates = currentState.players.filter((p) => p.role === "Werewolf" && p.alive && !p.isHuman);
+    if (teammates.length === 0) return;
+
+    setIsWaitingForAI(true);
+    for (const wolf of teammates) {
+      let reply = "";
+      try {
+        reply = await generateWolfChatMessage(currentState, wolf);
+      } catch (error) {
+        console.error("[wolfcha] AI wolf chat failed:", error);
+      }
+      await waitForUnpause();
+      // 已出刀或流程被中断时不再回应
+      if (!isTokenValid(token) || !isChatOpen(gameStateRef.current)) return;
+      if (!reply) continue;
+      currentState = addWolfChatMessage(gameStateRef.current, wolf.playerId, reply);
+      gameStateRef.current = currentState;
+      setGameState(currentState);
+    }
+    setIsWaitingForAI(false);
+  }, [humanPlayer, getToken, isTokenValid, setGameState, setIsWaitingForAI, waitForUnpause]);
+
   /** 人类结束发言 */
   const handleFinishSpeaking = useCallback(async () => {
     if (!humanPlayer) return;
@@ -1426,8 +1537,10 @@ export function useGameLogic() {
 
     const baseState = gameStateRef.current;
     if (baseState.phase !== "DAY_VOTE" && baseState.phase !== "DAY_BADGE_ELECTION") return;
+    // 超时弃票（VOTE_ABSTAIN 与 BADGE_VOTE_ABSTAIN 相同），计票时跳过
+    const isAbstain = targetSeat === VOTE_ABSTAIN;
     const targetPlayer = baseState.players.find((p) => p.seat === targetSeat);
-    if (!targetPlayer || !targetPlayer.alive) return;
+    if (!isAbstain && (!targetPlayer || !targetPlayer.alive)) return;
     if (typeof baseState.votes[humanPlayer.playerId] === "number") return;
 
     if (baseState.phase === "DAY_BADGE_ELECTION") {
@@ -1452,7 +1565,7 @@ export function useGameLogic() {
       return;
     }
 
-    if (baseState.pkSource === "vote" && Array.isArray(baseState.pkTargets) && baseState.pkTargets.length > 0) {
+    if (!isAbstain && baseState.pkSource === "vote" && Array.isArray(baseState.pkTargets) && baseState.pkTargets.length > 0) {
       if (!baseState.pkTargets.includes(targetSeat)) {
         console.warn("[wolfcha] Vote target not in PK list");
         return;
@@ -1541,6 +1654,14 @@ export function useGameLogic() {
     }
     // 女巫用药
     else if (gameState.phase === "NIGHT_WITCH_ACTION" && humanPlayer.role === "Witch") {
+      if (
+        witchAction === "save" &&
+        !currentState.roleAbilities.witchHealUsed &&
+        !canWitchSave(currentState, humanPlayer, currentState.nightActions.wolfTarget)
+      ) {
+        toast.error(t("gameLogicMessages.witchSelfSaveBlocked"));
+        return;
+      }
       if (witchAction === "save" && !currentState.roleAbilities.witchHealUsed) {
         currentState = {
           ...currentState,
@@ -1652,6 +1773,141 @@ export function useGameLogic() {
     await badgePhase.handleHumanBadgeTransfer(targetSeat);
   }, [badgePhase]);
 
+  /** 人类回合超时：按设置弃权 / 跳过，或由代打 AI 替人类决策 */
+  const handleTurnTimeout = useCallback(async (fallback: TurnFallback) => {
+    const state = gameStateRef.current;
+    const human = state.players.find((p) => p.isHuman);
+    if (!human) return;
+    const token = getToken();
+
+    // AI 决策失败时按跳过处理
+    const decide = async <T>(ai: (player: Player) => Promise<T>, pass: T): Promise<T> => {
+      if (fallback !== "ai") return pass;
+      if (standInProfileRef.current?.gameId !== state.gameId) {
+        standInProfileRef.current = { gameId: state.gameId, profile: createStandInProfile() };
+      }
+      try {
+        const agentProfile = await standInProfileRef.current.profile;
+        return await ai({ ...human, isHuman: false, agentProfile });
+      } catch (error) {
+        console.error("[wolfcha] Turn timeout AI decision failed:", error);
+        return pass;
+      }
+    };
+    // AI 决策期间人类可能已经操作
+    const isStale = () => {
+      const live = gameStateRef.current;
+      return (
+        live.gameId !== state.gameId ||
+        live.day !== state.day ||
+        live.phase !== state.phase ||
+        live.currentSpeakerSeat !== state.currentSpeakerSeat
+      );
+    };
+
+    switch (state.phase) {
+      case "DAY_SPEECH":
+      case "DAY_BADGE_SPEECH":
+      case "DAY_PK_SPEECH":
+      case "DAY_LAST_WORDS": {
+        const segments = await decide((ai) => aiDecisions.speech(state, ai), [] as string[]);
+        if (isStale()) return;
+        if (segments.length > 0) {
+          let nextState = gameStateRef.current;
+          for (const segment of segments) {
+            nextState = addPlayerMessage(nextState, human.playerId, segment, {
+              isLastWords: state.phase === "DAY_LAST_WORDS",
+            });
+          }
+          setGameState(nextState);
+          gameStateRef.current = nextState;
+        }
+        setInputText("");
+        await handleFinishSpeaking();
+        return;
+      }
+      case "DAY_VOTE": {
+        const vote = await decide((ai) => aiDecisions.vote(state, ai), { seat: VOTE_ABSTAIN, reason: "" });
+        if (isStale()) return;
+        await handleHumanVote(vote.seat);
+        return;
+      }
+      case "DAY_BADGE_ELECTION": {
+        const seat = await decide((ai) => aiDecisions.badgeVote(state, ai), BADGE_VOTE_ABSTAIN);
+        if (isStale()) return;
+        await handleHumanVote(seat);
+        return;
+      }
+      case "DAY_BADGE_SIGNUP": {
+        const wants = await decide(
+          async (ai) => (await aiDecisions.badgeSignup(state, [ai]))[ai.playerId] ?? false,
+          false
+        );
+        if (isStale()) return;
+        await badgePhase.handleBadgeSignup(wants);
+        return;
+      }
+      case "NIGHT_GUARD_ACTION": {
+        const seat = await decide((ai) => aiDecisions.guard(state, ai), null);
+        if (isStale()) return;
+        if (seat === null) {
+          await runNightPhaseAction(gameStateRef.current, token, "CONTINUE_NIGHT_AFTER_GUARD");
+        } else {
+          await handleNightAction(seat);
+        }
+        return;
+      }
+      case "NIGHT_WOLF_ACTION": {
+        const wolves = state.players.filter((p) => p.role === "Werewolf" && p.alive);
+        const pack = await decide(
+          (ai) => aiDecisions.wolfPack(state, wolves.map((w) => (w.playerId === ai.playerId ? ai : w))),
+          null
+        );
+        if (isStale()) return;
+        if (pack) {
+          await handleNightAction(pack.wolfTarget);
+        } else {
+          // 空刀
+          await runNightPhaseAction(gameStateRef.current, token, "CONTINUE_NIGHT_AFTER_WOLF");
+        }
+        return;
+      }
+      case "NIGHT_WITCH_ACTION": {
+        const action = await decide(
+          (ai) => aiDecisions.witch(state, ai, state.nightActions.wolfTarget),
+          { type: "pass" } as const
+        );
+        if (isStale()) return;
+        await handleNightAction(action.type === "poison" ? action.target : 0, action.type);
+        return;
+      }
+      case "NIGHT_SEER_ACTION": {
+        const seat = await decide((ai) => aiDecisions.seer(state, ai), null);
+        if (isStale()) return;
+        if (seat !== null) {
+          await handleNightAction(seat);
+        } else {
+          await resolveNight(gameStateRef.current, token, async (resolvedState) => {
+            await startDayPhaseInternal(resolvedState, token);
+          });
+        }
+        return;
+      }
+      case "HUNTER_SHOOT": {
+        const seat = await decide((ai) => aiDecisions.hunterShoot(state, ai), null);
+        if (isStale()) return;
+        await handleNightAction(seat ?? -1);
+        return;
+      }
+      case "BADGE_TRANSFER": {
+        const seat = await decide((ai) => aiDecisions.badgeTransfer(state, ai), BADGE_TRANSFER_TORN);
+        if (isStale()) return;
+        await handleHumanBadgeTransfer(seat);
+        return;
+      }
+    }
+  }, [getToken, setGameState, handleFinishSpeaking, handleHumanVote, badgePhase, runNightPhaseAction, handleNightAction, resolveNight, startDayPhaseInternal, handleHumanBadgeTransfer]);
+
   /** 推进发言 */
   const advanceSpeech = useCallback(async (): Promise<{ finished: boolean; shouldAdvanceToNextSpeaker: boolean; shouldAutoAdvanceToNextAI: boolean }> => {
     if (gameStateRef.current.phase === "GAME_END" || gameStateRef.current.winner) {
@@ -1766,14 +2022,19 @@ export function useGameLogic() {
 
     // Actions
     startGame,
+    getReplay,
     continueAfterRoleReveal,
     restartGame,
+    resumeGame,
+    rewindToLastNight,
     handleHumanSpeech,
     handleFinishSpeaking,
     handleBadgeSignup: badgePhase.handleBadgeSignup,
     handleHumanVote,
     handleNightAction,
+    handleWolfChat,
     handleHumanBadgeTransfer,
+    handleTurnTimeout,
     handleNextRound,
     scrollToBottom,
     advanceSpeech,
@@ -3,10 +3,10 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import type { StorageConfig, RoomState, Player } from '@/lib/storage'
+import type { StorageConfig, RoomListing, RoomState, Player } from '@/lib/storage'
 import { getStorageConfig, saveStorageConfig } from '@/lib/storage'
 import { getMultiplayerManager, resetMultiplayerManager } from '@/lib/multiplayer'
-import type { MultiplayerState } from '@/lib/multiplayer'
+import type { CreateRoomOptions, MultiplayerState } from '@/lib/multiplayer'
 
 export interface UseMultiplayerReturn {
   // 状态
@@ -18,8 +18,9 @@ export interface UseMultiplayerReturn {
   testConnection: () => Promise<boolean>
   
   // 房间操作
-  createRoom: (playerName: string) => Promise<boolean>
-  joinRoom: (playerName: string) => Promise<boolean>
+  listRooms: () => Promise<RoomListing[]>
+  createRoom: (playerName: string, options?: CreateRoomOptions) => Promise<boolean>
+  joinRoom: (roomCode: string, playerName: string, password?: string) => Promise<boolean>
   leaveRoom: () => Promise<void>
   
   // 玩家操作
@@ -98,11 +99,7 @@ export function useMultiplayer(): UseMultiplayerReturn {
     const result = await manager.initialize(config)
     
     if (result.success) {
-      setState(prev => ({
-        ...prev,
-        isConnected: true,
-        roomId: manager.getRoomId(),
-      }))
+      setState(prev => ({ ...prev, isConnected: true }))
     } else {
       setState(prev => ({ ...prev, error: result.message }))
     }
@@ -110,8 +107,21 @@ export function useMultiplayer(): UseMultiplayerReturn {
     return result.success
   }, [config])
 
+  // 列出可加入的房间
+  const listRooms = useCallback(async (): Promise<RoomListing[]> => {
+    const manager = managerRef.current
+
+    // 确保已初始化
+    if (!state.isConnected) {
+      const connected = await testConnection()
+      if (!connected) return []
+    }
+
+    return manager.listRooms()
+  }, [state.isConnected, testConnection])
+
   // 创建房间
-  const createRoom = useCallback(async (playerName: string): Promise<boolean> => {
+  const createRoom = useCallback(async (playerName: string, options?: CreateRoomOptions): Promise<boolean> => {
     const manager = managerRef.current
     setState(prev => ({ ...prev, error: null }))
 
@@ -121,12 +131,13 @@ export function useMultiplayer(): UseMultiplayerReturn {
       if (!connected) return false
     }
 
-    const room = await manager.createRoom(playerName)
+    const room = await manager.createRoom(playerName, options)
     
     if (room) {
       setState(prev => ({
         ...prev,
         room,
+        roomId: room.id,
         isHost: true,
         playerName,
         playerId: room.players[0].id,
@@ -138,7 +149,7 @@ export function useMultiplayer(): UseMultiplayerReturn {
   }, [state.isConnected, testConnection])
 
   // 加入房间
-  const joinRoom = useCallback(async (playerName: string): Promise<boolean> => {
+  const joinRoom = useCallback(async (roomCode: string, playerName: string, password?: string): Promise<boolean> => {
     const manager = managerRef.current
     setState(prev => ({ ...prev, error: null }))
 
@@ -148,13 +159,14 @@ export function useMultiplayer(): UseMultiplayerReturn {
       if (!connected) return false
     }
 
-    const room = await manager.joinRoom(playerName)
+    const room = await manager.joinRoom(roomCode, playerName, password)
     
     if (room) {
       const player = room.players.find(p => p.name === playerName)
       setState(prev => ({
         ...prev,
         room,
+        roomId: room.id,
         isHost: manager.getIsHost(),
         playerName,
         playerId: player?.id ?? null,
@@ -173,6 +185,7 @@ export function useMultiplayer(): UseMultiplayerReturn {
     setState(prev => ({
       ...prev,
       room: null,
+      roomId: null,
       isHost: false,
     }))
   }, [])
@@ -219,6 +232,7 @@ export function useMultiplayer(): UseMultiplayerReturn {
     config,
     setConfig,
     testConnection,
+    listRooms,
     createRoom,
     joinRoom,
     leaveRoom,
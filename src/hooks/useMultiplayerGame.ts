@@ -4,23 +4,35 @@
  */
 
 import { useCallback, useEffect, useRef } from 'react'
-import { useAtom, useAtomValue, useSetAtom } from 'jotai'
+import { useAtom, useAtomValue } from 'jotai'
 import type { GameState } from '@/types/game'
-import type { RoomState } from '@/lib/storage'
-import { getMultiplayerManager } from '@/lib/multiplayer'
+import type { HostSnapshot, RoomListing, RoomSeatConfig, RoomSpectatorConfig, RoomState } from '@/lib/storage'
+import { getMultiplayerManager, type CreateRoomOptions } from '@/lib/multiplayer'
 import {
+  buildRoomGameViews,
   createMultiplayerGameState,
   createSeatMappings,
+  type GameActionPayload,
+  type GameActionType,
 } from '@/lib/multiplayer/game-sync'
+import { createPlayerView } from '@/lib/multiplayer/state-view'
 import { HostController } from '@/lib/multiplayer/host-controller'
+import { normalizeSpectatorConfig, SpectatorBroadcaster } from '@/lib/multiplayer/spectator'
+import {
+  pickSnapshotSuccessor,
+  sealHostSnapshot,
+  type HostSnapshotData,
+} from '@/lib/multiplayer/host-migration'
 import {
   isMultiplayerModeAtom,
   roomStateAtom,
   isHostAtom,
+  isSpectatorAtom,
   multiplayerPlayerIdAtom,
   seatMappingsAtom,
   connectionStateAtom,
   storageConfigAtom,
+  type SeatMapping,
 } from '@/store/multiplayer-atoms'
 import { gameStateAtom } from '@/store/game-machine'
 
@@ -32,11 +44,92 @@ export function useMultiplayerGame() {
   const [config] = useAtom(storageConfigAtom)
   
   const isHost = useAtomValue(isHostAtom)
+  const isSpectator = useAtomValue(isSpectatorAtom)
   const playerId = useAtomValue(multiplayerPlayerIdAtom)
-  const setGameState = useSetAtom(gameStateAtom)
+  const [gameState, setGameState] = useAtom(gameStateAtom)
   
   const managerRef = useRef(getMultiplayerManager())
   const hostControllerRef = useRef<HostController | null>(null)
+  const spectatorBroadcasterRef = useRef<SpectatorBroadcaster | null>(null)
+  // 解密是异步的，只应用最新版本房间的结果
+  const latestRoomVersionRef = useRef(0)
+  // 最新的房间，发布时据此取得玩家公钥与交接快照的接班人
+  const latestRoomRef = useRef<RoomState | null>(null)
+
+  // 启动房主控制器，由它结算全部规则并发布每次状态变更
+  const runHostController = useCallback((initialState: GameState, mappings: SeatMapping[]) => {
+    const manager = managerRef.current
+    const hostId = latestRoomRef.current?.hostId
+    const hostGamePlayerId = mappings.find(m => m.multiPlayerId === hostId)?.gamePlayerId ?? null
+
+    // 最近的检查点，随状态一起加密给接班人；检查点或接班人变化时才重新加密
+    let checkpoint: GameState | null = null
+    let sealed: { checkpoint: GameState; successorId: string | null } | null = null
+
+    // 观战画面按房间的观战设置延迟发布，对局结束后仍会发布完缓冲中的画面
+    spectatorBroadcasterRef.current?.stop()
+    const broadcaster = new SpectatorBroadcaster({
+      getConfig: () => normalizeSpectatorConfig(latestRoomRef.current?.spectatorConfig),
+      getSpectators: () => latestRoomRef.current?.spectators ?? [],
+      publish: async (feed) => {
+        await manager.updateSpectatorFeed(feed)
+      },
+    })
+    spectatorBroadcasterRef.current = broadcaster
+
+    // 房主持有完整状态，但房间里只发布按玩家裁剪后的视角，本地界面也只显示房主自己的视角
+    const publish = async (state: GameState, turnDeadlines: Record<string, number>) => {
+      const currentRoom = latestRoomRef.current
+      if (!currentRoom) return
+
+      const views = await buildRoomGameViews(state, currentRoom.players, mappings, turnDeadlines)
+      const successorId = pickSnapshotSuccessor(currentRoom)?.id ?? null
+      let hostSnapshot: HostSnapshot | undefined
+      if (checkpoint && (sealed?.checkpoint !== checkpoint || sealed.successorId !== successorId)) {
+        hostSnapshot = await sealHostSnapshot(currentRoom, successorId, { gameState: checkpoint, seatMappings: mappings })
+        sealed = { checkpoint, successorId }
+      }
+      await manager.updateGameState(views.gameState, views.playerViews, hostSnapshot)
+      broadcaster.push(state)
+      setGameState(createPlayerView({ ...state, turnDeadlines }, hostGamePlayerId))
+    }
+
+    const controller = new HostController({
+      onGameStateUpdate: publish,
+      onPhaseChange: (phase) => {
+        console.log('[HostController] Phase changed to:', phase)
+      },
+      onActionsConsumed: async (actionIds) => {
+        await manager.consumeActions(actionIds)
+      },
+      onCheckpoint: (state) => {
+        checkpoint = state
+      },
+      turnTimers: latestRoomRef.current?.seatConfig?.turnTimers,
+    }, mappings)
+    hostControllerRef.current = controller
+    if (latestRoomRef.current) controller.updatePresence(latestRoomRef.current.players)
+
+    void controller.start(initialState).then((result) => {
+      if (hostControllerRef.current === controller && result.winner) {
+        void manager.endGame()
+      }
+    })
+  }, [setGameState])
+
+  // 接管进行中的对局：从交接快照的检查点继续
+  const resumeAsHost = useCallback(async (updatedRoom: RoomState) => {
+    if (updatedRoom.status !== 'playing' || hostControllerRef.current) return
+
+    const snapshot = await managerRef.current.readHostSnapshot(updatedRoom) as HostSnapshotData | null
+    if (!snapshot) {
+      setConnectionState(prev => ({ ...prev, error: '房主已断线，没有可恢复的对局进度' }))
+      return
+    }
+
+    setSeatMappings(snapshot.seatMappings)
+    runHostController(snapshot.gameState, snapshot.seatMappings)
+  }, [runHostController, setConnectionState, setSeatMappings])
 
   // 初始化联机管理器回调
   useEffect(() => {
@@ -45,10 +138,29 @@ export function useMultiplayerGame() {
     manager.setCallbacks({
       onRoomUpdate: (updatedRoom: RoomState) => {
         setRoom(updatedRoom)
+        latestRoomVersionRef.current = updatedRoom.version
+        latestRoomRef.current = updatedRoom
+
+        // 房主把玩家操作交给规则引擎结算，并让 AI 代打掉线玩家的座位
+        const controller = hostControllerRef.current
+        if (controller) {
+          controller.updatePresence(updatedRoom.players)
+          if (updatedRoom.actions?.length) {
+            void manager.readActions(updatedRoom).then(({ actions, unreadableIds }) => {
+              if (hostControllerRef.current !== controller) return
+              if (actions.length) controller.receiveActions(actions)
+              if (unreadableIds.length) void manager.consumeActions(unreadableIds)
+            })
+          }
+        }
         
-        // 同步游戏状态
-        if (updatedRoom.gameState) {
-          setGameState(updatedRoom.gameState as GameState)
+        // 同步游戏状态（本机玩家的私有视角，没有则为公开视角；观战者为观战画面）
+        if (updatedRoom.gameState || updatedRoom.spectatorFeed) {
+          void manager.readGameState(updatedRoom).then((view) => {
+            if (view && latestRoomVersionRef.current === updatedRoom.version) {
+              setGameState(view as GameState)
+            }
+          })
         }
       },
       onGameStart: () => {
@@ -58,6 +170,16 @@ export function useMultiplayerGame() {
         console.log('[MultiplayerGame] Game ended')
         hostControllerRef.current?.stop()
       },
+      onBecomeHost: (updatedRoom: RoomState) => {
+        void resumeAsHost(updatedRoom)
+      },
+      onHostLost: () => {
+        // 掉线期间已被接班人接管，本机不再推进对局
+        hostControllerRef.current?.stop()
+        hostControllerRef.current = null
+        spectatorBroadcasterRef.current?.stop()
+        spectatorBroadcasterRef.current = null
+      },
       onError: (message: string) => {
         setConnectionState(prev => ({ ...prev, error: message }))
       },
@@ -66,8 +188,9 @@ export function useMultiplayerGame() {
     return () => {
       manager.destroy()
       hostControllerRef.current?.stop()
+      spectatorBroadcasterRef.current?.stop()
     }
-  }, [setRoom, setGameState, setConnectionState])
+  }, [setRoom, setGameState, setConnectionState, resumeAsHost])
 
   // 初始化连接
   const initialize = useCallback(async (): Promise<boolean> => {
@@ -90,8 +213,33 @@ export function useMultiplayerGame() {
     return result.success
   }, [config, setConnectionState, setIsMultiplayer])
 
+  // 列出可加入的房间
+  const listRooms = useCallback(async (): Promise<RoomListing[]> => {
+    const manager = managerRef.current
+
+    if (!connectionState.isConnected) {
+      const connected = await initialize()
+      if (!connected) return []
+    }
+
+    return manager.listRooms()
+  }, [connectionState.isConnected, initialize])
+
   // 创建房间
-  const createRoom = useCallback(async (playerName: string): Promise<boolean> => {
+  const createRoom = useCallback(async (playerName: string, options?: CreateRoomOptions): Promise<boolean> => {
+    const manager = managerRef.current
+
+    if (!connectionState.isConnected) {
+      const connected = await initialize()
+      if (!connected) return false
+    }
+
+    const room = await manager.createRoom(playerName, options)
+    return room !== null
+  }, [connectionState.isConnected, initialize])
+
+  // 通过加入码加入房间
+  const joinRoom = useCallback(async (roomCode: string, playerName: string, password?: string): Promise<boolean> => {
     const manager = managerRef.current
 
     if (!connectionState.isConnected) {
@@ -99,12 +247,12 @@ export function useMultiplayerGame() {
       if (!connected) return false
     }
 
-    const room = await manager.createRoom(playerName)
+    const room = await manager.joinRoom(roomCode, playerName, password)
     return room !== null
   }, [connectionState.isConnected, initialize])
 
-  // 加入房间
-  const joinRoom = useCallback(async (playerName: string): Promise<boolean> => {
+  // 通过加入码观战
+  const watchRoom = useCallback(async (roomCode: string, spectatorName: string, password?: string): Promise<boolean> => {
     const manager = managerRef.current
 
     if (!connectionState.isConnected) {
@@ -112,7 +260,7 @@ export function useMultiplayerGame() {
       if (!connected) return false
     }
 
-    const room = await manager.joinRoom(playerName)
+    const room = await manager.watchRoom(roomCode, spectatorName, password)
     return room !== null
   }, [connectionState.isConnected, initialize])
 
@@ -123,6 +271,9 @@ export function useMultiplayerGame() {
     setRoom(null)
     setIsMultiplayer(false)
     hostControllerRef.current?.stop()
+    hostControllerRef.current = null
+    spectatorBroadcasterRef.current?.stop()
+    spectatorBroadcasterRef.current = null
   }, [setRoom, setIsMultiplayer])
 
   // 设置准备状态
@@ -136,54 +287,63 @@ export function useMultiplayerGame() {
     if (!isHost || !room) return false
 
     const manager = managerRef.current
+    const seatConfig = room.seatConfig
+    if (!seatConfig?.locked) {
+      setConnectionState(prev => ({ ...prev, error: '请先锁定座位与板子' }))
+      return false
+    }
 
     // 创建座位映射
-    const mappings = createSeatMappings(room.players, room.players.length)
+    const mappings = createSeatMappings(room.players, seatConfig)
     setSeatMappings(mappings)
 
-    // 创建游戏状态
-    const gameState = createMultiplayerGameState(room.players, mappings)
+    // 创建游戏状态（AI 座位需要生成角色）
+    let initialState: GameState
+    try {
+      initialState = await createMultiplayerGameState(mappings, seatConfig)
+    } catch (error) {
+      console.error('[Multiplayer] Failed to create game state:', error)
+      setConnectionState(prev => ({ ...prev, error: '创建对局失败' }))
+      return false
+    }
 
     // 更新房间状态
     const success = await manager.startGame()
     if (!success) return false
 
-    // 更新游戏状态
-    await manager.updateGameState(gameState)
-    setGameState(gameState)
-
-    // 启动房主控制器
-    hostControllerRef.current = new HostController({
-      onGameStateUpdate: async (state) => {
-        await manager.updateGameState(state)
-        setGameState(state)
-      },
-      onPhaseChange: (phase) => {
-        console.log('[HostController] Phase changed to:', phase)
-      },
-      onAIAction: async (aiPlayerId, action) => {
-        console.log('[HostController] AI action:', aiPlayerId, action)
-        // TODO: 调用 AI API 生成对话/行动
-      },
-    })
+    runHostController(initialState, mappings)
+    return true
+  }, [isHost, room, setSeatMappings, setConnectionState, runHostController])
 
-    hostControllerRef.current.start(gameState)
+  // 更新座位与板子配置（房主专用）
+  const updateSeatConfig = useCallback(async (seatConfig: RoomSeatConfig): Promise<boolean> => {
+    const manager = managerRef.current
+    return manager.updateSeatConfig(seatConfig)
+  }, [])
 
-    return true
-  }, [isHost, room, setSeatMappings, setGameState])
+  // 更新观战设置（房主专用）
+  const updateSpectatorConfig = useCallback(async (spectatorConfig: RoomSpectatorConfig): Promise<boolean> => {
+    const manager = managerRef.current
+    return manager.updateSpectatorConfig(spectatorConfig)
+  }, [])
 
-  // 提交玩家操作
+  // 提交玩家操作（附带当前天数与阶段，房主据此丢弃过期操作）
   const submitAction = useCallback(async (
-    type: 'speech' | 'vote' | 'night_action' | 'skip',
-    payload?: { content?: string; targetSeat?: number }
+    type: GameActionType,
+    payload?: Omit<GameActionPayload, 'day' | 'phase'>
   ): Promise<boolean> => {
     const manager = managerRef.current
-    
+    const fullPayload: GameActionPayload = {
+      ...payload,
+      day: gameState.day,
+      phase: gameState.phase,
+    }
+
     return manager.submitAction({
-      type: type as 'ready', // type cast for now
-      payload,
+      type,
+      payload: fullPayload,
     })
-  }, [])
+  }, [gameState.day, gameState.phase])
 
   // 刷新房间
   const refresh = useCallback(async (): Promise<void> => {
@@ -196,6 +356,7 @@ export function useMultiplayerGame() {
     isMultiplayer,
     room,
     isHost,
+    isSpectator,
     playerId,
     seatMappings,
     connectionState,
@@ -203,11 +364,15 @@ export function useMultiplayerGame() {
 
     // 操作
     initialize,
+    listRooms,
     createRoom,
     joinRoom,
+    watchRoom,
     leaveRoom,
     setReady,
     startGame,
+    updateSeatConfig,
+    updateSpectatorConfig,
     submitAction,
     refresh,
   }
@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { GameState, Player } from "@/types/game";
+import { PHASE_CONFIGS } from "@/store/game-machine";
+import { getTurnLimit, type TurnFallback, type TurnTimerConfig } from "@/lib/turn-timer";
+
+interface UseTurnTimerOptions {
+  gameState: GameState;
+  humanPlayer: Player | null;
+  config: TurnTimerConfig;
+  blocked?: boolean; // 弹窗、AI 行动等期间不计时
+  onTimeout: (fallback: TurnFallback) => void;
+}
+
+/**
+ * 真人回合倒计时，返回当前回合的截止时间（不计时为 null）
+ * 暂停或被阻塞后恢复时，本回合重新计时
+ */
+export function useTurnTimer({
+  gameState,
+  humanPlayer,
+  config,
+  blocked = false,
+  onTimeout,
+}: UseTurnTimerOptions) {
+  const [turn, setTurn] = useState<{ key: string; deadline: number } | null>(null);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  const limit = getTurnLimit(config, gameState.phase);
+  // 预言家查验后仍停留在该阶段等待继续，不再计时
+  const awaitingHuman =
+    !!humanPlayer &&
+    PHASE_CONFIGS[gameState.phase].requiresHumanInput(humanPlayer, gameState) &&
+    !(gameState.phase === "NIGHT_SEER_ACTION" && gameState.nightActions.seerTarget !== undefined);
+  const turnKey =
+    limit && awaitingHuman && !blocked && !gameState.isPaused
+      ? `${gameState.gameId}:${gameState.day}:${gameState.phase}:${gameState.currentSpeakerSeat ?? ""}`
+      : null;
+  const ms = limit?.ms;
+  const fallback = limit?.fallback;
+
+  useEffect(() => {
+    if (!turnKey || !ms || !fallback) return;
+    const deadline = Date.now() + ms;
+    const syncTimer = window.setTimeout(() => setTurn({ key: turnKey, deadline }), 0);
+    const expireTimer = window.setTimeout(() => onTimeoutRef.current(fallback), ms);
+    return () => {
+      window.clearTimeout(syncTimer);
+      window.clearTimeout(expireTimer);
+    };
+  }, [turnKey, ms, fallback]);
+
+  return turn && turn.key === turnKey ? turn.deadline : null;
+}
@@ -18,6 +18,7 @@ const createDefaultRolesState = (): Record<Role, boolean> => ({
   Witch: false,
   Hunter: false,
   Guard: false,
+  Idiot: false,
   Villager: false,
 });
 
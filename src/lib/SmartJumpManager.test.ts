@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import type { GameState, Phase } from "@/types/game";
+import { addSystemMessage } from "@/lib/game-master";
+import { analyzeJump, applyBackwardJump, type JumpTarget } from "@/lib/SmartJumpManager";
+import { makeState } from "@/test/game-state";
+
+/**
+ * 已进行到第 3 天白天发言的对局：
+ * 第 1 夜刀死 4 号，第 1 天放逐 3 号；第 2 夜刀死 5 号、毒死 7 号，第 2 天平票；第 3 夜女巫救下 9 号
+ */
+function playedState(): GameState {
+  let state: GameState = {
+    ...makeState({
+      day: 3,
+      phase: "DAY_SPEECH",
+      deadSeats: [3, 2, 4, 6],
+      roleAbilities: { witchHealUsed: true, witchPoisonUsed: true },
+      nightHistory: {
+        1: { guardTarget: 0, wolfTarget: 3, deaths: [{ seat: 3, reason: "wolf" }] },
+        2: {
+          wolfTarget: 4,
+          witchPoison: 6,
+          deaths: [
+            { seat: 4, reason: "wolf" },
+            { seat: 6, reason: "poison" },
+          ],
+        },
+        3: { wolfTarget: 8, witchSave: true },
+      },
+    }),
+    dayHistory: { 1: { executed: { seat: 2, votes: 6 } }, 2: { voteTie: true } },
+    voteHistory: { 1: {}, 2: {} },
+    dailySummaries: { 1: ["第 1 天"], 2: ["第 2 天"], 3: ["第 3 天"] },
+  };
+
+  const stamp = (day: number, phase: Phase, content: string) => {
+    state = addSystemMessage({ ...state, day, phase }, content);
+  };
+  stamp(1, "DAY_SPEECH", "day1-speech");
+  stamp(2, "DAY_SPEECH", "day2-speech");
+  stamp(3, "NIGHT_WITCH_ACTION", "day3-witch");
+  stamp(3, "DAY_START", "day3-start");
+  stamp(3, "DAY_SPEECH", "day3-speech");
+  return { ...state, day: 3, phase: "DAY_SPEECH" };
+}
+
+const aliveSeats = (state: GameState) => state.players.filter((p) => p.alive).map((p) => p.seat);
+const messageContents = (state: GameState) => state.messages.map((m) => m.content);
+
+describe("analyzeJump", () => {
+  it.each<[JumpTarget, string, boolean]>([
+    [{ day: 3, phase: "DAY_SPEECH" }, "same", false],
+    [{ day: 3, phase: "DAY_VOTE" }, "forward", false],
+    [{ day: 4, phase: "NIGHT_START" }, "forward", true],
+    [{ day: 3, phase: "DAY_START" }, "backward", false],
+    [{ day: 1, phase: "DAY_VOTE" }, "backward", true],
+  ])("跳到 %o 的方向", (target, direction, crossDay) => {
+    const analysis = analyzeJump(playedState(), target);
+    expect(analysis.direction).toBe(direction);
+    expect(analysis.crossDay).toBe(crossDay);
+  });
+
+  it("回滚到第 2 天白天：只清理第 3 天，恢复第 3 夜用掉的解药", () => {
+    const analysis = analyzeJump(playedState(), { day: 2, phase: "DAY_START" });
+    expect(analysis.daysToClean).toEqual([3]);
+    expect(analysis.playersToRevive).toEqual([]);
+    expect(analysis.abilitiesToRestore).toEqual(["witchHealUsed"]);
+  });
+
+  it("回滚到第 1 天投票：复活投票后及之后死亡的玩家", () => {
+    const analysis = analyzeJump(playedState(), { day: 1, phase: "DAY_VOTE" });
+    expect(analysis.daysToClean).toEqual([2, 3]);
+    expect([...analysis.playersToRevive].sort()).toEqual([2, 4, 6]);
+    expect([...analysis.abilitiesToRestore].sort()).toEqual(["witchHealUsed", "witchPoisonUsed"]);
+  });
+
+  it("同日前跳：补全当前及跳过的夜晚行动", () => {
+    const state = makeState({ phase: "NIGHT_GUARD_ACTION" });
+    const analysis = analyzeJump(state, { day: 1, phase: "DAY_START" });
+    expect(analysis.missingTasks.map((t) => t.phase)).toEqual([
+      "NIGHT_GUARD_ACTION",
+      "NIGHT_WOLF_ACTION",
+      "NIGHT_WITCH_ACTION",
+      "NIGHT_WITCH_ACTION",
+      "NIGHT_SEER_ACTION",
+    ]);
+  });
+
+  it("同日前跳：已有的夜晚行动无需补全", () => {
+    const state = makeState({ phase: "NIGHT_WITCH_ACTION", nightActions: { guardTarget: 0, wolfTarget: 3 } });
+    const analysis = analyzeJump(state, { day: 1, phase: "DAY_START" });
+    expect(analysis.missingTasks.map((t) => t.phase)).toEqual([
+      "NIGHT_WITCH_ACTION",
+      "NIGHT_WITCH_ACTION",
+      "NIGHT_SEER_ACTION",
+    ]);
+  });
+
+  it("跨日前跳：补全下一夜的行动与当天的放逐结果", () => {
+    const state = makeState({ phase: "DAY_SPEECH" });
+    const fields = analyzeJump(state, { day: 2, phase: "DAY_START" }).missingTasks.map((t) => t.field);
+    expect(fields).toEqual([
+      "day2GuardTarget",
+      "day2WolfTarget",
+      "day2WitchSave",
+      "day2WitchPoison",
+      "day2SeerTarget",
+      "day1VoteResult",
+    ]);
+  });
+
+  it("跨日前跳：已出局的角色不需要补全", () => {
+    const state = makeState({ phase: "DAY_SPEECH", deadSeats: [0, 1, 4] });
+    const fields = analyzeJump(state, { day: 2, phase: "DAY_START" }).missingTasks.map((t) => t.field);
+    expect(fields).toEqual(["day2WolfTarget", "day1VoteResult"]);
+  });
+});
+
+describe("applyBackwardJump", () => {
+  const jump = (target: JumpTarget) => {
+    const state = playedState();
+    return applyBackwardJump(state, target, analyzeJump(state, target));
+  };
+
+  it("回滚到第 2 天白天", () => {
+    const next = jump({ day: 2, phase: "DAY_START" });
+    expect(next.day).toBe(2);
+    expect(next.phase).toBe("DAY_START");
+    expect(aliveSeats(next)).toEqual([0, 1, 5, 7, 8, 9]);
+    expect(Object.keys(next.nightHistory ?? {})).toEqual(["1", "2"]);
+    expect(Object.keys(next.dailySummaries)).toEqual(["1", "2"]);
+    expect(next.roleAbilities).toMatchObject({ witchHealUsed: false, witchPoisonUsed: true });
+    expect(messageContents(next)).toEqual(["day1-speech"]);
+  });
+
+  it("回滚到第 1 天投票：按历史记录重算存活", () => {
+    const next = jump({ day: 1, phase: "DAY_VOTE" });
+    expect(aliveSeats(next)).toEqual([0, 1, 2, 4, 5, 6, 7, 8, 9]);
+    expect(Object.keys(next.nightHistory ?? {})).toEqual(["1"]);
+    expect(Object.keys(next.dayHistory ?? {})).toEqual(["1"]);
+    expect(next.roleAbilities).toMatchObject({ witchHealUsed: false, witchPoisonUsed: false });
+    expect(messageContents(next)).toEqual(["day1-speech"]);
+  });
+
+  it("同日回滚到女巫行动：清除当晚记录与该阶段之后的消息", () => {
+    const next = jump({ day: 3, phase: "NIGHT_WITCH_ACTION" });
+    expect(next.nightHistory?.[3]).toBeUndefined();
+    expect(next.nightHistory?.[2]).toBeDefined();
+    expect(next.roleAbilities.witchHealUsed).toBe(false);
+    expect(messageContents(next)).toEqual(["day1-speech", "day2-speech"]);
+  });
+
+  it("同日回滚到天亮：保留当晚记录，清空当天总结", () => {
+    const next = jump({ day: 3, phase: "DAY_START" });
+    expect(next.nightHistory?.[3]).toEqual({ wolfTarget: 8, witchSave: true });
+    expect(next.dailySummaries[3]).toBeUndefined();
+    expect(next.roleAbilities.witchHealUsed).toBe(true);
+    expect(messageContents(next)).toEqual(["day1-speech", "day2-speech", "day3-witch"]);
+  });
+
+  it("重置当前行动与胜负", () => {
+    const state = { ...playedState(), votes: { "fixture-0": 1 }, winner: "wolf" as const, currentSpeakerSeat: 5 };
+    const target: JumpTarget = { day: 3, phase: "DAY_START" };
+    const next = applyBackwardJump(state, target, analyzeJump(state, target));
+    expect(next.votes).toEqual({});
+    expect(next.winner).toBeNull();
+    expect(next.currentSpeakerSeat).toBeNull();
+  });
+});
@@ -8,6 +8,7 @@
 import type { GameState, Phase, Player, Role } from "@/types/game";
 import { getI18n } from "@/i18n/translator";
 import { addSystemMessage, checkWinCondition } from "@/lib/game-master";
+import { getGameRules, resolveWolfVictim } from "@/lib/game-rules";
 
 // ============ 阶段顺序定义 ============
 
@@ -1373,10 +1374,13 @@ function ensureNightResolvedForDay(state: GameState, day: number): GameState {
     const isProtected = guardTargetEffective === wolfTargetEffective;
     const isSaved = witchSaveEffective === true;
 
-    if (isProtected && isSaved) {
-      deaths.push({ seat: wolfTargetEffective, reason: "milk" });
-    } else if (!isProtected && !isSaved) {
-      deaths.push({ seat: wolfTargetEffective, reason: "wolf" });
+    const victim = resolveWolfVictim(getGameRules(state), {
+      wolfTarget: wolfTargetEffective,
+      guardTarget: guardTargetEffective,
+      witchSave: witchSaveEffective,
+    });
+    if (victim !== undefined) {
+      deaths.push({ seat: victim, reason: isProtected && isSaved ? "milk" : "wolf" });
     }
   }
 
@@ -1524,10 +1528,13 @@ function ensureNightResolvedForDayFromHistory(state: GameState, day: number): Ga
   if (wolfTargetEffective !== undefined) {
     const isProtected = guardTargetEffective === wolfTargetEffective;
     const isSaved = witchSaveEffective === true;
-    if (isProtected && isSaved) {
-      deaths.push({ seat: wolfTargetEffective, reason: "milk" });
-    } else if (!isProtected && !isSaved) {
-      deaths.push({ seat: wolfTargetEffective, reason: "wolf" });
+    const victim = resolveWolfVictim(getGameRules(state), {
+      wolfTarget: wolfTargetEffective,
+      guardTarget: guardTargetEffective,
+      witchSave: witchSaveEffective,
+    });
+    if (victim !== undefined) {
+      deaths.push({ seat: victim, reason: isProtected && isSaved ? "milk" : "wolf" });
     }
   }
 
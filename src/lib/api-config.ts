@@ -3,6 +3,9 @@
  * 使用 localStorage 存储，支持用户自定义 API 设置
  */
 
+import type { ModelProvider, ModelRef } from '@/types/game';
+import { getDashscopeApiKey, getZenmuxApiKey } from './api-keys';
+
 // API 服务商预设
 export interface ApiProvider {
   id: string;
@@ -10,6 +13,8 @@ export interface ApiProvider {
   baseUrl: string;
   defaultModel: string;
   applyUrl: string;
+  /** 该服务商允许的最大并发请求数，未设置时使用 DEFAULT_PROVIDER_CONCURRENCY */
+  maxConcurrency?: number;
 }
 
 // 预设模型列表
@@ -24,6 +29,11 @@ export const MODEL_PRESETS = [
   'gpt-4.1',
 ] as const;
 
+export const DEFAULT_PROVIDER_CONCURRENCY = 4;
+
+// 本地规则 AI，无需网络和 API Key，用于离线开发、演示与自动化测试
+export const MOCK_PROVIDER_ID = 'mock';
+
 export const API_PROVIDERS: ApiProvider[] = [
   {
     id: 'weapis',
@@ -38,6 +48,7 @@ export const API_PROVIDERS: ApiProvider[] = [
     baseUrl: 'https://api.deepseek.com/v1/chat/completions',
     defaultModel: 'deepseek-chat',
     applyUrl: 'https://platform.deepseek.com/',
+    maxConcurrency: 8,
   },
   {
     id: 'siliconflow',
@@ -45,6 +56,7 @@ export const API_PROVIDERS: ApiProvider[] = [
     baseUrl: 'https://api.siliconflow.cn/v1/chat/completions',
     defaultModel: 'deepseek-ai/DeepSeek-V3',
     applyUrl: 'https://cloud.siliconflow.cn/',
+    maxConcurrency: 3,
   },
   {
     id: 'openai',
@@ -53,6 +65,27 @@ export const API_PROVIDERS: ApiProvider[] = [
     defaultModel: 'gpt-4o',
     applyUrl: 'https://platform.openai.com/api-keys',
   },
+  {
+    id: 'zenmux',
+    name: 'ZenMux',
+    baseUrl: 'https://zenmux.ai/api/v1/chat/completions',
+    defaultModel: 'deepseek/deepseek-v3.2',
+    applyUrl: 'https://zenmux.ai/',
+  },
+  {
+    id: 'dashscope',
+    name: '阿里云百炼',
+    baseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1/chat/completions',
+    defaultModel: 'qwen3-max',
+    applyUrl: 'https://bailian.console.aliyun.com/',
+  },
+  {
+    id: 'mock',
+    name: '本地模拟 (离线)',
+    baseUrl: '',
+    defaultModel: 'mock-agent',
+    applyUrl: '',
+  },
   {
     id: 'custom',
     name: '自定义',
@@ -62,12 +95,28 @@ export const API_PROVIDERS: ApiProvider[] = [
   },
 ];
 
+/**
+ * 按服务商单独配置的接口
+ * 座位的 ModelRef.provider 命中且填写了 Key 时，该座位直接请求此接口并使用自己的模型名
+ */
+export interface ProviderEndpoint {
+  /** 为空时使用 API_PROVIDERS 中的预设地址 */
+  baseUrl: string;
+  apiKey: string;
+  /** 可分配给 AI 座位的模型 */
+  models: string[];
+  maxConcurrency?: number;
+}
+
 export interface ApiConfig {
   // LLM 配置
   llmProvider: string;
   llmBaseUrl: string;
   llmApiKey: string;
   llmModel: string;
+
+  // 按服务商路由
+  providerEndpoints: Partial<Record<ModelProvider, ProviderEndpoint>>;
   
   // TTS 配置 (MiniMax)
   ttsEnabled: boolean;
@@ -82,6 +131,8 @@ const DEFAULT_CONFIG: ApiConfig = {
   llmBaseUrl: 'https://vg.v1api.cc/v1/chat/completions',
   llmApiKey: '',
   llmModel: 'deepseek-v3.2',
+
+  providerEndpoints: {},
   
   ttsEnabled: false,
   ttsApiKey: '',
@@ -132,7 +183,74 @@ export function clearApiConfig(): void {
   }
 }
 
+export function isMockProvider(config: ApiConfig): boolean {
+  return config.llmProvider === MOCK_PROVIDER_ID;
+}
+
 export function isApiConfigured(): boolean {
   const config = getApiConfig();
+  if (isMockProvider(config)) return true;
   return Boolean(config.llmApiKey && config.llmBaseUrl);
 }
+
+/** 一次请求最终使用的接口 */
+export interface ResolvedEndpoint {
+  /** 并发限制按此 key 计数 */
+  key: string;
+  baseUrl: string;
+  apiKey: string;
+  /** 非空时覆盖请求中的模型名（回退到默认接口时使用 llmModel） */
+  modelOverride: string;
+  maxConcurrency: number;
+}
+
+const getProviderPreset = (providerId: string) => API_PROVIDERS.find(p => p.id === providerId);
+
+// 旧版设置页单独保存的 ZenMux / 百炼 Key
+function getLegacyProviderKey(provider: ModelProvider): string {
+  if (provider === 'zenmux') return getZenmuxApiKey();
+  if (provider === 'dashscope') return getDashscopeApiKey();
+  return '';
+}
+
+/**
+ * 按座位的服务商解析接口
+ * 该服务商配置了 Key 时走独立接口，否则回退到默认接口，与未配置路由时的行为一致
+ */
+export function resolveProviderEndpoint(provider: ModelProvider | undefined, config: ApiConfig = getApiConfig()): ResolvedEndpoint {
+  if (provider) {
+    const endpoint = config.providerEndpoints?.[provider];
+    const preset = getProviderPreset(provider);
+    const apiKey = endpoint?.apiKey || getLegacyProviderKey(provider);
+    const baseUrl = endpoint?.baseUrl || preset?.baseUrl || '';
+    if (apiKey && baseUrl) {
+      return {
+        key: provider,
+        baseUrl,
+        apiKey,
+        modelOverride: '',
+        maxConcurrency: endpoint?.maxConcurrency || preset?.maxConcurrency || DEFAULT_PROVIDER_CONCURRENCY,
+      };
+    }
+  }
+
+  return {
+    key: config.llmProvider,
+    baseUrl: config.llmBaseUrl,
+    apiKey: config.llmApiKey,
+    modelOverride: config.llmModel,
+    maxConcurrency: getProviderPreset(config.llmProvider)?.maxConcurrency || DEFAULT_PROVIDER_CONCURRENCY,
+  };
+}
+
+/** 已配置独立接口的服务商模型，非空时作为 AI 座位的模型池 */
+export function getRoutedModelRefs(config: ApiConfig = getApiConfig()): ModelRef[] {
+  const refs: ModelRef[] = [];
+  for (const [provider, endpoint] of Object.entries(config.providerEndpoints ?? {}) as [ModelProvider, ProviderEndpoint | undefined][]) {
+    if (!endpoint?.apiKey) continue;
+    for (const model of endpoint.models) {
+      if (model.trim()) refs.push({ provider, model: model.trim() });
+    }
+  }
+  return refs;
+}
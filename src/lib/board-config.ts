@@ -0,0 +1,318 @@
+/**
+ * 板子（角色配置）
+ * 支持 6-16 人任意角色组合、命名预设、平衡性校验，以及可分享的 JSON 格式
+ */
+
+import type { Role } from "@/types/game";
+import { roleRegistry } from "@/game/core/RoleRegistry";
+import { gameRng, type RandomSource } from "./game-rng";
+
+export const MIN_PLAYER_COUNT = 6;
+export const MAX_PLAYER_COUNT = 16;
+
+/** 分享 JSON 的格式版本，结构变化时递增 */
+export const BOARD_CONFIG_VERSION = 1;
+
+export type BoardRoleCounts = Partial<Record<Role, number>>;
+
+export interface BoardConfig {
+  version: number;
+  name: string;
+  playerCount: number;
+  roles: BoardRoleCounts;
+}
+
+export interface BoardPreset {
+  id: string;
+  /** 同人数下的标准板子，getRoleConfiguration 默认使用 */
+  isDefault?: boolean;
+  description: string;
+  board: BoardConfig;
+}
+
+export type BoardIssueLevel = "error" | "warning";
+
+export type BoardIssueCode =
+  | "PLAYER_COUNT_OUT_OF_RANGE"
+  | "ROLE_COUNT_MISMATCH"
+  | "UNKNOWN_ROLE"
+  | "DUPLICATE_UNIQUE_ROLE"
+  | "NO_WOLVES"
+  | "WOLVES_WIN_AT_START"
+  | "TOO_MANY_WOLVES"
+  | "TOO_FEW_WOLVES"
+  | "NO_GOD_ROLES";
+
+export interface BoardIssue {
+  level: BoardIssueLevel;
+  code: BoardIssueCode;
+  role?: Role;
+}
+
+/** 每局最多一名的角色（技能状态在 GameState 中是单例） */
+const UNIQUE_ROLES: Role[] = ["Seer", "Witch", "Hunter", "Guard", "Idiot"];
+
+const makeBoard = (name: string, roles: BoardRoleCounts): BoardConfig => ({
+  version: BOARD_CONFIG_VERSION,
+  name,
+  playerCount: Object.values(roles).reduce((sum, n) => sum + (n ?? 0), 0),
+  roles,
+});
+
+export const BOARD_PRESETS: BoardPreset[] = [
+  {
+    id: "6p-seer-witch",
+    isDefault: true,
+    description: "2狼 2神 2民",
+    board: makeBoard("预女 6人", { Werewolf: 2, Seer: 1, Witch: 1, Villager: 2 }),
+  },
+  {
+    id: "7p-seer-witch-hunter",
+    isDefault: true,
+    description: "2狼 3神 2民",
+    board: makeBoard("预女猎 7人", { Werewolf: 2, Seer: 1, Witch: 1, Hunter: 1, Villager: 2 }),
+  },
+  {
+    id: "8p-seer-witch-hunter",
+    isDefault: true,
+    description: "3狼 3神 2民",
+    board: makeBoard("预女猎 8人", { Werewolf: 3, Seer: 1, Witch: 1, Hunter: 1, Villager: 2 }),
+  },
+  {
+    id: "9p-seer-witch-hunter",
+    isDefault: true,
+    description: "3狼 3神 3民",
+    board: makeBoard("预女猎 9人", { Werewolf: 3, Seer: 1, Witch: 1, Hunter: 1, Villager: 3 }),
+  },
+  {
+    id: "10p-seer-witch-hunter-guard",
+    isDefault: true,
+    description: "3狼 4神 3民",
+    board: makeBoard("预女猎守 10人", { Werewolf: 3, Seer: 1, Witch: 1, Hunter: 1, Guard: 1, Villager: 3 }),
+  },
+  {
+    id: "10p-seer-witch-hunter-idiot",
+    description: "3狼 4神 3民",
+    board: makeBoard("预女猎白 10人", { Werewolf: 3, Seer: 1, Witch: 1, Hunter: 1, Idiot: 1, Villager: 3 }),
+  },
+  {
+    id: "11p-seer-witch-hunter-guard",
+    isDefault: true,
+    description: "4狼 4神 3民",
+    board: makeBoard("预女猎守 11人", { Werewolf: 4, Seer: 1, Witch: 1, Hunter: 1, Guard: 1, Villager: 3 }),
+  },
+  {
+    id: "12p-seer-witch-hunter-guard",
+    isDefault: true,
+    description: "4狼 4神 4民",
+    board: makeBoard("预女猎守 12人", { Werewolf: 4, Seer: 1, Witch: 1, Hunter: 1, Guard: 1, Villager: 4 }),
+  },
+  {
+    id: "12p-seer-witch-hunter-idiot",
+    description: "4狼 4神 4民",
+    board: makeBoard("预女猎白 12人", { Werewolf: 4, Seer: 1, Witch: 1, Hunter: 1, Idiot: 1, Villager: 4 }),
+  },
+  {
+    id: "13p-seer-witch-hunter-guard",
+    isDefault: true,
+    description: "4狼 4神 5民",
+    board: makeBoard("预女猎守 13人", { Werewolf: 4, Seer: 1, Witch: 1, Hunter: 1, Guard: 1, Villager: 5 }),
+  },
+  {
+    id: "14p-five-gods",
+    isDefault: true,
+    description: "4狼 5神 5民",
+    board: makeBoard("预女猎守白 14人", {
+      Werewolf: 4,
+      Seer: 1,
+      Witch: 1,
+      Hunter: 1,
+      Guard: 1,
+      Idiot: 1,
+      Villager: 5,
+    }),
+  },
+  {
+    id: "15p-five-gods",
+    isDefault: true,
+    description: "5狼 5神 5民",
+    board: makeBoard("预女猎守白 15人", {
+      Werewolf: 5,
+      Seer: 1,
+      Witch: 1,
+      Hunter: 1,
+      Guard: 1,
+      Idiot: 1,
+      Villager: 5,
+    }),
+  },
+  {
+    id: "16p-five-gods",
+    isDefault: true,
+    description: "5狼 5神 6民",
+    board: makeBoard("预女猎守白 16人", {
+      Werewolf: 5,
+      Seer: 1,
+      Witch: 1,
+      Hunter: 1,
+      Guard: 1,
+      Idiot: 1,
+      Villager: 6,
+    }),
+  },
+];
+
+export function isSupportedPlayerCount(playerCount: number): boolean {
+  return Number.isInteger(playerCount) && playerCount >= MIN_PLAYER_COUNT && playerCount <= MAX_PLAYER_COUNT;
+}
+
+export function getPresetsForPlayerCount(playerCount: number): BoardPreset[] {
+  return BOARD_PRESETS.filter((p) => p.board.playerCount === playerCount);
+}
+
+/** 指定人数的标准板子；人数不在支持范围内时返回 null */
+export function getDefaultBoard(playerCount: number): BoardConfig | null {
+  const presets = getPresetsForPlayerCount(playerCount);
+  const preset = presets.find((p) => p.isDefault) ?? presets[0];
+  return preset ? cloneBoard(preset.board) : null;
+}
+
+export function cloneBoard(board: BoardConfig): BoardConfig {
+  return { ...board, roles: { ...board.roles } };
+}
+
+export function countBoardRoles(board: BoardConfig): number {
+  return Object.values(board.roles).reduce((sum, n) => sum + (n ?? 0), 0);
+}
+
+/** 按角色数量展开成角色列表（未打乱） */
+export function expandBoardRoles(board: BoardConfig): Role[] {
+  const roles: Role[] = [];
+  for (const [role, count] of Object.entries(board.roles) as [Role, number | undefined][]) {
+    for (let i = 0; i < (count ?? 0); i++) roles.push(role);
+  }
+  return roles;
+}
+
+/** 转成按座位排列的角色表，供 StartGameOptions.fixedRoles 使用 */
+export function boardToFixedRoles(board: BoardConfig, rng: RandomSource = gameRng.stream("setup")): Role[] {
+  return rng.shuffle(expandBoardRoles(board));
+}
+
+/**
+ * 平衡性校验
+ * error 表示无法开局，warning 表示可以开局但大概率一边倒
+ */
+export function validateBoard(board: BoardConfig): BoardIssue[] {
+  const issues: BoardIssue[] = [];
+
+  if (!isSupportedPlayerCount(board.playerCount)) {
+    issues.push({ level: "error", code: "PLAYER_COUNT_OUT_OF_RANGE" });
+  }
+  if (countBoardRoles(board) !== board.playerCount) {
+    issues.push({ level: "error", code: "ROLE_COUNT_MISMATCH" });
+  }
+
+  for (const [role, count] of Object.entries(board.roles) as [Role, number | undefined][]) {
+    if (!count) continue;
+    if (!roleRegistry.has(role)) {
+      issues.push({ level: "error", code: "UNKNOWN_ROLE", role });
+    } else if (UNIQUE_ROLES.includes(role) && count > 1) {
+      issues.push({ level: "error", code: "DUPLICATE_UNIQUE_ROLE", role });
+    }
+  }
+
+  const roles = expandBoardRoles(board).filter((r) => roleRegistry.has(r));
+  const wolfCount = roles.filter((r) => roleRegistry.getAlignment(r) === "wolf").length;
+  const goodCount = roles.length - wolfCount;
+  const godCount = roles.filter((r) => roleRegistry.get(r).category === "god").length;
+
+  if (wolfCount === 0) {
+    issues.push({ level: "error", code: "NO_WOLVES" });
+  } else if (wolfCount >= goodCount) {
+    // 开局即满足狼人胜利条件
+    issues.push({ level: "error", code: "WOLVES_WIN_AT_START" });
+  } else if (wolfCount / roles.length > 0.4) {
+    issues.push({ level: "warning", code: "TOO_MANY_WOLVES" });
+  } else if (wolfCount / roles.length < 0.2) {
+    issues.push({ level: "warning", code: "TOO_FEW_WOLVES" });
+  }
+
+  if (godCount === 0) {
+    issues.push({ level: "warning", code: "NO_GOD_ROLES" });
+  }
+
+  return issues;
+}
+
+export function hasBoardErrors(board: BoardConfig): boolean {
+  return validateBoard(board).some((issue) => issue.level === "error");
+}
+
+export function serializeBoard(board: BoardConfig): string {
+  return JSON.stringify(board, null, 2);
+}
+
+/** 解析分享的板子 JSON，格式不合法时返回 null（平衡性由 validateBoard 另行检查） */
+export function parseBoard(raw: string): BoardConfig | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object") return null;
+
+  const obj = data as Record<string, unknown>;
+  if (typeof obj.version !== "number" || obj.version > BOARD_CONFIG_VERSION) return null;
+  if (!obj.roles || typeof obj.roles !== "object" || Array.isArray(obj.roles)) return null;
+
+  const roles: BoardRoleCounts = {};
+  for (const [role, count] of Object.entries(obj.roles as Record<string, unknown>)) {
+    if (typeof count !== "number" || !Number.isInteger(count) || count < 0) return null;
+    if (count > 0) roles[role as Role] = count;
+  }
+
+  const board: BoardConfig = {
+    version: BOARD_CONFIG_VERSION,
+    name: typeof obj.name === "string" ? obj.name : "",
+    playerCount: 0,
+    roles,
+  };
+  board.playerCount = typeof obj.playerCount === "number" ? obj.playerCount : countBoardRoles(board);
+  return board;
+}
+
+const SAVED_BOARDS_STORAGE_KEY = "wolfcha_saved_boards";
+
+export function loadSavedBoards(): BoardConfig[] {
+  if (typeof window === "undefined") return [];
+  const raw = window.localStorage.getItem(SAVED_BOARDS_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const list = JSON.parse(raw) as unknown[];
+    if (!Array.isArray(list)) return [];
+    return list
+      .map((item) => parseBoard(JSON.stringify(item)))
+      .filter((b): b is BoardConfig => b !== null);
+  } catch {
+    return [];
+  }
+}
+
+/** 按名称保存（同名覆盖），返回保存后的列表 */
+export function saveBoard(board: BoardConfig): BoardConfig[] {
+  const next = [...loadSavedBoards().filter((b) => b.name !== board.name), cloneBoard(board)];
+  if (typeof window !== "undefined") {
+    window.localStorage.setItem(SAVED_BOARDS_STORAGE_KEY, JSON.stringify(next));
+  }
+  return next;
+}
+
+export function deleteSavedBoard(name: string): BoardConfig[] {
+  const next = loadSavedBoards().filter((b) => b.name !== name);
+  if (typeof window !== "undefined") {
+    window.localStorage.setItem(SAVED_BOARDS_STORAGE_KEY, JSON.stringify(next));
+  }
+  return next;
+}
@@ -5,12 +5,15 @@ import {
   GENERATOR_MODEL,
   PLAYER_MODELS,
   filterPlayerModels,
+  type AgentProfile,
   type GameScenario,
   type ModelRef,
   type Persona,
 } from "@/types/game";
 import { getGeneratorModel, getSelectedModels, hasDashscopeKey, hasZenmuxKey, isCustomKeyEnabled } from "@/lib/api-keys";
+import { getRoutedModelRefs } from "@/lib/api-config";
 import { aiLogger } from "./ai-logger";
+import { gameRng } from "./game-rng";
 import { AI_TEMPERATURE, GAME_TEMPERATURE } from "./ai-config";
 import { getRandomScenario } from "./scenarios";
 import { resolveVoiceId, VOICE_PRESETS, type AppLocale } from "./voice-constants";
@@ -40,61 +43,65 @@ const MODEL_DISPLAY_NAME_MAP: Array<{ match: RegExp; label: string }> = [
 ];
 
 function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+  return gameRng.stream("models").shuffle(array);
 }
 
-export const sampleModelRefs = (count: number): ModelRef[] => {
+/**
+ * 当前可分配给 AI 玩家的模型（受自定义 Key 与已选模型限制）
+ */
+export const getPlayerModelPool = (): ModelRef[] => {
   // Default pool when custom key is not enabled
   const defaultPool =
     PLAYER_MODELS.length > 0
       ? PLAYER_MODELS
       : [{ provider: "zenmux" as const, model: GENERATOR_MODEL }];
 
-  const pool = (() => {
-    if (!isCustomKeyEnabled()) return defaultPool;
-
-    // When custom key is enabled, use ALL_MODELS as the full available pool
-    const fullPool = ALL_MODELS.length > 0 ? ALL_MODELS : defaultPool;
-
-    const allowedProviders = new Set<ModelRef["provider"]>();
-    if (hasZenmuxKey()) allowedProviders.add("zenmux");
-    if (hasDashscopeKey()) allowedProviders.add("dashscope");
-    if (allowedProviders.size === 0) return defaultPool;
-
-    // Filter by allowed providers, then exclude non-player models
-    const allowedPool = filterPlayerModels(
-      fullPool.filter((ref) => allowedProviders.has(ref.provider))
+  // 按服务商配置了独立接口时，只从这些接口的模型中分配，便于同桌混用多家服务商
+  const routedPool = filterPlayerModels(getRoutedModelRefs());
+  if (routedPool.length > 0) return routedPool;
+
+  if (!isCustomKeyEnabled()) return defaultPool;
+
+  // When custom key is enabled, use ALL_MODELS as the full available pool
+  const fullPool = ALL_MODELS.length > 0 ? ALL_MODELS : defaultPool;
+
+  const allowedProviders = new Set<ModelRef["provider"]>();
+  if (hasZenmuxKey()) allowedProviders.add("zenmux");
+  if (hasDashscopeKey()) allowedProviders.add("dashscope");
+  if (allowedProviders.size === 0) return defaultPool;
+
+  // Filter by allowed providers, then exclude non-player models
+  const allowedPool = filterPlayerModels(
+    fullPool.filter((ref) => allowedProviders.has(ref.provider))
+  );
+  if (allowedPool.length === 0) return defaultPool;
+
+  // Filter by user's selected models - STRICTLY respect user selection
+  const selectedModels = getSelectedModels();
+  if (selectedModels.length === 0) return allowedPool;
+  
+  // Only use models the user explicitly selected
+  const selectedPool = allowedPool.filter((ref) => selectedModels.includes(ref.model));
+  
+  // If user selected models but none are in allowedPool, try to find them in fullPool
+  // This handles cases where user selected models from a different provider
+  if (selectedPool.length === 0) {
+    const fullSelectedPool = filterPlayerModels(
+      fullPool.filter((ref) => selectedModels.includes(ref.model) && allowedProviders.has(ref.provider))
     );
-    if (allowedPool.length === 0) return defaultPool;
-
-    // Filter by user's selected models - STRICTLY respect user selection
-    const selectedModels = getSelectedModels();
-    if (selectedModels.length === 0) return allowedPool;
-    
-    // Only use models the user explicitly selected
-    const selectedPool = allowedPool.filter((ref) => selectedModels.includes(ref.model));
+    if (fullSelectedPool.length > 0) return fullSelectedPool;
     
-    // If user selected models but none are in allowedPool, try to find them in fullPool
-    // This handles cases where user selected models from a different provider
-    if (selectedPool.length === 0) {
-      const fullSelectedPool = filterPlayerModels(
-        fullPool.filter((ref) => selectedModels.includes(ref.model) && allowedProviders.has(ref.provider))
-      );
-      if (fullSelectedPool.length > 0) return fullSelectedPool;
-      
-      // Last resort: only return models that user actually selected, even if empty
-      // This prevents using models the user didn't choose
-      console.warn("[sampleModelRefs] User selected models not found in allowed pool:", selectedModels);
-    }
-    
-    // Return only user-selected models, never fall back to all models
-    return selectedPool.length > 0 ? selectedPool : allowedPool.slice(0, 1);
-  })();
+    // Last resort: only return models that user actually selected, even if empty
+    // This prevents using models the user didn't choose
+    console.warn("[sampleModelRefs] User selected models not found in allowed pool:", selectedModels);
+  }
+  
+  // Return only user-selected models, never fall back to all models
+  return selectedPool.length > 0 ? selectedPool : allowedPool.slice(0, 1);
+};
+
+export const sampleModelRefs = (count: number): ModelRef[] => {
+  const pool = getPlayerModelPool();
 
   if (!Number.isFinite(count) || count <= 0) return [];
 
@@ -104,7 +111,7 @@ export const sampleModelRefs = (count: number): ModelRef[] => {
 
   const out = shuffleArray(pool);
   while (out.length < count) {
-    out.push(pool[Math.floor(Math.random() * pool.length)]);
+    out.push(gameRng.stream("models").pick(pool));
   }
   return out;
 };
@@ -227,7 +234,7 @@ export const generateGenshinModeCharacters = async (
 
     let voiceId = modelVoiceMap.get(modelLabel);
     if (!voiceId) {
-      const preset = VOICE_PRESETS[Math.floor(Math.random() * VOICE_PRESETS.length)];
+      const preset = gameRng.stream("setup").pick(VOICE_PRESETS);
       voiceId = preset?.id;
       if (voiceId) {
         modelVoiceMap.set(modelLabel, voiceId);
@@ -241,6 +248,15 @@ export const generateGenshinModeCharacters = async (
   });
 };
 
+/**
+ * 代打 AI 的模型与人设：真人掉线或回合超时时代为决策
+ */
+export const createStandInProfile = async (): Promise<AgentProfile> => {
+  const [modelRef] = sampleModelRefs(1);
+  const [character] = await generateGenshinModeCharacters(1, [modelRef]);
+  return { modelRef, persona: character.persona };
+};
+
 const isValidMbti = (v: any): v is string => typeof v === "string" && /^[A-Z]{4}$/.test(v.trim());
 
 export interface BaseProfile {
@@ -477,6 +493,7 @@ export async function generateCharacters(
       messages: [{ role: "user", content: basePrompt }],
       temperature: GAME_TEMPERATURE.CHARACTER_GENERATION,
       max_tokens: 1200,
+      task: { type: "character_base_profiles", characterCount: count },
     });
 
     const normalizedBase = normalizeBaseProfiles(baseResult);
@@ -489,6 +506,7 @@ export async function generateCharacters(
         messages: [{ role: "user", content: baseRepairPrompt }],
         temperature: GAME_TEMPERATURE.CHARACTER_REPAIR,
         max_tokens: 1200,
+        task: { type: "character_base_profiles", characterCount: count },
       });
 
       const normalizedBaseRepaired = normalizeBaseProfiles(baseRepaired);
@@ -514,6 +532,7 @@ export async function generateCharacters(
       messages: [{ role: "user", content: fullPrompt }],
       temperature: GAME_TEMPERATURE.CHARACTER_GENERATION,
       max_tokens: 6000,
+      task: { type: "character_personas", profiles: baseProfiles },
     });
 
     for await (const chunk of stream) {
@@ -596,6 +615,7 @@ export async function generateCharacters(
           messages: [{ role: "user", content: repairPrompt }],
           temperature: GAME_TEMPERATURE.CHARACTER_REPAIR,
           max_tokens: 6000,
+          task: { type: "character_personas", profiles: baseProfiles },
         });
 
         const normalizedRepaired = normalizeGeneratedCharacters(repaired);
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { Phase } from "@/types/game";
+import { findRewindCheckpoint, getCheckpointId, isCheckpointPhase, type GameCheckpoint } from "@/lib/game-checkpoints";
+import { makeState } from "@/test/game-state";
+
+/** 第 1-3 天每个存档阶段各一份存档 */
+function playedCheckpoints(gameId: string): GameCheckpoint[] {
+  const phases: Phase[] = ["NIGHT_START", "DAY_START", "DAY_VOTE"];
+  return [1, 2, 3].flatMap((day) =>
+    phases.map((phase, i) => {
+      const state = { ...makeState({ day, phase }), gameId };
+      return { id: getCheckpointId(state), gameId, day, phase, savedAt: day * 10 + i, state };
+    })
+  );
+}
+
+describe("findRewindCheckpoint", () => {
+  const state = makeState();
+  const checkpoints = playedCheckpoints(state.gameId);
+  const rewind = (day: number, phase: Phase) => findRewindCheckpoint(checkpoints, { ...state, day, phase });
+
+  it.each<[number, Phase, number]>([
+    [3, "NIGHT_WITCH_ACTION", 3],
+    [3, "DAY_SPEECH", 3],
+    [3, "GAME_END", 3],
+    [3, "NIGHT_START", 2],
+    [2, "DAY_VOTE", 2],
+  ])("第 %i 天 %s 回到第 %i 夜", (day, phase, expectedDay) => {
+    const target = rewind(day, phase);
+    expect(target?.phase).toBe("NIGHT_START");
+    expect(target?.day).toBe(expectedDay);
+  });
+
+  it("第 1 夜刚开始时没有可回退的夜晚", () => {
+    expect(rewind(1, "NIGHT_START")).toBeNull();
+  });
+
+  it("忽略其他对局的存档", () => {
+    const other = { ...state, gameId: "other-game", day: 3, phase: "DAY_SPEECH" as Phase };
+    expect(findRewindCheckpoint(checkpoints, other)).toBeNull();
+  });
+});
+
+describe("isCheckpointPhase", () => {
+  it("只在天黑、天亮与投票时存档", () => {
+    expect(isCheckpointPhase("NIGHT_START")).toBe(true);
+    expect(isCheckpointPhase("DAY_START")).toBe(true);
+    expect(isCheckpointPhase("DAY_VOTE")).toBe(true);
+    expect(isCheckpointPhase("DAY_SPEECH")).toBe(false);
+    expect(isCheckpointPhase("GAME_END")).toBe(false);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * 单机对局存档
+ * 在阶段边界自动把 GameState 存入 IndexedDB：刷新或误关页面后可以继续上局，练习模式下还可以回到上一晚重来。
+ * 只存能从 Dev 跳转恢复流程的阶段，读档时按存档阶段跳转继续。
+ */
+
+import type { GameState, Phase } from "@/types/game";
+
+/** 自动存档的阶段（天黑、天亮、投票） */
+export const CHECKPOINT_PHASES: Phase[] = ["NIGHT_START", "DAY_START", "DAY_VOTE"];
+
+/** 最多保留最近几局的存档 */
+const MAX_SAVED_GAMES = 3;
+
+const DB_NAME = "wolfcha";
+const DB_VERSION = 1;
+const STORE_NAME = "checkpoints";
+
+export interface GameCheckpoint {
+  /** `${gameId}:${day}:${phase}`，同一局同一阶段只保留一份 */
+  id: string;
+  gameId: string;
+  day: number;
+  phase: Phase;
+  savedAt: number;
+  /** 对局已结束（练习模式保留存档用于回到上一晚，但不再作为"继续上局"） */
+  finished?: boolean;
+  state: GameState;
+}
+
+export function isCheckpointPhase(phase: Phase): boolean {
+  return CHECKPOINT_PHASES.includes(phase);
+}
+
+export function getCheckpointId(state: Pick<GameState, "gameId" | "day" | "phase">): string {
+  return `${state.gameId}:${state.day}:${state.phase}`;
+}
+
+/**
+ * 找到"上一晚"的存档：当前位置之前最近的天黑存档
+ * 夜里回到当晚开始，白天回到前一晚；刚入夜时回到再前一晚
+ */
+export function findRewindCheckpoint(checkpoints: GameCheckpoint[], state: GameState): GameCheckpoint | null {
+  const candidates = checkpoints.filter(
+    (cp) =>
+      cp.gameId === state.gameId &&
+      cp.phase === "NIGHT_START" &&
+      (cp.day < state.day || (cp.day === state.day && state.phase !== "NIGHT_START"))
+  );
+  if (candidates.length === 0) return null;
+  return candidates.reduce((latest, cp) => (cp.day > latest.day ? cp : latest));
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("gameId", "gameId", { unique: false });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("[wolfcha] IndexedDB unavailable:", request.error);
+        dbPromise = null;
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function getAllCheckpoints(): Promise<GameCheckpoint[]> {
+  const db = await openDb();
+  if (!db) return [];
+  const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+  return promisify(store.getAll() as IDBRequest<GameCheckpoint[]>);
+}
+
+async function deleteCheckpoints(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  const store = tx.objectStore(STORE_NAME);
+  for (const id of ids) store.delete(id);
+  await transactionDone(tx);
+}
+
+/** 只保留最近 MAX_SAVED_GAMES 局的存档 */
+async function pruneOldGames(): Promise<void> {
+  const all = await getAllCheckpoints();
+  const lastSavedAt = new Map<string, number>();
+  for (const cp of all) {
+    lastSavedAt.set(cp.gameId, Math.max(lastSavedAt.get(cp.gameId) ?? 0, cp.savedAt));
+  }
+  const staleGames = new Set(
+    [...lastSavedAt.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(MAX_SAVED_GAMES)
+      .map(([gameId]) => gameId)
+  );
+  await deleteCheckpoints(all.filter((cp) => staleGames.has(cp.gameId)).map((cp) => cp.id));
+}
+
+/** 保存当前阶段的存档；同一阶段重复保存会覆盖 */
+export async function saveCheckpoint(state: GameState): Promise<GameCheckpoint | null> {
+  const db = await openDb();
+  if (!db) return null;
+
+  // Dev 跳转标记与暂停状态不进存档，读档时重新设置
+  const rest: GameState = { ...state };
+  delete rest.devPhaseJump;
+  delete rest.devMutationId;
+  delete rest.isPaused;
+  const checkpoint: GameCheckpoint = {
+    id: getCheckpointId(state),
+    gameId: state.gameId,
+    day: state.day,
+    phase: state.phase,
+    savedAt: Date.now(),
+    state: rest,
+  };
+
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  tx.objectStore(STORE_NAME).put(checkpoint);
+  await transactionDone(tx);
+  await pruneOldGames();
+  return checkpoint;
+}
+
+/** 某一局的全部存档，按进度先后排列 */
+export async function listCheckpoints(gameId: string): Promise<GameCheckpoint[]> {
+  const db = await openDb();
+  if (!db) return [];
+  const index = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).index("gameId");
+  const checkpoints = await promisify(index.getAll(gameId) as IDBRequest<GameCheckpoint[]>);
+  return checkpoints.sort((a, b) => a.savedAt - b.savedAt);
+}
+
+/** 最近一局未结束对局的最新存档，用于"继续上局" */
+export async function getLatestCheckpoint(): Promise<GameCheckpoint | null> {
+  const all = await getAllCheckpoints();
+  if (all.length === 0) return null;
+  const latest = all.reduce((a, b) => (b.savedAt > a.savedAt ? b : a));
+  return latest.finished ? null : latest;
+}
+
+/** 删除某一局的全部存档 */
+export async function clearCheckpoints(gameId: string): Promise<void> {
+  const checkpoints = await listCheckpoints(gameId);
+  await deleteCheckpoints(checkpoints.map((cp) => cp.id));
+}
+
+/** 标记对局已结束：存档仍可用于回到上一晚，但不再提示继续 */
+export async function markCheckpointsFinished(gameId: string): Promise<void> {
+  const checkpoints = await listCheckpoints(gameId);
+  if (checkpoints.length === 0) return;
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  const store = tx.objectStore(STORE_NAME);
+  for (const cp of checkpoints) store.put({ ...cp, finished: true });
+  await transactionDone(tx);
+}
+
+/** 回到某个存档时，丢弃同一局在它之后的存档 */
+export async function discardCheckpointsAfter(checkpoint: GameCheckpoint): Promise<void> {
+  const checkpoints = await listCheckpoints(checkpoint.gameId);
+  await deleteCheckpoints(checkpoints.filter((cp) => cp.savedAt > checkpoint.savedAt).map((cp) => cp.id));
+}
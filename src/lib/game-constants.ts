@@ -13,6 +13,8 @@ export const GAME_CONFIG = {
   MAX_REVOTE_COUNT: 3,
   /** 警长竞选最大重投次数 */
   MAX_BADGE_REVOTE_COUNT: 2,
+  /** AI 并行决策（投票、狼人出刀）的最大并发数 */
+  AI_DECISION_CONCURRENCY: 6,
 } as const;
 
 /** 延迟时间配置（毫秒） */
@@ -72,23 +74,10 @@ export const PHASE_CATEGORIES = {
   SPECIAL_PHASES: ["BADGE_TRANSFER", "HUNTER_SHOOT", "GAME_END"] as const,
 } as const;
 
-import { getI18n } from "@/i18n/translator";
+import type { Role } from "@/types/game";
+import { roleRegistry } from "@/game/core/RoleRegistry";
 
 /** 获取角色名称（国际化） */
 export function getRoleName(role: string): string {
-  const { t } = getI18n();
-  switch (role) {
-    case "Werewolf":
-      return t("roles.werewolf");
-    case "Seer":
-      return t("roles.seer");
-    case "Witch":
-      return t("roles.witch");
-    case "Hunter":
-      return t("roles.hunter");
-    case "Guard":
-      return t("roles.guard");
-    default:
-      return t("roles.villager");
-  }
+  return roleRegistry.get(role as Role).getName();
 }
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { computeUniqueTopSeat } from "@/lib/game-flow-controller";
+
+describe("computeUniqueTopSeat", () => {
+  const cases: Array<{ name: string; votes: Record<string, number>; expected: number | null }> = [
+    { name: "无人投票", votes: {}, expected: null },
+    { name: "只有一票", votes: { a: 3 }, expected: 3 },
+    { name: "唯一最高票", votes: { a: 3, b: 3, c: 5 }, expected: 3 },
+    { name: "两人平票", votes: { a: 3, b: 5 }, expected: null },
+    { name: "三人平票", votes: { a: 1, b: 2, c: 3, d: 1, e: 2, f: 3 }, expected: null },
+    { name: "次高票平票不影响结果", votes: { a: 0, b: 0, c: 0, d: 1, e: 2 }, expected: 0 },
+    { name: "座位 0 也能当选", votes: { a: 0 }, expected: 0 },
+  ];
+
+  it.each(cases)("$name", ({ votes, expected }) => {
+    expect(computeUniqueTopSeat(votes)).toBe(expected);
+  });
+
+  it("每票权重相同，不区分投票者", () => {
+    expect(computeUniqueTopSeat({ sheriff: 2, a: 4 })).toBeNull();
+  });
+});
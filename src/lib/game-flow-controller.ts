@@ -3,6 +3,9 @@
  * 用于管理游戏流程中的异步操作，支持中断和恢复
  */
 
+import { GAME_CONFIG } from "./game-constants";
+import { gameRng } from "./game-rng";
+
 export interface FlowToken {
   value: number;
   isValid: () => boolean;
@@ -69,10 +72,55 @@ export const delay = (ms: number): Promise<void> =>
 
 /** 随机延迟工具函数 */
 export const randomDelay = (minMs: number, maxMs: number): Promise<void> => {
-  const ms = Math.floor(minMs + Math.random() * (maxMs - minMs));
+  const ms = Math.floor(minMs + gameRng.stream("timing").next() * (maxMs - minMs));
   return delay(ms);
 };
 
+export interface ConcurrentTaskOptions<T, R> {
+  /** 同时进行的任务数上限，各服务商的并发上限另由 llm 层控制 */
+  concurrency?: number;
+  /** 令牌失效后不再发起新任务，也不再回调结果 */
+  token?: FlowToken;
+  /** 单个任务失败时的兜底结果，不影响其他任务 */
+  fallback: (item: T, error: unknown) => R;
+  /** 每个任务完成后立即回调，便于逐个展示结果 */
+  onResult?: (item: T, result: R, index: number) => void;
+}
+
+/**
+ * 受限并发地执行一组互相独立的 AI 决策（如每个座位的投票）
+ * 结果按输入顺序返回；流程被中断时返回 null
+ */
+export async function runConcurrent<T, R>(
+  items: T[],
+  task: (item: T, index: number) => Promise<R>,
+  options: ConcurrentTaskOptions<T, R>
+): Promise<R[] | null> {
+  const isValid = () => !options.token || options.token.isValid();
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length && isValid()) {
+      const index = nextIndex++;
+      const item = items[index];
+      let result: R;
+      try {
+        result = await task(item, index);
+      } catch (error) {
+        result = options.fallback(item, error);
+      }
+      if (!isValid()) return;
+      results[index] = result;
+      options.onResult?.(item, result, index);
+    }
+  };
+
+  const concurrency = Math.min(items.length, Math.max(1, options.concurrency ?? GAME_CONFIG.AI_DECISION_CONCURRENCY));
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  return isValid() ? results : null;
+}
+
 /** 计算唯一最高票（用于投票结算） */
 export function computeUniqueTopSeat(votes: Record<string, number>): number | null {
   const counts: Record<number, number> = {};
@@ -102,5 +150,5 @@ export function pickRandomFromTie(votes: Record<string, number>): number {
   let max = -1;
   for (const [, c] of entries) max = Math.max(max, c);
   const topSeats = entries.filter(([, c]) => c === max).map(([s]) => Number(s));
-  return topSeats[Math.floor(Math.random() * topSeats.length)];
+  return gameRng.stream("tiebreak").pick(topSeats);
 }
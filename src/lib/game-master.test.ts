@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import type { Alignment, GameRules, Role } from "@/types/game";
+import { checkWinCondition, getSpeakingOrder, resolveSpeechStartSeat, tallyVotes } from "@/lib/game-master";
+import { makeState } from "@/test/game-state";
+
+describe("tallyVotes", () => {
+  const cases: Array<{
+    name: string;
+    votes: Record<number, number>;
+    sheriff?: number;
+    rules?: Partial<GameRules>;
+    deadSeats?: number[];
+    expected: { seat: number; count: number } | null;
+  }> = [
+    { name: "无人投票", votes: {}, expected: null },
+    { name: "唯一最高票", votes: { 0: 2, 1: 2, 3: 6 }, expected: { seat: 2, count: 2 } },
+    { name: "两人平票", votes: { 0: 2, 1: 2, 3: 6, 4: 6 }, expected: null },
+    { name: "三人平票", votes: { 0: 2, 1: 6, 3: 7 }, expected: null },
+    { name: "平票之外的最高票仍唯一", votes: { 0: 2, 1: 2, 3: 2, 4: 6, 5: 6, 8: 7 }, expected: { seat: 2, count: 3 } },
+    { name: "警长 1.5 票不敌 2 票", votes: { 0: 2, 1: 2, 4: 6 }, sheriff: 4, expected: { seat: 2, count: 2 } },
+    { name: "警长 1.5 票领先", votes: { 0: 2, 4: 6, 5: 6 }, sheriff: 4, expected: { seat: 6, count: 2.5 } },
+    {
+      name: "警长 1.5 票：1 + 1.5 胜过 2",
+      votes: { 0: 2, 1: 2, 4: 6, 5: 6 },
+      sheriff: 5,
+      expected: { seat: 6, count: 2.5 },
+    },
+    {
+      name: "房规警长 1 票时不破平",
+      votes: { 0: 2, 1: 2, 4: 6, 5: 6 },
+      sheriff: 5,
+      rules: { sheriffVoteWeight: 1 },
+      expected: null,
+    },
+    {
+      name: "房规警长 2 票：2 票与 2 票平票",
+      votes: { 0: 2, 1: 2, 5: 6 },
+      sheriff: 5,
+      rules: { sheriffVoteWeight: 2 },
+      expected: null,
+    },
+    {
+      name: "房规警长 2 票领先",
+      votes: { 0: 2, 1: 2, 4: 6, 5: 6 },
+      sheriff: 5,
+      rules: { sheriffVoteWeight: 2 },
+      expected: { seat: 6, count: 3 },
+    },
+    {
+      name: "出局玩家的票不计",
+      votes: { 0: 2, 3: 2, 4: 6, 5: 6 },
+      deadSeats: [3],
+      expected: { seat: 6, count: 2 },
+    },
+    {
+      name: "投给出局玩家的票不计",
+      votes: { 0: 3, 1: 3, 4: 6 },
+      deadSeats: [3],
+      expected: { seat: 6, count: 1 },
+    },
+    {
+      name: "出局的警长不再有加权",
+      votes: { 0: 2, 1: 2, 4: 6, 5: 6 },
+      sheriff: 3,
+      deadSeats: [3],
+      expected: null,
+    },
+  ];
+
+  it.each(cases)("$name", ({ votes, sheriff, rules, deadSeats, expected }) => {
+    const state = makeState({ votes, badgeHolderSeat: sheriff ?? null, rules, deadSeats });
+    expect(tallyVotes(state)).toEqual(expected);
+  });
+
+  it("已翻牌的白痴失去投票权", () => {
+    const roles: Role[] = ["Idiot", "Villager", "Werewolf", "Villager", "Werewolf"];
+    const votes = { 0: 2, 1: 2, 3: 4 };
+    expect(tallyVotes(makeState({ roles, votes }))).toEqual({ seat: 2, count: 2 });
+    expect(tallyVotes(makeState({ roles, votes, roleAbilities: { idiotRevealed: true } }))).toBeNull();
+  });
+});
+
+describe("checkWinCondition", () => {
+  const cases: Array<{
+    name: string;
+    deadSeats: number[];
+    rules?: Partial<GameRules>;
+    expected: Alignment | null;
+  }> = [
+    { name: "开局无人胜利", deadSeats: [], expected: null },
+    { name: "狼人全部出局，好人胜利", deadSeats: [2, 6, 7], expected: "village" },
+    { name: "屠城：狼人数量追平好人", deadSeats: [0, 1, 3, 4], expected: "wolf" },
+    { name: "屠城：狼人少于好人继续", deadSeats: [0, 1, 3], expected: null },
+    { name: "屠城：平民全部出局但好人仍多于狼人", deadSeats: [3, 8, 9], expected: null },
+    { name: "屠边：神职全部出局", deadSeats: [0, 1, 4, 5], rules: { winCondition: "side_kill" }, expected: "wolf" },
+    { name: "屠边：平民全部出局", deadSeats: [3, 8, 9], rules: { winCondition: "side_kill" }, expected: "wolf" },
+    { name: "屠边：两边都有人存活", deadSeats: [0, 1, 3, 8], rules: { winCondition: "side_kill" }, expected: null },
+    {
+      name: "屠边：狼人全灭优先判好人胜利",
+      deadSeats: [2, 6, 7, 3, 8, 9],
+      rules: { winCondition: "side_kill" },
+      expected: "village",
+    },
+  ];
+
+  it.each(cases)("$name", ({ deadSeats, rules, expected }) => {
+    expect(checkWinCondition(makeState({ deadSeats, rules }))).toBe(expected);
+  });
+
+  it("屠边：开局就没有神职的一边不计入", () => {
+    const roles: Role[] = ["Villager", "Villager", "Werewolf", "Villager"];
+    expect(checkWinCondition(makeState({ roles, rules: { winCondition: "side_kill" } }))).toBeNull();
+    expect(checkWinCondition(makeState({ roles, deadSeats: [0, 1, 3], rules: { winCondition: "side_kill" } }))).toBe(
+      "wolf"
+    );
+  });
+});
+
+describe("getSpeakingOrder", () => {
+  it("从起始座位顺时针绕一圈", () => {
+    expect(getSpeakingOrder(makeState(), 7)).toEqual([7, 8, 9, 0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  it("跳过出局玩家", () => {
+    expect(getSpeakingOrder(makeState({ deadSeats: [0, 8] }), 7)).toEqual([7, 9, 1, 2, 3, 4, 5, 6]);
+  });
+
+  it("警长最后发言", () => {
+    expect(getSpeakingOrder(makeState({ badgeHolderSeat: 3 }), 4)).toEqual([4, 5, 6, 7, 8, 9, 0, 1, 2, 3]);
+    expect(getSpeakingOrder(makeState({ badgeHolderSeat: 3 }), 1)).toEqual([1, 2, 4, 5, 6, 7, 8, 9, 0, 3]);
+  });
+
+  it("可以关闭警长归票", () => {
+    expect(getSpeakingOrder(makeState({ badgeHolderSeat: 3 }), 1, false)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 0]);
+  });
+
+  it("出局的警长不再发言", () => {
+    expect(getSpeakingOrder(makeState({ badgeHolderSeat: 3, deadSeats: [3] }), 1)).toEqual([1, 2, 4, 5, 6, 7, 8, 9, 0]);
+  });
+
+  it("无警长模式忽略警徽", () => {
+    const state = makeState({ badgeHolderSeat: 3, rules: { sheriffMode: "none" } });
+    expect(getSpeakingOrder(state, 1)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 0]);
+  });
+
+  it("起始座位已出局时按座位号排列", () => {
+    expect(getSpeakingOrder(makeState({ deadSeats: [5] }), 5)).toEqual([0, 1, 2, 3, 4, 6, 7, 8, 9]);
+  });
+});
+
+describe("resolveSpeechStartSeat", () => {
+  it("有警长时从警长下一位开始", () => {
+    expect(resolveSpeechStartSeat(makeState({ badgeHolderSeat: 4 }), { deadSeat: 7 })).toBe(5);
+  });
+
+  it("警长下一位出局时继续顺延", () => {
+    expect(resolveSpeechStartSeat(makeState({ badgeHolderSeat: 4, deadSeats: [5, 6] }))).toBe(7);
+  });
+
+  it("警长是最后一位时回到最小座位", () => {
+    expect(resolveSpeechStartSeat(makeState({ badgeHolderSeat: 9 }))).toBe(0);
+  });
+
+  it("无警长时从死者下一位开始", () => {
+    expect(resolveSpeechStartSeat(makeState({ deadSeats: [7] }), { deadSeat: 7 })).toBe(8);
+    expect(resolveSpeechStartSeat(makeState({ deadSeats: [9] }), { deadSeat: 9 })).toBe(0);
+  });
+
+  it("警长出局后按死者计算", () => {
+    expect(resolveSpeechStartSeat(makeState({ badgeHolderSeat: 4, deadSeats: [4] }), { deadSeat: 4 })).toBe(5);
+  });
+
+  it("平安夜且无警长时从最小存活座位开始", () => {
+    expect(resolveSpeechStartSeat(makeState({ deadSeats: [0, 1] }))).toBe(2);
+  });
+
+  it("无警长模式忽略警徽", () => {
+    const state = makeState({ badgeHolderSeat: 4, rules: { sheriffMode: "none" } });
+    expect(resolveSpeechStartSeat(state, { deadSeat: 7 })).toBe(8);
+  });
+
+  it("全员出局时返回 null", () => {
+    expect(resolveSpeechStartSeat(makeState({ deadSeats: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9] }))).toBeNull();
+  });
+});
@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from "uuid";
-import { generateCompletion, generateCompletionBatch, generateCompletionStream, mergeOptionsFromModelRef, stripMarkdownCodeFences, type LLMMessage } from "./llm";
+import { generateCompletion, generateCompletionStream, mergeOptionsFromModelRef, stripMarkdownCodeFences, type LLMMessage, type LLMTaskHint, type LLMTaskType } from "./llm";
 import type { ChatCompletionResponse } from "./llm";
 import { StreamingSpeechParser } from "./streaming-speech-parser";
 import {
@@ -8,6 +8,8 @@ import {
   type Role,
   type Phase,
   type ChatMessage,
+  type GameEvent,
+  type WolfChatPayload,
   type Alignment,
   type DailySummaryFact,
   type DailySummaryVoteData,
@@ -22,16 +24,16 @@ import { aiLogger } from "./ai-logger";
 import { getGeneratorModel, getSummaryModel } from "@/lib/api-keys";
 import { PhaseManager } from "@/game/core/PhaseManager";
 import type { PromptResult } from "@/game/core/types";
-import { buildCachedSystemMessageFromParts } from "./prompt-utils";
+import { buildCachedSystemMessageFromParts, getRoleText } from "./prompt-utils";
+import { roleRegistry } from "@/game/core/RoleRegistry";
+import { expandBoardRoles, getDefaultBoard, MAX_PLAYER_COUNT, MIN_PLAYER_COUNT } from "./board-config";
 import { getI18n } from "@/i18n/translator";
+import { gameRng } from "./game-rng";
+import { canWitchSave, getGameRules, getSheriffSeat } from "./game-rules";
+import { computeUniqueTopSeat, pickRandomFromTie, runConcurrent, type FlowToken } from "./game-flow-controller";
 
 function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+  return gameRng.stream("setup").shuffle(array);
 }
 
 function getRandomModelRef(): ModelRef {
@@ -41,8 +43,7 @@ function getRandomModelRef(): ModelRef {
     // Fallback to GENERATOR_MODEL if no models available
     return { provider: "zenmux" as const, model: getGeneratorModel() };
   }
-  const randomIndex = Math.floor(Math.random() * PLAYER_MODELS.length);
-  return PLAYER_MODELS[randomIndex];
+  return gameRng.stream("models").pick(PLAYER_MODELS);
 }
 
 const phaseManager = new PhaseManager();
@@ -131,6 +132,23 @@ function buildMessagesForPrompt(
   };
 }
 
+/** 供本地模拟模型使用的结构化上下文，真实模型只看 messages */
+function buildTaskHint(type: LLMTaskType, state: GameState, player: Player, targets: Player[]): LLMTaskHint {
+  const knownWolfSeats =
+    player.alignment === "wolf"
+      ? state.players.filter((p) => p.alignment === "wolf" && p.playerId !== player.playerId).map((p) => p.seat + 1)
+      : player.role === "Seer"
+        ? (state.nightActions.seerHistory ?? []).filter((h) => h.isWolf).map((h) => h.targetSeat + 1)
+        : [];
+  return {
+    type,
+    actorSeat: player.seat + 1,
+    actorAlignment: player.alignment,
+    targetSeats: targets.map((p) => p.seat + 1),
+    knownWolfSeats,
+  };
+}
+
 export function createInitialGameState(): GameState {
   return {
     gameId: uuidv4(),
@@ -172,52 +190,11 @@ export function createInitialGameState(): GameState {
 }
 
 export function getRoleConfiguration(playerCount: number): Role[] {
-  const configs: Record<number, Role[]> = {
-    8: ["Werewolf", "Werewolf", "Werewolf", "Seer", "Witch", "Hunter", "Villager", "Villager"],
-    9: ["Werewolf", "Werewolf", "Werewolf", "Seer", "Witch", "Hunter", "Villager", "Villager", "Villager"],
-    10: [
-      "Werewolf",
-      "Werewolf",
-      "Werewolf",
-      "Seer",
-      "Witch",
-      "Hunter",
-      "Guard",
-      "Villager",
-      "Villager",
-      "Villager",
-    ],
-    11: [
-      "Werewolf",
-      "Werewolf",
-      "Werewolf",
-      "Werewolf",
-      "Seer",
-      "Witch",
-      "Hunter",
-      "Guard",
-      "Villager",
-      "Villager",
-      "Villager",
-    ],
-    12: [
-      "Werewolf",
-      "Werewolf",
-      "Werewolf",
-      "Werewolf",
-      "Seer",
-      "Witch",
-      "Hunter",
-      "Guard",
-      "Villager",
-      "Villager",
-      "Villager",
-      "Villager",
-    ],
-  };
-
-  const roles = configs[playerCount] ?? configs[10];
-  return roles.slice();
+  const board = getDefaultBoard(playerCount);
+  if (!board) {
+    throw new Error(`Unsupported player count: ${playerCount} (expected ${MIN_PLAYER_COUNT}-${MAX_PLAYER_COUNT})`);
+  }
+  return expandBoardRoles(board);
 }
 
 export function setupPlayers(
@@ -233,8 +210,8 @@ export function setupPlayers(
   const { t } = getI18n();
   const totalPlayers = playerCount;
   const fallbackHumanName = t("common.you");
-  const roles = getRoleConfiguration(totalPlayers);
-  const assignedRoles = fixedRoles && fixedRoles.length === totalPlayers ? fixedRoles : shuffleArray(roles);
+  const assignedRoles =
+    fixedRoles && fixedRoles.length === totalPlayers ? fixedRoles : shuffleArray(getRoleConfiguration(totalPlayers));
 
   const players: Player[] = [];
 
@@ -264,7 +241,7 @@ export function setupPlayers(
 
   for (let seat = 0; seat < totalPlayers; seat++) {
     const role = assignedRoles[seat];
-    const alignment: Alignment = role === "Werewolf" ? "wolf" : "village";
+    const alignment: Alignment = roleRegistry.getAlignment(role);
     const playerId = getPlayerIdForSeat(seat);
 
     if (seat === humanSeat) {
@@ -383,6 +360,42 @@ export function addPlayerMessage(
   };
 }
 
+/** 单条狼队夜聊的最大字数 */
+export const WOLF_CHAT_MAX_LENGTH = 120;
+
+/**
+ * 狼队夜聊发言，以私密事件记录，只有狼人阵营可见
+ */
+export function addWolfChatMessage(
+  state: GameState,
+  playerId: string,
+  content: string
+): GameState {
+  const player = state.players.find((p) => p.playerId === playerId);
+  const trimmedContent = content.trim().slice(0, WOLF_CHAT_MAX_LENGTH);
+  if (!player || player.alignment !== "wolf" || trimmedContent.length === 0) return state;
+
+  const payload: WolfChatPayload = {
+    day: state.day,
+    seat: player.seat,
+    playerId,
+    content: trimmedContent,
+  };
+  const event: GameEvent = {
+    id: uuidv4(),
+    ts: Date.now(),
+    type: "WOLF_CHAT",
+    visibility: "private",
+    visibleTo: state.players.filter((p) => p.alignment === "wolf").map((p) => p.playerId),
+    payload,
+  };
+
+  return {
+    ...state,
+    events: [...state.events, event],
+  };
+}
+
 export function transitionPhase(state: GameState, newPhase: Phase): GameState {
   // Clear currentSpeakerSeat when transitioning to night phases
   const isNightPhase = newPhase.startsWith("NIGHT_");
@@ -404,6 +417,14 @@ export function checkWinCondition(state: GameState): Alignment | null {
     return "village";
   }
 
+  // 屠边：神职或平民任意一边全部出局；开局就没有的一边（如无神职的板子）不计入
+  if (getGameRules(state).winCondition === "side_kill") {
+    const isGod = (p: Player) => roleRegistry.get(p.role).category === "god";
+    const villagers = state.players.filter((p) => p.alignment === "village");
+    const sideWiped = (side: Player[]) => side.length > 0 && side.every((p) => !p.alive);
+    return sideWiped(villagers.filter(isGod)) || sideWiped(villagers.filter((p) => !isGod(p))) ? "wolf" : null;
+  }
+
   if (aliveWolves.length >= aliveVillagers.length) {
     return "wolf";
   }
@@ -460,7 +481,7 @@ export function getSpeakingOrder(
   startSeat: number,
   sheriffLast = true
 ): number[] {
-  const sheriffSeat = state.badge.holderSeat;
+  const sheriffSeat = getSheriffSeat(state);
   const alivePlayers = state.players.filter((p) => p.alive);
   const aliveSeats = alivePlayers.map((p) => p.seat).sort((a, b) => a - b);
   
@@ -503,7 +524,8 @@ export function resolveSpeechStartSeat(
   
   if (aliveSeats.length === 0) return null;
   
-  const sheriffSeat = state.badge.holderSeat;
+  // 无警长模式下始终按无警长处理
+  const sheriffSeat = getSheriffSeat(state);
   const isSheriffAlive = options?.hasSheriff ?? 
     (sheriffSeat !== null && aliveSeats.includes(sheriffSeat));
   
@@ -524,7 +546,10 @@ export function resolveSpeechStartSeat(
 export function tallyVotes(state: GameState): { seat: number; count: number } | null {
   const voteCounts: Record<number, number> = {};
   const sheriffSeat = state.badge.holderSeat;
-  const aliveById = new Set(state.players.filter((p) => p.alive).map((p) => p.playerId));
+  // 失去投票权的存活玩家（如已翻牌的白痴）不计票
+  const aliveById = new Set(
+    state.players.filter((p) => p.alive && roleRegistry.canVote(state, p)).map((p) => p.playerId)
+  );
   const aliveBySeat = new Set(state.players.filter((p) => p.alive).map((p) => p.seat));
   
   // 找到警长的 playerId
@@ -532,12 +557,13 @@ export function tallyVotes(state: GameState): { seat: number; count: number } |
     ? state.players.find((p) => p.seat === sheriffSeat && p.alive)
     : null;
   const sheriffPlayerId = sheriffPlayer?.playerId;
+  const { sheriffVoteWeight } = getGameRules(state);
   
   for (const [voterId, targetSeat] of Object.entries(state.votes)) {
     if (!aliveById.has(voterId)) continue;
     if (!aliveBySeat.has(targetSeat)) continue;
-    // 警长的票计算为1.5票
-    const voteWeight = voterId === sheriffPlayerId ? 1.5 : 1;
+    // 警长票数按房规计算（默认1.5票）
+    const voteWeight = voterId === sheriffPlayerId ? sheriffVoteWeight : 1;
     voteCounts[targetSeat] = (voteCounts[targetSeat] || 0) + voteWeight;
   }
 
@@ -648,6 +674,7 @@ export async function generateDailySummary(
     model: summaryModel,
     messages,
     temperature: GAME_TEMPERATURE.SUMMARY,
+    task: { type: "daily_summary", day: state.day },
     response_format: { type: "json_object" },
   });
 
@@ -714,6 +741,7 @@ export async function* generateAISpeechStream(
       model: player.agentProfile!.modelRef.model,
       messages,
       temperature: GAME_TEMPERATURE.SPEECH,
+      task: buildTaskHint("speech", state, player, state.players.filter((p) => p.alive && p.playerId !== player.playerId)),
     }))) {
       fullResponse += chunk;
       yield chunk;
@@ -851,6 +879,7 @@ export async function generateAISpeechSegments(
       model: player.agentProfile!.modelRef.model,
       messages,
       temperature: GAME_TEMPERATURE.SPEECH,
+      task: buildTaskHint("speech", state, player, state.players.filter((p) => p.alive && p.playerId !== player.playerId)),
     }));
 
     const cleanedSpeech = sanitizeModelArtifacts(stripMarkdownCodeFences(result.content));
@@ -992,6 +1021,7 @@ export async function generateAISpeechSegmentsStream(
       model: player.agentProfile!.modelRef.model,
       messages,
       temperature: GAME_TEMPERATURE.SPEECH,
+      task: buildTaskHint("speech", state, player, state.players.filter((p) => p.alive && p.playerId !== player.playerId)),
     }));
 
     let accumulatedContent = "";
@@ -1156,6 +1186,21 @@ export async function generateAISpeechSegmentsStream(
   }
 }
 
+/** AI 投票失败或无法解析时的兜底：随机投给一名可投目标 */
+export function buildFallbackVote(state: GameState, player: Player): { seat: number; reason: string } {
+  const { t } = getI18n();
+  const eligibleSeats = state.pkSource === "vote" && state.pkTargets && state.pkTargets.length > 0
+    ? new Set(state.pkTargets)
+    : null;
+  const alivePlayers = state.players.filter(
+    (p) => p.alive && p.playerId !== player.playerId && (!eligibleSeats || eligibleSeats.has(p.seat))
+  );
+  if (alivePlayers.length === 0) {
+    return { seat: player.seat, reason: t("gameMaster.voteFallback.noTargets") };
+  }
+  return { seat: gameRng.stream("fallback").pick(alivePlayers).seat, reason: t("gameMaster.voteFallback.randomPick") };
+}
+
 export async function generateAIVote(
   state: GameState,
   player: Player
@@ -1177,6 +1222,7 @@ export async function generateAIVote(
       model: player.agentProfile!.modelRef.model,
       messages,
       temperature: GAME_TEMPERATURE.ACTION,
+      task: buildTaskHint("vote", state, player, alivePlayers),
       response_format: { type: "json_object" },
     }));
 
@@ -1210,12 +1256,7 @@ export async function generateAIVote(
     }
 
     if (!parsedResult) {
-      if (alivePlayers.length === 0) {
-        parsedResult = { seat: player.seat, reason: t("gameMaster.voteFallback.noTargets") };
-      } else {
-        const fallback = alivePlayers[Math.floor(Math.random() * alivePlayers.length)].seat;
-        parsedResult = { seat: fallback, reason: t("gameMaster.voteFallback.randomPick") };
-      }
+      parsedResult = buildFallbackVote(state, player);
     }
 
     // Log with both raw and parsed data
@@ -1238,9 +1279,7 @@ export async function generateAIVote(
 
     return parsedResult;
   } catch (error) {
-    const fallbackResult = alivePlayers.length === 0
-      ? { seat: player.seat, reason: t("gameMaster.voteFallback.noTargets") }
-      : { seat: alivePlayers[Math.floor(Math.random() * alivePlayers.length)].seat, reason: t("gameMaster.voteFallback.randomPick") };
+    const fallbackResult = buildFallbackVote(state, player);
     
     await aiLogger.log({
       type: "vote",
@@ -1264,6 +1303,9 @@ export async function generateAIVote(
 /** Sentinel for abstain when AI fails to vote or parse. Counting logic skips -1 via aliveBySeat.has(seat). */
 export const BADGE_VOTE_ABSTAIN = -1;
 
+/** 放逐投票弃票（超时等），计票同样跳过 */
+export const VOTE_ABSTAIN = -1;
+
 export const BADGE_TRANSFER_TORN = -1;
 
 /**
@@ -1282,16 +1324,7 @@ export async function generateAIBadgeSignupBatch(
   // 构建所有玩家的信息摘要
   const playersInfo = players.map((player) => {
     const persona = player.agentProfile?.persona;
-    const roleText = (() => {
-      switch (player.role) {
-        case "Werewolf": return t("promptUtils.roleText.werewolf");
-        case "Seer": return t("promptUtils.roleText.seer");
-        case "Witch": return t("promptUtils.roleText.witch");
-        case "Hunter": return t("promptUtils.roleText.hunter");
-        case "Guard": return t("promptUtils.roleText.guard");
-        default: return t("promptUtils.roleText.villager");
-      }
-    })();
+    const roleText = getRoleText(player.role);
 
     // 获取玩家第一晚的行动信息
     let nightActionInfo = "";
@@ -1378,6 +1411,7 @@ export async function generateAIBadgeSignupBatch(
       model: getSummaryModel(),
       messages,
       temperature: GAME_TEMPERATURE.BADGE_SIGNUP,
+      task: { type: "badge_signup", targetSeats: playersInfo.map((info) => info.seat) },
       response_format: { type: "json_object" },
     });
 
@@ -1466,6 +1500,9 @@ export async function generateAIBadgeVote(
 ): Promise<number> {
   const prompt = resolvePhasePrompt("DAY_BADGE_ELECTION", state, player);
   const alivePlayers = state.players.filter((p) => p.alive && p.playerId !== player.playerId);
+  const badgeVoteTargets = state.badge.candidates.length > 0
+    ? alivePlayers.filter((p) => state.badge.candidates.includes(p.seat))
+    : alivePlayers;
   const startTime = Date.now();
   const { messages } = buildMessagesForPrompt(prompt);
 
@@ -1474,6 +1511,7 @@ export async function generateAIBadgeVote(
       model: player.agentProfile!.modelRef.model,
       messages,
       temperature: GAME_TEMPERATURE.ACTION,
+      task: buildTaskHint("badge_vote", state, player, badgeVoteTargets),
     }));
 
     const cleanedBadgeVote = stripMarkdownCodeFences(result.content);
@@ -1542,6 +1580,7 @@ export async function generateBadgeTransfer(
     model: player.agentProfile!.modelRef.model,
     messages,
     temperature: GAME_TEMPERATURE.ACTION,
+    task: buildTaskHint("badge_transfer", state, player, alivePlayers),
   }));
 
   const cleanedTransfer = stripMarkdownCodeFences(result.content);
@@ -1567,11 +1606,11 @@ export async function generateBadgeTransfer(
     if (player.alignment === "village" && player.role === "Seer" && confirmedWolfSeats.size > 0) {
       const safeSeats = validSeats.filter((s) => !confirmedWolfSeats.has(s));
       if (safeSeats.length > 0) {
-        return safeSeats[Math.floor(Math.random() * safeSeats.length)];
+        return gameRng.stream("fallback").pick(safeSeats);
       }
       return BADGE_TRANSFER_TORN;
     }
-    return validSeats[Math.floor(Math.random() * validSeats.length)];
+    return gameRng.stream("fallback").pick(validSeats);
   };
 
   const match = cleanedTransfer.match(/-?\d+/);
@@ -1607,6 +1646,7 @@ export async function generateSeerAction(
     model: player.agentProfile!.modelRef.model,
     messages,
     temperature: GAME_TEMPERATURE.ACTION,
+    task: buildTaskHint("seer_action", state, player, alivePlayers),
   }));
 
   const rawContent = result.content;
@@ -1620,10 +1660,10 @@ export async function generateSeerAction(
     if (validSeats.includes(seat)) {
       parsedSeat = seat;
     } else {
-      parsedSeat = alivePlayers[Math.floor(Math.random() * alivePlayers.length)].seat;
+      parsedSeat = gameRng.stream("fallback").pick(alivePlayers).seat;
     }
   } else {
-    parsedSeat = alivePlayers[Math.floor(Math.random() * alivePlayers.length)].seat;
+    parsedSeat = gameRng.stream("fallback").pick(alivePlayers).seat;
   }
 
   await aiLogger.log({
@@ -1660,6 +1700,7 @@ export async function generateWolfAction(
     model: player.agentProfile!.modelRef.model,
     messages,
     temperature: GAME_TEMPERATURE.ACTION,
+    task: buildTaskHint("wolf_action", state, player, alivePlayers),
   }));
 
   const rawContent = result.content;
@@ -1673,10 +1714,10 @@ export async function generateWolfAction(
     if (validSeats.includes(seat)) {
       parsedSeat = seat;
     } else {
-      parsedSeat = alivePlayers[Math.floor(Math.random() * alivePlayers.length)].seat;
+      parsedSeat = gameRng.stream("fallback").pick(alivePlayers).seat;
     }
   } else {
-    parsedSeat = alivePlayers[Math.floor(Math.random() * alivePlayers.length)].seat;
+    parsedSeat = gameRng.stream("fallback").pick(alivePlayers).seat;
   }
 
   await aiLogger.log({
@@ -1699,6 +1740,71 @@ export async function generateWolfAction(
   return parsedSeat;
 }
 
+/**
+ * 狼队夜聊：一名狼人在狼队频道的一次发言，没有可说的返回空字符串
+ */
+export async function generateWolfChatMessage(
+  state: GameState,
+  player: Player
+): Promise<string> {
+  const prompt = resolvePhasePrompt("NIGHT_WOLF_ACTION", state, player, { wolfChat: true });
+  const alivePlayers = state.players.filter((p) => p.alive);
+  const startTime = Date.now();
+  const { messages } = buildMessagesForPrompt(prompt);
+
+  const result = await generateCompletion(mergeOptionsFromModelRef(player.agentProfile!.modelRef, {
+    model: player.agentProfile!.modelRef.model,
+    messages,
+    temperature: GAME_TEMPERATURE.SPEECH,
+    task: buildTaskHint("wolf_chat", state, player, alivePlayers),
+  }));
+
+  const rawContent = result.content;
+  const content = sanitizeSeatMentions(sanitizeModelArtifacts(stripMarkdownCodeFences(rawContent)), state.players);
+
+  await aiLogger.log({
+    type: "wolf_chat",
+    request: {
+      model: player.agentProfile!.modelRef.model,
+      messages,
+      player: { playerId: player.playerId, displayName: player.displayName, seat: player.seat, role: player.role },
+    },
+    response: {
+      content,
+      raw: rawContent,
+      rawResponse: JSON.stringify(result.raw, null, 2),
+      finishReason: result.raw.choices?.[0]?.finish_reason,
+      duration: Date.now() - startTime,
+    },
+  });
+
+  return content;
+}
+
+/**
+ * 所有狼人并行独立出刀，得票最多者为最终目标，平票时随机
+ * 单个狼人请求失败时随机选择一名好人，不影响其他狼人；流程被中断时返回 null
+ */
+export async function generateWolfPackAction(
+  state: GameState,
+  wolves: Player[],
+  token?: FlowToken
+): Promise<{ wolfVotes: Record<string, number>; wolfTarget: number } | null> {
+  const villagers = state.players.filter((p) => p.alive && p.alignment === "village");
+  const targets = await runConcurrent(wolves, (wolf) => generateWolfAction(state, wolf, {}), {
+    token,
+    fallback: (_wolf, error) => {
+      console.error("[wolfcha] AI wolf vote failed:", error);
+      return villagers.length > 0 ? gameRng.stream("fallback").pick(villagers).seat : 0;
+    },
+  });
+  if (!targets) return null;
+
+  const wolfVotes = Object.fromEntries(wolves.map((wolf, index) => [wolf.playerId, targets[index]]));
+  const wolfTarget = computeUniqueTopSeat(wolfVotes) ?? pickRandomFromTie(wolfVotes);
+  return { wolfVotes, wolfTarget };
+}
+
 export type WitchAction =
   | { type: "save" }
   | { type: "poison"; target: number }
@@ -1712,11 +1818,21 @@ export async function generateWitchAction(
   const prompt = resolvePhasePrompt("NIGHT_WITCH_ACTION", state, player, { wolfTarget });
   const startTime = Date.now();
   const { messages } = buildMessagesForPrompt(prompt);
+  const canSave = canWitchSave(state, player, wolfTarget);
+  const canPoison = !state.roleAbilities.witchPoisonUsed;
 
   const result = await generateCompletion(mergeOptionsFromModelRef(player.agentProfile!.modelRef, {
     model: player.agentProfile!.modelRef.model,
     messages,
     temperature: GAME_TEMPERATURE.ACTION,
+    task: {
+      ...buildTaskHint("witch_action", state, player, state.players.filter((p) => p.alive && p.playerId !== player.playerId)),
+      witch: {
+        wolfTargetSeat: wolfTarget !== undefined ? wolfTarget + 1 : undefined,
+        canSave,
+        canPoison,
+      },
+    },
   }));
 
   const cleanedWitch = stripMarkdownCodeFences(result.content);
@@ -1724,11 +1840,6 @@ export async function generateWitchAction(
   const rawText = cleanedWitch.trim();
   const contentLower = rawText.toLowerCase();
 
-  const canSave =
-    !state.roleAbilities.witchHealUsed &&
-    wolfTarget !== undefined;
-  const canPoison = !state.roleAbilities.witchPoisonUsed;
-
   let parsedAction: WitchAction;
   if (contentLower.startsWith("save")) {
     parsedAction = canSave ? { type: "save" } : { type: "pass" };
@@ -1797,6 +1908,7 @@ export async function generateGuardAction(
     model: player.agentProfile!.modelRef.model,
     messages,
     temperature: GAME_TEMPERATURE.ACTION,
+    task: buildTaskHint("guard_action", state, player, alivePlayers),
   }));
 
   const cleanedGuard = stripMarkdownCodeFences(result.content);
@@ -1809,10 +1921,10 @@ export async function generateGuardAction(
     if (validSeats.includes(seat)) {
       parsedSeat = seat;
     } else {
-      parsedSeat = alivePlayers[Math.floor(Math.random() * alivePlayers.length)].seat;
+      parsedSeat = gameRng.stream("fallback").pick(alivePlayers).seat;
     }
   } else {
-    parsedSeat = alivePlayers[Math.floor(Math.random() * alivePlayers.length)].seat;
+    parsedSeat = gameRng.stream("fallback").pick(alivePlayers).seat;
   }
 
   await aiLogger.log({
@@ -1852,6 +1964,7 @@ export async function generateHunterShoot(
     model: player.agentProfile!.modelRef.model,
     messages,
     temperature: GAME_TEMPERATURE.ACTION,
+    task: buildTaskHint("hunter_shoot", state, player, alivePlayers),
   }));
 
   const cleanedHunter = stripMarkdownCodeFences(result.content);
@@ -1870,11 +1983,11 @@ export async function generateHunterShoot(
         parsedTarget = seat;
       } else {
         // 猎人随机选择一个目标
-        parsedTarget = alivePlayers[Math.floor(Math.random() * alivePlayers.length)].seat;
+        parsedTarget = gameRng.stream("fallback").pick(alivePlayers).seat;
       }
     } else {
       // 猎人随机选择一个目标
-      parsedTarget = alivePlayers[Math.floor(Math.random() * alivePlayers.length)].seat;
+      parsedTarget = gameRng.stream("fallback").pick(alivePlayers).seat;
     }
   }
 
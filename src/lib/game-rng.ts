@@ -0,0 +1,96 @@
+/**
+ * 可复现的随机数服务
+ * 同一个 seed 下，开局洗牌、模型抽样、平票随机等结果完全一致，便于复现 bug 与做 Prompt A/B 对比。
+ * 不同用途使用独立的随机流，避免 AI 延迟等不确定的调用次数影响开局与平票结果。
+ */
+
+export type RngStream = "setup" | "models" | "order" | "tiebreak" | "tactics" | "fallback" | "timing" | "mock";
+
+export interface RandomSource {
+  /** [0, 1) 区间的随机数 */
+  next(): number;
+  /** [0, max) 区间的随机整数 */
+  int(max: number): number;
+  pick<T>(items: readonly T[]): T;
+  shuffle<T>(items: readonly T[]): T[];
+}
+
+/** 把任意字符串散列成 32 位种子（xmur3） */
+function hashSeed(input: string): number {
+  let h = 1779033703 ^ input.length;
+  for (let i = 0; i < input.length; i++) {
+    h = Math.imul(h ^ input.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+}
+
+/** mulberry32 */
+function createGenerator(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createSource(next: () => number): RandomSource {
+  const int = (max: number) => Math.floor(next() * max);
+  return {
+    next,
+    int,
+    pick: <T>(items: readonly T[]) => items[int(items.length)],
+    shuffle: <T>(items: readonly T[]) => {
+      const result = [...items];
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [result[i], result[j]] = [result[j], result[i]];
+      }
+      return result;
+    },
+  };
+}
+
+export function createSeededRandom(seed: string): RandomSource {
+  return createSource(createGenerator(hashSeed(seed)));
+}
+
+const unseededSource = createSource(() => Math.random());
+
+/** 生成一个便于复制分享的短种子 */
+export function generateGameSeed(): string {
+  return Math.floor(Math.random() * 36 ** 8)
+    .toString(36)
+    .padStart(8, "0");
+}
+
+class GameRng {
+  private seed: string | null = null;
+  private streams = new Map<RngStream, RandomSource>();
+
+  /** 设置本局种子；传入空值则回到 Math.random */
+  setSeed(seed: string | null | undefined): void {
+    this.seed = seed || null;
+    this.streams.clear();
+  }
+
+  getSeed(): string | null {
+    return this.seed;
+  }
+
+  stream(name: RngStream): RandomSource {
+    if (!this.seed) return unseededSource;
+    let source = this.streams.get(name);
+    if (!source) {
+      source = createSeededRandom(`${this.seed}:${name}`);
+      this.streams.set(name, source);
+    }
+    return source;
+  }
+}
+
+export const gameRng = new GameRng();
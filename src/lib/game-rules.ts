@@ -0,0 +1,128 @@
+/**
+ * 房规
+ * 胜负判定、警长竞选与票权、同守同救、女巫自救等各地玩法不一致的规则，开局时选定并记录在 GameState.rules 上
+ */
+
+import type { GameRules, GameState, Player, SheriffMode, WinConditionRule, WitchSelfSaveRule } from "@/types/game";
+
+export const SHERIFF_VOTE_WEIGHTS = [1, 1.5, 2];
+
+export const DEFAULT_GAME_RULES: GameRules = {
+  winCondition: "parity",
+  sheriffVoteWeight: 1.5,
+  guardWitchSameTargetDies: true,
+  witchSelfSave: "always",
+  sheriffMode: "day_one",
+};
+
+export const WIN_CONDITION_LABELS: Record<WinConditionRule, string> = {
+  parity: "屠城（狼人数量不少于好人）",
+  side_kill: "屠边（神职或平民全部出局）",
+};
+
+export const WITCH_SELF_SAVE_LABELS: Record<WitchSelfSaveRule, string> = {
+  always: "可以自救",
+  first_night: "仅首夜可自救",
+  never: "不能自救",
+};
+
+export const SHERIFF_MODE_LABELS: Record<SheriffMode, string> = {
+  day_one: "首日竞选警长",
+  reelect: "警长出局后次日重新竞选",
+  none: "无警长",
+};
+
+const WIN_CONDITIONS = Object.keys(WIN_CONDITION_LABELS) as WinConditionRule[];
+const WITCH_SELF_SAVE_RULES = Object.keys(WITCH_SELF_SAVE_LABELS) as WitchSelfSaveRule[];
+const SHERIFF_MODES = Object.keys(SHERIFF_MODE_LABELS) as SheriffMode[];
+
+/**
+ * 校验并补全房规（旧存档与旧房间没有该字段）
+ */
+export function normalizeGameRules(value?: Partial<GameRules> | null): GameRules {
+  return {
+    winCondition: WIN_CONDITIONS.includes(value?.winCondition as WinConditionRule)
+      ? (value!.winCondition as WinConditionRule)
+      : DEFAULT_GAME_RULES.winCondition,
+    sheriffVoteWeight: SHERIFF_VOTE_WEIGHTS.includes(value?.sheriffVoteWeight as number)
+      ? (value!.sheriffVoteWeight as number)
+      : DEFAULT_GAME_RULES.sheriffVoteWeight,
+    guardWitchSameTargetDies:
+      typeof value?.guardWitchSameTargetDies === "boolean"
+        ? value.guardWitchSameTargetDies
+        : DEFAULT_GAME_RULES.guardWitchSameTargetDies,
+    witchSelfSave: WITCH_SELF_SAVE_RULES.includes(value?.witchSelfSave as WitchSelfSaveRule)
+      ? (value!.witchSelfSave as WitchSelfSaveRule)
+      : DEFAULT_GAME_RULES.witchSelfSave,
+    sheriffMode: SHERIFF_MODES.includes(value?.sheriffMode as SheriffMode)
+      ? (value!.sheriffMode as SheriffMode)
+      : DEFAULT_GAME_RULES.sheriffMode,
+  };
+}
+
+export function getGameRules(state: GameState): GameRules {
+  return normalizeGameRules(state.rules);
+}
+
+/**
+ * 结算狼刀：被守护或被救则存活；同守同救时按房规决定是否死亡
+ */
+export function resolveWolfVictim(
+  rules: GameRules,
+  nightActions: { wolfTarget?: number; guardTarget?: number; witchSave?: boolean }
+): number | undefined {
+  const { wolfTarget, guardTarget, witchSave } = nightActions;
+  if (wolfTarget === undefined) return undefined;
+  const isProtected = guardTarget === wolfTarget;
+  const isSaved = witchSave === true;
+  if (isProtected && isSaved) return rules.guardWitchSameTargetDies ? wolfTarget : undefined;
+  return isProtected || isSaved ? undefined : wolfTarget;
+}
+
+/**
+ * 女巫今晚能否使用解药救刀口
+ */
+export function canWitchSave(state: GameState, witch: Player, wolfTarget: number | undefined): boolean {
+  if (state.roleAbilities.witchHealUsed || wolfTarget === undefined) return false;
+  if (wolfTarget !== witch.seat) return true;
+  const { witchSelfSave } = getGameRules(state);
+  return witchSelfSave === "always" || (witchSelfSave === "first_night" && state.day <= 1);
+}
+
+/**
+ * 当前警长座位；无警长模式下始终为 null
+ */
+export function getSheriffSeat(state: GameState): number | null {
+  return getGameRules(state).sheriffMode === "none" ? null : state.badge.holderSeat;
+}
+
+/**
+ * 白天开始时是否进行警长竞选：首日模式只在第一天，重新竞选模式在场上没有存活警长的每一天
+ */
+export function shouldHoldBadgeElection(state: GameState): boolean {
+  const { sheriffMode } = getGameRules(state);
+  if (sheriffMode === "none") return false;
+  const holderSeat = state.badge.holderSeat;
+  if (holderSeat !== null && state.players.some((p) => p.seat === holderSeat && p.alive)) return false;
+  return sheriffMode === "reelect" || state.day === 1;
+}
+
+/**
+ * 警长出局时能否移交警徽；重新竞选模式下警徽直接流失
+ */
+export function canTransferBadge(state: GameState): boolean {
+  return getGameRules(state).sheriffMode !== "reelect";
+}
+
+/**
+ * 写入 AI 上下文的房规说明
+ */
+export function describeGameRules(rules: GameRules): string {
+  return [
+    `胜负：${WIN_CONDITION_LABELS[rules.winCondition]}；放逐所有狼人时好人胜利`,
+    `警长：${SHERIFF_MODE_LABELS[rules.sheriffMode]}`,
+    ...(rules.sheriffMode === "none" ? [] : [`警长票数：${rules.sheriffVoteWeight} 票`]),
+    `同守同救：${rules.guardWitchSameTargetDies ? "被刀玩家仍然死亡" : "被刀玩家存活"}`,
+    `女巫自救：${WITCH_SELF_SAVE_LABELS[rules.witchSelfSave]}`,
+  ].join("\n");
+}
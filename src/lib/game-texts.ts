@@ -35,6 +35,8 @@ export const getSystemMessages = (locale?: AppLocale) => {
     badgeTransferStart: (seat: number, name: string) => t("system.badgeTransferStart", { seat, name }),
     badgeTransferred: (fromSeat: number, toSeat: number, toName: string) => t("system.badgeTransferred", { toSeat, toName }),
     badgeTorn: (seat: number, name: string) => t("system.badgeTorn", { seat, name }),
+    badgeLost: (seat: number, name: string) => t("system.badgeLost", { seat, name }),
+    idiotRevealed: (seat: number, name: string) => t("system.idiotRevealed", { seat, name }),
   };
 };
 
@@ -1,4 +1,6 @@
-import { getApiConfig } from './api-config';
+import { ALL_MODELS, type Alignment, type ModelRef } from "@/types/game";
+import { getApiConfig, isMockProvider, resolveProviderEndpoint } from './api-config';
+import { mockLLMBackend } from "./mock-llm";
 
 export type LLMContentPart =
   | { type: "text"; text: string; cache_control?: { type: "ephemeral"; ttl?: "1h" } }
@@ -42,40 +44,151 @@ export type ResponseFormat =
       };
     };
 
+export type LLMTaskType =
+  | "speech"
+  | "vote"
+  | "badge_signup"
+  | "badge_vote"
+  | "badge_transfer"
+  | "seer_action"
+  | "wolf_action"
+  | "wolf_chat"
+  | "guard_action"
+  | "witch_action"
+  | "hunter_shoot"
+  | "daily_summary"
+  | "character_base_profiles"
+  | "character_personas";
+
+/**
+ * 本次调用的用途与结构化上下文
+ * 不会发送给接口；本地 mock 模型据此直接给出合法结果，无需解析 Prompt 文本。
+ * 座位号与 Prompt 一致，从 1 开始
+ */
+export interface LLMTaskHint {
+  type: LLMTaskType;
+  actorSeat?: number;
+  actorAlignment?: Alignment;
+  /** 合法的目标座位 */
+  targetSeats?: number[];
+  /** 行动者已知的狼人座位（狼队友或查验结果） */
+  knownWolfSeats?: number[];
+  witch?: { wolfTargetSeat?: number; canSave: boolean; canPoison: boolean };
+  day?: number;
+  characterCount?: number;
+  profiles?: Array<{ displayName: string; gender: string; age: number; mbti: string }>;
+}
+
 export interface GenerateOptions {
   model: string;
   messages: LLMMessage[];
   temperature?: number;
   max_tokens?: number;
-  reasoning?: { enabled: boolean };
+  reasoning?: ModelRef["reasoning"];
   response_format?: ResponseFormat;
+  task?: LLMTaskHint;
+  /** 请求路由到的服务商，未设置或未配置该服务商时使用默认接口 */
+  provider?: ModelRef["provider"];
 }
 
-// ModelRef 类型（用于兼容合并后的 game-master.ts）
-export interface ModelRef {
-  provider: string;
-  model: string;
-}
-
-// 合并 ModelRef 配置到 GenerateOptions（纯前端模式下忽略 provider，统一使用 api-config）
+// 合并 ModelRef 配置到 GenerateOptions：座位的服务商决定路由，模型自身的温度 / 推理设置优先于调用方
 export function mergeOptionsFromModelRef(
-  _modelRef: ModelRef,
+  modelRef: ModelRef,
   options: GenerateOptions
 ): GenerateOptions {
-  // 纯前端模式：忽略 modelRef 的 provider，使用 api-config 中的配置
-  return options;
+  // 座位上保存的 ModelRef 可能来自不带覆盖项的模型池，以 ALL_MODELS 中的声明为准补齐
+  const declared = ALL_MODELS.find((ref) => ref.provider === modelRef.provider && ref.model === modelRef.model);
+  const temperature = modelRef.temperature ?? declared?.temperature;
+  const reasoning = modelRef.reasoning ?? declared?.reasoning;
+  return {
+    ...options,
+    provider: modelRef.provider,
+    model: modelRef.model,
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(reasoning ? { reasoning } : {}),
+  };
+}
+
+export interface CompletionResult {
+  content: string;
+  reasoning_details?: unknown;
+  raw: ChatCompletionResponse;
+}
+
+/**
+ * 可替换的 LLM 后端
+ * 设置后 generateCompletion / generateCompletionStream 不再请求 api-config 中的接口，
+ * 用于命令行无头模拟等没有浏览器配置的场景
+ */
+export interface LLMBackend {
+  complete(options: GenerateOptions): Promise<CompletionResult>;
+  /** 未实现时退化为一次性返回完整内容 */
+  stream?(options: GenerateOptions): AsyncIterable<string>;
+}
+
+let activeBackend: LLMBackend | null = null;
+
+export function setLLMBackend(backend: LLMBackend | null): void {
+  activeBackend = backend;
 }
 
-// 批量生成（串行执行，纯前端兼容）
-export async function generateCompletionBatch(
-  optionsArray: GenerateOptions[]
-): Promise<{ content: string; reasoning_details?: unknown; raw: ChatCompletionResponse }[]> {
-  const results: { content: string; reasoning_details?: unknown; raw: ChatCompletionResponse }[] = [];
-  for (const options of optionsArray) {
-    const result = await generateCompletion(options);
-    results.push(result);
+export function getLLMBackend(): LLMBackend | null {
+  return activeBackend;
+}
+
+/** 显式设置的后端优先，其次是 API 配置中选择的本地模拟服务商 */
+function resolveBackend(): LLMBackend | null {
+  if (activeBackend) return activeBackend;
+  return isMockProvider(getApiConfig()) ? mockLLMBackend : null;
+}
+
+/** 按接口计数的并发闸门，超出上限的请求排队等待 */
+class ConcurrencyGate {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  setLimit(limit: number) {
+    this.limit = Math.max(1, limit);
+    this.pump();
+  }
+
+  async acquire(): Promise<() => void> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      // 由 pump 占用名额后唤醒
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.pump();
+    };
+  }
+
+  private pump() {
+    while (this.active < this.limit && this.waiters.length > 0) {
+      this.active++;
+      this.waiters.shift()!();
+    }
   }
-  return results;
+}
+
+const providerGates = new Map<string, ConcurrencyGate>();
+
+function getProviderGate(key: string, limit: number): ConcurrencyGate {
+  let gate = providerGates.get(key);
+  if (!gate) {
+    gate = new ConcurrencyGate(limit);
+    providerGates.set(key, gate);
+  } else {
+    gate.setLimit(limit);
+  }
+  return gate;
 }
 
 const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
@@ -134,27 +247,33 @@ export function stripMarkdownCodeFences(text: string): string {
 
 export async function generateCompletion(
   options: GenerateOptions
-): Promise<{ content: string; reasoning_details?: unknown; raw: ChatCompletionResponse }> {
+): Promise<CompletionResult> {
+  const backend = resolveBackend();
+  if (backend) {
+    return backend.complete(options);
+  }
+
   const isDebug = process.env.NEXT_PUBLIC_DEBUG === "true";
   const maxTokens =
     typeof options.max_tokens === "number" && Number.isFinite(options.max_tokens)
       ? Math.max(16, Math.floor(options.max_tokens))
       : undefined;
 
-  // 获取前端配置
-  const apiConfig = getApiConfig();
+  // 获取前端配置，按座位服务商路由
+  const endpoint = resolveProviderEndpoint(options.provider);
   
   // 必须配置 API Key
-  if (!apiConfig.llmApiKey || !apiConfig.llmBaseUrl) {
+  if (!endpoint.apiKey || !endpoint.baseUrl) {
     throw new Error("请先在 API 配置中填写 API Key");
   }
   
-  const apiUrl = apiConfig.llmBaseUrl;
-  const model = apiConfig.llmModel || options.model;
+  const apiUrl = endpoint.baseUrl;
+  const model = endpoint.modelOverride || options.model;
 
   if (isDebug) {
     console.log("%c[LLM] 请求开始", "color: #2196F3; font-weight: bold;");
     console.log("模型:", model);
+    console.log("服务商:", endpoint.key);
     console.log("API URL:", apiUrl);
     console.log("温度:", options.temperature ?? 0.7);
     console.log("最大 Token:", maxTokens || "未设置");
@@ -173,37 +292,43 @@ export async function generateCompletion(
 
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
-    "Authorization": `Bearer ${apiConfig.llmApiKey}`,
+    "Authorization": `Bearer ${endpoint.apiKey}`,
   };
 
-  const response = await fetchWithRetry(
-    apiUrl,
-    {
-      method: "POST",
-      headers,
-      body: JSON.stringify({
-        model,
-        messages: options.messages,
-        temperature: options.temperature ?? 0.7,
-        max_tokens: maxTokens,
-        ...(options.reasoning ? { reasoning: options.reasoning } : {}),
-        ...(options.response_format ? { response_format: options.response_format } : {}),
-      }),
-    },
-    2
-  );
+  const release = await getProviderGate(endpoint.key, endpoint.maxConcurrency).acquire();
+  let result: ChatCompletionResponse;
+  try {
+    const response = await fetchWithRetry(
+      apiUrl,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: options.messages,
+          temperature: options.temperature ?? 0.7,
+          max_tokens: maxTokens,
+          ...(options.reasoning ? { reasoning: options.reasoning } : {}),
+          ...(options.response_format ? { response_format: options.response_format } : {}),
+        }),
+      },
+      2
+    );
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    try {
-      const errorJson = JSON.parse(errorText);
-      throw new Error(errorJson.error || `API error: ${response.status}`);
-    } catch {
-      throw new Error(`API error: ${response.status} - ${errorText}`);
+    if (!response.ok) {
+      const errorText = await response.text();
+      try {
+        const errorJson = JSON.parse(errorText);
+        throw new Error(errorJson.error || `API error: ${response.status}`);
+      } catch {
+        throw new Error(`API error: ${response.status} - ${errorText}`);
+      }
     }
-  }
 
-  const result: ChatCompletionResponse = await response.json();
+    result = await response.json();
+  } finally {
+    release();
+  }
   const choice = result.choices?.[0];
   const assistantMessage = choice?.message;
 
@@ -240,86 +365,102 @@ export async function generateCompletion(
 export async function* generateCompletionStream(
   options: GenerateOptions
 ): AsyncGenerator<string, void, unknown> {
+  const backend = resolveBackend();
+  if (backend) {
+    if (backend.stream) {
+      yield* backend.stream(options);
+    } else {
+      yield (await backend.complete(options)).content;
+    }
+    return;
+  }
+
   const maxTokens =
     typeof options.max_tokens === "number" && Number.isFinite(options.max_tokens)
       ? Math.max(16, Math.floor(options.max_tokens))
       : undefined;
 
-  // 获取前端配置
-  const apiConfig = getApiConfig();
+  // 获取前端配置，按座位服务商路由
+  const endpoint = resolveProviderEndpoint(options.provider);
   
   // 必须配置 API Key
-  if (!apiConfig.llmApiKey || !apiConfig.llmBaseUrl) {
+  if (!endpoint.apiKey || !endpoint.baseUrl) {
     throw new Error("请先在 API 配置中填写 API Key");
   }
   
-  const apiUrl = apiConfig.llmBaseUrl;
-  const model = apiConfig.llmModel || options.model;
+  const apiUrl = endpoint.baseUrl;
+  const model = endpoint.modelOverride || options.model;
 
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
-    "Authorization": `Bearer ${apiConfig.llmApiKey}`,
+    "Authorization": `Bearer ${endpoint.apiKey}`,
   };
 
-  const response = await fetchWithRetry(
-    apiUrl,
-    {
-      method: "POST",
-      headers,
-      body: JSON.stringify({
-        model,
-        messages: options.messages,
-        temperature: options.temperature ?? 0.7,
-        max_tokens: maxTokens,
-        stream: true,
-        ...(options.reasoning ? { reasoning: options.reasoning } : {}),
-        ...(options.response_format ? { response_format: options.response_format } : {}),
-      }),
-    },
-    2
-  );
+  // 流式请求在整个读取过程中占用并发名额
+  const release = await getProviderGate(endpoint.key, endpoint.maxConcurrency).acquire();
+  try {
+    const response = await fetchWithRetry(
+      apiUrl,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: options.messages,
+          temperature: options.temperature ?? 0.7,
+          max_tokens: maxTokens,
+          stream: true,
+          ...(options.reasoning ? { reasoning: options.reasoning } : {}),
+          ...(options.response_format ? { response_format: options.response_format } : {}),
+        }),
+      },
+      2
+    );
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    try {
-      const errorJson = JSON.parse(errorText);
-      throw new Error(errorJson.error || `API error: ${response.status}`);
-    } catch {
-      throw new Error(`API error: ${response.status} - ${errorText}`);
+    if (!response.ok) {
+      const errorText = await response.text();
+      try {
+        const errorJson = JSON.parse(errorText);
+        throw new Error(errorJson.error || `API error: ${response.status}`);
+      } catch {
+        throw new Error(`API error: ${response.status} - ${errorText}`);
+      }
     }
-  }
 
-  const reader = response.body?.getReader();
-  if (!reader) {
-    throw new Error("No response body");
-  }
-
-  const decoder = new TextDecoder();
-  let buffer = "";
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() || "";
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed || trimmed === "data: [DONE]") continue;
-      if (!trimmed.startsWith("data: ")) continue;
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error("No response body");
+    }
 
-      try {
-        const json = JSON.parse(trimmed.slice(6));
-        const delta = json.choices?.[0]?.delta?.content;
-        if (delta) {
-          yield delta;
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed === "data: [DONE]") continue;
+        if (!trimmed.startsWith("data: ")) continue;
+
+        try {
+          const json = JSON.parse(trimmed.slice(6));
+          const delta = json.choices?.[0]?.delta?.content;
+          if (delta) {
+            yield delta;
+          }
+        } catch {
+          // Skip malformed JSON
         }
-      } catch {
-        // Skip malformed JSON
       }
     }
+  } finally {
+    release();
   }
 }
 
@@ -0,0 +1,152 @@
+/**
+ * 本地模拟 LLM
+ * 基于规则的本地 AI，按 GenerateOptions.task 直接给出与真实模型同格式的结果，
+ * 无需网络和 API Key，便于离线开发、演示与自动化测试
+ */
+
+import { getI18n } from "@/i18n/translator";
+import { gameRng } from "./game-rng";
+import type { ChatCompletionResponse, CompletionResult, GenerateOptions, LLMBackend, LLMTaskHint } from "./llm";
+
+const STREAM_CHUNK_SIZE = 8;
+const STREAM_CHUNK_DELAY_MS = 30;
+const BADGE_SIGNUP_RATE = 0.35;
+const MBTI_POOL = ["INTJ", "INTP", "ENTJ", "ENTP", "INFJ", "INFP", "ENFJ", "ENFP", "ISTJ", "ISFJ", "ESTJ", "ESFJ", "ISTP", "ISFP", "ESTP", "ESFP"];
+const GENDER_POOL = ["male", "female"] as const;
+
+const rng = () => gameRng.stream("mock");
+
+const pickSeat = (seats: number[] | undefined): number | null => {
+  if (!seats || seats.length === 0) return null;
+  return rng().pick(seats);
+};
+
+/** 好人优先选已知狼人；狼人避开队友 */
+function chooseTarget(task: LLMTaskHint, options?: { preferKnownWolves?: boolean }): number | null {
+  const targets = task.targetSeats ?? [];
+  const knownWolves = new Set(task.knownWolfSeats ?? []);
+  if (task.actorAlignment === "wolf") {
+    return pickSeat(targets.filter((s) => !knownWolves.has(s) && s !== task.actorSeat)) ?? pickSeat(targets);
+  }
+  if (options?.preferKnownWolves !== false) {
+    const wolves = targets.filter((s) => knownWolves.has(s));
+    if (wolves.length > 0) return rng().pick(wolves);
+  }
+  return pickSeat(targets);
+}
+
+function buildSpeech(task: LLMTaskHint): string[] {
+  const { t } = getI18n();
+  const segments = [t("mockAgent.speech.opening", { seat: task.actorSeat ?? 0 })];
+  const knownWolves = (task.knownWolfSeats ?? []).filter((s) => task.targetSeats?.includes(s));
+
+  if (task.actorAlignment === "village" && knownWolves.length > 0) {
+    segments.push(t("mockAgent.speech.seerClaim", { target: knownWolves[0] }));
+    return segments;
+  }
+
+  const target = chooseTarget(task);
+  const roll = rng().next();
+  if (target !== null && roll < 0.4) {
+    segments.push(t("mockAgent.speech.accuse", { target }));
+  } else if (target !== null && roll < 0.7) {
+    segments.push(t("mockAgent.speech.suspect", { target }));
+  } else {
+    segments.push(t("mockAgent.speech.good"));
+  }
+  return segments;
+}
+
+function buildCharacterProfiles(count: number) {
+  const { t } = getI18n();
+  return Array.from({ length: count }, (_, i) => ({
+    displayName: t("mockAgent.characterName", { index: i + 1 }),
+    gender: rng().pick(GENDER_POOL),
+    age: 18 + rng().int(40),
+    mbti: rng().pick(MBTI_POOL),
+    basicInfo: t("mockAgent.characterInfo"),
+  }));
+}
+
+/** 按用途生成回复文本，格式与 game-master / character-generator 的解析逻辑对应 */
+export function generateMockContent(options: GenerateOptions): string {
+  const { t } = getI18n();
+  const task = options.task;
+  if (!task) {
+    return options.response_format?.type === "json_object" ? "{}" : "";
+  }
+
+  switch (task.type) {
+    case "speech":
+      return JSON.stringify(buildSpeech(task));
+    case "vote": {
+      const seat = chooseTarget(task);
+      return JSON.stringify({ seat, reason: t("mockAgent.voteReason", { target: seat ?? 0 }) });
+    }
+    case "badge_vote":
+    case "badge_transfer":
+    case "hunter_shoot":
+    case "seer_action":
+    case "wolf_action":
+    case "guard_action":
+      // 预言家已知的狼人无需再查
+      return String(chooseTarget(task, { preferKnownWolves: task.type !== "seer_action" }) ?? "");
+    case "wolf_chat": {
+      const target = chooseTarget(task);
+      return target === null ? "" : t("mockAgent.wolfChat", { target });
+    }
+    case "witch_action": {
+      const witch = task.witch;
+      if (witch?.canSave && witch.wolfTargetSeat !== undefined) return "save";
+      const wolves = (task.knownWolfSeats ?? []).filter((s) => task.targetSeats?.includes(s));
+      if (witch?.canPoison && wolves.length > 0) return `poison ${wolves[0]}`;
+      return "pass";
+    }
+    case "badge_signup": {
+      const signup = (task.targetSeats ?? []).filter(() => rng().next() < BADGE_SIGNUP_RATE);
+      return JSON.stringify({ signup });
+    }
+    case "daily_summary":
+      return JSON.stringify({ summary: t("mockAgent.summary", { day: task.day ?? 0 }) });
+    case "character_base_profiles":
+      return JSON.stringify({ profiles: buildCharacterProfiles(task.characterCount ?? 0) });
+    case "character_personas":
+      return JSON.stringify({
+        characters: (task.profiles ?? []).map((p) => ({
+          displayName: p.displayName,
+          persona: {
+            voiceRules: [t("mockAgent.voiceRule")],
+            mbti: p.mbti,
+            gender: p.gender,
+            age: p.age,
+          },
+        })),
+      });
+  }
+}
+
+function toResponse(content: string): ChatCompletionResponse {
+  return {
+    id: `mock-${Date.now().toString(36)}`,
+    choices: [{ message: { role: "assistant", content }, finish_reason: "stop" }],
+  };
+}
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export const mockLLMBackend: LLMBackend = {
+  async complete(options): Promise<CompletionResult> {
+    const content = generateMockContent(options);
+    return { content, raw: toResponse(content) };
+  },
+
+  async *stream(options) {
+    const content = generateMockContent(options);
+    for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+      yield content.slice(i, i + STREAM_CHUNK_SIZE);
+      await sleep(STREAM_CHUNK_DELAY_MS);
+    }
+  },
+};
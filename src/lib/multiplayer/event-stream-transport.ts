@@ -0,0 +1,158 @@
+/**
+ * 实时推送传输（Server-Sent Events）
+ * 订阅 wolfcha 服务器的房间频道。房主写入后通知服务器新版本号（不发送房间内容）：
+ * local 存储由服务器读取存储中的房间并推送增量；云存储只推送版本提示，客户端收到后从存储读取，
+ * 因此推送中的版本号不会挡住之后从存储读到的房间。
+ * 其他玩家的写入由房主下一次发布带出，房主自己按正常间隔轮询以尽快看到这些写入。
+ * 存储始终是唯一的数据来源：推送断开时按正常间隔轮询，连接正常时低频兜底轮询
+ */
+
+import type { IGameStorage, RoomState } from '../storage/interface'
+import type { SyncConfig } from './types'
+import type { PollingTransport, RoomTransport } from './transport'
+import { applyRoomDelta, type RoomDelta } from './room-delta'
+
+export class EventStreamTransport implements RoomTransport {
+  private storage: IGameStorage
+  private roomId: string
+  private url: string
+  private channel: string
+  private playerId: string
+  private fallback: PollingTransport
+  private config: SyncConfig
+  private source: EventSource | null = null
+  private streamOpen = false
+  private current: RoomState | null = null
+  private resyncing = false
+  private resyncQueued = false
+  private onUpdate: ((room: RoomState) => void) | null = null
+
+  constructor(
+    storage: IGameStorage,
+    roomId: string,
+    url: string,
+    channel: string,
+    playerId: string,
+    fallback: PollingTransport,
+    config: SyncConfig
+  ) {
+    this.storage = storage
+    this.roomId = roomId
+    this.url = url
+    this.channel = channel
+    this.playerId = playerId
+    this.fallback = fallback
+    this.config = config
+    this.fallback.setOnUpdate(room => this.accept(room))
+  }
+
+  setOnUpdate(callback: (room: RoomState) => void): void {
+    this.onUpdate = callback
+  }
+
+  start(initialStatus: RoomState['status'] = 'waiting'): void {
+    this.stop()
+    this.fallback.start(initialStatus)
+
+    const params = new URLSearchParams({ channel: this.channel, player: this.playerId })
+    const source = new EventSource(`${this.url}?${params}`)
+    source.onopen = () => {
+      this.streamOpen = true
+      this.updateFallbackInterval()
+    }
+    // EventSource 会自动重连，断开期间恢复正常轮询
+    source.onerror = () => {
+      this.streamOpen = false
+      this.updateFallbackInterval()
+    }
+    // 只有 local 存储的频道推送房间内容（服务器从自己的存储读取），云存储频道只接受版本提示
+    if (this.channel.startsWith('local:')) {
+      source.addEventListener('snapshot', (event) => {
+        this.accept(JSON.parse((event as MessageEvent<string>).data) as RoomState)
+      })
+      source.addEventListener('delta', (event) => {
+        this.applyDelta(JSON.parse((event as MessageEvent<string>).data) as RoomDelta)
+      })
+    }
+    source.addEventListener('hint', (event) => {
+      const { version } = JSON.parse((event as MessageEvent<string>).data) as { version: number }
+      if (!this.current || version > this.current.version) void this.resync()
+    })
+    this.source = source
+  }
+
+  stop(): void {
+    this.source?.close()
+    this.source = null
+    this.streamOpen = false
+    this.fallback.stop()
+    this.fallback.setFixedInterval(null)
+  }
+
+  publish(room: RoomState): void {
+    this.accept(room)
+    // 服务器只接受房主发布
+    if (room.hostId !== this.playerId) return
+
+    const params = new URLSearchParams({ channel: this.channel, player: this.playerId })
+    void fetch(`${this.url}?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ version: room.version }),
+    }).catch((error) => {
+      // 推送失败不影响写入，其他客户端会通过轮询拿到
+      console.error('[EventStreamTransport] Publish error:', error)
+    })
+  }
+
+  /**
+   * 接收完整房间，只保留比本地新的版本
+   */
+  private accept(room: RoomState): void {
+    if (this.current && room.version <= this.current.version) return
+    this.current = room
+    this.updateFallbackInterval()
+    this.onUpdate?.(room)
+  }
+
+  /**
+   * 推送连接正常时低频兜底轮询；房主收不到其他玩家写入的推送，始终按正常间隔轮询
+   */
+  private updateFallbackInterval(): void {
+    const isHost = this.current?.hostId === this.playerId
+    this.fallback.setFixedInterval(this.streamOpen && !isHost ? this.config.streamFallbackInterval : null)
+  }
+
+  private applyDelta(delta: RoomDelta): void {
+    if (this.current && delta.version <= this.current.version) return
+
+    const room = this.current ? applyRoomDelta(this.current, delta, this.playerId) : null
+    if (room) {
+      this.accept(room)
+    } else {
+      // 本地缺少增量的基础版本（漏收或刚连接），重新拉取完整房间
+      void this.resync()
+    }
+  }
+
+  private async resync(): Promise<void> {
+    // 读取期间又收到提示时，读完再读一次，避免漏掉最新版本
+    if (this.resyncing) {
+      this.resyncQueued = true
+      return
+    }
+    this.resyncing = true
+    try {
+      do {
+        this.resyncQueued = false
+        const room = await this.storage.getRoom(this.roomId)
+        if (room) this.accept(room)
+      } while (this.resyncQueued)
+    } catch (error) {
+      console.error('[EventStreamTransport] Resync error:', error)
+    } finally {
+      this.resyncing = false
+      this.resyncQueued = false
+    }
+  }
+}
@@ -3,54 +3,86 @@
  * 处理游戏状态在多个客户端间的同步
  */
 
-import type { GameState, Player, Role } from '@/types/game'
-import type { RoomState, Player as MultiPlayer } from '@/lib/storage'
+import type { GameScenario, GameState, ModelRef, Phase, Player, Role } from '@/types/game'
+import type { Player as MultiPlayer, RoomSeatConfig, SealedView } from '@/lib/storage'
 import type { SeatMapping } from '@/store/multiplayer-atoms'
-import { createInitialGameState } from '@/lib/game-master'
+import type { PlayerAction, PlayerActionType } from './types'
+import { createInitialGameState, type WitchAction } from '@/lib/game-master'
+import { roleRegistry } from '@/game/core/RoleRegistry'
+import { gameRng, generateGameSeed } from '@/lib/game-rng'
+import { boardToFixedRoles } from '@/lib/board-config'
+import { normalizeGameRules } from '@/lib/game-rules'
+import { getRandomScenario } from '@/lib/scenarios'
+import {
+  generateCharacters,
+  generateGenshinModeCharacters,
+  sampleModelRefs,
+  type GeneratedCharacter,
+} from '@/lib/character-generator'
+import { createPlayerView, createPublicView } from './state-view'
+import { sealViews } from './view-crypto'
 
 /**
  * 将联机玩家映射到游戏座位
+ * 先安排房主指定了座位的玩家，其余玩家按加入顺序坐进开放座位
  */
-export function createSeatMappings(multiPlayers: MultiPlayer[], playerCount: number): SeatMapping[] {
-  const mappings: SeatMapping[] = []
-  
-  // 按加入顺序分配座位
-  multiPlayers.forEach((mp, index) => {
-    if (index < playerCount) {
-      mappings.push({
+export function createSeatMappings(multiPlayers: MultiPlayer[], seatConfig: RoomSeatConfig): SeatMapping[] {
+  const seatOf = new Map<string, number>()
+  const present = new Set(multiPlayers.map(p => p.id))
+  seatConfig.seats.forEach((seat, index) => {
+    if (seat.kind === 'human' && present.has(seat.playerId)) seatOf.set(seat.playerId, index)
+  })
+
+  // 指定的玩家已离开房间时，该座位视为开放
+  const openSeats = seatConfig.seats
+    .map((seat, index) => ({ seat, index }))
+    .filter(({ seat }) => seat.kind === 'open' || (seat.kind === 'human' && !present.has(seat.playerId)))
+    .map(({ index }) => index)
+  for (const mp of multiPlayers) {
+    if (seatOf.has(mp.id)) continue
+    const seat = openSeats.shift()
+    if (seat === undefined) break
+    seatOf.set(mp.id, seat)
+  }
+
+  return multiPlayers
+    .filter(mp => seatOf.has(mp.id))
+    .map(mp => {
+      const seat = seatOf.get(mp.id)!
+      return {
         multiPlayerId: mp.id,
         multiPlayerName: mp.name,
-        gameSeat: index + 1, // 座位从1开始
-        gamePlayerId: `player-${index + 1}`,
-      })
-    }
-  })
-  
-  return mappings
+        gameSeat: seat, // 座位从0开始，与单机引擎一致
+        gamePlayerId: `player-${seat}`,
+      }
+    })
+    .sort((a, b) => a.gameSeat - b.gameSeat)
 }
 
 /**
  * 创建联机游戏初始状态
- * 根据联机玩家数量生成游戏
+ * 角色按锁定的板子分配，没有真人的座位由 AI 补齐（与单机一样需要模型与人设才能决策）
  */
-export function createMultiplayerGameState(
-  multiPlayers: MultiPlayer[],
+export async function createMultiplayerGameState(
   seatMappings: SeatMapping[],
+  seatConfig: RoomSeatConfig,
   options?: {
-    difficulty?: 'easy' | 'normal' | 'hard'
+    /** 随机种子，不传则自动生成 */
+    seed?: string
   }
-): GameState {
-  const playerCount = multiPlayers.length
-  
-  // 根据玩家数量分配角色
-  const roles = assignRoles(playerCount)
-  
+): Promise<GameState> {
+  const seed = options?.seed || generateGameSeed()
+  gameRng.setSeed(seed)
+
+  const totalSeats = seatConfig.board.playerCount
+  const roles = boardToFixedRoles(seatConfig.board)
+
   // 创建基础游戏状态
   const baseState = createInitialGameState()
-  
-  // 创建玩家列表
-  const players: Player[] = seatMappings.map((mapping, index) => {
-    const role = roles[index]
+
+  // 映射到座位的联机玩家都是真人
+  const players: Player[] = seatMappings.map(mapping => {
+    const role = roles[mapping.gameSeat]
     return {
       playerId: mapping.gamePlayerId,
       seat: mapping.gameSeat,
@@ -58,108 +90,168 @@ export function createMultiplayerGameState(
       alive: true,
       role,
       alignment: getAlignment(role),
-      isHuman: true, // 联机模式所有人都是真人
+      isHuman: true,
     }
   })
-  
-  // 如果玩家数不足，补充 AI 玩家
-  const totalSeats = Math.max(playerCount, 6) // 最少6人
-  for (let i = players.length; i < totalSeats; i++) {
-    const seat = i + 1
-    const role = roles[i] || 'Villager'
+
+  // AI 座位：保留座位使用房主指定的模型与角色，其余抽样模型并生成角色
+  const humanSeats = new Set(seatMappings.map(m => m.gameSeat))
+  const aiSeats = Array.from({ length: totalSeats }, (_, seat) => seat).filter(seat => !humanSeats.has(seat))
+  const reserved = aiSeats.map(seat => {
+    const config = seatConfig.seats[seat]
+    return config?.kind === 'ai' ? config : undefined
+  })
+  const sampled = sampleModelRefs(aiSeats.length)
+  const modelRefs = aiSeats.map((_, i) => reserved[i]?.modelRef ?? sampled[i])
+
+  const scenario = seatConfig.aiCharacters === 'generated' ? getRandomScenario() : undefined
+  const needCharacter = aiSeats.map((_, i) => i).filter(i => !reserved[i]?.character)
+  const generated = await generateAICharacters(
+    needCharacter.length,
+    needCharacter.map(i => modelRefs[i]),
+    scenario
+  )
+  const characters = aiSeats.map((_, i) => reserved[i]?.character ?? generated[needCharacter.indexOf(i)])
+
+  aiSeats.forEach((seat, i) => {
+    const role = roles[seat]
+    const character = characters[i]
     players.push({
       playerId: `ai-${seat}`,
       seat,
-      displayName: `AI玩家${seat}`,
+      displayName: character.displayName,
+      avatarSeed: character.avatarSeed,
       alive: true,
       role,
       alignment: getAlignment(role),
       isHuman: false,
+      agentProfile: {
+        modelRef: modelRefs[i],
+        persona: character.persona,
+      },
     })
-  }
-  
+  })
+  players.sort((a, b) => a.seat - b.seat)
+
   return {
     ...baseState,
-    difficulty: options?.difficulty || 'normal',
+    difficulty: seatConfig.difficulty,
+    isGenshinMode: seatConfig.aiCharacters === 'genshin',
+    scenario,
+    seed,
+    rules: normalizeGameRules(seatConfig.rules),
     players,
     phase: 'SETUP',
   }
 }
 
 /**
- * 根据玩家数量分配角色
+ * 生成 AI 角色；按剧本生成失败时退回以模型名作为角色
  */
-function assignRoles(playerCount: number): Role[] {
-  // 基础角色配置
-  const configs: Record<number, Role[]> = {
-    4: ['Werewolf', 'Seer', 'Villager', 'Villager'],
-    5: ['Werewolf', 'Seer', 'Witch', 'Villager', 'Villager'],
-    6: ['Werewolf', 'Werewolf', 'Seer', 'Witch', 'Villager', 'Villager'],
-    7: ['Werewolf', 'Werewolf', 'Seer', 'Witch', 'Hunter', 'Villager', 'Villager'],
-    8: ['Werewolf', 'Werewolf', 'Seer', 'Witch', 'Hunter', 'Guard', 'Villager', 'Villager'],
-    9: ['Werewolf', 'Werewolf', 'Werewolf', 'Seer', 'Witch', 'Hunter', 'Guard', 'Villager', 'Villager'],
-    10: ['Werewolf', 'Werewolf', 'Werewolf', 'Seer', 'Witch', 'Hunter', 'Guard', 'Villager', 'Villager', 'Villager'],
-    11: ['Werewolf', 'Werewolf', 'Werewolf', 'Seer', 'Witch', 'Hunter', 'Guard', 'Villager', 'Villager', 'Villager', 'Villager'],
-    12: ['Werewolf', 'Werewolf', 'Werewolf', 'Werewolf', 'Seer', 'Witch', 'Hunter', 'Guard', 'Villager', 'Villager', 'Villager', 'Villager'],
+async function generateAICharacters(
+  count: number,
+  modelRefs: ModelRef[],
+  scenario: GameScenario | undefined
+): Promise<GeneratedCharacter[]> {
+  if (count === 0) return []
+  if (scenario) {
+    try {
+      return await generateCharacters(count, scenario)
+    } catch (error) {
+      console.error('[GameSync] Failed to generate AI characters:', error)
+    }
+  }
+  return generateGenshinModeCharacters(count, modelRefs)
+}
+
+/**
+ * 生成发布到房间的游戏状态
+ * 房间内只保存公开视角，每名提交了公钥的玩家额外获得一份加密的私有视角；
+ * 回合截止时间只放进对应玩家自己的私有视角
+ */
+export async function buildRoomGameViews(
+  gameState: GameState,
+  multiPlayers: MultiPlayer[],
+  seatMappings: SeatMapping[],
+  turnDeadlines: Record<string, number> = {}
+): Promise<{ gameState: GameState; playerViews: Record<string, SealedView> }> {
+  const views: Record<string, { publicKey: string; data: GameState }> = {}
+  for (const mapping of seatMappings) {
+    const publicKey = multiPlayers.find(p => p.id === mapping.multiPlayerId)?.publicKey
+    if (!publicKey) continue
+    views[mapping.multiPlayerId] = { publicKey, data: createPlayerView({ ...gameState, turnDeadlines }, mapping.gamePlayerId) }
+  }
+  return {
+    gameState: createPublicView(gameState),
+    playerViews: await sealViews(views),
   }
-  
-  const count = Math.min(Math.max(playerCount, 4), 12)
-  const roles = configs[count] || configs[6]
-  
-  // 随机打乱
-  return shuffleArray([...roles])
 }
 
 /**
  * 获取角色阵营
  */
 function getAlignment(role: Role): 'village' | 'wolf' {
-  return role === 'Werewolf' ? 'wolf' : 'village'
+  return roleRegistry.getAlignment(role)
 }
 
 /**
- * 数组随机打乱
+ * 游戏操作负载（房间操作队列中 PlayerAction.payload 的内容）
+ * 带上提交时的天数与阶段，房主据此丢弃过期操作
  */
-function shuffleArray<T>(array: T[]): T[] {
-  const result = [...array]
-  for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[result[i], result[j]] = [result[j], result[i]]
-  }
-  return result
+export interface GameActionPayload {
+  day: number
+  phase: Phase
+  /** 发言或狼队夜聊内容 */
+  content?: string
+  /** 夜间行动、投票、开枪、移交警徽的目标座位（从0开始） */
+  targetSeat?: number
+  /** 女巫用药 */
+  witchAction?: WitchAction['type']
+  /** 是否上警 */
+  signup?: boolean
 }
 
 /**
- * 玩家操作类型
+ * 游戏内的玩家操作类型
  */
-export type GameAction =
-  | { type: 'speech'; playerId: string; content: string }
-  | { type: 'vote'; playerId: string; targetSeat: number }
-  | { type: 'night_action'; playerId: string; targetSeat?: number; action?: string }
-  | { type: 'ready'; playerId: string }
-  | { type: 'skip'; playerId: string }
+export type GameActionType = Extract<
+  PlayerActionType,
+  'speech' | 'vote' | 'night_action' | 'wolf_chat' | 'badge_signup' | 'use_skill' | 'skip'
+>
+
+const GAME_ACTION_TYPES: GameActionType[] = ['speech', 'vote', 'night_action', 'wolf_chat', 'badge_signup', 'use_skill', 'skip']
 
 /**
- * 联机游戏状态（包含操作队列）
+ * 房主待处理的玩家操作
+ * playerId 为游戏内玩家 ID
  */
-export interface MultiplayerGameData {
-  gameState: GameState
-  pendingActions: GameAction[]
-  lastActionTime: number
-  hostId: string
+export interface GameAction extends GameActionPayload {
+  id: string
+  type: GameActionType
+  playerId: string
 }
 
 /**
- * 应用玩家操作到游戏状态
+ * 将房间队列中的操作转换为游戏操作
+ * 非游戏操作、格式不正确或不在座位上的玩家返回 null
  */
-export function applyAction(
-  gameData: MultiplayerGameData,
-  action: GameAction
-): MultiplayerGameData {
+export function toGameAction(action: PlayerAction, seatMappings: SeatMapping[]): GameAction | null {
+  if (!GAME_ACTION_TYPES.includes(action.type as GameActionType)) return null
+
+  const mapping = seatMappings.find(m => m.multiPlayerId === action.playerId)
+  const payload = action.payload as Partial<GameActionPayload> | undefined
+  if (!mapping || !payload || typeof payload.day !== 'number' || typeof payload.phase !== 'string') return null
+
   return {
-    ...gameData,
-    pendingActions: [...gameData.pendingActions, action],
-    lastActionTime: Date.now(),
+    id: action.id,
+    type: action.type as GameActionType,
+    playerId: mapping.gamePlayerId,
+    day: payload.day,
+    phase: payload.phase,
+    content: typeof payload.content === 'string' ? payload.content : undefined,
+    targetSeat: typeof payload.targetSeat === 'number' ? payload.targetSeat : undefined,
+    witchAction: payload.witchAction,
+    signup: typeof payload.signup === 'boolean' ? payload.signup : undefined,
   }
 }
 
@@ -181,28 +273,14 @@ export function checkAllActionsComplete(
 export function getRequiredPlayers(gameState: GameState): string[] {
   const phase = gameState.phase
   const alivePlayers = gameState.players.filter(p => p.alive)
+
+  // 夜间行动者由角色注册表决定
+  const nightStep = roleRegistry.getNightStep(phase)
+  if (nightStep) {
+    return roleRegistry.getNightActors(gameState, nightStep).map(p => p.playerId)
+  }
   
   switch (phase) {
-    case 'NIGHT_WOLF_ACTION':
-      return alivePlayers
-        .filter(p => p.role === 'Werewolf')
-        .map(p => p.playerId)
-    
-    case 'NIGHT_SEER_ACTION':
-      return alivePlayers
-        .filter(p => p.role === 'Seer')
-        .map(p => p.playerId)
-    
-    case 'NIGHT_WITCH_ACTION':
-      return alivePlayers
-        .filter(p => p.role === 'Witch')
-        .map(p => p.playerId)
-    
-    case 'NIGHT_GUARD_ACTION':
-      return alivePlayers
-        .filter(p => p.role === 'Guard')
-        .map(p => p.playerId)
-    
     case 'DAY_SPEECH':
     case 'DAY_BADGE_SPEECH':
     case 'DAY_PK_SPEECH':
@@ -212,6 +290,10 @@ export function getRequiredPlayers(gameState: GameState): string[] {
       return speakerPlayer ? [speakerPlayer.playerId] : []
     
     case 'DAY_VOTE':
+      return alivePlayers
+        .filter(p => roleRegistry.canVote(gameState, p))
+        .map(p => p.playerId)
+
     case 'DAY_BADGE_ELECTION':
       return alivePlayers.map(p => p.playerId)
     
@@ -1,19 +1,60 @@
 /**
  * 房主控制器
- * 负责驱动 AI 逻辑、推进游戏阶段
+ * 房主客户端上的权威规则引擎：用与单机相同的结算流程（HeadlessGameRunner）推进对局，
+ * AI 座位由 AI 决策，真人座位等待房间操作队列中经过校验的操作；
+ * 真人掉线超时后由 AI 代打，重新上线后交还；开启回合限时后，超时的回合按房间设置弃权、跳过或交给 AI
  */
 
-import type { GameState, Phase } from '@/types/game'
-import type { RoomState } from '@/lib/storage'
-import { getNextNightPhase } from '@/store/game-machine'
+import type { AgentProfile, GameState, Phase, Player } from '@/types/game'
+import type { Player as MultiPlayer } from '@/lib/storage'
+import type { SeatMapping } from '@/store/multiplayer-atoms'
+import { BADGE_TRANSFER_TORN, BADGE_VOTE_ABSTAIN, VOTE_ABSTAIN, type WitchAction } from '@/lib/game-master'
+import { computeUniqueTopSeat, pickRandomFromTie } from '@/lib/game-flow-controller'
+import { createStandInProfile } from '@/lib/character-generator'
+import { canWitchSave } from '@/lib/game-rules'
+import { getTurnLimit, type TurnFallback, type TurnTimerConfig } from '@/lib/turn-timer'
+import { aiDecisions, HeadlessGameRunner, type GameDecisions, type HeadlessGameResult } from '@/game/headless'
+import { toGameAction, type GameAction, type GameActionType } from './game-sync'
+import { isPlayerActive, SEAT_TAKEOVER_MS } from './host-migration'
+import type { PlayerAction } from './types'
 
 /**
  * 房主控制器配置
  */
 export interface HostControllerConfig {
-  onGameStateUpdate: (gameState: GameState) => Promise<void>
+  /**
+   * 完整的游戏状态，由调用方裁剪视角后发布；同一时间只会有一次调用
+   * turnDeadlines 为等待中真人回合的截止时间（按 playerId），夜间会暴露行动者身份，只能放进各玩家自己的视角
+   */
+  onGameStateUpdate: (gameState: GameState, turnDeadlines: Record<string, number>) => Promise<void>
   onPhaseChange: (phase: Phase) => void
-  onAIAction: (playerId: string, action: string) => Promise<void>
+  /** 已处理（采纳、拒绝或过期）的操作，需要从房间队列移除 */
+  onActionsConsumed: (actionIds: string[]) => Promise<void>
+  /** 可恢复的对局检查点，用于房主交接 */
+  onCheckpoint?: (gameState: GameState) => void
+  /** 真人回合限时，不传则一直等待 */
+  turnTimers?: TurnTimerConfig
+}
+
+/**
+ * 等待中的真人决策
+ */
+interface PendingDecision {
+  playerId: string
+  day: number
+  phase: Phase
+  /** 接受的操作类型，不传则接受全部；同一阶段有多个决策时，其他类型的操作留给后续决策 */
+  actionTypes?: GameActionType[]
+  /** 回合截止时间，未开启限时为 undefined */
+  deadline?: number
+  timer?: ReturnType<typeof setTimeout>
+  /** 操作合法时采纳并返回 true */
+  offer: (action: GameAction) => boolean
+  /** 玩家掉线超时，改由 AI 代为决策 */
+  takeOver: () => void
+  /** 回合超时，弃权或跳过 */
+  pass: () => void
+  reject: (error: Error) => void
 }
 
 /**
@@ -22,304 +63,494 @@ export interface HostControllerConfig {
  */
 export class HostController {
   private config: HostControllerConfig
-  private isRunning = false
+  private seatMappings: SeatMapping[]
+  private runner: HeadlessGameRunner | null = null
   private currentGameState: GameState | null = null
-  private aiActionTimeout: NodeJS.Timeout | null = null
-
-  constructor(config: HostControllerConfig) {
+  private pending: PendingDecision[] = []
+  // 已收到但还没有对应决策的操作，按提交顺序排列
+  private inbox = new Map<string, GameAction>()
+  private handledActionIds = new Set<string>()
+  private publishLoop: Promise<void> | null = null
+  private publishQueued = false
+  // 由 AI 代打的座位（游戏玩家 ID）
+  private awaySeats = new Set<string>()
+  // 代打 AI 的模型与人设，同一座位多次掉线沿用同一个
+  private standInProfiles = new Map<string, Promise<AgentProfile>>()
+
+  constructor(config: HostControllerConfig, seatMappings: SeatMapping[]) {
     this.config = config
+    this.seatMappings = seatMappings
   }
 
   /**
-   * 开始控制游戏
+   * 开始控制游戏，对局结束且最终状态发布后返回
+   * initialState 可以是开局状态，也可以是交接快照中的检查点
    */
-  start(initialState: GameState): void {
-    this.isRunning = true
-    this.currentGameState = initialState
-    this.processPhase()
+  async start(initialState: GameState): Promise<HeadlessGameResult> {
+    this.runner = new HeadlessGameRunner({
+      initialState,
+      decisions: this.createDecisions(),
+      fakeActionDelay: true,
+      onStateChange: (state) => this.handleStateChange(state),
+      onCheckpoint: this.config.onCheckpoint,
+    })
+    const result = await this.runner.run()
+    await this.publishLoop
+    return result
   }
 
   /**
    * 停止控制
    */
   stop(): void {
-    this.isRunning = false
-    if (this.aiActionTimeout) {
-      clearTimeout(this.aiActionTimeout)
-      this.aiActionTimeout = null
+    this.runner?.stop()
+    const pending = this.pending
+    this.pending = []
+    for (const decision of pending) {
+      clearTimeout(decision.timer)
+      decision.reject(new Error('Host controller stopped'))
     }
   }
 
   /**
-   * 更新游戏状态
+   * 根据联机玩家心跳更新座位的代打状态
+   * 离开房间或超时未心跳的真人座位交给 AI，重新上线后交还，已交给 AI 的决策不会撤回
    */
-  updateState(gameState: GameState): void {
-    this.currentGameState = gameState
+  updatePresence(players: MultiPlayer[], now: number = Date.now()): void {
+    for (const mapping of this.seatMappings) {
+      const player = players.find(p => p.id === mapping.multiPlayerId)
+      if (player && isPlayerActive(player, SEAT_TAKEOVER_MS, now)) {
+        this.awaySeats.delete(mapping.gamePlayerId)
+      } else {
+        this.takeOverSeat(mapping.gamePlayerId)
+      }
+    }
   }
 
-  /**
-   * 处理当前阶段
-   */
-  private async processPhase(): Promise<void> {
-    if (!this.isRunning || !this.currentGameState) return
-
-    const phase = this.currentGameState.phase
-    console.log('[HostController] Processing phase:', phase)
-
-    switch (phase) {
-      case 'SETUP':
-        await this.handleSetup()
-        break
-      case 'NIGHT_START':
-        await this.handleNightStart()
-        break
-      case 'NIGHT_GUARD_ACTION':
-      case 'NIGHT_WOLF_ACTION':
-      case 'NIGHT_WITCH_ACTION':
-      case 'NIGHT_SEER_ACTION':
-        await this.handleNightAction()
-        break
-      case 'NIGHT_RESOLVE':
-        await this.handleNightResolve()
-        break
-      case 'DAY_START':
-        await this.handleDayStart()
-        break
-      case 'DAY_SPEECH':
-      case 'DAY_BADGE_SPEECH':
-      case 'DAY_PK_SPEECH':
-        await this.handleSpeech()
-        break
-      case 'DAY_VOTE':
-      case 'DAY_BADGE_ELECTION':
-        await this.handleVote()
-        break
-      case 'DAY_RESOLVE':
-        await this.handleDayResolve()
-        break
-      case 'GAME_END':
-        this.stop()
-        break
-      default:
-        // 其他阶段等待
-        break
+  private takeOverSeat(gamePlayerId: string): void {
+    if (this.awaySeats.has(gamePlayerId)) return
+    this.awaySeats.add(gamePlayerId)
+
+    const waiting = this.pending.filter(d => d.playerId === gamePlayerId)
+    for (const decision of waiting) {
+      this.settle(decision)
+      decision.takeOver()
     }
   }
 
   /**
-   * 处理游戏设置阶段
+   * 回合超时：按设置弃权 / 跳过，或交给 AI 代为决策
    */
-  private async handleSetup(): Promise<void> {
-    // 延迟后进入夜晚
-    await this.delay(2000)
-    await this.transitionTo('NIGHT_START')
+  private expire(decision: PendingDecision, fallback: TurnFallback): void {
+    if (!this.pending.includes(decision)) return
+    this.settle(decision)
+    if (fallback === 'ai') {
+      decision.takeOver()
+    } else {
+      decision.pass()
+    }
   }
 
   /**
-   * 处理夜晚开始
+   * 移除已有结果的决策；限时的决策需要重新发布以撤下倒计时
    */
-  private async handleNightStart(): Promise<void> {
-    await this.delay(1500)
-    const nextPhase = getNextNightPhase('NIGHT_START', this.currentGameState!)
-    await this.transitionTo(nextPhase)
+  private settle(decision: PendingDecision): void {
+    this.pending = this.pending.filter(d => d !== decision)
+    clearTimeout(decision.timer)
+    if (decision.deadline !== undefined) this.schedulePublish()
   }
 
   /**
-   * 处理夜晚行动
+   * 接收房间操作队列
+   * 每次房间更新时传入完整队列（已解密），已处理过的操作会被跳过
    */
-  private async handleNightAction(): Promise<void> {
-    if (!this.currentGameState) return
-
-    const phase = this.currentGameState.phase
-    const aiPlayers = this.getAIPlayersForPhase(phase)
-
-    // 等待真人玩家操作或超时
-    const timeout = 30000 // 30秒超时
-
-    // AI 玩家自动行动
-    for (const player of aiPlayers) {
-      await this.delay(1000 + Math.random() * 2000)
-      await this.executeAIAction(player.playerId, phase)
+  receiveActions(actions: PlayerAction[]): void {
+    const dropped: string[] = []
+    for (const raw of actions) {
+      if (this.handledActionIds.has(raw.id) || this.inbox.has(raw.id)) continue
+      const action = toGameAction(raw, this.seatMappings)
+      if (action) {
+        this.inbox.set(raw.id, action)
+      } else {
+        this.handledActionIds.add(raw.id)
+        dropped.push(raw.id)
+      }
     }
-
-    // 检查是否所有人完成，然后进入下一阶段
-    await this.delay(2000)
-    const nextPhase = getNextNightPhase(phase, this.currentGameState)
-    await this.transitionTo(nextPhase)
+    this.dispatch(dropped)
   }
 
   /**
-   * 处理夜晚结算
+   * 将收件箱中的操作交给等待中的决策，并丢弃过期操作
    */
-  private async handleNightResolve(): Promise<void> {
-    await this.delay(2000)
-    
-    // 检查游戏是否结束
-    if (this.checkGameEnd()) {
-      await this.transitionTo('GAME_END')
-      return
+  private dispatch(consumed: string[] = []): void {
+    const state = this.currentGameState
+
+    for (const [id, action] of this.inbox) {
+      const decision = this.pending.find(
+        d =>
+          d.playerId === action.playerId &&
+          d.day === action.day &&
+          d.phase === action.phase &&
+          (!d.actionTypes || d.actionTypes.includes(action.type))
+      )
+      const isCurrent = state !== null && action.day === state.day && action.phase === state.phase
+      if (!decision && isCurrent) continue
+
+      this.inbox.delete(id)
+      this.handledActionIds.add(id)
+      consumed.push(id)
+
+      if (!decision) continue
+      if (decision.offer(action)) {
+        this.settle(decision)
+      } else {
+        console.warn('[HostController] Rejected invalid action:', action)
+      }
     }
 
-    // 进入白天
-    await this.transitionTo('DAY_START')
+    if (consumed.length > 0) {
+      void this.config.onActionsConsumed(consumed).catch((error) => {
+        console.error('[HostController] Failed to consume actions:', error)
+      })
+    }
   }
 
-  /**
-   * 处理白天开始
-   */
-  private async handleDayStart(): Promise<void> {
-    await this.delay(1500)
-    
-    // 第一天有警徽竞选
-    if (this.currentGameState!.day === 1) {
-      await this.transitionTo('DAY_BADGE_SIGNUP')
-    } else {
-      await this.transitionTo('DAY_SPEECH')
+  private handleStateChange(state: GameState): void {
+    const previousPhase = this.currentGameState?.phase
+    this.currentGameState = state
+    if (previousPhase !== state.phase) {
+      this.config.onPhaseChange(state.phase)
+      this.dispatch()
     }
+    this.schedulePublish()
   }
 
   /**
-   * 处理发言阶段
+   * 串行发布，发布期间的多次变更合并为最新的一次
    */
-  private async handleSpeech(): Promise<void> {
-    if (!this.currentGameState) return
-
-    const currentSeat = this.currentGameState.currentSpeakerSeat
-    if (currentSeat === null) {
-      // 发言结束，进入投票
-      await this.transitionTo('DAY_VOTE')
-      return
-    }
-
-    const speaker = this.currentGameState.players.find(p => p.seat === currentSeat)
-    if (!speaker) return
-
-    // AI 玩家自动发言
-    if (!speaker.isHuman) {
-      await this.delay(2000 + Math.random() * 3000)
-      await this.config.onAIAction(speaker.playerId, 'speech')
-    }
-
-    // 等待发言完成后进入下一个发言者
+  private schedulePublish(): void {
+    this.publishQueued = true
+    if (this.publishLoop) return
+
+    this.publishLoop = (async () => {
+      while (this.publishQueued && this.currentGameState) {
+        this.publishQueued = false
+        try {
+          await this.config.onGameStateUpdate(this.currentGameState, this.getTurnDeadlines())
+        } catch (error) {
+          console.error('[HostController] Failed to publish game state:', error)
+        }
+      }
+      this.publishLoop = null
+    })()
   }
 
   /**
-   * 处理投票阶段
+   * 等待中真人回合的截止时间，供玩家显示倒计时；不写入共享的 GameState
    */
-  private async handleVote(): Promise<void> {
-    if (!this.currentGameState) return
-
-    const aiPlayers = this.currentGameState.players.filter(p => !p.isHuman && p.alive)
-
-    // AI 玩家自动投票
-    for (const player of aiPlayers) {
-      await this.delay(500 + Math.random() * 1500)
-      await this.config.onAIAction(player.playerId, 'vote')
-    }
+  private getTurnDeadlines(): Record<string, number> {
+    const timed = this.pending.filter(d => d.deadline !== undefined)
+    return Object.fromEntries(timed.map(d => [d.playerId, d.deadline!]))
+  }
 
-    // 等待所有投票完成
-    await this.delay(3000)
-    await this.transitionTo('DAY_RESOLVE')
+  private isHumanSeat(player: Player): boolean {
+    return player.isHuman && !this.awaySeats.has(player.playerId)
   }
 
   /**
-   * 处理白天结算
+   * 交给 AI 决策的玩家；代打座位换上代打 AI 的模型与人设
    */
-  private async handleDayResolve(): Promise<void> {
-    await this.delay(2000)
+  private async asAI(player: Player): Promise<Player> {
+    if (!player.isHuman) return player
 
-    // 检查游戏是否结束
-    if (this.checkGameEnd()) {
-      await this.transitionTo('GAME_END')
-      return
+    let profile = this.standInProfiles.get(player.playerId)
+    if (!profile) {
+      profile = createStandInProfile()
+      this.standInProfiles.set(player.playerId, profile)
     }
-
-    // 进入夜晚
-    await this.transitionTo('NIGHT_START')
+    return { ...player, isHuman: false, agentProfile: await profile }
   }
 
   /**
-   * 获取当前阶段需要行动的 AI 玩家
+   * 获取一名玩家的决策
+   * AI 与代打座位直接调用 ai；真人座位等待当前阶段的合法操作，等待期间掉线超时则改由 AI 决策，
+   * 回合超时则按设置交给 AI 或以 pass 作为结果（弃权 / 跳过）
    */
-  private getAIPlayersForPhase(phase: Phase) {
-    if (!this.currentGameState) return []
-
-    const roleMap: Record<string, string> = {
-      'NIGHT_GUARD_ACTION': 'Guard',
-      'NIGHT_WOLF_ACTION': 'Werewolf',
-      'NIGHT_WITCH_ACTION': 'Witch',
-      'NIGHT_SEER_ACTION': 'Seer',
-    }
-
-    const requiredRole = roleMap[phase]
-    if (!requiredRole) return []
-
-    return this.currentGameState.players.filter(
-      p => !p.isHuman && p.alive && p.role === requiredRole
-    )
+  private decide<T>(
+    state: GameState,
+    player: Player,
+    parse: (action: GameAction) => T | undefined,
+    ai: (player: Player) => Promise<T>,
+    pass: T,
+    actionTypes?: GameActionType[]
+  ): Promise<T> {
+    if (!this.isHumanSeat(player)) return this.asAI(player).then(ai)
+
+    const limit = getTurnLimit(this.config.turnTimers, state.phase)
+    return new Promise<T>((resolve, reject) => {
+      const decision: PendingDecision = {
+        playerId: player.playerId,
+        day: state.day,
+        phase: state.phase,
+        actionTypes,
+        deadline: limit ? Date.now() + limit.ms : undefined,
+        offer: (action) => {
+          const value = parse(action)
+          if (value === undefined) return false
+          resolve(value)
+          return true
+        },
+        takeOver: () => {
+          this.asAI(player).then(ai).then(resolve, reject)
+        },
+        pass: () => resolve(pass),
+        reject,
+      }
+      this.pending.push(decision)
+      if (limit) {
+        decision.timer = setTimeout(() => this.expire(decision, limit.fallback), limit.ms)
+        this.schedulePublish()
+      }
+      // 操作可能在决策开始前就已到达
+      this.dispatch()
+    })
   }
 
   /**
-   * 执行 AI 行动
+   * 按座位分派决策：AI 座位调用模型，真人座位等待操作
    */
-  private async executeAIAction(playerId: string, phase: Phase): Promise<void> {
-    try {
-      await this.config.onAIAction(playerId, phase)
-    } catch (error) {
-      console.error('[HostController] AI action error:', error)
+  private createDecisions(): GameDecisions {
+    return {
+      guard: (state, guard) =>
+        this.decide<number | null>(state, guard, a => parseGuardTarget(state, a), ai => aiDecisions.guard(state, ai), null),
+
+      // 夜聊发言不能被出刀操作顶替，出刀操作留给随后的出刀决策
+      // 真人狼的夜聊经操作队列加密给房主，好人与观战者读不到；结果只作为狼队私有事件写入各自视角
+      wolfChat: (state, wolf) =>
+        this.decide(state, wolf, parseWolfChat, ai => aiDecisions.wolfChat(state, ai), '', ['wolf_chat', 'skip']),
+
+      wolfPack: async (state, wolves) => {
+        const humans = wolves.filter(w => this.isHumanSeat(w))
+        const ais = await Promise.all(wolves.filter(w => !this.isHumanSeat(w)).map(w => this.asAI(w)))
+        const [aiVotes, humanTargets] = await Promise.all([
+          ais.length > 0
+            ? aiDecisions.wolfPack(state, ais).then(pack => pack?.wolfVotes ?? null)
+            : Promise.resolve({}),
+          Promise.all(humans.map(w =>
+            this.decide<number | null>(
+              state,
+              w,
+              a => parseWolfTarget(state, a),
+              ai => generateSoloWolfTarget(state, ai),
+              null
+            )
+          )),
+        ])
+        if (!aiVotes) return null
+
+        // 与 AI 狼人相同：每只狼一票，多数决定目标，平票随机；超时跳过的狼人不投票
+        const wolfVotes: Record<string, number> = { ...aiVotes }
+        humans.forEach((wolf, index) => {
+          const target = humanTargets[index]
+          if (target !== null) wolfVotes[wolf.playerId] = target
+        })
+        // 全部跳过视为空刀
+        if (Object.keys(wolfVotes).length === 0) return null
+        const wolfTarget = computeUniqueTopSeat(wolfVotes) ?? pickRandomFromTie(wolfVotes)
+        return { wolfVotes, wolfTarget }
+      },
+
+      witch: (state, witch, wolfTarget) =>
+        this.decide(
+          state,
+          witch,
+          a => parseWitchAction(state, witch, wolfTarget, a),
+          ai => aiDecisions.witch(state, ai, wolfTarget),
+          { type: 'pass' }
+        ),
+
+      seer: (state, seer) =>
+        this.decide<number | null>(
+          state,
+          seer,
+          a => parseSeerTarget(state, seer, a),
+          ai => aiDecisions.seer(state, ai),
+          null
+        ),
+
+      badgeSignup: async (state, players) => {
+        const humans = players.filter(p => this.isHumanSeat(p))
+        const ais = await Promise.all(players.filter(p => !this.isHumanSeat(p)).map(p => this.asAI(p)))
+        const [aiSignup, humanSignup] = await Promise.all([
+          ais.length > 0 ? aiDecisions.badgeSignup(state, ais) : Promise.resolve({}),
+          Promise.all(humans.map(p =>
+            this.decide(
+              state,
+              p,
+              parseBadgeSignup,
+              ai => aiDecisions.badgeSignup(state, [ai]).then(signup => signup[ai.playerId] ?? false),
+              false
+            )
+          )),
+        ])
+
+        const signup: Record<string, boolean> = { ...aiSignup }
+        humans.forEach((player, index) => {
+          signup[player.playerId] = humanSignup[index]
+        })
+        return signup
+      },
+
+      badgeVote: (state, voter) =>
+        this.decide(
+          state,
+          voter,
+          a => parseBadgeVote(state, a),
+          ai => aiDecisions.badgeVote(state, ai),
+          BADGE_VOTE_ABSTAIN
+        ),
+
+      speech: (state, speaker) =>
+        this.decide(state, speaker, parseSpeech, ai => aiDecisions.speech(state, ai), []),
+
+      vote: (state, voter) =>
+        this.decide(
+          state,
+          voter,
+          a => parseVote(state, a),
+          ai => aiDecisions.vote(state, ai),
+          { seat: VOTE_ABSTAIN, reason: '' }
+        ),
+
+      hunterShoot: (state, hunter) =>
+        this.decide(
+          state,
+          hunter,
+          a => parseSkillTarget(state, hunter, a, null),
+          ai => aiDecisions.hunterShoot(state, ai),
+          null
+        ),
+
+      badgeTransfer: (state, sheriff) =>
+        this.decide(
+          state,
+          sheriff,
+          a => parseSkillTarget(state, sheriff, a, BADGE_TRANSFER_TORN),
+          ai => aiDecisions.badgeTransfer(state, ai),
+          BADGE_TRANSFER_TORN
+        ),
     }
   }
+}
 
-  /**
-   * 阶段转换
-   */
-  private async transitionTo(phase: Phase): Promise<void> {
-    if (!this.currentGameState) return
+/**
+ * 代打的狼人单独出刀，票数与其他狼人一起统计
+ */
+async function generateSoloWolfTarget(state: GameState, wolf: Player): Promise<number> {
+  const pack = await aiDecisions.wolfPack(state, [wolf])
+  if (!pack) throw new Error('Wolf action interrupted')
+  return pack.wolfTarget
+}
 
-    this.currentGameState = {
-      ...this.currentGameState,
-      phase,
-    }
+// ============ 操作校验 ============
+// 规则与单机（game-machine 的 PHASE_CONFIGS、useGameLogic）一致，不合法时返回 undefined
 
-    this.config.onPhaseChange(phase)
-    await this.config.onGameStateUpdate(this.currentGameState)
+/**
+ * 操作指向的存活玩家座位
+ */
+function aliveTarget(state: GameState, action: GameAction): number | undefined {
+  const seat = action.targetSeat
+  if (seat === undefined) return undefined
+  return state.players.some(p => p.seat === seat && p.alive) ? seat : undefined
+}
 
-    // 继续处理新阶段
-    await this.delay(500)
-    await this.processPhase()
-  }
+function parseGuardTarget(state: GameState, action: GameAction): number | undefined {
+  if (action.type !== 'night_action') return undefined
+  const seat = aliveTarget(state, action)
+  // 不能连续保护同一人
+  if (seat === undefined || seat === state.nightActions.lastGuardTarget) return undefined
+  return seat
+}
 
-  /**
-   * 检查游戏是否结束
-   */
-  private checkGameEnd(): boolean {
-    if (!this.currentGameState) return false
+function parseWolfTarget(state: GameState, action: GameAction): number | undefined {
+  // 狼人可以刀任何存活玩家（包括队友和自己）
+  return action.type === 'night_action' ? aliveTarget(state, action) : undefined
+}
 
-    const alivePlayers = this.currentGameState.players.filter(p => p.alive)
-    const aliveWolves = alivePlayers.filter(p => p.role === 'Werewolf')
-    const aliveVillagers = alivePlayers.filter(p => p.role !== 'Werewolf')
+function parseWolfChat(action: GameAction): string | undefined {
+  if (action.type === 'skip') return ''
+  return action.type === 'wolf_chat' && action.content ? action.content : undefined
+}
 
-    // 狼人全灭
-    if (aliveWolves.length === 0) {
-      this.currentGameState.winner = 'village'
-      return true
+function parseWitchAction(
+  state: GameState,
+  witch: Player,
+  wolfTarget: number | undefined,
+  action: GameAction
+): WitchAction | undefined {
+  if (action.type === 'skip') return { type: 'pass' }
+  if (action.type !== 'night_action') return undefined
+
+  switch (action.witchAction) {
+    case 'save':
+      if (!canWitchSave(state, witch, wolfTarget)) return undefined
+      return { type: 'save' }
+    case 'poison': {
+      if (state.roleAbilities.witchPoisonUsed) return undefined
+      const target = aliveTarget(state, action)
+      return target === undefined ? undefined : { type: 'poison', target }
     }
+    case 'pass':
+      return { type: 'pass' }
+    default:
+      return undefined
+  }
+}
 
-    // 狼人数量 >= 好人数量
-    if (aliveWolves.length >= aliveVillagers.length) {
-      this.currentGameState.winner = 'wolf'
-      return true
-    }
+function parseSeerTarget(state: GameState, seer: Player, action: GameAction): number | undefined {
+  if (action.type !== 'night_action') return undefined
+  const seat = aliveTarget(state, action)
+  return seat === seer.seat ? undefined : seat
+}
 
-    return false
-  }
+function parseBadgeSignup(action: GameAction): boolean | undefined {
+  if (action.type === 'skip') return false
+  return action.type === 'badge_signup' ? action.signup : undefined
+}
 
-  /**
-   * 延迟
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => {
-      this.aiActionTimeout = setTimeout(resolve, ms)
-    })
-  }
+function parseBadgeVote(state: GameState, action: GameAction): number | undefined {
+  if (action.type === 'skip') return BADGE_VOTE_ABSTAIN
+  if (action.type !== 'vote' || action.targetSeat === undefined) return undefined
+  return state.badge.candidates.includes(action.targetSeat) ? action.targetSeat : undefined
+}
+
+function parseSpeech(action: GameAction): string[] | undefined {
+  if (action.type === 'skip') return []
+  if (action.type !== 'speech') return undefined
+  const content = action.content?.trim()
+  return content ? [content] : undefined
+}
+
+function parseVote(state: GameState, action: GameAction): { seat: number; reason: string } | undefined {
+  if (action.type !== 'vote') return undefined
+  const seat = aliveTarget(state, action)
+  if (seat === undefined) return undefined
+  // PK 投票只能投给 PK 台上的玩家
+  if (state.pkSource === 'vote' && state.pkTargets?.length && !state.pkTargets.includes(seat)) return undefined
+  return { seat, reason: '' }
+}
+
+/**
+ * 猎人开枪、移交警徽：目标为其他存活玩家，跳过时返回 skipValue
+ */
+function parseSkillTarget<S extends number | null>(
+  state: GameState,
+  actor: Player,
+  action: GameAction,
+  skipValue: S
+): number | S | undefined {
+  if (action.type === 'skip') return skipValue
+  if (action.type !== 'use_skill') return undefined
+  const seat = aliveTarget(state, action)
+  return seat === actor.seat ? undefined : seat
 }
@@ -0,0 +1,85 @@
+/**
+ * 房主交接
+ * 基于玩家心跳（Player.lastSeen）判断掉线；房主失联时由接班人凭加密快照接管对局
+ * 接班人是在座玩家，解密快照即可看到全部身份与夜间行动，因此对局中的交接需房主在座位设置中开启
+ */
+
+import type { GameState } from '@/types/game'
+import type { HostSnapshot, Player, RoomState } from '../storage/interface'
+import type { SeatMapping } from '@/store/multiplayer-atoms'
+import { sealViews } from './view-crypto'
+
+// 心跳间隔，每次心跳刷新本机玩家的 lastSeen
+export const HEARTBEAT_INTERVAL_MS = 5000
+
+// 房主超过该时长没有心跳，由接班人接管
+export const HOST_TIMEOUT_MS = 20000
+
+// 真人玩家超过该时长没有心跳，由 AI 代打其座位，重新上线后交还
+export const SEAT_TAKEOVER_MS = 60000
+
+/**
+ * 快照内容，接班人据此重建房主控制器
+ */
+export interface HostSnapshotData {
+  gameState: GameState
+  seatMappings: SeatMapping[]
+}
+
+/**
+ * 房主是否开启了对局中的交接
+ */
+export function isHostMigrationEnabled(room: RoomState): boolean {
+  return room.seatConfig?.hostMigration === true
+}
+
+export function isPlayerActive(player: Player, timeoutMs: number, now: number = Date.now()): boolean {
+  return player.isOnline && now - player.lastSeen <= timeoutMs
+}
+
+/**
+ * 房主是否失联（已离开房间或心跳超时）
+ */
+export function isHostStale(room: RoomState, now: number = Date.now()): boolean {
+  const host = room.players.find(p => p.id === room.hostId)
+  return !host || !isPlayerActive(host, HOST_TIMEOUT_MS, now)
+}
+
+/**
+ * 选出新房主：优先快照指定的接班人（只有接班人能解密快照），否则按加入顺序第一位在线玩家
+ */
+export function pickHostSuccessor(room: RoomState, now: number = Date.now()): Player | null {
+  const candidates = room.players.filter(p => p.id !== room.hostId && isPlayerActive(p, HOST_TIMEOUT_MS, now))
+  return candidates.find(p => p.id === room.hostSnapshot?.successorId) ?? candidates[0] ?? null
+}
+
+/**
+ * 快照接班人：第一位在线且提交了公钥的其他玩家；未开启交接时没有接班人
+ */
+export function pickSnapshotSuccessor(room: RoomState, now: number = Date.now()): Player | null {
+  if (!isHostMigrationEnabled(room)) return null
+  return room.players.find(
+    p => p.id !== room.hostId && p.publicKey && isPlayerActive(p, HOST_TIMEOUT_MS, now)
+  ) ?? null
+}
+
+/**
+ * 加密房主交接快照
+ * 快照包含完整的隐藏信息，只加密给房主本人（刷新页面后恢复）与一名接班人
+ */
+export async function sealHostSnapshot(
+  room: RoomState,
+  successorId: string | null,
+  data: HostSnapshotData
+): Promise<HostSnapshot> {
+  const views: Record<string, { publicKey: string; data: HostSnapshotData }> = {}
+  for (const player of room.players) {
+    if (!player.publicKey || (player.id !== room.hostId && player.id !== successorId)) continue
+    views[player.id] = { publicKey: player.publicKey, data }
+  }
+  return {
+    successorId,
+    sealed: await sealViews(views),
+    updatedAt: Date.now(),
+  }
+}
@@ -4,6 +4,15 @@
 
 export * from './types'
 export * from './sync'
+export * from './transport'
+export * from './event-stream-transport'
+export * from './room-delta'
 export * from './manager'
+export * from './lobby'
 export * from './game-sync'
 export * from './host-controller'
+export * from './host-migration'
+export * from './seating'
+export * from './state-view'
+export * from './spectator'
+export * from './view-crypto'
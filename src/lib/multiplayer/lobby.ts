@@ -0,0 +1,146 @@
+/**
+ * 联机大厅
+ * 加入码、房间密码、房间目录与过期清理，全部基于 IGameStorage，任何存储后端都能使用
+ */
+
+import type { IGameStorage, RoomListing, RoomState } from '../storage/interface'
+
+// 去掉容易看错的 0/O、1/I/L
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+export const JOIN_CODE_LENGTH = 6
+
+// 超过该时长没有任何写入的房间视为过期
+export const ROOM_EXPIRY_MS = 30 * 60 * 1000
+
+// 房间目录版本冲突的最大重试次数
+const MAX_DIRECTORY_WRITE_ATTEMPTS = 8
+
+/**
+ * 生成加入码
+ */
+export function generateJoinCode(): string {
+  const bytes = new Uint8Array(JOIN_CODE_LENGTH)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, b => JOIN_CODE_ALPHABET[b % JOIN_CODE_ALPHABET.length]).join('')
+}
+
+/**
+ * 规范化用户输入的加入码：忽略大小写、空格与连字符
+ */
+export function normalizeJoinCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, '')
+}
+
+export function isValidJoinCode(code: string): boolean {
+  return code.length === JOIN_CODE_LENGTH && Array.from(code).every(c => JOIN_CODE_ALPHABET.includes(c))
+}
+
+/**
+ * 房间密码哈希，以加入码加盐
+ * 房间数据对存储的所有使用者可读，密码只用于挡住随意加入的玩家
+ */
+export async function hashRoomPassword(roomId: string, password: string): Promise<string> {
+  const data = new TextEncoder().encode(`${roomId}:${password}`)
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+export async function verifyRoomPassword(room: RoomState, password?: string): Promise<boolean> {
+  if (!room.passwordHash) return true
+  if (!password) return false
+  return (await hashRoomPassword(room.id, password)) === room.passwordHash
+}
+
+export function isRoomExpired(room: Pick<RoomState, 'updatedAt'>, now: number = Date.now()): boolean {
+  return now - room.updatedAt > ROOM_EXPIRY_MS
+}
+
+export function toRoomListing(room: RoomState): RoomListing {
+  const host = room.players.find(p => p.id === room.hostId)
+  return {
+    id: room.id,
+    name: room.name || room.id,
+    hostName: host?.name ?? '',
+    playerCount: room.players.length,
+    hasPassword: Boolean(room.passwordHash),
+    status: room.status,
+    createdAt: room.createdAt,
+    updatedAt: room.updatedAt,
+  }
+}
+
+/**
+ * 乐观锁更新房间目录，冲突时基于最新目录重新应用 updater
+ */
+async function updateRoomDirectory(
+  storage: IGameStorage,
+  updater: (rooms: RoomListing[]) => RoomListing[]
+): Promise<boolean> {
+  for (let attempt = 0; attempt < MAX_DIRECTORY_WRITE_ATTEMPTS; attempt++) {
+    const directory = await storage.getRoomDirectory()
+    const result = await storage.compareAndSwapRoomDirectory(
+      {
+        version: (directory?.version ?? 0) + 1,
+        rooms: updater(directory?.rooms ?? []),
+        updatedAt: Date.now(),
+      },
+      directory?.version ?? null
+    )
+    if (result === 'ok') return true
+    if (result === 'error') break
+
+    await new Promise(resolve => setTimeout(resolve, (50 + Math.random() * 100) * (attempt + 1)))
+  }
+
+  console.error('[Lobby] Failed to update room directory')
+  return false
+}
+
+/**
+ * 在目录中登记或更新房间，已结束的房间从目录移除
+ */
+export function publishRoomListing(storage: IGameStorage, room: RoomState): Promise<boolean> {
+  if (room.status === 'ended') return removeRoomListing(storage, room.id)
+
+  const listing = toRoomListing(room)
+  return updateRoomDirectory(storage, rooms => [...rooms.filter(r => r.id !== room.id), listing])
+}
+
+export function removeRoomListing(storage: IGameStorage, roomId: string): Promise<boolean> {
+  return updateRoomDirectory(storage, rooms => rooms.filter(r => r.id !== roomId))
+}
+
+/**
+ * 列出可加入的房间，同时清理过期房间
+ * 目录条目只在成员或状态变化时更新，过期时先读取房间本身确认，进行中的对局不会被误删
+ */
+export async function listOpenRooms(storage: IGameStorage, now: number = Date.now()): Promise<RoomListing[]> {
+  const directory = await storage.getRoomDirectory()
+  let rooms = directory?.rooms ?? []
+
+  const stale = rooms.filter(r => isRoomExpired(r, now))
+  if (stale.length > 0) {
+    const refreshed = new Map<string, RoomListing>()
+    const expired = new Set<string>()
+    for (const listing of stale) {
+      const room = await storage.getRoom(listing.id)
+      if (room && room.status !== 'ended' && !isRoomExpired(room, now)) {
+        refreshed.set(room.id, toRoomListing(room))
+        continue
+      }
+      expired.add(listing.id)
+      if (room) await storage.deleteRoom(room.id)
+    }
+
+    const apply = (list: RoomListing[]) =>
+      list.filter(r => !expired.has(r.id)).map(r => refreshed.get(r.id) ?? r)
+    rooms = apply(rooms)
+    await updateRoomDirectory(storage, apply)
+  }
+
+  return rooms
+    .filter(r => r.status === 'waiting')
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
@@ -3,11 +3,52 @@
  * 管理房间生命周期和玩家操作
  */
 
-import type { IGameStorage, RoomState, Player, StorageConfig } from '../storage/interface'
-import { createStorage, generateRoomId } from '../storage/factory'
-import { SyncManager } from './sync'
+import type {
+  HostSnapshot,
+  IGameStorage,
+  RoomListing,
+  RoomSeatConfig,
+  RoomSpectatorConfig,
+  RoomState,
+  Player,
+  SealedView,
+  Spectator,
+  SpectatorFeed,
+  StorageConfig,
+} from '../storage/interface'
+import { createStorage } from '../storage/factory'
+import { SyncManager, mergeActionQueues, openRoomAction, sealRoomAction } from './sync'
+import { createRoomTransport } from './transport'
+import {
+  generateJoinCode,
+  hashRoomPassword,
+  isRoomExpired,
+  isValidJoinCode,
+  listOpenRooms,
+  normalizeJoinCode,
+  publishRoomListing,
+  removeRoomListing,
+  verifyRoomPassword,
+} from './lobby'
+import { getPlayerKeyPair, openView } from './view-crypto'
+import { HEARTBEAT_INTERVAL_MS, isHostMigrationEnabled, isHostStale, pickHostSuccessor } from './host-migration'
+import { createDefaultSeatConfig, validateSeatConfig } from './seating'
+import { DEFAULT_SPECTATOR_CONFIG, MAX_SPECTATORS, normalizeSpectatorConfig, usesSpectatorFeed } from './spectator'
 import type { MultiplayerCallbacks, PlayerAction } from './types'
-import { getPlayerId, getPlayerName, savePlayerName } from './types'
+import { DEFAULT_SYNC_CONFIG, generateActionId, getPlayerId, getPlayerName, savePlayerName } from './types'
+
+// 加入/离开房间时版本冲突（或创建房间时加入码撞车）的最大重试次数
+const MAX_ROOM_WRITE_ATTEMPTS = 5
+
+/**
+ * 创建房间选项
+ */
+export interface CreateRoomOptions {
+  /** 房间名，默认使用加入码 */
+  name?: string
+  /** 房间密码，留空表示公开房间 */
+  password?: string
+}
 
 export class MultiplayerManager {
   private storage: IGameStorage | null = null
@@ -18,6 +59,11 @@ export class MultiplayerManager {
   private playerName: string | null = null
   private callbacks: MultiplayerCallbacks = {}
   private isHost: boolean = false
+  private isSpectator: boolean = false
+  private heartbeatId: NodeJS.Timeout | null = null
+  private claimingHost = false
+  /** 已解密的操作，按队列 ID 缓存，避免每次房间更新重复解密 */
+  private openedActions = new Map<string, PlayerAction | null>()
 
   constructor() {
     this.playerId = getPlayerId()
@@ -31,11 +77,7 @@ export class MultiplayerManager {
     this.config = config
     this.storage = createStorage(config)
     
-    const result = await this.storage.testConnection()
-    if (result.success) {
-      this.roomId = await generateRoomId(config)
-    }
-    return result
+    return this.storage.testConnection()
   }
 
   /**
@@ -47,7 +89,7 @@ export class MultiplayerManager {
   }
 
   /**
-   * 获取房间 ID
+   * 获取当前房间的加入码
    */
   getRoomId(): string | null {
     return this.roomId
@@ -60,6 +102,13 @@ export class MultiplayerManager {
     return this.isHost
   }
 
+  /**
+   * 是否以观战者身份进入房间
+   */
+  getIsSpectator(): boolean {
+    return this.isSpectator
+  }
+
   /**
    * 设置回调
    */
@@ -67,11 +116,25 @@ export class MultiplayerManager {
     this.callbacks = callbacks
   }
 
+  /**
+   * 列出可加入的房间（顺带清理过期房间）
+   */
+  async listRooms(): Promise<RoomListing[]> {
+    if (!this.storage) return []
+    try {
+      return await listOpenRooms(this.storage)
+    } catch (error) {
+      console.error('[MultiplayerManager] Failed to list rooms:', error)
+      return []
+    }
+  }
+
   /**
    * 创建房间
+   * 每次创建都生成新的加入码，同一存储下可以同时存在多个房间
    */
-  async createRoom(playerName?: string): Promise<RoomState | null> {
-    if (!this.storage || !this.roomId) {
+  async createRoom(playerName?: string, options: CreateRoomOptions = {}): Promise<RoomState | null> {
+    if (!this.storage) {
       this.callbacks.onError?.('存储未初始化')
       return null
     }
@@ -85,54 +148,70 @@ export class MultiplayerManager {
       return null
     }
 
-    // 检查房间是否已存在
-    const existing = await this.storage.getRoom(this.roomId)
-    if (existing && existing.status !== 'ended') {
-      this.callbacks.onError?.('房间已存在，请直接加入')
-      return null
-    }
+    const publicKey = await this.getPublicKey()
+    const password = options.password?.trim()
+
+    for (let attempt = 0; attempt < MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+      const roomId = generateJoinCode()
+      const now = Date.now()
+      const room: RoomState = {
+        id: roomId,
+        version: 1,
+        name: options.name?.trim() || undefined,
+        passwordHash: password ? await hashRoomPassword(roomId, password) : undefined,
+        hostId: this.playerId,
+        status: 'waiting',
+        players: [
+          {
+            id: this.playerId,
+            name: this.playerName,
+            isHost: true,
+            isReady: true,
+            isOnline: true,
+            lastSeen: now,
+            publicKey,
+          },
+        ],
+        seatConfig: createDefaultSeatConfig(),
+        spectatorConfig: { ...DEFAULT_SPECTATOR_CONFIG },
+        createdAt: now,
+        updatedAt: now,
+      }
 
-    const now = Date.now()
-    const room: RoomState = {
-      id: this.roomId,
-      version: 1,
-      hostId: this.playerId,
-      status: 'waiting',
-      players: [
-        {
-          id: this.playerId,
-          name: this.playerName,
-          isHost: true,
-          isReady: true,
-          isOnline: true,
-          lastSeen: now,
-        },
-      ],
-      createdAt: now,
-      updatedAt: now,
-    }
-
-    const success = await this.storage.saveRoom(room)
-    if (!success) {
-      this.callbacks.onError?.('创建房间失败')
-      return null
+      // 房间必须不存在，加入码撞车时换一个重试
+      const result = await this.storage.compareAndSwapRoom(room, null)
+      if (result === 'conflict') continue
+      if (result !== 'ok') break
+
+      this.roomId = roomId
+      this.isHost = true
+      this.isSpectator = false
+      await publishRoomListing(this.storage, room)
+      this.startSync(room)
+      this.callbacks.onRoomUpdate?.(room)
+      return room
     }
 
-    this.isHost = true
-    this.startSync(room)
-    this.callbacks.onRoomUpdate?.(room)
-    return room
+    this.callbacks.onError?.('创建房间失败')
+    return null
   }
 
   /**
-   * 加入房间
+   * 通过加入码加入房间
+   * 已在房间中的玩家（如刷新页面后）直接恢复，无需再次输入密码
    */
-  async joinRoom(playerName?: string): Promise<RoomState | null> {
-    if (!this.storage || !this.roomId) {
+  async joinRoom(roomCode: string, playerName?: string, password?: string): Promise<RoomState | null> {
+    if (!this.storage) {
       this.callbacks.onError?.('存储未初始化')
       return null
     }
 
+    const roomId = normalizeJoinCode(roomCode)
+    if (!isValidJoinCode(roomId)) {
+      this.callbacks.onError?.('加入码格式不正确')
+      return null
+    }
+
     if (playerName) {
       this.setPlayerName(playerName)
     }
@@ -142,57 +221,177 @@ export class MultiplayerManager {
       return null
     }
 
-    const room = await this.storage.getRoom(this.roomId)
-    
-    // 房间不存在，自动创建
-    if (!room) {
-      return this.createRoom()
-    }
+    const publicKey = await this.getPublicKey()
 
-    // 检查是否已在房间中
-    const existingPlayer = room.players.find(p => p.id === this.playerId)
-    if (existingPlayer) {
-      // 更新在线状态
-      this.isHost = existingPlayer.isHost
-      this.startSync(room)
-      await this.updateOnlineStatus(true)
-      return room
+    for (let attempt = 0; attempt < MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+      const room = await this.storage.getRoom(roomId)
+      if (!room) {
+        this.callbacks.onError?.('房间不存在或已过期')
+        return null
+      }
+
+      // 检查是否已在房间中
+      const existingPlayer = room.players.find(p => p.id === this.playerId)
+      if (existingPlayer) {
+        // 更新在线状态；房主身份由同步回调确认，房主刷新页面后会重新接管对局
+        this.roomId = roomId
+        this.isHost = false
+        this.isSpectator = false
+        this.startSync(room)
+        await this.updateOnlineStatus(true)
+        return room
+      }
+
+      if (room.status === 'ended' || isRoomExpired(room)) {
+        this.callbacks.onError?.('房间已关闭')
+        return null
+      }
+
+      // 游戏已开始，不能加入
+      if (room.status === 'playing') {
+        this.callbacks.onError?.('游戏已开始，无法加入')
+        return null
+      }
+
+      // 房主锁定座位后不再接受新玩家
+      if (room.seatConfig?.locked) {
+        this.callbacks.onError?.('座位已锁定，无法加入')
+        return null
+      }
+
+      if (!(await verifyRoomPassword(room, password))) {
+        this.callbacks.onError?.(password ? '房间密码错误' : '该房间需要密码')
+        return null
+      }
+
+      // 加入房间
+      const newPlayer: Player = {
+        id: this.playerId,
+        name: this.playerName,
+        isHost: false,
+        isReady: false,
+        isOnline: true,
+        lastSeen: Date.now(),
+        publicKey,
+      }
+
+      const updatedRoom: RoomState = {
+        ...room,
+        version: room.version + 1,
+        players: [...room.players, newPlayer],
+        // 观战者改为上桌
+        spectators: room.spectators?.filter(s => s.id !== this.playerId),
+        updatedAt: Date.now(),
+      }
+
+      // 多人同时加入时版本冲突，重新读取后再试
+      const result = await this.storage.compareAndSwapRoom(updatedRoom, room.version)
+      if (result === 'conflict') continue
+      if (result !== 'ok') break
+
+      this.roomId = roomId
+      this.isHost = false
+      this.isSpectator = false
+      await publishRoomListing(this.storage, updatedRoom)
+      this.startSync(updatedRoom)
+      this.callbacks.onRoomUpdate?.(updatedRoom)
+      this.callbacks.onPlayerJoin?.(newPlayer)
+      return updatedRoom
     }
 
-    // 游戏已开始，不能加入
-    if (room.status === 'playing') {
-      this.callbacks.onError?.('游戏已开始，无法加入')
+    this.callbacks.onError?.('加入房间失败')
+    return null
+  }
+
+  /**
+   * 通过加入码观战
+   * 观战者只读：不占座位、不提交操作、不参与房主交接，进行中的对局也可以观战
+   */
+  async watchRoom(roomCode: string, spectatorName?: string, password?: string): Promise<RoomState | null> {
+    if (!this.storage) {
+      this.callbacks.onError?.('存储未初始化')
       return null
     }
 
-    // 加入房间
-    const newPlayer: Player = {
-      id: this.playerId,
-      name: this.playerName,
-      isHost: false,
-      isReady: false,
-      isOnline: true,
-      lastSeen: Date.now(),
+    const roomId = normalizeJoinCode(roomCode)
+    if (!isValidJoinCode(roomId)) {
+      this.callbacks.onError?.('加入码格式不正确')
+      return null
     }
 
-    const updatedRoom: RoomState = {
-      ...room,
-      version: room.version + 1,
-      players: [...room.players, newPlayer],
-      updatedAt: Date.now(),
+    if (spectatorName) {
+      this.setPlayerName(spectatorName)
     }
 
-    const success = await this.storage.saveRoom(updatedRoom)
-    if (!success) {
-      this.callbacks.onError?.('加入房间失败')
+    if (!this.playerName) {
+      this.callbacks.onError?.('请设置玩家名称')
       return null
     }
 
-    this.isHost = false
-    this.startSync(updatedRoom)
-    this.callbacks.onRoomUpdate?.(updatedRoom)
-    this.callbacks.onPlayerJoin?.(newPlayer)
-    return updatedRoom
+    const publicKey = await this.getPublicKey()
+
+    for (let attempt = 0; attempt < MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+      const room = await this.storage.getRoom(roomId)
+      if (!room) {
+        this.callbacks.onError?.('房间不存在或已过期')
+        return null
+      }
+
+      if (room.players.some(p => p.id === this.playerId)) {
+        this.callbacks.onError?.('你已是该房间的玩家，无法观战')
+        return null
+      }
+
+      if (room.status === 'ended' || isRoomExpired(room)) {
+        this.callbacks.onError?.('房间已关闭')
+        return null
+      }
+
+      if (!normalizeSpectatorConfig(room.spectatorConfig).enabled) {
+        this.callbacks.onError?.('该房间不允许观战')
+        return null
+      }
+
+      const spectators = room.spectators ?? []
+      const existing = spectators.find(s => s.id === this.playerId)
+      if (!existing && spectators.length >= MAX_SPECTATORS) {
+        this.callbacks.onError?.('观战人数已满')
+        return null
+      }
+
+      // 刷新页面后重新观战无需再次输入密码
+      if (!existing && !(await verifyRoomPassword(room, password))) {
+        this.callbacks.onError?.(password ? '房间密码错误' : '该房间需要密码')
+        return null
+      }
+
+      const spectator: Spectator = {
+        id: this.playerId,
+        name: this.playerName,
+        joinedAt: existing?.joinedAt ?? Date.now(),
+        publicKey,
+      }
+      const updatedRoom: RoomState = {
+        ...room,
+        version: room.version + 1,
+        spectators: [...spectators.filter(s => s.id !== this.playerId), spectator],
+        updatedAt: Date.now(),
+      }
+
+      const result = await this.storage.compareAndSwapRoom(updatedRoom, room.version)
+      if (result === 'conflict') continue
+      if (result !== 'ok') break
+
+      this.roomId = roomId
+      this.isHost = false
+      this.isSpectator = true
+      this.startSync(updatedRoom)
+      this.callbacks.onRoomUpdate?.(updatedRoom)
+      return updatedRoom
+    }
+
+    this.callbacks.onError?.('观战失败')
+    return null
   }
 
   /**
@@ -202,34 +401,50 @@ export class MultiplayerManager {
     if (!this.storage || !this.roomId || !this.sync) return
 
     this.sync.stop()
+    this.stopHeartbeat()
+
+    if (this.isSpectator) {
+      await this.leaveAsSpectator(this.roomId)
+      this.sync = null
+      this.roomId = null
+      this.isSpectator = false
+      return
+    }
+
+    for (let attempt = 0; attempt < MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+      const room = await this.storage.getRoom(this.roomId)
+      if (!room) break
 
-    const room = await this.storage.getRoom(this.roomId)
-    if (!room) return
+      const updatedPlayers = room.players.filter(p => p.id !== this.playerId)
 
-    const updatedPlayers = room.players.filter(p => p.id !== this.playerId)
+      // 如果房间空了，删除房间
+      if (updatedPlayers.length === 0) {
+        await this.storage.deleteRoom(this.roomId)
+        await removeRoomListing(this.storage, this.roomId)
+        break
+      }
 
-    // 如果是房主离开且还有其他玩家，转移房主
-    let newHostId = room.hostId
-    if (this.isHost && updatedPlayers.length > 0) {
-      updatedPlayers[0].isHost = true
-      newHostId = updatedPlayers[0].id
-    }
+      // 如果是房主离开，转移给接班人（持有对局快照），新房主的同步回调会接管对局
+      let newHostId = room.hostId
+      if (room.hostId === this.playerId) {
+        newHostId = pickHostSuccessor(room)?.id ?? updatedPlayers[0].id
+      }
 
-    // 如果房间空了，删除房间
-    if (updatedPlayers.length === 0) {
-      await this.storage.deleteRoom(this.roomId)
-    } else {
-      await this.storage.saveRoom({
+      const updatedRoom: RoomState = {
         ...room,
         version: room.version + 1,
         hostId: newHostId,
-        players: updatedPlayers,
+        players: updatedPlayers.map(p => ({ ...p, isHost: p.id === newHostId })),
         updatedAt: Date.now(),
-      })
+      }
+      const result = await this.storage.compareAndSwapRoom(updatedRoom, room.version)
+      if (result === 'ok') await publishRoomListing(this.storage, updatedRoom)
+      if (result !== 'conflict') break
     }
 
     this.callbacks.onPlayerLeave?.(this.playerId)
     this.sync = null
+    this.roomId = null
     this.isHost = false
   }
 
@@ -237,7 +452,7 @@ export class MultiplayerManager {
    * 设置准备状态
    */
   async setReady(ready: boolean): Promise<void> {
-    if (!this.sync) return
+    if (!this.sync || this.isSpectator) return
 
     await this.sync.updateWithLock((room) => ({
       ...room,
@@ -247,8 +462,48 @@ export class MultiplayerManager {
     }))
   }
 
+  /**
+   * 更新座位与板子配置（仅房主，开局前）
+   */
+  async updateSeatConfig(seatConfig: RoomSeatConfig): Promise<boolean> {
+    if (!this.isHost || !this.sync) {
+      this.callbacks.onError?.('只有房主才能修改座位')
+      return false
+    }
+
+    const room = await this.sync.updateWithLock((room) =>
+      room.status === 'waiting' ? { ...room, seatConfig } : room
+    )
+    if (room?.status !== 'waiting') {
+      this.callbacks.onError?.('游戏已开始，无法修改座位')
+      return false
+    }
+    return true
+  }
+
+  /**
+   * 更新观战设置（仅房主，对局中也可以修改）
+   */
+  async updateSpectatorConfig(spectatorConfig: RoomSpectatorConfig): Promise<boolean> {
+    if (!this.isHost || !this.sync) {
+      this.callbacks.onError?.('只有房主才能修改观战设置')
+      return false
+    }
+
+    const config = normalizeSpectatorConfig(spectatorConfig)
+    const room = await this.sync.updateWithLock((room) => ({
+      ...room,
+      spectatorConfig: config,
+      // 关闭延迟与上帝视角后不再需要单独的观战画面
+      spectatorFeed: usesSpectatorFeed(config) ? room.spectatorFeed : undefined,
+      spectators: config.enabled ? room.spectators : undefined,
+    }))
+    return room !== null
+  }
+
   /**
    * 开始游戏（仅房主）
+   * 需要全员准备，且房主已锁定座位与板子
    */
   async startGame(): Promise<boolean> {
     if (!this.isHost || !this.sync) {
@@ -256,12 +511,19 @@ export class MultiplayerManager {
       return false
     }
 
+    let error: string | null = null
     const room = await this.sync.updateWithLock((room) => {
+      error = null
       // 检查所有人是否准备
       const allReady = room.players.every(p => p.isReady)
       if (!allReady) {
-        return room // 不更新
+        error = '还有玩家未准备'
+      } else if (!room.seatConfig?.locked) {
+        error = '请先锁定座位与板子'
+      } else {
+        error = validateSeatConfig(room.seatConfig, room.players)
       }
+      if (error) return room // 不更新
 
       return {
         ...room,
@@ -270,51 +532,134 @@ export class MultiplayerManager {
     })
 
     if (room?.status === 'playing') {
+      // 已开始的房间不再出现在可加入列表中
+      if (this.storage) await publishRoomListing(this.storage, room)
       this.callbacks.onGameStart?.()
       return true
     }
 
-    this.callbacks.onError?.('还有玩家未准备')
+    this.callbacks.onError?.(error ?? '开始游戏失败')
     return false
   }
 
   /**
    * 更新游戏状态（仅房主）
+   * gameState 为公开视角，playerViews 为各玩家加密后的私有视角；hostSnapshot 不传时保留上一次的快照
    */
-  async updateGameState(gameState: unknown): Promise<boolean> {
+  async updateGameState(
+    gameState: unknown,
+    playerViews?: Record<string, SealedView>,
+    hostSnapshot?: HostSnapshot
+  ): Promise<boolean> {
     if (!this.isHost || !this.sync) return false
 
     const room = await this.sync.updateWithLock((room) => ({
       ...room,
       gameState,
+      playerViews,
+      hostSnapshot: hostSnapshot ?? room.hostSnapshot,
     }))
 
     return room !== null
   }
 
+  /**
+   * 发布观战画面（仅房主）
+   */
+  async updateSpectatorFeed(spectatorFeed: SpectatorFeed): Promise<boolean> {
+    if (!this.isHost || !this.sync) return false
+
+    const room = await this.sync.updateWithLock((room) => ({ ...room, spectatorFeed }))
+    return room !== null
+  }
+
+  /**
+   * 读取本机玩家可见的游戏状态
+   * 有自己的加密视角时解密使用，否则退回公开视角
+   */
+  async readGameState(room: RoomState): Promise<unknown> {
+    if (this.isSpectator) return this.readSpectatorFeed(room)
+
+    const sealed = room.playerViews?.[this.playerId]
+    if (sealed) {
+      const view = await openView<unknown>(sealed)
+      if (view) return view
+    }
+    return room.gameState
+  }
+
+  /**
+   * 读取房主交接快照，只有房主本人与接班人能解密
+   */
+  async readHostSnapshot(room: RoomState): Promise<unknown> {
+    const sealed = room.hostSnapshot?.sealed[this.playerId]
+    return sealed ? openView<unknown>(sealed) : null
+  }
+
   /**
    * 提交玩家操作
+   * 操作写入房间级的队列，与房主发布的游戏状态互不覆盖
+   * 队列对所有人可读，操作内容加密给房主，公开部分只有 ID 与提交时间
    */
-  async submitAction(action: Omit<PlayerAction, 'playerId' | 'timestamp'>): Promise<boolean> {
-    if (!this.sync) return false
+  async submitAction(action: Omit<PlayerAction, 'id' | 'playerId' | 'timestamp'>): Promise<boolean> {
+    if (!this.storage || !this.sync || !this.roomId || this.isSpectator) return false
 
     const fullAction: PlayerAction = {
       ...action,
+      id: generateActionId(),
       playerId: this.playerId,
       timestamp: Date.now(),
     }
 
-    // 将操作写入房间状态
-    const room = await this.sync.updateWithLock((room) => {
-      const actions = (room.gameState as { actions?: PlayerAction[] })?.actions || []
-      return {
-        ...room,
-        gameState: {
-          ...(room.gameState as object),
-          actions: [...actions, fullAction],
-        },
+    const current = await this.storage.getRoom(this.roomId)
+    if (!current) return false
+    const sealed = await sealRoomAction(current, fullAction)
+    if (!sealed) {
+      console.error('[MultiplayerManager] Host has no public key, action not submitted')
+      return false
+    }
+
+    // 重试时按 ID 去重，不会重复提交
+    const room = await this.sync.updateWithLock((room) => ({
+      ...room,
+      actions: mergeActionQueues(room.actions ?? [], [sealed]),
+    }))
+
+    return room !== null
+  }
+
+  /**
+   * 解密操作队列（仅房主）
+   * 无法解密的操作（发给旧房主的、格式错误的）放入 unreadableIds，由房主直接移除
+   */
+  async readActions(room: RoomState): Promise<{ actions: PlayerAction[]; unreadableIds: string[] }> {
+    const actions: PlayerAction[] = []
+    const unreadableIds: string[] = []
+    if (!this.isHost) return { actions, unreadableIds }
+
+    for (const raw of room.actions ?? []) {
+      if (!this.openedActions.has(raw.id)) {
+        this.openedActions.set(raw.id, await openRoomAction(raw, this.playerId))
       }
-    })
+      const action = this.openedActions.get(raw.id)
+      if (action) actions.push(action)
+      else unreadableIds.push(raw.id)
+    }
+    return { actions, unreadableIds }
+  }
+
+  /**
+   * 移除已处理的操作（仅房主）
+   * 只删除指定 ID，处理期间新提交的操作会保留
+   */
+  async consumeActions(actionIds: string[]): Promise<boolean> {
+    if (!this.isHost || !this.sync || actionIds.length === 0) return false
+
+    const consumed = new Set(actionIds)
+    const room = await this.sync.updateWithLock((room) => ({
+      ...room,
+      actions: (room.actions ?? []).filter(a => !consumed.has(a.id)),
+    }))
 
     return room !== null
   }
@@ -325,10 +670,12 @@ export class MultiplayerManager {
   async endGame(): Promise<void> {
     if (!this.isHost || !this.sync) return
 
-    await this.sync.updateWithLock((room) => ({
+    const room = await this.sync.updateWithLock((room) => ({
       ...room,
       status: 'ended' as const,
+      hostSnapshot: undefined,
     }))
+    if (room && this.storage) await publishRoomListing(this.storage, room)
 
     this.callbacks.onGameEnd?.()
   }
@@ -360,15 +707,20 @@ export class MultiplayerManager {
         return false
       }
 
+      // 观战者重新登记（公钥可能已变化）
+      if (this.isSpectator) {
+        return (await this.watchRoom(this.roomId)) !== null
+      }
+
       // 检查是否还在房间中
       const player = room.players.find(p => p.id === this.playerId)
       if (!player) {
         // 尝试重新加入
-        return (await this.joinRoom()) !== null
+        return (await this.joinRoom(this.roomId)) !== null
       }
 
-      // 恢复同步
-      this.isHost = player.isHost
+      // 恢复同步，房主身份由同步回调确认
+      this.isHost = false
       this.startSync(room)
       
       // 更新在线状态
@@ -399,6 +751,7 @@ export class MultiplayerManager {
    * 销毁
    */
   destroy(): void {
+    this.stopHeartbeat()
     this.sync?.stop()
     this.sync = null
     this.storage = null
@@ -409,7 +762,10 @@ export class MultiplayerManager {
   private startSync(room: RoomState): void {
     if (!this.storage || !this.roomId) return
 
-    this.sync = new SyncManager(this.storage, this.roomId)
+    const transport = this.config
+      ? createRoomTransport(this.storage, this.config, this.roomId, this.playerId, DEFAULT_SYNC_CONFIG)
+      : undefined
+    this.sync = new SyncManager(this.storage, this.roomId, transport)
     this.sync.setOnUpdate((updatedRoom) => {
       this.callbacks.onRoomUpdate?.(updatedRoom)
       
@@ -421,22 +777,128 @@ export class MultiplayerManager {
           this.callbacks.onGameEnd?.()
         }
       }
+
+      void this.checkHost(updatedRoom)
     })
     this.sync.start(room.status)
+    // 观战者只读，不写心跳
+    if (!this.isSpectator) this.startHeartbeat()
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat()
+    this.heartbeatId = setInterval(() => {
+      void this.updateOnlineStatus(true)
+    }, HEARTBEAT_INTERVAL_MS)
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatId) {
+      clearInterval(this.heartbeatId)
+      this.heartbeatId = null
+    }
+  }
+
+  /**
+   * 房主身份检查
+   * 房主失联时由接班人接管；本机成为房主或失去房主身份时通知调用方启动/停止对局引擎
+   */
+  private async checkHost(room: RoomState): Promise<void> {
+    if (this.isSpectator) return
+
+    if (room.hostId === this.playerId) {
+      if (!this.isHost) {
+        this.isHost = true
+        this.callbacks.onBecomeHost?.(room)
+      }
+      return
+    }
+
+    if (this.isHost) {
+      this.isHost = false
+      this.callbacks.onHostLost?.()
+    }
+
+    if (!this.sync || this.claimingHost || room.status === 'ended') return
+    // 未开启交接时没有接班人能解密快照，等待原房主重新上线
+    if (room.status === 'playing' && !isHostMigrationEnabled(room)) return
+    if (!isHostStale(room) || pickHostSuccessor(room)?.id !== this.playerId) return
+
+    this.claimingHost = true
+    try {
+      // 写入前基于最新房间再确认一次，避免房主刚恢复心跳时被抢走
+      await this.sync.updateWithLock((latest) => {
+        if (latest.hostId === this.playerId || !isHostStale(latest)) return latest
+        return {
+          ...latest,
+          hostId: this.playerId,
+          players: latest.players.map(p => ({ ...p, isHost: p.id === this.playerId })),
+        }
+      })
+    } finally {
+      this.claimingHost = false
+    }
   }
 
   private async updateOnlineStatus(online: boolean): Promise<void> {
-    if (!this.sync) return
+    if (!this.sync || this.isSpectator) return
 
+    const publicKey = await this.getPublicKey()
     await this.sync.updateWithLock((room) => ({
       ...room,
       players: room.players.map(p =>
         p.id === this.playerId
-          ? { ...p, isOnline: online, lastSeen: Date.now() }
+          ? { ...p, isOnline: online, lastSeen: Date.now(), publicKey: publicKey ?? p.publicKey }
           : p
       ),
     }))
   }
+
+  /**
+   * 观战者可见的游戏状态
+   * 房主发布了观战画面时优先使用（开启上帝视角则解密自己的完整状态），否则为房间的公开视角
+   */
+  private async readSpectatorFeed(room: RoomState): Promise<unknown> {
+    const feed = room.spectatorFeed
+    if (!feed || !usesSpectatorFeed(normalizeSpectatorConfig(room.spectatorConfig))) return room.gameState
+
+    const sealed = feed.godViews?.[this.playerId]
+    if (sealed) {
+      const view = await openView<unknown>(sealed)
+      if (view) return view
+    }
+    return feed.gameState
+  }
+
+  private async leaveAsSpectator(roomId: string): Promise<void> {
+    if (!this.storage) return
+
+    for (let attempt = 0; attempt < MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+      const room = await this.storage.getRoom(roomId)
+      if (!room?.spectators?.some(s => s.id === this.playerId)) break
+
+      const updatedRoom: RoomState = {
+        ...room,
+        version: room.version + 1,
+        spectators: room.spectators.filter(s => s.id !== this.playerId),
+        updatedAt: Date.now(),
+      }
+      const result = await this.storage.compareAndSwapRoom(updatedRoom, room.version)
+      if (result !== 'conflict') break
+    }
+  }
+
+  /**
+   * 本机公钥，不支持 WebCrypto 的环境返回 undefined（只能看到公开视角）
+   */
+  private async getPublicKey(): Promise<string | undefined> {
+    try {
+      return (await getPlayerKeyPair()).publicKey
+    } catch (error) {
+      console.error('[MultiplayerManager] Failed to get player key:', error)
+      return undefined
+    }
+  }
 }
 
 // 单例
@@ -0,0 +1,140 @@
+/**
+ * 房间增量
+ * 推送通道只发送两次房间写入之间的变化：新增的聊天记录、阶段切换、投票等，
+ * 不再每次下载包含完整消息记录的整个房间
+ */
+
+import type { RoomState, SealedView } from '../storage/interface'
+
+type JsonObject = Record<string, unknown>
+
+/**
+ * 公开游戏状态的增量
+ */
+export interface GameStateDelta {
+  /** 追加到消息记录末尾的新消息；消息记录被整体替换时放在 changes 中 */
+  messages?: unknown[]
+  /** 其余变化的字段（阶段、投票、存活等） */
+  changes: JsonObject
+  removed: string[]
+}
+
+/**
+ * 房间增量
+ */
+export interface RoomDelta {
+  /** 增量基于的房间版本，与本地版本不一致时需要重新拉取完整房间 */
+  baseVersion: number
+  version: number
+  /** 变化的房间字段，不含 gameState 与 playerViews */
+  changes: Partial<RoomState>
+  removed: string[]
+  /** 公开游戏状态的增量，null 表示游戏状态被清除 */
+  game?: GameStateDelta | null
+  /** 订阅者自己的加密视角，null 表示被清除；由推送服务按订阅者填写 */
+  playerView?: SealedView | null
+}
+
+// 单独处理的房间字段
+const ROOM_SPECIAL_KEYS = ['gameState', 'playerViews']
+
+const sameJSON = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+function diffFields(prev: JsonObject, next: JsonObject, skip: string[]): { changes: JsonObject; removed: string[] } {
+  const changes: JsonObject = {}
+  const removed: string[] = []
+  for (const key of Object.keys(next)) {
+    if (skip.includes(key) || next[key] === undefined) continue
+    if (!sameJSON(prev[key], next[key])) changes[key] = next[key]
+  }
+  for (const key of Object.keys(prev)) {
+    if (skip.includes(key) || prev[key] === undefined) continue
+    if (next[key] === undefined) removed.push(key)
+  }
+  return { changes, removed }
+}
+
+function diffGameState(prev: JsonObject, next: JsonObject): GameStateDelta {
+  const prevMessages = prev.messages
+  const nextMessages = next.messages
+  // 消息只会追加；旧消息有变化（如房主交接后从检查点继续）时整体替换
+  const appendOnly =
+    Array.isArray(prevMessages) &&
+    Array.isArray(nextMessages) &&
+    nextMessages.length >= prevMessages.length &&
+    prevMessages.every((message, index) => sameJSON(message, nextMessages[index]))
+
+  if (!appendOnly) return diffFields(prev, next, [])
+
+  const delta: GameStateDelta = diffFields(prev, next, ['messages'])
+  if (nextMessages.length > prevMessages.length) delta.messages = nextMessages.slice(prevMessages.length)
+  return delta
+}
+
+/**
+ * 计算两次房间写入之间的增量（不含玩家视角，由推送服务按订阅者补充）
+ */
+export function diffRoom(prev: RoomState, next: RoomState): RoomDelta {
+  const { changes, removed } = diffFields(prev as unknown as JsonObject, next as unknown as JsonObject, ROOM_SPECIAL_KEYS)
+  const delta: RoomDelta = {
+    baseVersion: prev.version,
+    version: next.version,
+    changes: changes as Partial<RoomState>,
+    removed,
+  }
+
+  if (next.gameState === undefined) {
+    if (prev.gameState !== undefined) delta.game = null
+  } else if (!sameJSON(prev.gameState, next.gameState)) {
+    delta.game = diffGameState((prev.gameState ?? {}) as JsonObject, next.gameState as JsonObject)
+  }
+  return delta
+}
+
+/**
+ * 补充订阅者自己的加密视角，没有变化时不携带
+ */
+export function withPlayerView(delta: RoomDelta, prev: RoomState, next: RoomState, playerId: string): RoomDelta {
+  const prevView = prev.playerViews?.[playerId]
+  const nextView = next.playerViews?.[playerId]
+  if (sameJSON(prevView, nextView)) return delta
+  return { ...delta, playerView: nextView ?? null }
+}
+
+/**
+ * 只保留订阅者自己的加密视角，其他玩家的视角对其无用
+ */
+export function roomForPlayer(room: RoomState, playerId: string): RoomState {
+  const view = room.playerViews?.[playerId]
+  return { ...room, playerViews: view ? { [playerId]: view } : undefined }
+}
+
+/**
+ * 在本地房间上应用增量，版本不匹配时返回 null
+ */
+export function applyRoomDelta(base: RoomState, delta: RoomDelta, playerId: string): RoomState | null {
+  if (base.version !== delta.baseVersion) return null
+
+  const room = { ...base, ...delta.changes, version: delta.version } as JsonObject
+  for (const key of delta.removed) delete room[key]
+
+  if (delta.game === null) {
+    delete room.gameState
+  } else if (delta.game) {
+    const game = { ...((base.gameState ?? {}) as JsonObject), ...delta.game.changes }
+    for (const key of delta.game.removed) delete game[key]
+    if (delta.game.messages) {
+      game.messages = [...((game.messages as unknown[] | undefined) ?? []), ...delta.game.messages]
+    }
+    room.gameState = game
+  }
+
+  if (delta.playerView !== undefined) {
+    const playerViews = { ...(base.playerViews ?? {}) }
+    if (delta.playerView) playerViews[playerId] = delta.playerView
+    else delete playerViews[playerId]
+    room.playerViews = playerViews
+  }
+
+  return room as unknown as RoomState
+}
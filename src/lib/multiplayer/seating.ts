@@ -0,0 +1,82 @@
+/**
+ * 联机座位配置
+ * 房主指定真人座位、保留 AI 座位并选择模型与角色，锁定板子后开局
+ */
+
+import type { Player as MultiPlayer, RoomSeat, RoomSeatConfig } from '../storage/interface'
+import type { CustomCharacter } from '@/types/custom-character'
+import type { GeneratedCharacter } from '@/lib/character-generator'
+import { getDefaultBoard, hasBoardErrors, MIN_PLAYER_COUNT, type BoardConfig } from '@/lib/board-config'
+import { DEFAULT_TURN_TIMER_CONFIG } from '@/lib/turn-timer'
+import { DEFAULT_GAME_RULES } from '@/lib/game-rules'
+
+// 新房间默认的人数
+export const DEFAULT_ROOM_PLAYER_COUNT = 10
+
+export function createDefaultSeatConfig(playerCount: number = DEFAULT_ROOM_PLAYER_COUNT): RoomSeatConfig {
+  const board = getDefaultBoard(Math.max(playerCount, MIN_PLAYER_COUNT)) ?? getDefaultBoard(DEFAULT_ROOM_PLAYER_COUNT)!
+  return {
+    board,
+    seats: Array.from({ length: board.playerCount }, (): RoomSeat => ({ kind: 'open' })),
+    difficulty: 'normal',
+    aiCharacters: 'genshin',
+    // 联机时等待掉线或挂机的玩家会卡住整桌，默认开启限时
+    turnTimers: { ...DEFAULT_TURN_TIMER_CONFIG, enabled: true },
+    rules: DEFAULT_GAME_RULES,
+    // 接班人能看到全部隐藏信息，由房主确认后开启
+    hostMigration: false,
+    locked: false,
+  }
+}
+
+/**
+ * 更换板子，座位数随人数增减，多出的座位从末尾移除
+ */
+export function withBoard(config: RoomSeatConfig, board: BoardConfig): RoomSeatConfig {
+  const seats = Array.from({ length: board.playerCount }, (_, i): RoomSeat => config.seats[i] ?? { kind: 'open' })
+  return { ...config, board, seats }
+}
+
+/**
+ * 修改一个座位；把真人指定到新座位时，其原来的座位改为开放
+ */
+export function withSeat(config: RoomSeatConfig, index: number, seat: RoomSeat): RoomSeatConfig {
+  const seats = config.seats.map((s, i): RoomSeat => {
+    if (i === index) return seat
+    if (seat.kind === 'human' && s.kind === 'human' && s.playerId === seat.playerId) return { kind: 'open' }
+    return s
+  })
+  return { ...config, seats }
+}
+
+/**
+ * 检查能否按该配置开局，可以时返回 null
+ * 指定座位的玩家已离开房间时，该座位视为开放
+ */
+export function validateSeatConfig(config: RoomSeatConfig, players: MultiPlayer[]): string | null {
+  if (hasBoardErrors(config.board)) return '板子配置有误'
+  if (config.seats.length !== config.board.playerCount) return '座位数与板子人数不一致'
+
+  const availableSeats = config.seats.filter(s => s.kind !== 'ai').length
+  if (players.length > availableSeats) return `座位不足：${players.length} 名玩家，只有 ${availableSeats} 个真人座位`
+  return null
+}
+
+/**
+ * 房主自定义角色转换为 AI 角色（与单机开局时的转换一致）
+ */
+export function customCharacterToGenerated(character: CustomCharacter): GeneratedCharacter {
+  return {
+    displayName: character.display_name,
+    persona: {
+      styleLabel: '',
+      voiceRules: character.style_label?.trim() ? [character.style_label.trim()] : [],
+      mbti: character.mbti || '',
+      gender: character.gender,
+      age: character.age,
+      basicInfo: character.basic_info?.trim() || undefined,
+      voiceId: undefined,
+    },
+    avatarSeed: character.avatar_seed || undefined,
+  }
+}
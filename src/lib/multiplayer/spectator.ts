@@ -0,0 +1,128 @@
+/**
+ * 观战
+ * 观战者只读连接房间，不占座位、不提交操作；房主把观战画面延迟发布，
+ * 开启上帝视角时把完整状态分别加密给各观战者，玩家无法解密
+ */
+
+import type { GameState } from '@/types/game'
+import type { RoomSpectatorConfig, Spectator, SpectatorFeed } from '../storage/interface'
+import { createPublicView } from './state-view'
+import { sealViews } from './view-crypto'
+
+// 单个房间的观战人数上限
+export const MAX_SPECTATORS = 50
+
+export const MAX_SPECTATOR_DELAY_SECONDS = 600
+
+export const DEFAULT_SPECTATOR_CONFIG: RoomSpectatorConfig = {
+  enabled: true,
+  delaySeconds: 0,
+  godView: false,
+}
+
+/**
+ * 校验并补全观战设置（旧房间没有该字段）
+ */
+export function normalizeSpectatorConfig(value?: Partial<RoomSpectatorConfig> | null): RoomSpectatorConfig {
+  const delay = value?.delaySeconds
+  return {
+    enabled: typeof value?.enabled === 'boolean' ? value.enabled : DEFAULT_SPECTATOR_CONFIG.enabled,
+    delaySeconds:
+      typeof delay === 'number' && Number.isFinite(delay)
+        ? Math.min(MAX_SPECTATOR_DELAY_SECONDS, Math.max(0, Math.round(delay)))
+        : DEFAULT_SPECTATOR_CONFIG.delaySeconds,
+    godView: typeof value?.godView === 'boolean' ? value.godView : DEFAULT_SPECTATOR_CONFIG.godView,
+  }
+}
+
+/**
+ * 是否需要单独发布观战画面；不延迟且不开上帝视角时，观战者直接读取房间的公开视角
+ */
+export function usesSpectatorFeed(config: RoomSpectatorConfig): boolean {
+  return config.enabled && (config.delaySeconds > 0 || config.godView)
+}
+
+export interface SpectatorBroadcasterOptions {
+  getConfig: () => RoomSpectatorConfig
+  getSpectators: () => Spectator[]
+  publish: (feed: SpectatorFeed) => Promise<void>
+}
+
+interface BufferedFrame {
+  capturedAt: number
+  state: GameState
+}
+
+/**
+ * 观战画面的延迟缓冲（房主端）
+ * 每次发布状态时推入完整状态，到期后只发布其中最新的一帧，中间的帧直接丢弃
+ */
+export class SpectatorBroadcaster {
+  private options: SpectatorBroadcasterOptions
+  private frames: BufferedFrame[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+  // 串行发布，避免旧画面晚于新画面写入
+  private publishing: Promise<void> = Promise.resolve()
+  private stopped = false
+
+  constructor(options: SpectatorBroadcasterOptions) {
+    this.options = options
+  }
+
+  push(state: GameState, now: number = Date.now()): void {
+    if (this.stopped || !usesSpectatorFeed(this.options.getConfig())) return
+    this.frames.push({ capturedAt: now, state })
+    this.schedule(now)
+  }
+
+  stop(): void {
+    this.stopped = true
+    this.frames = []
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private schedule(now: number): void {
+    const next = this.frames[0]
+    if (this.timer || !next) return
+    const wait = Math.max(0, next.capturedAt + this.options.getConfig().delaySeconds * 1000 - now)
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.flush(Date.now())
+    }, wait)
+  }
+
+  private flush(now: number): void {
+    const delayMs = this.options.getConfig().delaySeconds * 1000
+    let due: BufferedFrame | undefined
+    while (this.frames.length > 0 && this.frames[0].capturedAt + delayMs <= now) {
+      due = this.frames.shift()
+    }
+    if (due) {
+      const frame = due
+      this.publishing = this.publishing
+        .then(() => this.send(frame))
+        .catch((error) => console.error('[SpectatorBroadcaster] Failed to publish feed:', error))
+    }
+    this.schedule(now)
+  }
+
+  private async send(frame: BufferedFrame): Promise<void> {
+    if (this.stopped) return
+    const config = this.options.getConfig()
+    const views: Record<string, { publicKey: string; data: GameState }> = {}
+    if (config.godView) {
+      for (const spectator of this.options.getSpectators()) {
+        if (spectator.publicKey) views[spectator.id] = { publicKey: spectator.publicKey, data: frame.state }
+      }
+    }
+    const godViews = Object.keys(views).length > 0 ? await sealViews(views) : undefined
+    await this.options.publish({
+      gameState: createPublicView(frame.state),
+      godViews,
+      capturedAt: frame.capturedAt,
+    })
+  }
+}
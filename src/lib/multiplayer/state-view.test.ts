@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { createPlayerView, createPublicView } from '@/lib/multiplayer/state-view'
+import { makeState } from '@/test/game-state'
+
+// 查验阶段房主在等 5 号预言家（座位 4）
+const seerTurn = () => ({
+  ...makeState({ phase: 'NIGHT_SEER_ACTION' }),
+  turnDeadlines: { 'fixture-4': 30000 },
+})
+
+describe('turnDeadlines', () => {
+  it('夜间公开视角不带截止时间', () => {
+    expect(createPublicView(seerTurn()).turnDeadlines).toBeUndefined()
+  })
+
+  it('玩家只看到自己的截止时间', () => {
+    const state = { ...seerTurn(), turnDeadlines: { 'fixture-4': 30000, 'fixture-2': 40000 } }
+    expect(createPlayerView(state, 'fixture-4').turnDeadlines).toEqual({ 'fixture-4': 30000 })
+    expect(createPlayerView(state, 'fixture-3').turnDeadlines).toBeUndefined()
+  })
+})
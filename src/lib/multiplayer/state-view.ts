@@ -0,0 +1,137 @@
+/**
+ * 玩家视角的游戏状态
+ * 房主持有完整状态，发布到房间前按观看者裁剪隐藏信息，避免通过存储桶或开发者工具读取他人身份
+ */
+
+import type { GameState, Player } from '@/types/game'
+
+type NightActions = GameState['nightActions']
+type NightRecord = NonNullable<GameState['nightHistory']>[number]
+
+// 未公开身份的玩家统一显示为平民，客户端无法区分真假
+const HIDDEN_ROLE: Pick<Player, 'role' | 'alignment'> = { role: 'Villager', alignment: 'village' }
+
+/**
+ * 对局结束后所有信息公开
+ */
+function isRevealAll(state: GameState): boolean {
+  return state.phase === 'GAME_END' || state.winner !== null
+}
+
+/**
+ * 观看者能否看到某名玩家的真实身份
+ * 自己、狼队友、已翻牌的白痴可见
+ */
+function canSeeRole(state: GameState, viewer: Player | null, target: Player): boolean {
+  if (viewer?.playerId === target.playerId) return true
+  if (viewer?.alignment === 'wolf' && target.alignment === 'wolf') return true
+  return target.role === 'Idiot' && !!state.roleAbilities.idiotRevealed
+}
+
+/**
+ * 按角色保留当晚可见的行动
+ * 狼人看到刀口与狼队投票，女巫看到刀口与自己的用药，预言家看到自己的查验，守卫看到自己的守护
+ */
+function redactNightActions(actions: NightActions, viewer: Player | null): NightActions {
+  const role = viewer?.role
+  const result: NightActions = {}
+  if (viewer?.alignment === 'wolf') {
+    result.wolfVotes = actions.wolfVotes
+    result.wolfTarget = actions.wolfTarget
+    result.pendingWolfVictim = actions.pendingWolfVictim
+  }
+  if (role === 'Witch') {
+    result.wolfTarget = actions.wolfTarget
+    result.witchSave = actions.witchSave
+    result.witchPoison = actions.witchPoison
+    result.pendingWolfVictim = actions.pendingWolfVictim
+    result.pendingPoisonVictim = actions.pendingPoisonVictim
+  }
+  if (role === 'Seer') {
+    result.seerTarget = actions.seerTarget
+    result.seerResult = actions.seerResult
+    result.seerHistory = actions.seerHistory
+  }
+  if (role === 'Guard') {
+    result.guardTarget = actions.guardTarget
+    result.lastGuardTarget = actions.lastGuardTarget
+  }
+  return result
+}
+
+/**
+ * 历史夜晚记录只保留猎人开枪（公开信息）与本角色可见的行动
+ * 死因会暴露女巫用药，不对外公开
+ */
+function redactNightRecord(record: NightRecord, viewer: Player | null): NightRecord {
+  const role = viewer?.role
+  const result: NightRecord = { hunterShot: record.hunterShot }
+  if (viewer?.alignment === 'wolf') {
+    result.wolfTarget = record.wolfTarget
+  }
+  if (role === 'Witch') {
+    result.wolfTarget = record.wolfTarget
+    result.witchSave = record.witchSave
+    result.witchPoison = record.witchPoison
+    result.deaths = record.deaths
+  }
+  if (role === 'Seer') {
+    result.seerTarget = record.seerTarget
+    result.seerResult = record.seerResult
+  }
+  if (role === 'Guard') {
+    result.guardTarget = record.guardTarget
+  }
+  return result
+}
+
+/**
+ * 只保留观看者自己的回合截止时间
+ * 房主等待的座位会暴露夜间行动者的身份（如查验阶段在等谁），公开视角不带截止时间
+ */
+function ownTurnDeadline(state: GameState, viewerPlayerId: string | null): GameState['turnDeadlines'] {
+  const deadline = viewerPlayerId ? state.turnDeadlines?.[viewerPlayerId] : undefined
+  return deadline === undefined ? undefined : { [viewerPlayerId!]: deadline }
+}
+
+/**
+ * 生成某名玩家可见的游戏状态
+ * viewerPlayerId 为 null 时生成公开视角（观战者、未提交公钥的客户端）
+ */
+export function createPlayerView(state: GameState, viewerPlayerId: string | null): GameState {
+  const turnDeadlines = ownTurnDeadline(state, viewerPlayerId)
+  if (isRevealAll(state)) return { ...state, turnDeadlines }
+
+  const viewer = state.players.find(p => p.playerId === viewerPlayerId) ?? null
+  const isOwnAbility = (role: Player['role']) => viewer?.role === role
+
+  return {
+    ...state,
+    // 种子可以复算发牌结果
+    seed: undefined,
+    turnDeadlines,
+    players: state.players.map(p => (canSeeRole(state, viewer, p) ? p : { ...p, ...HIDDEN_ROLE })),
+    events: state.events.filter(
+      e => e.visibility === 'public' || (!!viewerPlayerId && !!e.visibleTo?.includes(viewerPlayerId))
+    ),
+    nightActions: redactNightActions(state.nightActions, viewer),
+    nightHistory: state.nightHistory
+      ? Object.fromEntries(
+          Object.entries(state.nightHistory).map(([day, record]) => [day, redactNightRecord(record, viewer)])
+        )
+      : undefined,
+    roleAbilities: {
+      witchHealUsed: isOwnAbility('Witch') && state.roleAbilities.witchHealUsed,
+      witchPoisonUsed: isOwnAbility('Witch') && state.roleAbilities.witchPoisonUsed,
+      hunterCanShoot: isOwnAbility('Hunter') ? state.roleAbilities.hunterCanShoot : true,
+      idiotRevealed: state.roleAbilities.idiotRevealed,
+    },
+  }
+}
+
+/**
+ * 公开视角，写入房间的 gameState 字段
+ */
+export function createPublicView(state: GameState): GameState {
+  return createPlayerView(state, null)
+}
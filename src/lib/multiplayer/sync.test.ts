@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import type { Player, RoomState } from '@/lib/storage'
+import { mergeActionQueues, openRoomAction, sealRoomAction } from '@/lib/multiplayer/sync'
+import type { PlayerAction } from '@/lib/multiplayer/types'
+import { getPlayerKeyPair } from '@/lib/multiplayer/view-crypto'
+
+/** 另一名玩家的公钥（本机持有的是房主私钥） */
+async function otherPublicKey(): Promise<string> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveKey'])
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey))
+  return btoa(String.fromCharCode(...raw))
+}
+
+function makePlayer(id: string, publicKey?: string): Player {
+  return { id, name: id, isHost: id === 'host', isReady: true, isOnline: true, lastSeen: Date.now(), publicKey }
+}
+
+async function makeRoom(overrides: Partial<RoomState> = {}): Promise<RoomState> {
+  const { publicKey } = await getPlayerKeyPair()
+  return {
+    id: 'ROOM01',
+    version: 1,
+    hostId: 'host',
+    status: 'playing',
+    players: [makePlayer('host', publicKey), makePlayer('wolf', await otherPublicKey()), makePlayer('villager', await otherPublicKey())],
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  }
+}
+
+const wolfChat: PlayerAction = {
+  id: 'action-1',
+  type: 'wolf_chat',
+  playerId: 'wolf',
+  payload: { day: 1, phase: 'NIGHT_WOLF_ACTION', content: '今晚刀 3 号，明天我跳预言家' },
+  timestamp: 1000,
+}
+
+describe('sealRoomAction', () => {
+  it('队列中只能看到 ID 与提交时间，看不到狼队夜聊内容', async () => {
+    const sealed = await sealRoomAction(await makeRoom(), wolfChat)
+    expect(sealed).not.toBeNull()
+    expect(Object.keys(sealed!)).toEqual(['id', 'timestamp', 'sealed'])
+    const text = JSON.stringify(sealed)
+    expect(text).not.toContain('wolf_chat')
+    expect(text).not.toContain('NIGHT_WOLF_ACTION')
+    expect(text).not.toContain('"wolf"')
+  })
+
+  it('只加密给房主与交接接班人', async () => {
+    const room = await makeRoom({ hostSnapshot: { successorId: 'villager', sealed: {}, updatedAt: 0 } })
+    expect(Object.keys((await sealRoomAction(room, wolfChat))!.sealed).sort()).toEqual(['host', 'villager'])
+    expect(Object.keys((await sealRoomAction(await makeRoom(), wolfChat))!.sealed)).toEqual(['host'])
+  })
+
+  it('房主没有公钥时不提交', async () => {
+    const room = await makeRoom()
+    room.players = room.players.map((p) => (p.id === 'host' ? { ...p, publicKey: undefined } : p))
+    expect(await sealRoomAction(room, wolfChat)).toBeNull()
+  })
+})
+
+describe('openRoomAction', () => {
+  it('房主解密得到原操作', async () => {
+    const sealed = await sealRoomAction(await makeRoom(), wolfChat)
+    expect(await openRoomAction(sealed!, 'host')).toEqual(wolfChat)
+  })
+
+  it('不是发给本机的操作无法解密', async () => {
+    const sealed = await sealRoomAction(await makeRoom(), wolfChat)
+    expect(await openRoomAction(sealed!, 'villager')).toBeNull()
+  })
+
+  it('复制密文冒充另一条操作时丢弃', async () => {
+    const sealed = await sealRoomAction(await makeRoom(), wolfChat)
+    expect(await openRoomAction({ ...sealed!, id: 'action-2' }, 'host')).toBeNull()
+  })
+})
+
+describe('mergeActionQueues', () => {
+  it('按 ID 去重并按提交时间排序', async () => {
+    const room = await makeRoom()
+    const first = (await sealRoomAction(room, wolfChat))!
+    const second = (await sealRoomAction(room, { ...wolfChat, id: 'action-0', timestamp: 500 }))!
+    expect(mergeActionQueues([first], [second, first]).map((a) => a.id)).toEqual(['action-0', 'action-1'])
+  })
+})
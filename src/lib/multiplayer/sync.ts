@@ -2,22 +2,70 @@
  * 联机同步逻辑
  */
 
-import type { IGameStorage, RoomState } from '../storage/interface'
-import type { SyncConfig } from './types'
-import { DEFAULT_SYNC_CONFIG } from './types'
+import type { IGameStorage, RoomAction, RoomState } from '../storage/interface'
+import { DEFAULT_SYNC_CONFIG, type PlayerAction } from './types'
+import { PollingTransport, type RoomTransport } from './transport'
+import { openView, sealViews } from './view-crypto'
+
+/**
+ * 合并操作队列
+ * 按 ID 去重后按提交时间排序；网络错误导致的重复提交、并发写入的两份队列都能安全合并
+ */
+export function mergeActionQueues<T extends RoomAction>(...queues: T[][]): T[] {
+  const byId = new Map<string, T>()
+  for (const queue of queues) {
+    for (const action of queue) {
+      if (!byId.has(action.id)) byId.set(action.id, action)
+    }
+  }
+  return Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id))
+}
+
+/**
+ * 加密玩家操作，写入公开的操作队列
+ * 夜间行动、狼队夜聊等会暴露身份，只加密给房主与交接接班人（接班人接管后仍能处理未完成的操作）
+ * 房主没有公钥时无法加密，返回 null
+ */
+export async function sealRoomAction(room: RoomState, action: PlayerAction): Promise<RoomAction | null> {
+  const recipients = new Set([room.hostId, room.hostSnapshot?.successorId])
+  const views: Record<string, { publicKey: string; data: PlayerAction }> = {}
+  for (const player of room.players) {
+    if (player.publicKey && recipients.has(player.id)) views[player.id] = { publicKey: player.publicKey, data: action }
+  }
+
+  const sealed = await sealViews(views)
+  if (!sealed[room.hostId]) return null
+  return { id: action.id, timestamp: action.timestamp, sealed }
+}
+
+/**
+ * 用本机私钥解密队列中的操作；不是发给本机或解密失败时返回 null
+ */
+export async function openRoomAction(action: RoomAction, playerId: string): Promise<PlayerAction | null> {
+  const sealed = action.sealed?.[playerId]
+  if (!sealed) return null
+  const opened = await openView<PlayerAction>(sealed)
+  // 以队列中的 ID 为准，避免同一份密文被复制成多条操作
+  return opened && opened.id === action.id ? opened : null
+}
 
 export class SyncManager {
   private storage: IGameStorage
   private roomId: string
-  private config: SyncConfig
-  private intervalId: NodeJS.Timeout | null = null
+  private transport: RoomTransport
   private lastVersion: number = 0
   private onUpdate: ((room: RoomState) => void) | null = null
 
-  constructor(storage: IGameStorage, roomId: string, config?: Partial<SyncConfig>) {
+  constructor(storage: IGameStorage, roomId: string, transport?: RoomTransport) {
     this.storage = storage
     this.roomId = roomId
-    this.config = { ...DEFAULT_SYNC_CONFIG, ...config }
+    this.transport = transport ?? new PollingTransport(storage, roomId, DEFAULT_SYNC_CONFIG)
+    this.transport.setOnUpdate((room) => {
+      if (room.version > this.lastVersion) {
+        this.lastVersion = room.version
+        this.onUpdate?.(room)
+      }
+    })
   }
 
   /**
@@ -27,59 +75,18 @@ export class SyncManager {
     this.onUpdate = callback
   }
 
-  /**
-   * 获取当前轮询间隔
-   */
-  private getInterval(status: RoomState['status']): number {
-    switch (status) {
-      case 'waiting':
-        return this.config.waitingInterval
-      case 'playing':
-        return this.config.playingInterval
-      case 'ended':
-        return this.config.idleInterval
-      default:
-        return this.config.waitingInterval
-    }
-  }
-
   /**
    * 开始同步
    */
   start(initialStatus: RoomState['status'] = 'waiting'): void {
-    this.stop()
-    this.poll(initialStatus)
+    this.transport.start(initialStatus)
   }
 
   /**
    * 停止同步
    */
   stop(): void {
-    if (this.intervalId) {
-      clearTimeout(this.intervalId)
-      this.intervalId = null
-    }
-  }
-
-  /**
-   * 轮询
-   */
-  private async poll(status: RoomState['status']): Promise<void> {
-    try {
-      const room = await this.storage.getRoom(this.roomId)
-      
-      if (room && room.version > this.lastVersion) {
-        this.lastVersion = room.version
-        this.onUpdate?.(room)
-        status = room.status
-      }
-    } catch (error) {
-      console.error('[SyncManager] Poll error:', error)
-    }
-
-    // 安排下次轮询
-    const interval = this.getInterval(status)
-    this.intervalId = setTimeout(() => this.poll(status), interval)
+    this.transport.stop()
   }
 
   /**
@@ -100,12 +107,13 @@ export class SyncManager {
   }
 
   /**
-   * 乐观锁更新
-   * 如果版本不匹配，重试指定次数
+   * 乐观锁更新（compare-and-swap）
+   * 写入时校验存储中的版本，冲突则重新读取最新房间并重新应用 updater，
+   * 因此 updater 必须基于传入的房间计算结果（例如追加操作而不是整体替换），并发提交不会互相覆盖
    */
   async updateWithLock(
     updater: (room: RoomState) => RoomState,
-    maxRetries: number = 3
+    maxRetries: number = 8
   ): Promise<RoomState | null> {
     for (let i = 0; i < maxRetries; i++) {
       const room = await this.storage.getRoom(this.roomId)
@@ -117,15 +125,16 @@ export class SyncManager {
         updatedAt: Date.now(),
       })
 
-      const success = await this.storage.saveRoom(updated)
-      if (success) {
+      const result = await this.storage.compareAndSwapRoom(updated, room.version)
+      if (result === 'ok') {
         this.lastVersion = updated.version
         this.onUpdate?.(updated)
+        this.transport.publish(updated)
         return updated
       }
 
-      // 等待一小段时间后重试
-      await new Promise(resolve => setTimeout(resolve, 100 * (i + 1)))
+      // 随机退避，避免多个客户端同时重试再次冲突
+      await new Promise(resolve => setTimeout(resolve, (50 + Math.random() * 100) * (i + 1)))
     }
 
     console.error('[SyncManager] Update failed after retries')
@@ -0,0 +1,138 @@
+/**
+ * 房间传输层
+ * 负责把其他客户端的房间写入送到本机：轮询存储，或由 wolfcha 服务器实时推送增量
+ */
+
+import type { IGameStorage, RoomState, StorageConfig } from '../storage/interface'
+import { resolveServerBaseUrl } from '../storage/server-storage'
+import type { SyncConfig } from './types'
+import { EventStreamTransport } from './event-stream-transport'
+
+/**
+ * 房间传输
+ */
+export interface RoomTransport {
+  setOnUpdate(callback: (room: RoomState) => void): void
+  start(initialStatus: RoomState['status']): void
+  stop(): void
+  /** 本机写入成功后调用，推送给其他客户端 */
+  publish(room: RoomState): void
+}
+
+/**
+ * 轮询存储
+ * 每次下载完整房间，任何存储后端都能使用
+ */
+export class PollingTransport implements RoomTransport {
+  private storage: IGameStorage
+  private roomId: string
+  private config: SyncConfig
+  private timeoutId: NodeJS.Timeout | null = null
+  private fixedInterval: number | null = null
+  private onUpdate: ((room: RoomState) => void) | null = null
+
+  constructor(storage: IGameStorage, roomId: string, config: SyncConfig) {
+    this.storage = storage
+    this.roomId = roomId
+    this.config = config
+  }
+
+  setOnUpdate(callback: (room: RoomState) => void): void {
+    this.onUpdate = callback
+  }
+
+  /**
+   * 固定轮询间隔，传 null 恢复按房间状态选择间隔
+   */
+  setFixedInterval(interval: number | null): void {
+    this.fixedInterval = interval
+  }
+
+  /**
+   * 获取当前轮询间隔
+   */
+  private getInterval(status: RoomState['status']): number {
+    if (this.fixedInterval !== null) return this.fixedInterval
+
+    switch (status) {
+      case 'waiting':
+        return this.config.waitingInterval
+      case 'playing':
+        return this.config.playingInterval
+      case 'ended':
+        return this.config.idleInterval
+      default:
+        return this.config.waitingInterval
+    }
+  }
+
+  start(initialStatus: RoomState['status'] = 'waiting'): void {
+    this.stop()
+    this.poll(initialStatus)
+  }
+
+  stop(): void {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId)
+      this.timeoutId = null
+    }
+  }
+
+  // 轮询方直接读取存储，无需推送
+  publish(): void {}
+
+  /**
+   * 轮询
+   */
+  private async poll(status: RoomState['status']): Promise<void> {
+    try {
+      const room = await this.storage.getRoom(this.roomId)
+      if (room) {
+        this.onUpdate?.(room)
+        status = room.status
+      }
+    } catch (error) {
+      console.error('[PollingTransport] Poll error:', error)
+    }
+
+    // 安排下次轮询
+    this.timeoutId = setTimeout(() => this.poll(status), this.getInterval(status))
+  }
+}
+
+/**
+ * 实时推送服务地址，未启用时返回 null
+ * local 存储使用同一台 wolfcha 服务器；云存储需要额外填写服务器地址
+ */
+export function getRealtimeBaseUrl(config: StorageConfig): string | null {
+  if (typeof EventSource === 'undefined') return null
+
+  switch (config.provider) {
+    case 'local':
+      return resolveServerBaseUrl(config.endpoint)
+    case 'qiniu':
+    case 'tencent':
+      return config.realtimeEndpoint?.trim() ? resolveServerBaseUrl(config.realtimeEndpoint) : null
+    default:
+      return null
+  }
+}
+
+/**
+ * 创建房间传输：启用实时推送时使用推送（断线期间自动退回轮询），否则轮询
+ */
+export function createRoomTransport(
+  storage: IGameStorage,
+  storageConfig: StorageConfig,
+  roomId: string,
+  playerId: string,
+  config: SyncConfig
+): RoomTransport {
+  const polling = new PollingTransport(storage, roomId, config)
+  const baseUrl = getRealtimeBaseUrl(storageConfig)
+  if (baseUrl === null) return polling
+
+  // 不同存储可能出现相同的加入码，频道带上存储标识
+  const channel = `${storageConfig.provider}:${storageConfig.bucket}/${roomId}`
+  return new EventStreamTransport(storage, roomId, `${baseUrl}/api/rooms/events`, channel, playerId, polling, config)
+}
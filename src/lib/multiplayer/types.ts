@@ -11,12 +11,17 @@ export type { RoomState, Player }
 export type PlayerActionType = 
   | 'ready'
   | 'unready'
+  | 'speech'
   | 'vote'
-  | 'speak'
-  | 'use_skill'
+  | 'night_action'
+  | 'wolf_chat'   // 狼队夜聊
+  | 'badge_signup'
+  | 'use_skill'   // 猎人开枪、移交警徽
+  | 'skip'
 
 // 玩家操作
 export interface PlayerAction {
+  id: string
   type: PlayerActionType
   playerId: string
   payload?: unknown
@@ -52,6 +57,10 @@ export interface MultiplayerCallbacks {
   onPlayerLeave?: (playerId: string) => void
   onGameStart?: () => void
   onGameEnd?: () => void
+  /** 本机成为房主（创建房间除外）：接管失联房主，或房主刷新页面后恢复 */
+  onBecomeHost?: (room: RoomState) => void
+  /** 本机失联期间房主已被接班人接管 */
+  onHostLost?: () => void
   onError?: (message: string) => void
 }
 
@@ -60,6 +69,7 @@ export interface SyncConfig {
   waitingInterval: number   // 等待阶段轮询间隔
   playingInterval: number   // 游戏阶段轮询间隔
   idleInterval: number      // 空闲阶段轮询间隔
+  streamFallbackInterval: number  // 推送连接正常时的兜底轮询间隔
 }
 
 // 默认同步配置
@@ -67,6 +77,7 @@ export const DEFAULT_SYNC_CONFIG: SyncConfig = {
   waitingInterval: 1000,
   playingInterval: 500,
   idleInterval: 3000,
+  streamFallbackInterval: 5000,
 }
 
 // 玩家 ID 存储键
@@ -78,6 +89,11 @@ export function generatePlayerId(): string {
   return `player-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`
 }
 
+// 生成操作 ID
+export function generateActionId(): string {
+  return `action-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`
+}
+
 // 获取或创建玩家 ID
 export function getPlayerId(): string {
   if (typeof window === 'undefined') return generatePlayerId()
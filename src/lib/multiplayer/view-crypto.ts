@@ -0,0 +1,131 @@
+/**
+ * 玩家视角加密
+ * 每个客户端生成一对 ECDH (P-256) 密钥，私钥只保存在本地，公钥随玩家信息写入房间
+ * 房主每次发布时生成临时密钥，与各玩家公钥协商出 AES-GCM 密钥加密其视角
+ */
+
+import type { SealedView } from '../storage/interface'
+
+const PLAYER_KEY_STORAGE = 'wolfcha_player_key'
+
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' }
+
+interface PlayerKeyPair {
+  publicKey: string
+  privateKey: CryptoKey
+}
+
+function toBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  let binary = ''
+  for (const b of bytes) binary += String.fromCharCode(b)
+  return btoa(binary)
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+async function exportPublicKey(key: CryptoKey): Promise<string> {
+  return toBase64(await crypto.subtle.exportKey('raw', key))
+}
+
+function importPublicKey(value: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(value), ECDH_PARAMS, false, [])
+}
+
+function deriveAesKey(privateKey: CryptoKey, publicKey: CryptoKey, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: 'ECDH', public: publicKey },
+    privateKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  )
+}
+
+let keyPairPromise: Promise<PlayerKeyPair> | null = null
+
+async function loadOrCreateKeyPair(): Promise<PlayerKeyPair> {
+  if (typeof window !== 'undefined') {
+    try {
+      const saved = localStorage.getItem(PLAYER_KEY_STORAGE)
+      if (saved) {
+        const { publicKey, privateKey } = JSON.parse(saved) as { publicKey: string; privateKey: JsonWebKey }
+        return {
+          publicKey,
+          privateKey: await crypto.subtle.importKey('jwk', privateKey, ECDH_PARAMS, false, ['deriveKey']),
+        }
+      }
+    } catch (error) {
+      console.error('[ViewCrypto] Failed to load key pair:', error)
+    }
+  }
+
+  const pair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveKey'])
+  const publicKey = await exportPublicKey(pair.publicKey)
+  if (typeof window !== 'undefined') {
+    const privateKey = await crypto.subtle.exportKey('jwk', pair.privateKey)
+    localStorage.setItem(PLAYER_KEY_STORAGE, JSON.stringify({ publicKey, privateKey }))
+  }
+  return { publicKey, privateKey: pair.privateKey }
+}
+
+/**
+ * 获取本机玩家密钥（首次调用时生成并持久化，重连后仍能解密）
+ */
+export function getPlayerKeyPair(): Promise<PlayerKeyPair> {
+  if (!keyPairPromise) {
+    keyPairPromise = loadOrCreateKeyPair().catch((error) => {
+      keyPairPromise = null
+      throw error
+    })
+  }
+  return keyPairPromise
+}
+
+/**
+ * 为多名玩家分别加密各自的视角
+ * @param views 联机玩家 ID -> { 公钥, 视角数据 }
+ */
+export async function sealViews(
+  views: Record<string, { publicKey: string; data: unknown }>
+): Promise<Record<string, SealedView>> {
+  const ephemeral = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveKey'])
+  const epk = await exportPublicKey(ephemeral.publicKey)
+  const encoder = new TextEncoder()
+
+  const entries = await Promise.all(
+    Object.entries(views).map(async ([playerId, { publicKey, data }]) => {
+      try {
+        const key = await deriveAesKey(ephemeral.privateKey, await importPublicKey(publicKey), 'encrypt')
+        const iv = crypto.getRandomValues(new Uint8Array(12))
+        const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(data)))
+        return [playerId, { epk, iv: toBase64(iv), data: toBase64(cipher) }] as const
+      } catch (error) {
+        // 公钥无效的玩家只能看到公开视角
+        console.error('[ViewCrypto] Failed to seal view for', playerId, error)
+        return null
+      }
+    })
+  )
+  return Object.fromEntries(entries.filter((e): e is NonNullable<typeof e> => e !== null))
+}
+
+/**
+ * 用本机私钥解密自己的视角，失败时返回 null
+ */
+export async function openView<T>(sealed: SealedView): Promise<T | null> {
+  try {
+    const { privateKey } = await getPlayerKeyPair()
+    const key = await deriveAesKey(privateKey, await importPublicKey(sealed.epk), 'decrypt')
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data))
+    return JSON.parse(new TextDecoder().decode(plain)) as T
+  } catch (error) {
+    console.error('[ViewCrypto] Failed to open view:', error)
+    return null
+  }
+}
@@ -1,70 +1,24 @@
-import type { DifficultyLevel, GameState, Player, DailySummaryVoteData } from "@/types/game";
+import type { DifficultyLevel, GameState, Player, DailySummaryVoteData, Role, WolfChatPayload } from "@/types/game";
 import type { SystemPromptPart } from "@/game/core/types";
+import { roleRegistry } from "@/game/core/RoleRegistry";
 import type { LLMMessage } from "./llm";
 import { getSystemMessages, getSystemPatterns } from "./game-texts";
+import { describeGameRules, getGameRules } from "./game-rules";
 import { getI18n } from "@/i18n/translator";
 
 /**
  * Prompt helper utilities used by Phase prompts.
  */
 
-export const getRoleText = (role: string) => {
-  const { t } = getI18n();
-  switch (role) {
-    case "Werewolf":
-      return t("promptUtils.roleText.werewolf");
-    case "Seer":
-      return t("promptUtils.roleText.seer");
-    case "Witch":
-      return t("promptUtils.roleText.witch");
-    case "Hunter":
-      return t("promptUtils.roleText.hunter");
-    case "Guard":
-      return t("promptUtils.roleText.guard");
-    default:
-      return t("promptUtils.roleText.villager");
-  }
-};
+export const getRoleText = (role: string) => roleRegistry.get(role as Role).getPromptText();
 
-export const getWinCondition = (role: string) => {
-  const { t } = getI18n();
-  switch (role) {
-    case "Werewolf":
-      return t("promptUtils.winCondition.werewolf");
-    case "Seer":
-      return t("promptUtils.winCondition.seer");
-    case "Witch":
-      return t("promptUtils.winCondition.witch");
-    case "Hunter":
-      return t("promptUtils.winCondition.hunter");
-    case "Guard":
-      return t("promptUtils.winCondition.guard");
-    default:
-      return t("promptUtils.winCondition.villager");
-  }
-};
+export const getWinCondition = (role: string) => roleRegistry.get(role as Role).getWinCondition();
 
 /**
  * Role-specific strategy tips (know-how) to help AI make better decisions
  * These tips are tailored to each role to prevent homogenization
  */
-export const getRoleKnowHow = (role: string): string => {
-  const { t } = getI18n();
-  switch (role) {
-    case "Werewolf":
-      return t.raw("promptUtils.roleKnowHow.werewolf");
-    case "Seer":
-      return t.raw("promptUtils.roleKnowHow.seer");
-    case "Witch":
-      return t.raw("promptUtils.roleKnowHow.witch");
-    case "Hunter":
-      return t.raw("promptUtils.roleKnowHow.hunter");
-    case "Guard":
-      return t.raw("promptUtils.roleKnowHow.guard");
-    default:
-      return t.raw("promptUtils.roleKnowHow.villager");
-  }
-};
+export const getRoleKnowHow = (role: string): string => roleRegistry.get(role as Role).getKnowHow();
 
 /**
  * Build situational strategy based on current game state.
@@ -472,6 +426,15 @@ export const buildSystemAnnouncementsSinceDawn = (state: GameState, maxLines: nu
   return recentLines.join("\n");
 };
 
+/** 狼队夜聊记录，按发言顺序排列 */
+export const getWolfChatMessages = (state: GameState): WolfChatPayload[] =>
+  state.events
+    .filter((e) => e.type === "WOLF_CHAT")
+    .map((e) => e.payload as WolfChatPayload);
+
+// 上下文中保留的最近几条狼队夜聊
+const WOLF_CHAT_CONTEXT_LINES = 12;
+
 /**
  * Build role-specific private information section.
  * This is placed at the TOP of the context to ensure AI sees it first.
@@ -559,9 +522,18 @@ ${checks.join("\n")}
       ? teammates.map((tm) => `${tm.seat + 1}号${tm.displayName}`).join("、")
       : "无存活队友";
     
+    // 夜聊中商量的刀口与白天打法，出刀和次日发言都要参考
+    const chatLines = getWolfChatMessages(state)
+      .slice(-WOLF_CHAT_CONTEXT_LINES)
+      .map((m) => {
+        const speaker = m.playerId === player.playerId ? "你" : state.players.find((p) => p.playerId === m.playerId)?.displayName || "";
+        return `  第${m.day}夜 ${m.seat + 1}号${speaker}：${m.content}`;
+      });
+    const chatSection = chatLines.length > 0 ? `\n【狼队夜聊】\n${chatLines.join("\n")}` : "";
+
     return `<your_wolf_team>
 【狼队友】${teammateList}
-【狼人存活】${aliveWolves.length}/${allWolves.length}
+【狼人存活】${aliveWolves.length}/${allWolves.length}${chatSection}
 </your_wolf_team>`;
   }
   
@@ -666,6 +638,7 @@ alive_count: ${alivePlayers.length}
     rulesText += `\n${peacefulNightNote}`;
   }
   rulesText += `\n${phaseOrderNote}`;
+  rulesText += `\n【本局房规】\n${describeGameRules(getGameRules(state))}`;
   
   if (rulesText) {
     context += `\n\n<rules>\n${rulesText}\n</rules>`;
@@ -732,6 +705,7 @@ alive_count: ${alivePlayers.length}
     const sheriffPlayer =
       sheriffSeat !== null ? state.players.find((p) => p.seat === sheriffSeat) : null;
     const sheriffPlayerId = sheriffPlayer?.playerId;
+    const { sheriffVoteWeight } = getGameRules(state);
     const currentDay = state.day;
     
     Object.entries(state.voteHistory)
@@ -755,7 +729,7 @@ alive_count: ${alivePlayers.length}
             const weightedVotes = voters.reduce((sum, seat) => {
               const voter = state.players.find((p) => p.seat === seat);
               if (!voter) return sum;
-              return sum + (voter.playerId === sheriffPlayerId ? 1.5 : 1);
+              return sum + (voter.playerId === sheriffPlayerId ? sheriffVoteWeight : 1);
             }, 0);
             return { target: Number(target), voters, weightedVotes };
           })
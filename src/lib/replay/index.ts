@@ -0,0 +1,7 @@
+/**
+ * 对局回放模块导出
+ */
+
+export * from "./types";
+export * from "./recorder";
+export * from "./player";
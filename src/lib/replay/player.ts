@@ -0,0 +1,144 @@
+import type { GameState } from "@/types/game";
+import { createInitialGameState } from "@/lib/game-master";
+import { REPLAY_FORMAT, REPLAY_VERSION, type GameReplay, type ReplayFrame } from "./types";
+
+function applyFrame(state: GameState, frame: ReplayFrame): GameState {
+  switch (frame.type) {
+    case "phase": {
+      const next: GameState = { ...state, phase: frame.phase, day: frame.day };
+      if (frame.phase === "DAY_VOTE" && state.phase !== "DAY_VOTE") {
+        next.votes = {};
+      }
+      if (frame.phase === "DAY_BADGE_ELECTION" && state.phase !== "DAY_BADGE_ELECTION") {
+        next.badge = { ...state.badge, votes: {} };
+      }
+      if (frame.phase === "NIGHT_START") {
+        // 与游戏内一致：每晚清空行动，但保留查验历史
+        next.nightActions = { seerHistory: state.nightActions.seerHistory };
+      }
+      return next;
+    }
+    case "speaker":
+      return { ...state, currentSpeakerSeat: frame.seat };
+    case "message":
+      return { ...state, messages: [...state.messages, frame.message] };
+    case "night_action": {
+      const nightActions = { ...state.nightActions };
+      const record = { ...(state.nightHistory?.[frame.day] ?? {}) };
+      switch (frame.action) {
+        case "guard":
+          nightActions.guardTarget = frame.targetSeat;
+          record.guardTarget = frame.targetSeat;
+          break;
+        case "wolf":
+          nightActions.wolfTarget = frame.targetSeat;
+          record.wolfTarget = frame.targetSeat;
+          break;
+        case "witch_save":
+          nightActions.witchSave = true;
+          record.witchSave = true;
+          break;
+        case "witch_poison":
+          nightActions.witchPoison = frame.targetSeat;
+          record.witchPoison = frame.targetSeat;
+          break;
+        case "seer":
+          if (typeof frame.targetSeat === "number") {
+            const result = { targetSeat: frame.targetSeat, isWolf: !!frame.isWolf };
+            nightActions.seerTarget = frame.targetSeat;
+            nightActions.seerResult = result;
+            nightActions.seerHistory = [...(nightActions.seerHistory ?? []), { ...result, day: frame.day }];
+            record.seerTarget = frame.targetSeat;
+            record.seerResult = result;
+          }
+          break;
+        case "hunter_shot":
+          if (typeof frame.actorSeat === "number" && typeof frame.targetSeat === "number") {
+            record.hunterShot = { hunterSeat: frame.actorSeat, targetSeat: frame.targetSeat };
+          }
+          break;
+      }
+      return { ...state, nightActions, nightHistory: { ...state.nightHistory, [frame.day]: record } };
+    }
+    case "vote":
+      if (frame.kind === "badge") {
+        return {
+          ...state,
+          badge: {
+            ...state.badge,
+            votes: { ...state.badge.votes, [frame.voterId]: frame.targetSeat },
+            history: {
+              ...state.badge.history,
+              [frame.day]: { ...state.badge.history[frame.day], [frame.voterId]: frame.targetSeat },
+            },
+          },
+        };
+      }
+      return {
+        ...state,
+        votes: { ...state.votes, [frame.voterId]: frame.targetSeat },
+        voteHistory: {
+          ...state.voteHistory,
+          [frame.day]: { ...state.voteHistory[frame.day], [frame.voterId]: frame.targetSeat },
+        },
+      };
+    case "death":
+      return {
+        ...state,
+        players: state.players.map((p) => (p.seat === frame.seat ? { ...p, alive: false } : p)),
+      };
+    case "badge":
+      return { ...state, badge: { ...state.badge, holderSeat: frame.holderSeat } };
+    case "game_end":
+      return { ...state, phase: "GAME_END", winner: frame.winner };
+  }
+}
+
+/** 回放开局时（尚未应用任何帧）的状态 */
+export function createReplayInitialState(replay: GameReplay): GameState {
+  return {
+    ...createInitialGameState(),
+    gameId: replay.gameId,
+    phase: "SETUP",
+    seed: replay.seed,
+    difficulty: replay.difficulty,
+    scenario: replay.scenario,
+    isGenshinMode: replay.isGenshinMode,
+    players: replay.players.map((p) => ({ ...p, alive: true })),
+  };
+}
+
+/** 逐帧重建状态，第 i 项为应用完第 i 帧后的快照 */
+export function buildReplayStates(replay: GameReplay): GameState[] {
+  const states: GameState[] = [];
+  let state = createReplayInitialState(replay);
+  for (const frame of replay.frames) {
+    state = applyFrame(state, frame);
+    states.push(state);
+  }
+  return states;
+}
+
+export function serializeReplay(replay: GameReplay): string {
+  return JSON.stringify(replay);
+}
+
+/** 解析回放 JSON，格式不合法或版本过新时返回 null */
+export function parseReplay(raw: string): GameReplay | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object") return null;
+
+  const obj = data as Record<string, unknown>;
+  if (obj.format !== REPLAY_FORMAT) return null;
+  if (typeof obj.version !== "number" || obj.version > REPLAY_VERSION) return null;
+  if (typeof obj.gameId !== "string" || typeof obj.startedAt !== "number") return null;
+  if (!Array.isArray(obj.players) || !Array.isArray(obj.frames)) return null;
+  if (obj.frames.some((f) => !f || typeof f !== "object" || typeof (f as ReplayFrame).t !== "number")) return null;
+
+  return data as GameReplay;
+}
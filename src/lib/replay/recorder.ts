@@ -0,0 +1,162 @@
+import type { GameState, Player } from "@/types/game";
+import {
+  REPLAY_FORMAT,
+  REPLAY_VERSION,
+  type GameReplay,
+  type ReplayFrame,
+  type ReplayNightActionType,
+} from "./types";
+
+const toRoster = (players: Player[]): Player[] => players.map((p) => ({ ...p, alive: true }));
+
+/**
+ * 对局录制器
+ * 每次 GameState 变化时调用 observe，与上一次的状态比较后追加回放帧
+ */
+export class ReplayRecorder {
+  private replay: GameReplay | null = null;
+  private prev: GameState | null = null;
+  private seenMessageIds = new Set<string>();
+  private recordedActions = new Set<string>();
+
+  start(state: GameState): void {
+    this.replay = {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      gameId: state.gameId,
+      seed: state.seed,
+      startedAt: Date.now(),
+      difficulty: state.difficulty,
+      scenario: state.scenario,
+      isGenshinMode: state.isGenshinMode,
+      players: toRoster(state.players),
+      frames: [],
+      winner: null,
+    };
+    this.prev = null;
+    this.seenMessageIds.clear();
+    this.recordedActions.clear();
+    this.observe(state);
+  }
+
+  reset(): void {
+    this.replay = null;
+    this.prev = null;
+    this.seenMessageIds.clear();
+    this.recordedActions.clear();
+  }
+
+  isRecording(gameId: string): boolean {
+    return this.replay?.gameId === gameId;
+  }
+
+  observe(state: GameState): void {
+    const replay = this.replay;
+    if (!replay || state.gameId !== replay.gameId) return;
+    const prev = this.prev;
+    const t = Date.now() - replay.startedAt;
+    const push = (frame: ReplayFrame) => replay.frames.push(frame);
+
+    // 人设在开局后异步生成，名单需要跟随更新
+    if (!prev || prev.players !== state.players) {
+      replay.players = toRoster(state.players);
+    }
+
+    if (!prev || prev.phase !== state.phase || prev.day !== state.day) {
+      push({ t, type: "phase", phase: state.phase, day: state.day });
+    }
+
+    if (prev && prev.currentSpeakerSeat !== state.currentSpeakerSeat) {
+      push({ t, type: "speaker", seat: state.currentSpeakerSeat });
+    }
+
+    // 流式消息只在定稿后记录一次
+    for (const message of state.messages) {
+      if (message.isStreaming || this.seenMessageIds.has(message.id)) continue;
+      this.seenMessageIds.add(message.id);
+      push({ t, type: "message", message: { ...message } });
+    }
+
+    this.recordNightActions(state, t);
+
+    for (const [voterId, targetSeat] of Object.entries(state.votes)) {
+      if (prev?.votes[voterId] === targetSeat) continue;
+      push({ t, type: "vote", day: state.day, kind: "day", voterId, targetSeat });
+    }
+    for (const [voterId, targetSeat] of Object.entries(state.badge.votes)) {
+      if (prev?.badge.votes[voterId] === targetSeat) continue;
+      push({ t, type: "vote", day: state.day, kind: "badge", voterId, targetSeat });
+    }
+
+    if (prev) {
+      for (const player of state.players) {
+        const before = prev.players.find((p) => p.playerId === player.playerId);
+        if (before?.alive && !player.alive) {
+          push({ t, type: "death", seat: player.seat });
+        }
+      }
+      if (prev.badge.holderSeat !== state.badge.holderSeat) {
+        push({ t, type: "badge", holderSeat: state.badge.holderSeat });
+      }
+    }
+
+    if (state.winner && replay.winner !== state.winner) {
+      replay.winner = state.winner;
+      push({ t, type: "game_end", winner: state.winner });
+    }
+
+    this.prev = state;
+  }
+
+  /** 导出当前录制内容的副本 */
+  toReplay(): GameReplay | null {
+    if (!this.replay) return null;
+    return { ...this.replay, players: [...this.replay.players], frames: [...this.replay.frames] };
+  }
+
+  /** 夜间行动按「天数 + 行动」去重，避免 nightActions 重置后重复记录 */
+  private recordNightActions(state: GameState, t: number): void {
+    const { day, nightActions } = state;
+    const seatOf = (role: Player["role"]) => state.players.find((p) => p.role === role)?.seat;
+    const record = (
+      action: ReplayNightActionType,
+      detail: { actorSeat?: number; targetSeat?: number; isWolf?: boolean },
+      key: string = action
+    ) => {
+      const id = `${day}:${key}`;
+      if (this.recordedActions.has(id)) return;
+      this.recordedActions.add(id);
+      this.replay!.frames.push({ t, type: "night_action", day, action, ...detail });
+    };
+
+    if (typeof nightActions.guardTarget === "number") {
+      record("guard", { actorSeat: seatOf("Guard"), targetSeat: nightActions.guardTarget });
+    }
+    if (typeof nightActions.wolfTarget === "number") {
+      record("wolf", { targetSeat: nightActions.wolfTarget });
+    }
+    if (nightActions.witchSave) {
+      record("witch_save", { actorSeat: seatOf("Witch"), targetSeat: nightActions.wolfTarget });
+    }
+    if (typeof nightActions.witchPoison === "number") {
+      record("witch_poison", { actorSeat: seatOf("Witch"), targetSeat: nightActions.witchPoison });
+    }
+    if (nightActions.seerResult) {
+      record("seer", {
+        actorSeat: seatOf("Seer"),
+        targetSeat: nightActions.seerResult.targetSeat,
+        isWolf: nightActions.seerResult.isWolf,
+      });
+    }
+
+    const shots = [state.nightHistory?.[day]?.hunterShot, state.dayHistory?.[day]?.hunterShot];
+    for (const shot of shots) {
+      if (!shot) continue;
+      record(
+        "hunter_shot",
+        { actorSeat: shot.hunterSeat, targetSeat: shot.targetSeat },
+        `hunter_shot:${shot.hunterSeat}`
+      );
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import type { Alignment, DifficultyLevel, GameScenario, ChatMessage, Phase, Player } from "@/types/game";
+
+/** 回放文件格式标识与版本，结构变化时递增版本号 */
+export const REPLAY_FORMAT = "wolfcha-replay";
+export const REPLAY_VERSION = 1;
+
+export type ReplayNightActionType = "guard" | "wolf" | "witch_save" | "witch_poison" | "seer" | "hunter_shot";
+
+export type ReplayVoteKind = "day" | "badge";
+
+/** 单个回放帧，t 为距开局的毫秒数 */
+export type ReplayFrame =
+  | { t: number; type: "phase"; phase: Phase; day: number }
+  | { t: number; type: "speaker"; seat: number | null }
+  | { t: number; type: "message"; message: ChatMessage }
+  | {
+      t: number;
+      type: "night_action";
+      day: number;
+      action: ReplayNightActionType;
+      actorSeat?: number;
+      targetSeat?: number;
+      /** 预言家查验结果 */
+      isWolf?: boolean;
+    }
+  | { t: number; type: "vote"; day: number; kind: ReplayVoteKind; voterId: string; targetSeat: number }
+  | { t: number; type: "death"; seat: number }
+  | { t: number; type: "badge"; holderSeat: number | null }
+  | { t: number; type: "game_end"; winner: Alignment };
+
+export interface GameReplay {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  gameId: string;
+  seed?: string;
+  /** 开局时间（epoch ms） */
+  startedAt: number;
+  difficulty: DifficultyLevel;
+  scenario?: GameScenario;
+  isGenshinMode?: boolean;
+  /** 开局名单，包含身份、模型与人设 */
+  players: Player[];
+  frames: ReplayFrame[];
+  winner: Alignment | null;
+}
@@ -1,5 +1,6 @@
 import type { GameScenario } from "@/types/game";
 import { getI18n } from "@/i18n/translator";
+import { gameRng } from "@/lib/game-rng";
 
 /**
  * 简化版场景列表
@@ -156,7 +157,5 @@ export const getScenarios = (): GameScenario[] => {
 };
 
 export const getRandomScenario = (): GameScenario => {
-  const scenarios = getScenarios();
-  const index = Math.floor(Math.random() * scenarios.length);
-  return scenarios[index];
+  return gameRng.stream("setup").pick(getScenarios());
 };
@@ -0,0 +1,39 @@
+/**
+ * 服务端鉴权
+ * 用户身份统一由 Supabase Auth 签发的 access token 确认，与数据存储后端无关
+ */
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string | null;
+}
+
+let authClient: SupabaseClient | null = null;
+
+function getAuthClient(): SupabaseClient | null {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_DEFAULT_KEY;
+  if (!url || !key) return null;
+  if (!authClient) {
+    authClient = createClient(url, key, { auth: { persistSession: false, autoRefreshToken: false } });
+  }
+  return authClient;
+}
+
+export function isAuthConfigured(): boolean {
+  return getAuthClient() !== null;
+}
+
+/** 校验 access token，无效或未配置 Supabase 时返回 null */
+export async function authenticateToken(token: string | null | undefined): Promise<AuthenticatedUser | null> {
+  const client = getAuthClient();
+  if (!client || !token) return null;
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) return null;
+  return { id: data.user.id, email: data.user.email ?? null };
+}
@@ -0,0 +1,102 @@
+/**
+ * 额度扣减与邀请奖励
+ * 与存储后端无关，额度变更均使用乐观锁重试，避免并发请求重复扣减或多发奖励
+ */
+
+import { fail, type ServiceResult } from "./http";
+import type { ServerDataStore, UserCreditsRow } from "./data-store";
+
+/** 与个人中心文案「每邀请一位新用户注册可获得 3 局额度」一致 */
+export const REFERRAL_BONUS_CREDITS = 3;
+
+const MAX_CAS_ATTEMPTS = 3;
+
+async function readCredits(store: ServerDataStore, userId: string): Promise<UserCreditsRow | null | undefined> {
+  try {
+    return await store.getUserCredits(userId);
+  } catch (error) {
+    console.error("[credits] Failed to read credits:", error);
+    return undefined;
+  }
+}
+
+export async function consumeCredit(store: ServerDataStore, userId: string): Promise<ServiceResult<{ credits: number }>> {
+  for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+    const row = await readCredits(store, userId);
+    if (row === undefined) return fail(500, "failedToReadCredits");
+    if (!row) return fail(404, "failedToReadCredits");
+    if (row.credits <= 0) return fail(402, "insufficientCredits");
+
+    try {
+      const updated = await store.updateUserCredits(userId, { credits: row.credits - 1 }, row.credits);
+      if (updated) return { ok: true, data: { credits: row.credits - 1 } };
+    } catch (error) {
+      console.error("[credits] Failed to update credits:", error);
+      return fail(500, "failedToUpdateCredits");
+    }
+  }
+  return fail(409, "failedToUpdateCredits");
+}
+
+export async function applyReferral(
+  store: ServerDataStore,
+  userId: string,
+  rawCode: unknown
+): Promise<ServiceResult<{ creditsGranted: number }>> {
+  const referralCode = typeof rawCode === "string" ? rawCode.trim() : "";
+  if (!referralCode) return fail(400, "missingReferralCode");
+
+  const user = await readCredits(store, userId);
+  if (user === undefined) return fail(500, "failedToReadUser");
+  if (!user) return fail(404, "failedToReadUser");
+  if (user.referred_by) return fail(409, "alreadyReferred");
+
+  let referrer: UserCreditsRow | null;
+  try {
+    referrer = await store.findUserByReferralCode(referralCode);
+  } catch (error) {
+    console.error("[credits] Failed to read referrer:", error);
+    return fail(500, "failedToReadReferrer");
+  }
+  if (!referrer || referrer.id === userId) return fail(400, "invalidReferralCode");
+
+  // 条件写入：并发请求中只有第一个绑定成功的请求发放奖励
+  try {
+    const bound = await store.setReferredBy(userId, referrer.id);
+    if (!bound) return fail(409, "alreadyReferred");
+  } catch (error) {
+    console.error("[credits] Failed to update referral:", error);
+    return fail(500, "failedToUpdateReferral");
+  }
+
+  let granted = false;
+  for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS && !granted; attempt++) {
+    const current = attempt === 0 ? referrer : await readCredits(store, referrer.id);
+    if (!current) return fail(500, "failedToReadReferrer");
+    try {
+      granted = await store.updateUserCredits(
+        referrer.id,
+        { credits: current.credits + REFERRAL_BONUS_CREDITS, total_referrals: current.total_referrals + 1 },
+        current.credits
+      );
+    } catch (error) {
+      console.error("[credits] Failed to update referrer:", error);
+      return fail(500, "failedToUpdateReferrer");
+    }
+  }
+  if (!granted) return fail(409, "failedToUpdateReferrer");
+
+  try {
+    await store.insertReferralRecord({
+      referrer_id: referrer.id,
+      referred_id: userId,
+      referral_code: referralCode,
+      credits_granted: REFERRAL_BONUS_CREDITS,
+    });
+  } catch (error) {
+    // 奖励已发放，记录失败不影响结果
+    console.error("[credits] Failed to insert referral record:", error);
+  }
+
+  return { ok: true, data: { creditsGranted: REFERRAL_BONUS_CREDITS } };
+}
@@ -0,0 +1,73 @@
+/**
+ * 服务端数据存储
+ * 对局记录与额度数据的持久化接口，支持 Supabase 与本地 JSON 文件两种后端
+ *
+ * 通过 WOLFCHA_DATA_STORE 选择：supabase | local
+ * 未设置时，配置了 SUPABASE_SERVICE_ROLE_KEY 则使用 Supabase，否则使用本地文件
+ */
+
+import type { Database } from "@/types/database";
+
+type Tables = Database["public"]["Tables"];
+
+export type UserCreditsRow = Tables["user_credits"]["Row"];
+export type UserCreditsUpdate = Tables["user_credits"]["Update"];
+export type ReferralRecordInsert = Tables["referral_records"]["Insert"];
+export type GameSessionRow = Tables["game_sessions"]["Row"];
+export type GameSessionInsert = Tables["game_sessions"]["Insert"];
+export type GameSessionUpdate = Tables["game_sessions"]["Update"];
+
+export type DataStoreKind = "supabase" | "local";
+
+/** 存储失败时直接抛出，由调用方映射为具体的错误文案 */
+export interface ServerDataStore {
+  readonly kind: DataStoreKind;
+
+  /** 读取用户额度，本地存储会为首次出现的用户创建记录 */
+  getUserCredits(userId: string): Promise<UserCreditsRow | null>;
+
+  /**
+   * 更新用户额度记录
+   * 传入 expectedCredits 时仅在当前额度一致时更新（乐观锁），返回是否更新成功
+   */
+  updateUserCredits(userId: string, patch: UserCreditsUpdate, expectedCredits?: number): Promise<boolean>;
+
+  /** 仅在用户尚未绑定邀请人（referred_by 为空）时写入邀请人，返回是否写入成功 */
+  setReferredBy(userId: string, referrerId: string): Promise<boolean>;
+
+  findUserByReferralCode(referralCode: string): Promise<UserCreditsRow | null>;
+
+  insertReferralRecord(record: ReferralRecordInsert): Promise<void>;
+
+  /** 创建对局记录，返回记录 ID */
+  createGameSession(data: GameSessionInsert): Promise<string>;
+
+  /** 只更新属于该用户的对局，返回是否命中 */
+  updateGameSession(sessionId: string, userId: string, patch: GameSessionUpdate): Promise<boolean>;
+}
+
+export function resolveDataStoreKind(): DataStoreKind {
+  const configured = process.env.WOLFCHA_DATA_STORE;
+  if (configured === "supabase" || configured === "local") return configured;
+  return process.env.SUPABASE_SERVICE_ROLE_KEY ? "supabase" : "local";
+}
+
+let storePromise: Promise<ServerDataStore> | null = null;
+
+export function getServerDataStore(): Promise<ServerDataStore> {
+  if (!storePromise) {
+    // 按需加载，避免未配置 Supabase 时加载 admin 客户端
+    storePromise =
+      resolveDataStoreKind() === "supabase"
+        ? import("./supabase-data-store").then((m) => m.createSupabaseDataStore())
+        : import("./local-data-store").then((m) => m.createLocalDataStore());
+  }
+  return storePromise;
+}
+
+/** 生成 8 位邀请码 */
+export function generateReferralCode(): string {
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return Array.from(bytes, (b) => alphabet[b % alphabet.length]).join("");
+}
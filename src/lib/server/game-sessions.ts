@@ -0,0 +1,95 @@
+/**
+ * 对局记录
+ * 对应前端 game-session-tracker 的 create / update 请求，以及页面关闭时的 sendBeacon 上报
+ */
+
+import { fail, type ServiceResult } from "./http";
+import type { AuthenticatedUser } from "./auth";
+import type { GameSessionUpdate, ServerDataStore } from "./data-store";
+
+export interface GameSessionRequestBody {
+  action?: unknown;
+  /** sendBeacon 无法设置请求头，access token 放在请求体中 */
+  accessToken?: unknown;
+  sessionId?: unknown;
+  playerCount?: unknown;
+  difficulty?: unknown;
+  usedCustomKey?: unknown;
+  modelUsed?: unknown;
+  winner?: unknown;
+  completed?: unknown;
+  roundsPlayed?: unknown;
+  durationSeconds?: unknown;
+  aiCallsCount?: unknown;
+  aiInputChars?: unknown;
+  aiOutputChars?: unknown;
+  aiPromptTokens?: unknown;
+  aiCompletionTokens?: unknown;
+}
+
+const toCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+
+const toOptionalString = (value: unknown, maxLength = 200): string | null =>
+  typeof value === "string" && value.trim() ? value.trim().slice(0, maxLength) : null;
+
+export async function createGameSession(
+  store: ServerDataStore,
+  user: AuthenticatedUser,
+  body: GameSessionRequestBody,
+  region: string | null
+): Promise<ServiceResult<{ sessionId: string }>> {
+  const playerCount = toCount(body.playerCount);
+  if (playerCount === 0) return fail(400, "invalidPayload");
+
+  try {
+    const sessionId = await store.createGameSession({
+      user_id: user.id,
+      player_count: playerCount,
+      difficulty: toOptionalString(body.difficulty, 32),
+      completed: false,
+      used_custom_key: body.usedCustomKey === true,
+      model_used: toOptionalString(body.modelUsed),
+      user_email: user.email,
+      region,
+    });
+    return { ok: true, data: { sessionId } };
+  } catch (error) {
+    console.error("[game-sessions] Failed to create session:", error);
+    return fail(500, "internalServerError");
+  }
+}
+
+export async function updateGameSession(
+  store: ServerDataStore,
+  user: AuthenticatedUser,
+  body: GameSessionRequestBody
+): Promise<ServiceResult<{ success: true }>> {
+  const sessionId = toOptionalString(body.sessionId, 64);
+  if (!sessionId) return fail(400, "invalidPayload");
+
+  const patch: GameSessionUpdate = {
+    completed: body.completed === true,
+    rounds_played: toCount(body.roundsPlayed),
+    duration_seconds: toCount(body.durationSeconds),
+    ai_calls_count: toCount(body.aiCallsCount),
+    ai_input_chars: toCount(body.aiInputChars),
+    ai_output_chars: toCount(body.aiOutputChars),
+    ai_prompt_tokens: toCount(body.aiPromptTokens),
+    ai_completion_tokens: toCount(body.aiCompletionTokens),
+  };
+  // 进度同步不带 winner 字段；结束对局与页面关闭时会显式带上（可能为 null）
+  if ("winner" in body) {
+    patch.winner = body.winner === "wolf" || body.winner === "villager" ? body.winner : null;
+    patch.ended_at = new Date().toISOString();
+  }
+
+  try {
+    const updated = await store.updateGameSession(sessionId, user.id, patch);
+    if (!updated) return fail(404, "sessionNotFound");
+    return { ok: true, data: { success: true } };
+  } catch (error) {
+    console.error("[game-sessions] Failed to update session:", error);
+    return fail(500, "internalServerError");
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * API 路由公共工具
+ * 统一错误响应格式与请求语言解析
+ */
+
+import { NextResponse } from "next/server";
+import { getI18n } from "@/i18n/translator";
+import { STORAGE_KEY, defaultLocale, isSupportedLocale, type AppLocale } from "@/i18n/config";
+
+export type ApiErrorKey =
+  | "unknownError"
+  | "serverMisconfiguration"
+  | "serverConfigError"
+  | "failedToReadCredits"
+  | "insufficientCredits"
+  | "failedToUpdateCredits"
+  | "failedToReadUser"
+  | "alreadyReferred"
+  | "failedToUpdateReferral"
+  | "failedToReadReferrer"
+  | "failedToUpdateReferrer"
+  | "invalidPayload"
+  | "missingReferralCode"
+  | "invalidReferralCode"
+  | "sttUnavailable"
+  | "missingTextOrVoice"
+  | "ttsNotSupported"
+  | "internalServerError"
+  | "unauthorized"
+  | "sessionNotFound";
+
+/** 服务端业务操作的结果，失败时携带 HTTP 状态码与错误文案 key */
+export type ServiceResult<T> = { ok: true; data: T } | { ok: false; status: number; error: ApiErrorKey };
+
+export const fail = (status: number, error: ApiErrorKey): { ok: false; status: number; error: ApiErrorKey } => ({
+  ok: false,
+  status,
+  error,
+});
+
+// 优先使用前端写入的语言 cookie，其次是 Accept-Language
+export function getRequestLocale(req: Request): AppLocale {
+  const cookie = req.headers.get("cookie") ?? "";
+  for (const part of cookie.split(";")) {
+    const [key, value] = part.split("=").map((s) => s?.trim());
+    if (key === STORAGE_KEY && isSupportedLocale(value)) return value;
+  }
+  const acceptLanguage = req.headers.get("accept-language")?.toLowerCase() ?? "";
+  if (acceptLanguage.startsWith("en")) return "en";
+  if (acceptLanguage.startsWith("zh")) return "zh";
+  return defaultLocale;
+}
+
+export function jsonError(req: Request, error: ApiErrorKey, status: number, extra?: Record<string, unknown>) {
+  const { t } = getI18n(getRequestLocale(req));
+  return NextResponse.json({ error: t(`api.errors.${error}`), errorCode: error, ...extra }, { status });
+}
+
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.get("authorization") ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+export async function readJsonBody<T>(req: Request): Promise<T | null> {
+  try {
+    const body = (await req.json()) as unknown;
+    return body && typeof body === "object" ? (body as T) : null;
+  } catch {
+    return null;
+  }
+}
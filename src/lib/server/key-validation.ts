@@ -0,0 +1,63 @@
+/**
+ * 用户自带 API Key 校验
+ * 向对应服务商发送一次最小的 chat/completions 请求，区分 Key 无效与额度不足
+ */
+
+import { API_PROVIDERS } from "@/lib/api-config";
+import { isQuotaExhaustedMessage } from "@/lib/llm";
+
+export type KeyValidationErrorCode = "no_key" | "invalid_key" | "quota_exhausted" | "provider_error";
+
+export type KeyValidationResult = { valid: true } | { valid: false; error: string; errorCode: KeyValidationErrorCode };
+
+const VALIDATION_TIMEOUT_MS = 15000;
+
+async function validateProviderKey(providerId: "zenmux" | "dashscope", apiKey: string): Promise<KeyValidationResult> {
+  const provider = API_PROVIDERS.find((p) => p.id === providerId);
+  if (!provider) {
+    return { valid: false, error: `Unknown provider: ${providerId}`, errorCode: "provider_error" };
+  }
+
+  try {
+    const response = await fetch(provider.baseUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: provider.defaultModel,
+        messages: [{ role: "user", content: "ping" }],
+        max_tokens: 1,
+      }),
+      signal: AbortSignal.timeout(VALIDATION_TIMEOUT_MS),
+    });
+    if (response.ok) return { valid: true };
+
+    const body = await response.text().catch(() => "");
+    const error = `${provider.name}: ${response.status} ${body.slice(0, 300)}`.trim();
+    if (response.status === 401 || response.status === 403) {
+      return { valid: false, error, errorCode: "invalid_key" };
+    }
+    if (response.status === 402 || response.status === 429 || isQuotaExhaustedMessage(body)) {
+      return { valid: false, error, errorCode: "quota_exhausted" };
+    }
+    return { valid: false, error, errorCode: "provider_error" };
+  } catch (error) {
+    return { valid: false, error: `${provider.name}: ${String(error)}`, errorCode: "provider_error" };
+  }
+}
+
+/** 依次校验填写了的 Key，返回第一个失败结果 */
+export async function validateUserKeys(keys: { zenmux?: string | null; dashscope?: string | null }): Promise<KeyValidationResult> {
+  const entries = (["zenmux", "dashscope"] as const)
+    .map((id) => [id, keys[id]?.trim()] as const)
+    .filter((entry): entry is readonly ["zenmux" | "dashscope", string] => Boolean(entry[1]));
+
+  if (entries.length === 0) {
+    return { valid: false, error: "No API key provided", errorCode: "no_key" };
+  }
+
+  const results = await Promise.all(entries.map(([id, key]) => validateProviderKey(id, key)));
+  return results.find((r) => !r.valid) ?? { valid: true };
+}
@@ -0,0 +1,187 @@
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import { v4 as uuidv4 } from "uuid";
+import {
+  generateReferralCode,
+  type GameSessionInsert,
+  type GameSessionRow,
+  type GameSessionUpdate,
+  type ReferralRecordInsert,
+  type ServerDataStore,
+  type UserCreditsRow,
+} from "./data-store";
+import type { Database } from "@/types/database";
+
+type ReferralRecordRow = Database["public"]["Tables"]["referral_records"]["Row"];
+
+interface LocalStoreData {
+  user_credits: UserCreditsRow[];
+  referral_records: ReferralRecordRow[];
+  game_sessions: GameSessionRow[];
+}
+
+const DEFAULT_INITIAL_CREDITS = 10;
+
+/** 本地数据根目录，联机房间等其他本地存储也放在这里 */
+export const getLocalDataDir = () => process.env.WOLFCHA_DATA_DIR || path.join(process.cwd(), ".data");
+
+const getDataFile = () => path.join(getLocalDataDir(), "store.json");
+
+const getInitialCredits = () => {
+  const n = Number.parseInt(process.env.WOLFCHA_INITIAL_CREDITS ?? "", 10);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_INITIAL_CREDITS;
+};
+
+/**
+ * 本地 JSON 文件后端，适合单实例自托管
+ * 数据常驻内存，所有读写串行执行，写入时先写临时文件再替换，避免中途崩溃损坏数据
+ */
+export function createLocalDataStore(): ServerDataStore {
+  const filePath = getDataFile();
+  let data: LocalStoreData | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<LocalStoreData> => {
+    if (data) return data;
+    try {
+      const parsed = JSON.parse(await fs.readFile(filePath, "utf8")) as Partial<LocalStoreData>;
+      data = {
+        user_credits: parsed.user_credits ?? [],
+        referral_records: parsed.referral_records ?? [],
+        game_sessions: parsed.game_sessions ?? [],
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      data = { user_credits: [], referral_records: [], game_sessions: [] };
+    }
+    return data;
+  };
+
+  const persist = async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2));
+    await fs.rename(tmpPath, filePath);
+  };
+
+  // 串行执行，操作内调用 markDirty 后落盘
+  const run = <T>(op: (store: LocalStoreData, markDirty: () => void) => T): Promise<T> => {
+    const next = queue.then(async () => {
+      let dirty = false;
+      const result = op(await load(), () => {
+        dirty = true;
+      });
+      if (dirty) await persist();
+      return result;
+    });
+    queue = next.catch(() => {});
+    return next;
+  };
+
+  return {
+    kind: "local",
+
+    async getUserCredits(userId) {
+      return run((store, markDirty) => {
+        const existing = store.user_credits.find((row) => row.id === userId);
+        if (existing) return { ...existing };
+        const now = new Date().toISOString();
+        const row: UserCreditsRow = {
+          id: userId,
+          credits: getInitialCredits(),
+          referral_code: generateReferralCode(),
+          referred_by: null,
+          total_referrals: 0,
+          last_daily_bonus_at: null,
+          created_at: now,
+          updated_at: now,
+        };
+        store.user_credits.push(row);
+        markDirty();
+        return { ...row };
+      });
+    },
+
+    async updateUserCredits(userId, patch, expectedCredits) {
+      return run((store, markDirty) => {
+        const row = store.user_credits.find((r) => r.id === userId);
+        if (!row) return false;
+        if (expectedCredits !== undefined && row.credits !== expectedCredits) return false;
+        Object.assign(row, patch, { id: userId, updated_at: new Date().toISOString() });
+        markDirty();
+        return true;
+      });
+    },
+
+    async setReferredBy(userId, referrerId) {
+      return run((store, markDirty) => {
+        const row = store.user_credits.find((r) => r.id === userId);
+        if (!row || row.referred_by) return false;
+        row.referred_by = referrerId;
+        row.updated_at = new Date().toISOString();
+        markDirty();
+        return true;
+      });
+    },
+
+    async findUserByReferralCode(referralCode) {
+      return run((store) => {
+        const row = store.user_credits.find((r) => r.referral_code === referralCode);
+        return row ? { ...row } : null;
+      });
+    },
+
+    async insertReferralRecord(record: ReferralRecordInsert) {
+      await run((store, markDirty) => {
+        store.referral_records.push({
+          id: record.id ?? uuidv4(),
+          referrer_id: record.referrer_id,
+          referred_id: record.referred_id,
+          referral_code: record.referral_code,
+          credits_granted: record.credits_granted ?? 0,
+          created_at: record.created_at ?? new Date().toISOString(),
+        });
+        markDirty();
+      });
+    },
+
+    async createGameSession(insert: GameSessionInsert) {
+      return run((store, markDirty) => {
+        const row: GameSessionRow = {
+          id: insert.id ?? uuidv4(),
+          user_id: insert.user_id,
+          player_count: insert.player_count,
+          difficulty: insert.difficulty ?? null,
+          winner: insert.winner ?? null,
+          completed: insert.completed ?? false,
+          rounds_played: insert.rounds_played ?? 0,
+          duration_seconds: insert.duration_seconds ?? null,
+          ai_calls_count: insert.ai_calls_count ?? 0,
+          ai_input_chars: insert.ai_input_chars ?? 0,
+          ai_output_chars: insert.ai_output_chars ?? 0,
+          ai_prompt_tokens: insert.ai_prompt_tokens ?? 0,
+          ai_completion_tokens: insert.ai_completion_tokens ?? 0,
+          used_custom_key: insert.used_custom_key ?? false,
+          model_used: insert.model_used ?? null,
+          user_email: insert.user_email ?? null,
+          region: insert.region ?? null,
+          created_at: insert.created_at ?? new Date().toISOString(),
+          ended_at: insert.ended_at ?? null,
+        };
+        store.game_sessions.push(row);
+        markDirty();
+        return row.id;
+      });
+    },
+
+    async updateGameSession(sessionId, userId, patch: GameSessionUpdate) {
+      return run((store, markDirty) => {
+        const row = store.game_sessions.find((r) => r.id === sessionId && r.user_id === userId);
+        if (!row) return false;
+        Object.assign(row, patch, { id: sessionId, user_id: userId });
+        markDirty();
+        return true;
+      });
+    },
+  };
+}
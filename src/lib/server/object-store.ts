@@ -0,0 +1,130 @@
+/**
+ * 本地磁盘对象存储
+ * 为联机模式的 local 存储后端提供与 S3 相同的 key/value 语义，文件位于 <数据目录>/storage/<bucket>/<key>
+ * 需设置 WOLFCHA_LOCAL_STORAGE=1 开启；写入与删除需携带与 WOLFCHA_LOCAL_STORAGE_SECRET 一致的口令
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import { getLocalDataDir } from "./local-data-store";
+
+/** 单个对象的大小上限，房间状态包含完整对局数据 */
+export const MAX_OBJECT_BYTES = 5 * 1024 * 1024;
+
+/** 单个 bucket（大厅）的对象数与总大小上限，防止写满服务器磁盘 */
+const MAX_BUCKET_OBJECTS = 200;
+const MAX_BUCKET_BYTES = 100 * 1024 * 1024;
+
+/** 写入与删除请求携带口令的请求头 */
+export const STORAGE_SECRET_HEADER = "x-wolfcha-storage-secret";
+
+/** 本地对象存储是否开启，只使用云存储的部署默认关闭 */
+export function isLocalStorageEnabled(): boolean {
+  return process.env.WOLFCHA_LOCAL_STORAGE === "1";
+}
+
+/** 校验写入口令；服务器未配置口令时拒绝所有写入 */
+export function isStorageSecretValid(secret: string | null): boolean {
+  const expected = process.env.WOLFCHA_LOCAL_STORAGE_SECRET;
+  if (!expected || !secret) return false;
+  const a = Buffer.from(secret);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+const KEY_SEGMENT_PATTERN = /^[A-Za-z0-9_.-]{1,128}$/;
+// bucket 即大厅名，允许中文
+const BUCKET_PATTERN = /^[\p{L}\p{N}_.-]{1,64}$/u;
+
+const isSafeName = (name: string, pattern: RegExp) => pattern.test(name) && name !== "." && name !== "..";
+
+/** 校验 bucket 与 key，非法时返回 null，防止路径穿越 */
+export function resolveObjectPath(bucket: string, keySegments: string[]): string | null {
+  if (!isSafeName(bucket, BUCKET_PATTERN) || keySegments.length === 0) return null;
+  if (!keySegments.every((segment) => isSafeName(segment, KEY_SEGMENT_PATTERN))) return null;
+  return path.join(getLocalDataDir(), "storage", bucket, ...keySegments);
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const entryPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? listFiles(entryPath) : Promise.resolve([entryPath]);
+    })
+  );
+  return nested.flat();
+}
+
+/** 写入 size 字节到 filePath 后，所在 bucket 是否仍在对象数与总大小上限内 */
+export async function hasBucketCapacity(bucket: string, filePath: string, size: number): Promise<boolean> {
+  const files = await listFiles(path.join(getLocalDataDir(), "storage", bucket));
+  let count = 0;
+  let bytes = 0;
+  for (const file of files) {
+    if (file === filePath) continue;
+    count += 1;
+    bytes += (await fs.stat(file)).size;
+  }
+  return count + 1 <= MAX_BUCKET_OBJECTS && bytes + size <= MAX_BUCKET_BYTES;
+}
+
+/** 写入条件，对应 HTTP 的 If-Match / If-None-Match: * */
+export interface WriteConditions {
+  ifMatch?: string | null;
+  ifNoneMatch?: string | null;
+}
+
+export const computeETag = (body: string) => `"${createHash("sha1").update(body).digest("hex")}"`;
+
+export async function readObject(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+// 先写临时文件再替换，轮询方不会读到写了一半的 JSON
+async function writeObject(filePath: string, body: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${Date.now().toString(36)}.tmp`;
+  await fs.writeFile(tmpPath, body);
+  await fs.rename(tmpPath, filePath);
+}
+
+export async function deleteObject(filePath: string): Promise<void> {
+  await fs.rm(filePath, { force: true });
+}
+
+// 同一文件的条件写入串行执行，保证比较与写入之间没有其他写入
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function runExclusive<T>(filePath: string, op: () => Promise<T>): Promise<T> {
+  const next = (writeQueues.get(filePath) ?? Promise.resolve()).then(op);
+  const settled = next.catch(() => {});
+  writeQueues.set(filePath, settled);
+  void settled.then(() => {
+    if (writeQueues.get(filePath) === settled) writeQueues.delete(filePath);
+  });
+  return next;
+}
+
+/** 条件写入，条件不满足时返回 false */
+export function writeObjectIfMatch(filePath: string, body: string, conditions: WriteConditions): Promise<boolean> {
+  return runExclusive(filePath, async () => {
+    const current = await readObject(filePath);
+    if (conditions.ifNoneMatch === "*" && current !== null) return false;
+    if (conditions.ifMatch && (current === null || computeETag(current) !== conditions.ifMatch)) return false;
+    await writeObject(filePath, body);
+    return true;
+  });
+}
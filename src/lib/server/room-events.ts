@@ -0,0 +1,86 @@
+/**
+ * 联机房间实时推送
+ * 进程内的房间频道：local 存储的房间由服务器从存储读取后计算增量，推送给频道的全部订阅者；
+ * 云存储的房间服务器读不到，只推送版本提示，由客户端从存储读取。
+ * 只缓存有订阅者的频道的最新房间；多实例部署（如 Serverless）之间不共享，客户端会退回轮询。
+ */
+
+import type { RoomState } from "@/lib/storage";
+import { diffRoom, roomForPlayer, withPlayerView, type RoomDelta } from "@/lib/multiplayer/room-delta";
+
+export type RoomEvent =
+  | { type: "snapshot"; room: RoomState }
+  | { type: "delta"; delta: RoomDelta }
+  /** 云存储频道只提示房间已更新，客户端自行从存储读取 */
+  | { type: "hint"; version: number };
+
+interface Subscriber {
+  playerId: string;
+  send: (event: RoomEvent) => void;
+}
+
+interface Channel {
+  room: RoomState | null;
+  subscribers: Set<Subscriber>;
+}
+
+const channels = new Map<string, Channel>();
+
+/** 订阅房间频道，已有缓存的房间时立即推送一次完整房间；返回取消订阅函数 */
+export function subscribeRoomEvents(channelKey: string, playerId: string, send: Subscriber["send"]): () => void {
+  let channel = channels.get(channelKey);
+  if (!channel) {
+    channel = { room: null, subscribers: new Set() };
+    channels.set(channelKey, channel);
+  }
+
+  const subscriber: Subscriber = { playerId, send };
+  channel.subscribers.add(subscriber);
+  if (channel.room) send({ type: "snapshot", room: roomForPlayer(channel.room, playerId) });
+
+  const current = channel;
+  return () => {
+    current.subscribers.delete(subscriber);
+    if (current.subscribers.size === 0 && channels.get(channelKey) === current) {
+      channels.delete(channelKey);
+    }
+  };
+}
+
+/** 发布写入后的房间；没有订阅者或版本不比缓存新时忽略，返回是否推送 */
+export function publishRoomState(channelKey: string, room: RoomState): boolean {
+  const channel = channels.get(channelKey);
+  if (!channel) return false;
+
+  const prev = channel.room;
+  if (prev && room.version <= prev.version) return false;
+  channel.room = room;
+
+  const delta = prev ? diffRoom(prev, room) : null;
+  for (const subscriber of channel.subscribers) {
+    try {
+      subscriber.send(
+        prev && delta
+          ? { type: "delta", delta: withPlayerView(delta, prev, room, subscriber.playerId) }
+          : { type: "snapshot", room: roomForPlayer(room, subscriber.playerId) }
+      );
+    } catch (error) {
+      console.error("[room-events] Failed to push room event:", error);
+    }
+  }
+  return true;
+}
+
+/** 提示订阅者房间已更新到某版本；提示不可信，只用来触发客户端读取存储 */
+export function publishRoomHint(channelKey: string, version: number): boolean {
+  const channel = channels.get(channelKey);
+  if (!channel) return false;
+  for (const subscriber of channel.subscribers) {
+    try {
+      subscriber.send({ type: "hint", version });
+    } catch (error) {
+      console.error("[room-events] Failed to push room event:", error);
+    }
+  }
+  return true;
+}
@@ -0,0 +1,48 @@
+/**
+ * 语音识别后端
+ * 使用 Whisper 兼容的 /audio/transcriptions 接口（OpenAI、Groq、本地 whisper.cpp server 等）
+ */
+
+export interface SttProvider {
+  isConfigured(): boolean;
+  transcribe(audio: Uint8Array, format: string): Promise<string>;
+}
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+  webm: "audio/webm",
+  ogg: "audio/ogg",
+  m4a: "audio/mp4",
+};
+
+const whisperProvider: SttProvider = {
+  isConfigured() {
+    // 本地部署的 whisper 服务可能不需要 Key，配置了地址即可
+    return Boolean(process.env.STT_API_KEY || process.env.STT_BASE_URL);
+  },
+
+  async transcribe(audio, format) {
+    const baseUrl = (process.env.STT_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+    const form = new FormData();
+    form.append("file", new Blob([audio as Uint8Array<ArrayBuffer>], { type: AUDIO_MIME_TYPES[format] ?? "application/octet-stream" }), `speech.${format}`);
+    form.append("model", process.env.STT_MODEL || "whisper-1");
+    form.append("response_format", "json");
+    if (process.env.STT_LANGUAGE) form.append("language", process.env.STT_LANGUAGE);
+
+    const headers: Record<string, string> = {};
+    if (process.env.STT_API_KEY) headers.Authorization = `Bearer ${process.env.STT_API_KEY}`;
+
+    const response = await fetch(`${baseUrl}/audio/transcriptions`, { method: "POST", headers, body: form });
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`STT error: ${response.status} ${body.slice(0, 500)}`);
+    }
+    const json = (await response.json()) as { text?: unknown };
+    return typeof json.text === "string" ? json.text.trim() : "";
+  },
+};
+
+export function getSttProvider(): SttProvider {
+  return whisperProvider;
+}
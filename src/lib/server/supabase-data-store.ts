@@ -0,0 +1,82 @@
+import { ensureAdminClient, supabaseAdmin } from "@/lib/supabase-admin";
+import type {
+  GameSessionInsert,
+  GameSessionUpdate,
+  ReferralRecordInsert,
+  ServerDataStore,
+  UserCreditsRow,
+  UserCreditsUpdate,
+} from "./data-store";
+
+/** Supabase 后端，使用 service role 客户端绕过 RLS；额度记录由数据库触发器在注册时创建 */
+export function createSupabaseDataStore(): ServerDataStore {
+  ensureAdminClient();
+
+  return {
+    kind: "supabase",
+
+    async getUserCredits(userId) {
+      const { data, error } = await supabaseAdmin.from("user_credits").select("*").eq("id", userId).maybeSingle();
+      if (error) throw error;
+      return (data as UserCreditsRow | null) ?? null;
+    },
+
+    async updateUserCredits(userId, patch: UserCreditsUpdate, expectedCredits) {
+      let query = supabaseAdmin
+        .from("user_credits")
+        .update({ ...patch, updated_at: new Date().toISOString() } as never)
+        .eq("id", userId);
+      if (expectedCredits !== undefined) query = query.eq("credits", expectedCredits);
+      const { data, error } = await query.select("id");
+      if (error) throw error;
+      return Array.isArray(data) && data.length > 0;
+    },
+
+    async setReferredBy(userId, referrerId) {
+      const { data, error } = await supabaseAdmin
+        .from("user_credits")
+        .update({ referred_by: referrerId, updated_at: new Date().toISOString() } as never)
+        .eq("id", userId)
+        .is("referred_by", null)
+        .select("id");
+      if (error) throw error;
+      return Array.isArray(data) && data.length > 0;
+    },
+
+    async findUserByReferralCode(referralCode) {
+      const { data, error } = await supabaseAdmin
+        .from("user_credits")
+        .select("*")
+        .eq("referral_code", referralCode)
+        .maybeSingle();
+      if (error) throw error;
+      return (data as UserCreditsRow | null) ?? null;
+    },
+
+    async insertReferralRecord(record: ReferralRecordInsert) {
+      const { error } = await supabaseAdmin.from("referral_records").insert(record as never);
+      if (error) throw error;
+    },
+
+    async createGameSession(data: GameSessionInsert) {
+      const { data: row, error } = await supabaseAdmin
+        .from("game_sessions")
+        .insert(data as never)
+        .select("id")
+        .single();
+      if (error || !row) throw error ?? new Error("Failed to create game session");
+      return (row as { id: string }).id;
+    },
+
+    async updateGameSession(sessionId, userId, patch: GameSessionUpdate) {
+      const { data, error } = await supabaseAdmin
+        .from("game_sessions")
+        .update(patch as never)
+        .eq("id", sessionId)
+        .eq("user_id", userId)
+        .select("id");
+      if (error) throw error;
+      return Array.isArray(data) && data.length > 0;
+    },
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * 语音合成后端
+ * 通过 TTS_PROVIDER 选择：minimax（默认）| openai（OpenAI 兼容的 /audio/speech 接口）
+ */
+
+export interface TtsRequest {
+  text: string;
+  voiceId: string;
+}
+
+/** 用户在前端填写的 Key（请求头传入），优先于服务器环境变量 */
+export interface TtsCredentials {
+  apiKey?: string;
+  groupId?: string;
+}
+
+export interface TtsAudio {
+  audio: Uint8Array;
+  contentType: string;
+}
+
+export interface TtsProvider {
+  readonly id: "minimax" | "openai";
+  isConfigured(credentials: TtsCredentials): boolean;
+  /** 上游返回的数据无法识别为音频时返回 null */
+  synthesize(request: TtsRequest, credentials: TtsCredentials): Promise<TtsAudio | null>;
+}
+
+async function readUpstreamError(response: Response, label: string): Promise<Error> {
+  const body = await response.text().catch(() => "");
+  return new Error(`${label} error: ${response.status} ${body.slice(0, 500)}`);
+}
+
+// 与 scripts/generate-narrator-audio.ts 一致，兼容不同版本返回的音频字段与编码
+function decodeMinimaxAudio(json: Record<string, unknown>): Uint8Array | null {
+  const data = json.data as Record<string, unknown> | string | undefined;
+  const audio = json.audio as Record<string, unknown> | undefined;
+  const candidates = [
+    typeof data === "string" ? data : undefined,
+    typeof data === "object" ? data?.audio : undefined,
+    typeof data === "object" ? data?.data : undefined,
+    audio?.data,
+    json.audio_data,
+  ];
+  const encoded = candidates.find((v): v is string => typeof v === "string" && v.trim().length > 0)?.trim();
+  if (!encoded) return null;
+  const looksLikeHex = /^[0-9a-fA-F]+$/.test(encoded) && encoded.length % 2 === 0;
+  return new Uint8Array(Buffer.from(encoded, looksLikeHex ? "hex" : "base64"));
+}
+
+const minimaxProvider: TtsProvider = {
+  id: "minimax",
+
+  isConfigured(credentials) {
+    return Boolean((credentials.apiKey || process.env.MINIMAX_API_KEY) && (credentials.groupId || process.env.MINIMAX_GROUP_ID));
+  },
+
+  async synthesize({ text, voiceId }, credentials) {
+    const apiKey = credentials.apiKey || process.env.MINIMAX_API_KEY || "";
+    const groupId = credentials.groupId || process.env.MINIMAX_GROUP_ID || "";
+    const baseUrl = process.env.MINIMAX_API_BASE_URL || "https://api.minimax.chat";
+
+    const response = await fetch(`${baseUrl}/v1/t2a_v2?GroupId=${encodeURIComponent(groupId)}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+        GroupId: groupId,
+      },
+      body: JSON.stringify({
+        model: process.env.MINIMAX_TTS_MODEL || "speech-01-turbo",
+        text,
+        stream: false,
+        voice_setting: { voice_id: voiceId, speed: 1.0, vol: 1.0, pitch: 0 },
+        audio_setting: { sample_rate: 32000, bitrate: 128000, format: "mp3", channel: 1 },
+      }),
+    });
+
+    if (!response.ok) throw await readUpstreamError(response, "MiniMax TTS");
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.startsWith("audio/")) {
+      return { audio: new Uint8Array(await response.arrayBuffer()), contentType };
+    }
+
+    const json = (await response.json()) as Record<string, unknown>;
+    const baseResp = json.base_resp as { status_code?: number; status_msg?: string } | undefined;
+    if (baseResp && baseResp.status_code !== 0) {
+      throw new Error(`MiniMax TTS error: ${baseResp.status_msg ?? baseResp.status_code}`);
+    }
+    const audio = decodeMinimaxAudio(json);
+    return audio ? { audio, contentType: "audio/mpeg" } : null;
+  },
+};
+
+const openaiProvider: TtsProvider = {
+  id: "openai",
+
+  isConfigured(credentials) {
+    return Boolean(credentials.apiKey || process.env.TTS_API_KEY);
+  },
+
+  async synthesize({ text, voiceId }, credentials) {
+    const baseUrl = (process.env.TTS_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+    const response = await fetch(`${baseUrl}/audio/speech`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${credentials.apiKey || process.env.TTS_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: process.env.TTS_MODEL || "tts-1",
+        input: text,
+        voice: voiceId,
+        response_format: "mp3",
+      }),
+    });
+
+    if (!response.ok) throw await readUpstreamError(response, "TTS");
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("json") || contentType.startsWith("text/")) return null;
+    return { audio: new Uint8Array(await response.arrayBuffer()), contentType: contentType || "audio/mpeg" };
+  },
+};
+
+export function getTtsProvider(): TtsProvider {
+  return process.env.TTS_PROVIDER === "openai" ? openaiProvider : minimaxProvider;
+}
@@ -6,12 +6,18 @@
 import type { IGameStorage, StorageConfig } from './interface'
 import { STORAGE_CONFIG_KEY, DEFAULT_STORAGE_CONFIG } from './interface'
 import { S3Storage } from './s3-storage'
+import { ServerStorage } from './server-storage'
+import { MemoryStorage } from './memory-storage'
 
 /**
  * 创建存储实例
  */
 export function createStorage(config: StorageConfig): IGameStorage {
   switch (config.provider) {
+    case 'local':
+      return new ServerStorage(config)
+    case 'memory':
+      return new MemoryStorage(config)
     case 'qiniu':
     case 'tencent':
       return new S3Storage(config)
@@ -64,17 +70,3 @@ export function clearStorageConfig(): void {
 export function getStorageConfig(): StorageConfig {
   return loadStorageConfig() || { ...DEFAULT_STORAGE_CONFIG }
 }
-
-/**
- * 生成房间 ID（基于配置哈希）
- * 同一配置会生成相同的房间 ID
- */
-export async function generateRoomId(config: StorageConfig): Promise<string> {
-  const str = `${config.provider}:${config.bucket}:${config.accessKey}`
-  const encoder = new TextEncoder()
-  const data = encoder.encode(str)
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-  const hashArray = Array.from(new Uint8Array(hashBuffer))
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
-  return `ROOM-${hashHex.substring(0, 8).toUpperCase()}`
-}
@@ -4,4 +4,6 @@
 
 export * from './interface'
 export * from './s3-storage'
+export * from './server-storage'
+export * from './memory-storage'
 export * from './factory'
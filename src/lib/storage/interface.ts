@@ -1,16 +1,27 @@
 /**
  * 游戏存储接口
- * 抽象存储层，支持多种云存储实现
+ * 抽象存储层，支持云存储、本地服务器磁盘与内存实现
  */
 
+import type { DifficultyLevel, GameRules, ModelRef } from '@/types/game'
+import type { BoardConfig } from '@/lib/board-config'
+import type { GeneratedCharacter } from '@/lib/character-generator'
+import type { TurnTimerConfig } from '@/lib/turn-timer'
+
+// qiniu / tencent: S3 兼容云存储；local: 本机或局域网内的 wolfcha 服务器；memory: 进程内存（测试用）
+export type StorageProvider = 'qiniu' | 'tencent' | 'local' | 'memory'
+
 // 存储配置
+// local 时 endpoint 为服务器地址（留空表示当前站点），bucket 作为大厅名（同一大厅内可以有多个房间）；memory 时仅使用 bucket
 export interface StorageConfig {
-  provider: 'qiniu' | 'tencent'
+  provider: StorageProvider
   endpoint: string
   accessKey: string
   secretKey: string
   bucket: string
   region: string
+  /** 云存储时可选的 wolfcha 服务器地址，填写后通过该服务器实时推送房间变化；local 时始终使用 endpoint */
+  realtimeEndpoint?: string
 }
 
 // 玩家信息
@@ -21,20 +32,153 @@ export interface Player {
   isReady: boolean
   isOnline: boolean
   lastSeen: number
+  /** ECDH 公钥（base64），房主用它加密该玩家的私有视角 */
+  publicKey?: string
+}
+
+// 观战者，只读连接房间，不占座位也不参与房主交接
+export interface Spectator {
+  id: string
+  name: string
+  joinedAt: number
+  /** ECDH 公钥（base64），上帝视角开启时房主用它加密完整状态 */
+  publicKey?: string
+}
+
+// 加密后的玩家视角，只有持有对应私钥的玩家能解密
+export interface SealedView {
+  /** 房主本次发布使用的临时 ECDH 公钥（base64） */
+  epk: string
+  iv: string
+  data: string
+}
+
+// 座位：open 开局时分配给没有指定座位的真人，无人时由 AI 补位；ai 为保留给 AI 的座位
+export type RoomSeat =
+  | { kind: 'open' }
+  | { kind: 'human'; playerId: string }
+  | {
+      kind: 'ai'
+      /** 不指定时从模型池抽样 */
+      modelRef?: ModelRef
+      /** 房主的自定义角色，不指定时按 aiCharacters 生成 */
+      character?: GeneratedCharacter
+    }
+
+// 座位与板子配置，由房主在开局前设置，锁定后才能开局
+export interface RoomSeatConfig {
+  board: BoardConfig
+  /** 长度等于板子人数，下标即座位（从0开始） */
+  seats: RoomSeat[]
+  difficulty: DifficultyLevel
+  /** AI 角色来源：genshin 以模型名作为角色，generated 按剧本生成角色 */
+  aiCharacters: 'genshin' | 'generated'
+  /** 真人回合限时与超时处理 */
+  turnTimers: TurnTimerConfig
+  /** 房规，读取时需经 normalizeGameRules 补全（旧房间没有该字段） */
+  rules: GameRules
+  /**
+   * 对局中房主掉线时由接班人接管，需要把完整的隐藏信息（全部身份与夜间行动）加密给一名在座玩家。
+   * 默认关闭；旧房间没有该字段，视为关闭
+   */
+  hostMigration?: boolean
+  locked: boolean
+}
+
+// 观战设置，由房主随时修改
+export interface RoomSpectatorConfig {
+  /** 是否允许观战 */
+  enabled: boolean
+  /** 观战画面的延迟（秒），防止观战者向玩家透露信息 */
+  delaySeconds: number
+  /** 上帝视角：只向观战者公开全部身份与夜间行动 */
+  godView: boolean
+}
+
+// 房主按延迟发布的观战画面
+export interface SpectatorFeed {
+  /** 公开视角的游戏状态 */
+  gameState: unknown
+  /** 上帝视角的完整状态，分别加密给各观战者，key 为观战者 ID */
+  godViews?: Record<string, SealedView>
+  /** 该画面在房主处产生的时间 */
+  capturedAt: number
+}
+
+// 房主交接快照：最近一个可恢复的对局检查点，加密给房主本人与接班人
+export interface HostSnapshot {
+  /** 房主失联时优先接管的玩家，没有可用接班人时为 null */
+  successorId: string | null
+  /** 各接收人的加密快照，key 为联机玩家 ID */
+  sealed: Record<string, SealedView>
+  updatedAt: number
+}
+
+// 玩家提交、等待房主处理的操作
+// 队列对房间内所有人可读，操作内容（提交者、类型、目标）只加密给房主与交接接班人
+export interface RoomAction {
+  /** 唯一 ID，合并并发写入时用于去重 */
+  id: string
+  timestamp: number
+  /** 各接收人的加密操作，key 为联机玩家 ID */
+  sealed: Record<string, SealedView>
 }
 
 // 房间状态
 export interface RoomState {
+  /** 加入码，同一存储下唯一 */
   id: string
   version: number
+  /** 房间名，显示在房间列表中 */
+  name?: string
+  /** 房间密码的哈希，未设置密码时为空 */
+  passwordHash?: string
   hostId: string
   status: 'waiting' | 'playing' | 'ended'
   players: Player[]
+  /** 公开视角的游戏状态，不含任何隐藏信息 */
   gameState?: unknown
+  /** 各玩家的私有视角，key 为联机玩家 ID */
+  playerViews?: Record<string, SealedView>
+  /** 操作队列，独立于 gameState，房主发布新状态时不会被覆盖 */
+  actions?: RoomAction[]
+  /** 座位与板子配置 */
+  seatConfig?: RoomSeatConfig
+  /** 房主交接快照，仅对局进行中存在 */
+  hostSnapshot?: HostSnapshot
+  /** 观战者列表 */
+  spectators?: Spectator[]
+  /** 观战设置 */
+  spectatorConfig?: RoomSpectatorConfig
+  /** 延迟或上帝视角时的观战画面；不需要时观战者直接读取 gameState */
+  spectatorFeed?: SpectatorFeed
   createdAt: number
   updatedAt: number
 }
 
+// 房间列表中的条目，只包含大厅展示需要的公开信息
+export interface RoomListing {
+  id: string
+  name: string
+  hostName: string
+  playerCount: number
+  hasPassword: boolean
+  status: RoomState['status']
+  createdAt: number
+  /** 房间最近一次活动时间，用于判断是否过期 */
+  updatedAt: number
+}
+
+// 房间目录，记录同一存储下的全部房间
+export interface RoomDirectory {
+  version: number
+  rooms: RoomListing[]
+  updatedAt: number
+}
+
+// 条件写入结果：conflict 表示存储中的版本已被他人修改
+export type RoomWriteResult = 'ok' | 'conflict' | 'error'
+
 // 连接测试结果
 export interface ConnectionTestResult {
   success: boolean
@@ -55,6 +199,22 @@ export interface IGameStorage {
    */
   saveRoom(room: RoomState): Promise<boolean>
 
+  /**
+   * 条件写入房间数据（compare-and-swap）
+   * 仅当存储中的房间版本等于 expectedVersion 时写入；expectedVersion 为 null 表示房间必须不存在
+   */
+  compareAndSwapRoom(room: RoomState, expectedVersion: number | null): Promise<RoomWriteResult>
+
+  /**
+   * 获取房间目录
+   */
+  getRoomDirectory(): Promise<RoomDirectory | null>
+
+  /**
+   * 条件写入房间目录，语义同 compareAndSwapRoom
+   */
+  compareAndSwapRoomDirectory(directory: RoomDirectory, expectedVersion: number | null): Promise<RoomWriteResult>
+
   /**
    * 删除房间
    */
@@ -74,14 +234,21 @@ export interface IGameStorage {
 // 存储配置键名
 export const STORAGE_CONFIG_KEY = 'wolfcha_storage_config'
 
-// 默认配置（七牛云 - 已预填测试密钥）
+// 默认配置（当前站点的本地服务器，无需云存储密钥）
 export const DEFAULT_STORAGE_CONFIG: StorageConfig = {
-  provider: 'qiniu',
-  endpoint: 's3.cn-east-1.qiniucs.com',
-  accessKey: '21wDcvS0uXaz-qWAcPtC4h4llnNWrvMHUNrUTe_z',
-  secretKey: '9RFBV6oK3uPshI4l7JV3N7BwgkTQYWwjbLFqDZJb',
-  bucket: '80zle4',
-  region: 'cn-east-1',
+  provider: 'local',
+  endpoint: '',
+  accessKey: '',
+  secretKey: '',
+  bucket: 'lobby',
+  region: '',
+}
+
+/**
+ * 是否需要填写云存储密钥
+ */
+export function requiresCredentials(provider: StorageProvider): boolean {
+  return provider === 'qiniu' || provider === 'tencent'
 }
 
 // 预设服务商配置
@@ -96,4 +263,14 @@ export const PROVIDER_PRESETS = {
     endpoint: 'cos.ap-shanghai.myqcloud.com',
     region: 'ap-shanghai',
   },
+  local: {
+    name: '本地服务器',
+    endpoint: '',
+    region: '',
+  },
+  memory: {
+    name: '内存（单机测试）',
+    endpoint: '',
+    region: '',
+  },
 } as const
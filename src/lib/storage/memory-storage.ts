@@ -0,0 +1,94 @@
+/**
+ * 内存存储实现
+ * 同一进程（浏览器标签页或 Node 进程）内的所有实例共享数据，用于测试与单机调试
+ * 读写都经过 JSON 序列化，行为与云存储一致，避免调用方意外共享引用
+ */
+
+import type { IGameStorage, StorageConfig, RoomState, RoomDirectory, RoomWriteResult, ConnectionTestResult } from './interface'
+
+// bucket -> key -> JSON 字符串
+const buckets = new Map<string, Map<string, string>>()
+
+export class MemoryStorage implements IGameStorage {
+  private config: StorageConfig
+  private roomPrefix = 'rooms/'
+
+  constructor(config: StorageConfig) {
+    this.config = config
+  }
+
+  private get objects(): Map<string, string> {
+    let objects = buckets.get(this.config.bucket)
+    if (!objects) {
+      objects = new Map()
+      buckets.set(this.config.bucket, objects)
+    }
+    return objects
+  }
+
+  getPublicUrl(key: string): string {
+    return `memory://${this.config.bucket}/${key}`
+  }
+
+  private getRoomKey(roomId: string): string {
+    return `${this.roomPrefix}${roomId}.json`
+  }
+
+  private get directoryKey(): string {
+    return `${this.roomPrefix}_directory.json`
+  }
+
+  // ============ IGameStorage 接口实现 ============
+
+  async getRoom(roomId: string): Promise<RoomState | null> {
+    const raw = this.objects.get(this.getRoomKey(roomId))
+    return raw ? (JSON.parse(raw) as RoomState) : null
+  }
+
+  async saveRoom(room: RoomState): Promise<boolean> {
+    this.objects.set(this.getRoomKey(room.id), JSON.stringify(room))
+    return true
+  }
+
+  async compareAndSwapRoom(room: RoomState, expectedVersion: number | null): Promise<RoomWriteResult> {
+    return this.compareAndSwapJSON(this.getRoomKey(room.id), room, expectedVersion)
+  }
+
+  async getRoomDirectory(): Promise<RoomDirectory | null> {
+    const raw = this.objects.get(this.directoryKey)
+    return raw ? (JSON.parse(raw) as RoomDirectory) : null
+  }
+
+  async compareAndSwapRoomDirectory(directory: RoomDirectory, expectedVersion: number | null): Promise<RoomWriteResult> {
+    return this.compareAndSwapJSON(this.directoryKey, directory, expectedVersion)
+  }
+
+  // 读取与写入之间没有 await，天然是原子的
+  private compareAndSwapJSON(key: string, data: { version: number }, expectedVersion: number | null): RoomWriteResult {
+    const raw = this.objects.get(key)
+    const currentVersion = raw ? (JSON.parse(raw) as { version: number }).version : null
+    if (currentVersion !== expectedVersion) return 'conflict'
+    this.objects.set(key, JSON.stringify(data))
+    return 'ok'
+  }
+
+  async deleteRoom(roomId: string): Promise<boolean> {
+    this.objects.delete(this.getRoomKey(roomId))
+    return true
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    return { success: true, message: '连接成功！（内存存储）' }
+  }
+}
+
+/**
+ * 清空内存存储，不传 bucket 时清空全部
+ */
+export function clearMemoryStorage(bucket?: string): void {
+  if (bucket === undefined) {
+    buckets.clear()
+  } else {
+    buckets.delete(bucket)
+  }
+}
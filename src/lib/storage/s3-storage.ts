@@ -2,9 +2,10 @@
  * S3 兼容存储实现
  * 支持七牛云、腾讯云 COS
  * 使用 AWS Signature V4 签名
+ * 条件写入依赖 ETag：浏览器直连时存储桶 CORS 规则须暴露 ETag 响应头（ExposeHeaders: ETag），否则无法写入房间
  */
 
-import type { IGameStorage, StorageConfig, RoomState, ConnectionTestResult } from './interface'
+import type { IGameStorage, StorageConfig, RoomState, RoomDirectory, RoomWriteResult, ConnectionTestResult } from './interface'
 
 // ============ AWS Signature V4 签名工具 ============
 
@@ -150,7 +151,15 @@ export class S3Storage implements IGameStorage {
     return `${this.roomPrefix}${roomId}.json`
   }
 
+  private get directoryKey(): string {
+    return `${this.roomPrefix}_directory.json`
+  }
+
   private async getJSON<T>(key: string): Promise<T | null> {
+    return (await this.getJSONWithETag<T>(key)).data
+  }
+
+  private async getJSONWithETag<T>(key: string): Promise<{ data: T | null; etag: string | null }> {
     try {
       const path = `/${key}`
       const signed = await signRequest(
@@ -171,19 +180,23 @@ export class S3Storage implements IGameStorage {
       })
 
       if (!res.ok) {
-        if (res.status === 404) return null
+        if (res.status === 404) return { data: null, etag: null }
         const text = await res.text()
         console.error('[S3Storage] GET error:', res.status, text)
         throw new Error(`GET failed: ${res.status}`)
       }
-      return await res.json()
+      return { data: await res.json(), etag: res.headers.get('etag') }
     } catch (error) {
       console.error('[S3Storage] getJSON error:', error)
-      return null
+      return { data: null, etag: null }
     }
   }
 
-  private async putJSON(key: string, data: unknown): Promise<boolean> {
+  /**
+   * 写入对象，conditions 为 If-Match / If-None-Match 条件头
+   * 条件不满足时服务端返回 412（部分实现返回 409）
+   */
+  private async putJSON(key: string, data: unknown, conditions: Record<string, string> = {}): Promise<RoomWriteResult> {
     try {
       const path = `/${key}`
       const body = JSON.stringify(data)
@@ -192,7 +205,7 @@ export class S3Storage implements IGameStorage {
         'PUT',
         this.host,
         path,
-        { 'Content-Type': 'application/json' },
+        { 'Content-Type': 'application/json', ...conditions },
         body,
         this.config.accessKey,
         this.config.secretKey,
@@ -205,17 +218,37 @@ export class S3Storage implements IGameStorage {
         body,
       })
 
+      if (res.status === 412 || res.status === 409) return 'conflict'
       if (!res.ok) {
         const text = await res.text()
         console.error('[S3Storage] PUT error:', res.status, text)
+        return 'error'
       }
-      return res.ok
+      return 'ok'
     } catch (error) {
       console.error('[S3Storage] putJSON error:', error)
-      return false
+      return 'error'
     }
   }
 
+  /**
+   * 按 version 字段条件写入，expectedVersion 为 null 表示对象必须不存在
+   * 先确认版本，再用 ETag 保证读到写之间没有其他写入；读不到 ETag 时不做无条件写入
+   */
+  private async compareAndSwapJSON<T extends { version: number }>(key: string, data: T, expectedVersion: number | null): Promise<RoomWriteResult> {
+    if (expectedVersion === null) {
+      return this.putJSON(key, data, { 'If-None-Match': '*' })
+    }
+
+    const current = await this.getJSONWithETag<T>(key)
+    if (!current.data || current.data.version !== expectedVersion) return 'conflict'
+    if (!current.etag) {
+      console.error('[S3Storage] ETag header not readable, check that bucket CORS exposes ETag')
+      return 'error'
+    }
+    return this.putJSON(key, data, { 'If-Match': current.etag })
+  }
+
   private async deleteJSON(key: string): Promise<boolean> {
     try {
       const path = `/${key}`
@@ -248,7 +281,19 @@ export class S3Storage implements IGameStorage {
   }
 
   async saveRoom(room: RoomState): Promise<boolean> {
-    return this.putJSON(this.getRoomKey(room.id), room)
+    return (await this.putJSON(this.getRoomKey(room.id), room)) === 'ok'
+  }
+
+  async compareAndSwapRoom(room: RoomState, expectedVersion: number | null): Promise<RoomWriteResult> {
+    return this.compareAndSwapJSON(this.getRoomKey(room.id), room, expectedVersion)
+  }
+
+  async getRoomDirectory(): Promise<RoomDirectory | null> {
+    return this.getJSON<RoomDirectory>(this.directoryKey)
+  }
+
+  async compareAndSwapRoomDirectory(directory: RoomDirectory, expectedVersion: number | null): Promise<RoomWriteResult> {
+    return this.compareAndSwapJSON(this.directoryKey, directory, expectedVersion)
   }
 
   async deleteRoom(roomId: string): Promise<boolean> {
@@ -260,17 +305,20 @@ export class S3Storage implements IGameStorage {
       const testKey = `_test_${Date.now()}.json`
       const testData = { test: true, timestamp: Date.now() }
 
-      const writeOk = await this.putJSON(testKey, testData)
+      const writeOk = (await this.putJSON(testKey, testData)) === 'ok'
       if (!writeOk) {
         return { success: false, message: '写入测试失败，请检查密钥和权限' }
       }
 
-      const readData = await this.getJSON<typeof testData>(testKey)
-      if (!readData || readData.timestamp !== testData.timestamp) {
+      const read = await this.getJSONWithETag<typeof testData>(testKey)
+      if (!read.data || read.data.timestamp !== testData.timestamp) {
         return { success: false, message: '读取测试失败' }
       }
 
       await this.deleteJSON(testKey)
+      if (!read.etag) {
+        return { success: false, message: '读不到 ETag 响应头，请在存储桶 CORS 规则中暴露 ETag（ExposeHeaders: ETag）' }
+      }
       return { success: true, message: '连接成功！' }
     } catch (error) {
       return {
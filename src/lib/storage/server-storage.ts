@@ -0,0 +1,159 @@
+/**
+ * 本地服务器存储实现
+ * 通过 /api/storage 路由读写 wolfcha 服务器磁盘上的对象，局域网内联机与 CI 无需云存储
+ */
+
+import type { IGameStorage, StorageConfig, RoomState, RoomDirectory, RoomWriteResult, ConnectionTestResult } from './interface'
+
+/**
+ * wolfcha 服务器地址，endpoint 留空时请求当前站点
+ */
+export function resolveServerBaseUrl(endpoint: string): string {
+  const trimmed = endpoint.trim().replace(/\/+$/, '')
+  if (!trimmed) return ''
+  return /^https?:\/\//.test(trimmed) ? trimmed : `http://${trimmed}`
+}
+
+export class ServerStorage implements IGameStorage {
+  private config: StorageConfig
+  private roomPrefix = 'rooms/'
+
+  constructor(config: StorageConfig) {
+    this.config = config
+  }
+
+  private get baseUrl(): string {
+    return resolveServerBaseUrl(this.config.endpoint)
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.baseUrl}/api/storage/${key}?bucket=${encodeURIComponent(this.config.bucket)}`
+  }
+
+  // 服务器要求写入与删除携带口令，口令填在存储配置的 secretKey
+  private get secretHeader(): Record<string, string> {
+    return { 'X-Wolfcha-Storage-Secret': this.config.secretKey }
+  }
+
+  private getRoomKey(roomId: string): string {
+    return `${this.roomPrefix}${roomId}.json`
+  }
+
+  private get directoryKey(): string {
+    return `${this.roomPrefix}_directory.json`
+  }
+
+  private async getJSON<T>(key: string): Promise<T | null> {
+    return (await this.getJSONWithETag<T>(key)).data
+  }
+
+  private async getJSONWithETag<T>(key: string): Promise<{ data: T | null; etag: string | null }> {
+    try {
+      const res = await fetch(this.getPublicUrl(key), { method: 'GET', cache: 'no-store' })
+      if (!res.ok) {
+        if (res.status === 404) return { data: null, etag: null }
+        const text = await res.text()
+        console.error('[ServerStorage] GET error:', res.status, text)
+        throw new Error(`GET failed: ${res.status}`)
+      }
+      return { data: await res.json(), etag: res.headers.get('etag') }
+    } catch (error) {
+      console.error('[ServerStorage] getJSON error:', error)
+      return { data: null, etag: null }
+    }
+  }
+
+  private async putJSON(key: string, data: unknown, conditions: Record<string, string> = {}): Promise<RoomWriteResult> {
+    try {
+      const res = await fetch(this.getPublicUrl(key), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...this.secretHeader, ...conditions },
+        body: JSON.stringify(data),
+      })
+      if (res.status === 412) return 'conflict'
+      if (!res.ok) {
+        const text = await res.text()
+        console.error('[ServerStorage] PUT error:', res.status, text)
+        return 'error'
+      }
+      return 'ok'
+    } catch (error) {
+      console.error('[ServerStorage] putJSON error:', error)
+      return 'error'
+    }
+  }
+
+  /**
+   * 按 version 字段条件写入，expectedVersion 为 null 表示对象必须不存在
+   */
+  private async compareAndSwapJSON<T extends { version: number }>(key: string, data: T, expectedVersion: number | null): Promise<RoomWriteResult> {
+    if (expectedVersion === null) {
+      return this.putJSON(key, data, { 'If-None-Match': '*' })
+    }
+
+    const current = await this.getJSONWithETag<T>(key)
+    if (!current.data || current.data.version !== expectedVersion || !current.etag) return 'conflict'
+    return this.putJSON(key, data, { 'If-Match': current.etag })
+  }
+
+  private async deleteJSON(key: string): Promise<boolean> {
+    try {
+      const res = await fetch(this.getPublicUrl(key), { method: 'DELETE', headers: this.secretHeader })
+      return res.ok || res.status === 404
+    } catch (error) {
+      console.error('[ServerStorage] delete error:', error)
+      return false
+    }
+  }
+
+  // ============ IGameStorage 接口实现 ============
+
+  async getRoom(roomId: string): Promise<RoomState | null> {
+    return this.getJSON<RoomState>(this.getRoomKey(roomId))
+  }
+
+  async saveRoom(room: RoomState): Promise<boolean> {
+    return (await this.putJSON(this.getRoomKey(room.id), room)) === 'ok'
+  }
+
+  async compareAndSwapRoom(room: RoomState, expectedVersion: number | null): Promise<RoomWriteResult> {
+    return this.compareAndSwapJSON(this.getRoomKey(room.id), room, expectedVersion)
+  }
+
+  async getRoomDirectory(): Promise<RoomDirectory | null> {
+    return this.getJSON<RoomDirectory>(this.directoryKey)
+  }
+
+  async compareAndSwapRoomDirectory(directory: RoomDirectory, expectedVersion: number | null): Promise<RoomWriteResult> {
+    return this.compareAndSwapJSON(this.directoryKey, directory, expectedVersion)
+  }
+
+  async deleteRoom(roomId: string): Promise<boolean> {
+    return this.deleteJSON(this.getRoomKey(roomId))
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const testKey = `_test_${Date.now()}.json`
+      const testData = { test: true, timestamp: Date.now() }
+
+      const writeOk = (await this.putJSON(testKey, testData)) === 'ok'
+      if (!writeOk) {
+        return { success: false, message: '写入测试失败，请检查服务器地址与存储口令，并确认服务器已开启本地存储' }
+      }
+
+      const readData = await this.getJSON<typeof testData>(testKey)
+      if (!readData || readData.timestamp !== testData.timestamp) {
+        return { success: false, message: '读取测试失败' }
+      }
+
+      await this.deleteJSON(testKey)
+      return { success: true, message: '连接成功！' }
+    } catch (error) {
+      return {
+        success: false,
+        message: `连接失败: ${error instanceof Error ? error.message : '未知错误'}`,
+      }
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSeededRandom, type RandomSource } from "@/lib/game-rng";
+import { StreamingSpeechParser } from "@/lib/streaming-speech-parser";
+
+const PAYLOADS: Array<{ name: string; raw: string; expected: string[] }> = [
+  {
+    name: "字符串数组",
+    raw: JSON.stringify([
+      "我是预言家，昨晚查验了3号是狼人。",
+      "请大家今天跟我的票，把3号放逐出局。",
+      "警徽流先验5号再验8号，有问题吗？",
+    ]),
+    expected: [
+      "我是预言家，昨晚查验了3号是狼人。",
+      "请大家今天跟我的票，把3号放逐出局。",
+      "警徽流先验5号再验8号，有问题吗？",
+    ],
+  },
+  {
+    name: "包含转义引号与换行",
+    raw: JSON.stringify(['他说"我是好人"，但是逻辑有问题。', "第一行内容\n第二行内容在这里"]),
+    expected: ['他说"我是好人"，但是逻辑有问题。', "第一行内容\n第二行内容在这里"],
+  },
+  {
+    name: "包裹在 markdown 代码块中",
+    raw: '```json\n["这一轮我先听听大家的发言。", "目前我倾向于相信6号的身份。"]\n```',
+    expected: ["这一轮我先听听大家的发言。", "目前我倾向于相信6号的身份。"],
+  },
+  {
+    name: "每行一个数组",
+    raw: '["第一段发言：我是平民。"]\n["第二段发言：我会跟警长的票。"]',
+    expected: ["第一段发言：我是平民。", "第二段发言：我会跟警长的票。"],
+  },
+];
+
+/** 把文本随机切成 1-8 个字符的小块，模拟流式返回 */
+function splitIntoChunks(raw: string, rng: RandomSource): string[] {
+  const chunks: string[] = [];
+  let index = 0;
+  while (index < raw.length) {
+    const size = 1 + rng.int(8);
+    chunks.push(raw.slice(index, index + size));
+    index += size;
+  }
+  return chunks;
+}
+
+function parseInChunks(chunks: string[], rng?: RandomSource) {
+  const received: Array<{ segment: string; index: number }> = [];
+  const parser = new StreamingSpeechParser({
+    onSegmentReceived: (segment, index) => received.push({ segment, index }),
+  });
+  for (const chunk of chunks) {
+    parser.processChunk(chunk);
+    // 随机推进时间，让防抖解析在流的任意位置触发
+    vi.advanceTimersByTime(rng ? rng.int(100) : 100);
+  }
+  const segments = parser.end();
+  return { segments, received };
+}
+
+describe("StreamingSpeechParser", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each(PAYLOADS)("一次性输入：$name", ({ raw, expected }) => {
+    const { segments, received } = parseInChunks([raw]);
+    expect(segments).toEqual(expected);
+    expect(received.map((r) => r.segment)).toEqual(expected);
+  });
+
+  it.each(PAYLOADS)("随机切块输入：$name", ({ name, raw, expected }) => {
+    const rng = createSeededRandom(`speech-parser:${name}`);
+    for (let round = 0; round < 200; round++) {
+      const { segments, received } = parseInChunks(splitIntoChunks(raw, rng), rng);
+      expect(segments).toEqual(expected);
+      // 增量输出不能出现半截段落或重复，序号连续
+      expect(received.map((r) => r.segment)).toEqual(expected);
+      expect(received.map((r) => r.index)).toEqual(expected.map((_, i) => i));
+    }
+  });
+
+  it("逐字输入时段落在闭合后立即输出", () => {
+    const raw = PAYLOADS[0].raw;
+    const received: string[] = [];
+    const parser = new StreamingSpeechParser({ onSegmentReceived: (segment) => received.push(segment) });
+    const firstEnd = raw.indexOf('",') + 1;
+    for (const ch of raw.slice(0, firstEnd)) parser.processChunk(ch);
+    vi.advanceTimersByTime(100);
+    expect(received).toEqual([PAYLOADS[0].expected[0]]);
+    parser.end();
+  });
+
+  it("对象数组只输出发言内容，不输出键名与说话人", () => {
+    const raw = JSON.stringify([
+      { speaker: "3号", message: "我觉得5号的发言有点问题。" },
+      { speaker: "3号", message: "今天我会把票投给5号。" },
+    ]);
+    const rng = createSeededRandom("speech-parser:objects");
+    for (let round = 0; round < 50; round++) {
+      const { segments } = parseInChunks(splitIntoChunks(raw, rng), rng);
+      expect(segments).toEqual(["我觉得5号的发言有点问题。", "今天我会把票投给5号。"]);
+    }
+  });
+
+  it("reset 后重新开始解析", () => {
+    const parser = new StreamingSpeechParser();
+    parser.processChunk(PAYLOADS[0].raw);
+    expect(parser.end()).toHaveLength(3);
+    parser.reset();
+    expect(parser.getSegmentCount()).toBe(0);
+    parser.processChunk(PAYLOADS[1].raw);
+    expect(parser.end()).toEqual(PAYLOADS[1].expected);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * 回合限时
+ * 真人玩家每类回合的限时与超时后的处理：弃权 / 跳过，或交给 AI 代为决策
+ */
+
+import type { Phase } from "@/types/game";
+
+export type TurnKind = "speech" | "vote" | "nightAction" | "lastWords" | "hunterShot" | "badgeTransfer";
+
+export type TurnFallback = "abstain" | "skip" | "ai";
+
+export interface TurnTimerConfig {
+  enabled: boolean;
+  /** 各类回合的限时（秒），0 表示不限时 */
+  durations: Record<TurnKind, number>;
+  fallbacks: Record<TurnKind, TurnFallback>;
+}
+
+export const TURN_KINDS: TurnKind[] = ["speech", "vote", "nightAction", "lastWords", "hunterShot", "badgeTransfer"];
+
+export const TURN_KIND_LABELS: Record<TurnKind, string> = {
+  speech: "发言",
+  vote: "投票 / 上警",
+  nightAction: "夜间行动",
+  lastWords: "遗言",
+  hunterShot: "猎人开枪",
+  badgeTransfer: "移交警徽",
+};
+
+export const TURN_FALLBACK_LABELS: Record<TurnFallback, string> = {
+  abstain: "弃权",
+  skip: "跳过",
+  ai: "AI 代为决策",
+};
+
+/** 各类回合可选的超时处理，第一项为默认 */
+export const TURN_FALLBACK_OPTIONS: Record<TurnKind, TurnFallback[]> = {
+  speech: ["skip", "ai"],
+  vote: ["abstain", "ai"],
+  nightAction: ["skip", "ai"],
+  lastWords: ["skip", "ai"],
+  hunterShot: ["skip", "ai"],
+  badgeTransfer: ["skip", "ai"],
+};
+
+export const MAX_TURN_SECONDS = 600;
+
+// 单机默认关闭，联机房间默认开启（见 createDefaultSeatConfig）
+export const DEFAULT_TURN_TIMER_CONFIG: TurnTimerConfig = {
+  enabled: false,
+  durations: {
+    speech: 120,
+    vote: 45,
+    nightAction: 45,
+    lastWords: 60,
+    hunterShot: 30,
+    badgeTransfer: 30,
+  },
+  fallbacks: {
+    speech: "skip",
+    vote: "abstain",
+    nightAction: "ai",
+    lastWords: "skip",
+    hunterShot: "skip",
+    badgeTransfer: "skip",
+  },
+};
+
+/**
+ * 阶段对应的回合类型，不需要真人决策的阶段返回 null
+ */
+export function getTurnKind(phase: Phase): TurnKind | null {
+  switch (phase) {
+    case "DAY_SPEECH":
+    case "DAY_BADGE_SPEECH":
+    case "DAY_PK_SPEECH":
+      return "speech";
+    case "DAY_LAST_WORDS":
+      return "lastWords";
+    case "DAY_VOTE":
+    case "DAY_BADGE_SIGNUP":
+    case "DAY_BADGE_ELECTION":
+      return "vote";
+    case "NIGHT_GUARD_ACTION":
+    case "NIGHT_WOLF_ACTION":
+    case "NIGHT_WITCH_ACTION":
+    case "NIGHT_SEER_ACTION":
+      return "nightAction";
+    case "HUNTER_SHOOT":
+      return "hunterShot";
+    case "BADGE_TRANSFER":
+      return "badgeTransfer";
+    default:
+      return null;
+  }
+}
+
+/**
+ * 阶段的限时（毫秒）与超时处理，未启用或该类回合不限时返回 null
+ */
+export function getTurnLimit(
+  config: TurnTimerConfig | undefined,
+  phase: Phase
+): { kind: TurnKind; ms: number; fallback: TurnFallback } | null {
+  const kind = getTurnKind(phase);
+  if (!config?.enabled || !kind) return null;
+  const seconds = config.durations[kind];
+  if (!(seconds > 0)) return null;
+  return { kind, ms: seconds * 1000, fallback: config.fallbacks[kind] };
+}
+
+/**
+ * 校验并补全（如从 localStorage 读取的）配置
+ */
+export function normalizeTurnTimerConfig(value: Partial<TurnTimerConfig> | null | undefined): TurnTimerConfig {
+  const durations = { ...DEFAULT_TURN_TIMER_CONFIG.durations };
+  const fallbacks = { ...DEFAULT_TURN_TIMER_CONFIG.fallbacks };
+  for (const kind of TURN_KINDS) {
+    const seconds = value?.durations?.[kind];
+    if (typeof seconds === "number" && Number.isFinite(seconds)) {
+      durations[kind] = Math.min(MAX_TURN_SECONDS, Math.max(0, Math.round(seconds)));
+    }
+    const fallback = value?.fallbacks?.[kind];
+    if (fallback && TURN_FALLBACK_OPTIONS[kind].includes(fallback)) {
+      fallbacks[kind] = fallback;
+    }
+  }
+  return {
+    enabled: typeof value?.enabled === "boolean" ? value.enabled : DEFAULT_TURN_TIMER_CONFIG.enabled,
+    durations,
+    fallbacks,
+  };
+}
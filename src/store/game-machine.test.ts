@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { Phase } from "@/types/game";
+import { DEFAULT_GAME_RULES } from "@/lib/game-rules";
+import { getNextNightPhase, isValidTransition } from "@/store/game-machine";
+import { makeState } from "@/test/game-state";
+
+describe("isValidTransition", () => {
+  const allowed: Array<[Phase, Phase]> = [
+    ["LOBBY", "SETUP"],
+    ["NIGHT_START", "NIGHT_GUARD_ACTION"],
+    ["NIGHT_SEER_ACTION", "NIGHT_RESOLVE"],
+    ["NIGHT_RESOLVE", "DAY_START"],
+    ["DAY_START", "DAY_BADGE_SIGNUP"],
+    ["DAY_START", "DAY_SPEECH"],
+    ["DAY_BADGE_ELECTION", "DAY_PK_SPEECH"],
+    ["DAY_PK_SPEECH", "DAY_VOTE"],
+    ["DAY_VOTE", "DAY_RESOLVE"],
+    ["DAY_RESOLVE", "DAY_PK_SPEECH"],
+    ["DAY_RESOLVE", "DAY_LAST_WORDS"],
+    ["DAY_LAST_WORDS", "BADGE_TRANSFER"],
+    ["BADGE_TRANSFER", "HUNTER_SHOOT"],
+    ["HUNTER_SHOOT", "GAME_END"],
+    ["GAME_END", "LOBBY"],
+  ];
+  const rejected: Array<[Phase, Phase]> = [
+    ["LOBBY", "DAY_VOTE"],
+    ["NIGHT_START", "NIGHT_WITCH_ACTION"],
+    ["NIGHT_WITCH_ACTION", "NIGHT_GUARD_ACTION"],
+    ["DAY_SPEECH", "DAY_RESOLVE"],
+    ["DAY_VOTE", "NIGHT_START"],
+    ["GAME_END", "NIGHT_START"],
+  ];
+
+  it.each(allowed)("允许 %s -> %s", (from, to) => {
+    expect(isValidTransition(from, to)).toBe(true);
+    expect(isValidTransition(from, to, DEFAULT_GAME_RULES)).toBe(true);
+  });
+
+  it.each(rejected)("拒绝 %s -> %s", (from, to) => {
+    expect(isValidTransition(from, to)).toBe(false);
+  });
+
+  it("无警长模式拒绝进入警长相关阶段", () => {
+    const rules = { ...DEFAULT_GAME_RULES, sheriffMode: "none" as const };
+    expect(isValidTransition("DAY_START", "DAY_BADGE_SIGNUP", rules)).toBe(false);
+    expect(isValidTransition("DAY_LAST_WORDS", "BADGE_TRANSFER", rules)).toBe(false);
+    expect(isValidTransition("DAY_START", "DAY_SPEECH", rules)).toBe(true);
+    expect(isValidTransition("DAY_RESOLVE", "DAY_PK_SPEECH", rules)).toBe(true);
+  });
+});
+
+describe("getNextNightPhase", () => {
+  it("全员存活时按守卫、狼人、女巫、预言家的顺序", () => {
+    const state = makeState({ phase: "NIGHT_START" });
+    const order: Phase[] = [];
+    let phase: Phase = "NIGHT_START";
+    while (phase !== "NIGHT_RESOLVE") {
+      phase = getNextNightPhase(phase, state);
+      order.push(phase);
+    }
+    expect(order).toEqual(["NIGHT_GUARD_ACTION", "NIGHT_WOLF_ACTION", "NIGHT_WITCH_ACTION", "NIGHT_SEER_ACTION", "NIGHT_RESOLVE"]);
+  });
+
+  it("跳过出局的守卫", () => {
+    expect(getNextNightPhase("NIGHT_START", makeState({ deadSeats: [0] }))).toBe("NIGHT_WOLF_ACTION");
+  });
+
+  it("女巫两瓶药都用完时跳过", () => {
+    const state = makeState({ roleAbilities: { witchHealUsed: true, witchPoisonUsed: true } });
+    expect(getNextNightPhase("NIGHT_WOLF_ACTION", state)).toBe("NIGHT_SEER_ACTION");
+  });
+
+  it("女巫还有一瓶药时照常行动", () => {
+    const state = makeState({ roleAbilities: { witchHealUsed: true } });
+    expect(getNextNightPhase("NIGHT_WOLF_ACTION", state)).toBe("NIGHT_WITCH_ACTION");
+  });
+
+  it("连续跳过多个缺席的角色", () => {
+    expect(getNextNightPhase("NIGHT_WOLF_ACTION", makeState({ deadSeats: [1, 4] }))).toBe("NIGHT_RESOLVE");
+  });
+
+  it("板子中没有的角色不行动", () => {
+    const state = makeState({ roles: ["Werewolf", "Villager", "Seer", "Villager"] });
+    expect(getNextNightPhase("NIGHT_START", state)).toBe("NIGHT_WOLF_ACTION");
+    expect(getNextNightPhase("NIGHT_WOLF_ACTION", state)).toBe("NIGHT_SEER_ACTION");
+  });
+
+  it("未知阶段与结算阶段之后都进入结算", () => {
+    expect(getNextNightPhase("DAY_VOTE", makeState())).toBe("NIGHT_RESOLVE");
+    expect(getNextNightPhase("NIGHT_RESOLVE", makeState())).toBe("NIGHT_RESOLVE");
+  });
+});
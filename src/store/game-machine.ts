@@ -5,14 +5,21 @@
 
 import { atom } from "jotai";
 import { atomWithStorage } from "jotai/utils";
-import type { GameState, Phase, Player, Role } from "@/types/game";
+import type { GameRules, GameState, Phase, Player, Role } from "@/types/game";
 import { createInitialGameState } from "@/lib/game-master";
 import { getI18n } from "@/i18n/translator";
+import { roleRegistry } from "@/game/core/RoleRegistry";
+import { DEFAULT_TURN_TIMER_CONFIG, type TurnTimerConfig } from "@/lib/turn-timer";
+import { DEFAULT_GAME_RULES, getGameRules } from "@/lib/game-rules";
 
 // ============ 基础状态 Atoms ============
 
 // 持久化存储
 export const humanNameAtom = atomWithStorage("wolfcha_human_name", "");
+// 单机回合限时，读取时需经 normalizeTurnTimerConfig 补全旧版本的数据
+export const turnTimerConfigAtom = atomWithStorage<TurnTimerConfig>("wolfcha_turn_timers", DEFAULT_TURN_TIMER_CONFIG);
+// 单机开局房规，读取时需经 normalizeGameRules 补全
+export const gameRulesAtom = atomWithStorage<GameRules>("wolfcha_game_rules", DEFAULT_GAME_RULES);
 export const apiKeyConfirmedAtom = atom(false);
 
 // 游戏核心状态
@@ -497,10 +504,15 @@ export const VALID_TRANSITIONS: Record<Phase, Phase[]> = {
   GAME_END: ["LOBBY"], // 允许重新开始
 };
 
+// 警长相关阶段，无警长模式下不可进入
+const SHERIFF_PHASES: Phase[] = ["DAY_BADGE_SIGNUP", "DAY_BADGE_SPEECH", "DAY_BADGE_ELECTION", "BADGE_TRANSFER"];
+
 /**
  * 检查阶段转换是否有效
+ * @param rules 本局房规；传入时按警长模式排除警长相关阶段
  */
-export function isValidTransition(from: Phase, to: Phase): boolean {
+export function isValidTransition(from: Phase, to: Phase, rules?: GameRules): boolean {
+  if (rules?.sheriffMode === "none" && SHERIFF_PHASES.includes(to)) return false;
   const validTargets = VALID_TRANSITIONS[from];
   return validTargets?.includes(to) ?? false;
 }
@@ -515,7 +527,7 @@ export const safeTransitionAtom = atom(
     const currentState = get(gameStateAtom);
     const currentPhase = currentState.phase;
     
-    if (!isValidTransition(currentPhase, nextPhase)) {
+    if (!isValidTransition(currentPhase, nextPhase, getGameRules(currentState))) {
       const error = `Invalid phase transition: ${currentPhase} -> ${nextPhase}`;
       if (process.env.NODE_ENV === "development") {
         console.error(error);
@@ -540,69 +552,32 @@ export const roleNeedsActionAtom = atom((get) => {
   const gameState = get(gameStateAtom);
   
   return (role: Role): boolean => {
-    const player = gameState.players.find(p => p.role === role && p.alive);
-    if (!player) return false;
-    
-    switch (role) {
-      case "Guard":
-        return true; // 守卫每晚都可以行动
-      case "Werewolf":
-        return true; // 狼人每晚都要行动
-      case "Witch":
-        return !gameState.roleAbilities.witchHealUsed || !gameState.roleAbilities.witchPoisonUsed;
-      case "Seer":
-        return true; // 预言家每晚都可以查验
-      case "Hunter":
-        return false; // 猎人不在夜晚行动
-      default:
-        return false;
-    }
+    // 没有夜间步骤的角色（猎人、村民等）夜晚无需行动
+    const step = roleRegistry.getNightSteps().find((s) => s.role === role);
+    if (!step) return false;
+    return roleRegistry.isNightStepActive(gameState, step);
   };
 });
 
 /**
  * 获取下一个夜晚阶段
+ * 行动顺序由角色注册表中各角色声明的 night.order 决定
  */
 export function getNextNightPhase(currentPhase: Phase, gameState: GameState): Phase {
-  const phaseOrder: Phase[] = [
-    "NIGHT_START",
-    "NIGHT_GUARD_ACTION", 
-    "NIGHT_WOLF_ACTION",
-    "NIGHT_WITCH_ACTION",
-    "NIGHT_SEER_ACTION",
-    "NIGHT_RESOLVE",
-  ];
+  const steps = roleRegistry.getNightSteps();
+  const phaseOrder: Phase[] = ["NIGHT_START", ...steps.map((s) => s.phase), "NIGHT_RESOLVE"];
   
   const currentIndex = phaseOrder.indexOf(currentPhase);
   if (currentIndex === -1 || currentIndex === phaseOrder.length - 1) {
     return "NIGHT_RESOLVE";
   }
   
-  // 检查下一个阶段是否需要执行
   const nextPhase = phaseOrder[currentIndex + 1];
   
-  // 如果该阶段的角色不存在或已死亡，跳过
-  const roleForPhase: Record<string, Role> = {
-    NIGHT_GUARD_ACTION: "Guard",
-    NIGHT_WOLF_ACTION: "Werewolf",
-    NIGHT_WITCH_ACTION: "Witch",
-    NIGHT_SEER_ACTION: "Seer",
-  };
-  
-  const requiredRole = roleForPhase[nextPhase];
-  if (requiredRole) {
-    const hasAliveRole = gameState.players.some(p => p.role === requiredRole && p.alive);
-    if (!hasAliveRole) {
-      // 递归跳到下一个阶段
-      return getNextNightPhase(nextPhase, gameState);
-    }
-    
-    // 女巫特殊检查：两瓶药都用完则跳过
-    if (requiredRole === "Witch") {
-      if (gameState.roleAbilities.witchHealUsed && gameState.roleAbilities.witchPoisonUsed) {
-        return getNextNightPhase(nextPhase, gameState);
-      }
-    }
+  // 如果该阶段的角色不存在、已死亡或无法行动（如女巫两瓶药用完），跳过
+  const step = roleRegistry.getNightStep(nextPhase);
+  if (step && !roleRegistry.isNightStepActive(gameState, step)) {
+    return getNextNightPhase(nextPhase, gameState);
   }
   
   return nextPhase;
@@ -44,6 +44,13 @@ export const isHostAtom = atom((get) => {
   return room?.hostId === playerId
 })
 
+// 是否以观战者身份进入房间
+export const isSpectatorAtom = atom((get) => {
+  const room = get(roomStateAtom)
+  const playerId = get(multiplayerPlayerIdAtom)
+  return room?.spectators?.some(s => s.id === playerId) ?? false
+})
+
 // 房间 ID
 export const roomIdAtom = atom((get) => {
   const room = get(roomStateAtom)
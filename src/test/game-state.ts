@@ -0,0 +1,15 @@
+import type { GameState } from "@/types/game";
+import { buildFixtureState, STANDARD_ROLES, type GameFixture } from "@/game/fixtures";
+
+/** 按场景格式快速构造对局状态，默认 10 人标准板子、第 1 天投票阶段；votes 按座位填写 */
+export function makeState(overrides: Partial<GameFixture> = {}): GameState {
+  return buildFixtureState({
+    id: "test",
+    name: "test",
+    description: "",
+    roles: STANDARD_ROLES,
+    phase: "DAY_VOTE",
+    ...overrides,
+  });
+}
+
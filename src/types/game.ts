@@ -1,10 +1,10 @@
-export type Role = "Villager" | "Werewolf" | "Seer" | "Witch" | "Hunter" | "Guard";
+export type Role = "Villager" | "Werewolf" | "Seer" | "Witch" | "Hunter" | "Guard" | "Idiot";
 
 export type DifficultyLevel = "easy" | "normal" | "hard";
 
 export type SpeechDirection = "clockwise" | "counterclockwise";
 
-export type DevPreset = "MILK_POISON_TEST" | "LAST_WORDS_TEST";
+export type DevPreset = "MILK_POISON_TEST" | "LAST_WORDS_TEST" | "HUNTER_POISONED" | "SHERIFF_DEATH" | "DOUBLE_PK_TIE";
 
 export interface CustomCharacterData {
   id: string;
@@ -24,7 +24,12 @@ export interface StartGameOptions {
   playerCount?: number;
   isGenshinMode?: boolean;
   isSpectatorMode?: boolean;
+  /** 练习模式：允许回到上一晚重来 */
+  isPracticeMode?: boolean;
   customCharacters?: CustomCharacterData[];
+  /** 随机种子；相同种子下开局与平票随机结果一致 */
+  seed?: string;
+  rules?: GameRules;
 }
 
 export type Phase =
@@ -58,8 +63,11 @@ export type Alignment = "village" | "wolf";
    rolesHint: string;
  }
 
+/** 模型服务商，与 api-config 中 API_PROVIDERS 的 id 对应，决定该座位请求哪个接口 */
+export type ModelProvider = "zenmux" | "dashscope" | "weapis" | "deepseek" | "siliconflow" | "openai" | "custom";
+
 export interface ModelRef {
-  provider: "zenmux" | "dashscope";
+  provider: ModelProvider;
   model: string;
   /** Override call-time temperature for this model (e.g. some models only support 1) */
   temperature?: number;
@@ -108,6 +116,7 @@ export type GameEventType =
   | "NIGHT_ACTION"
   | "VOTE_CAST"
   | "PLAYER_DIED"
+  | "WOLF_CHAT"
   | "GAME_END";
 
 export interface GameEvent {
@@ -119,6 +128,14 @@ export interface GameEvent {
   payload: unknown;
 }
 
+/** 狼队夜聊（WOLF_CHAT 事件的 payload），只对狼人可见 */
+export interface WolfChatPayload {
+  day: number;
+  seat: number;
+  playerId: string;
+  content: string;
+}
+
 export interface ChatMessage {
   id: string;
   playerId: string;
@@ -132,6 +149,30 @@ export interface ChatMessage {
   isLastWords?: boolean;  // Flag for last words (遗言) messages
 }
 
+/**
+ * 狼人胜利条件
+ * - parity：存活狼人数量不少于存活好人时狼人胜利（屠城）
+ * - side_kill：神职或平民任意一边全部出局时狼人胜利（屠边）
+ */
+export type WinConditionRule = "parity" | "side_kill";
+
+/** 女巫能否对自己使用解药 */
+export type WitchSelfSaveRule = "always" | "first_night" | "never";
+
+/** 警长：首日竞选 / 警长出局后次日重新竞选（不移交警徽）/ 无警长 */
+export type SheriffMode = "day_one" | "reelect" | "none";
+
+/** 房规，见 lib/game-rules */
+export interface GameRules {
+  winCondition: WinConditionRule;
+  /** 放逐投票中警长的票数 */
+  sheriffVoteWeight: number;
+  /** 守卫与女巫同守同救一人时该玩家仍然死亡（奶穿） */
+  guardWitchSameTargetDies: boolean;
+  witchSelfSave: WitchSelfSaveRule;
+  sheriffMode: SheriffMode;
+}
+
 export interface GameState {
   gameId: string;
   phase: Phase;
@@ -139,9 +180,16 @@ export interface GameState {
   devMutationId?: number;
   devPhaseJump?: { to: Phase; ts: number };
   isPaused?: boolean;
+  /** 联机时本机玩家自己的回合截止时间（毫秒时间戳），按 playerId；只出现在各玩家的私有视角中 */
+  turnDeadlines?: Record<string, number>;
   scenario?: GameScenario;
   isGenshinMode?: boolean;
   isSpectatorMode?: boolean;
+  isPracticeMode?: boolean;
+  /** 本局随机种子，用于复现对局 */
+  seed?: string;
+  /** 本局房规，旧存档没有该字段时使用默认房规 */
+  rules?: GameRules;
   difficulty: DifficultyLevel;
   players: Player[];
   events: GameEvent[];
@@ -206,6 +254,7 @@ export interface GameState {
     witchHealUsed: boolean;      // 女巫解药是否已用
     witchPoisonUsed: boolean;    // 女巫毒药是否已用
     hunterCanShoot: boolean;     // 猎人是否能开枪（被毒死不能开枪）
+    idiotRevealed?: boolean;     // 白痴是否已被放逐翻牌（翻牌后失去投票权）
   };
   winner: Alignment | null;
 }